@@ -5,7 +5,8 @@
  * Provides target positions for all 15 players.
  */
 
-import { PITCH } from '../utils/Constants';
+import { PITCH, POSITION_COVER } from '../utils/Constants';
+import type { Position } from '../utils/Constants';
 
 export const FormationType = {
   STANDARD: 'STANDARD',
@@ -108,8 +109,10 @@ export class FormationManager {
   /**
    * Get all target positions for the team.
    * Efficiently returns a map of Position -> {x, y}.
+   * @param missing Positions with nobody on the field — each one's first
+   *   available cover shifts halfway across to close the gap
    */
-  getAllPositions(side: 'home' | 'away'): Map<number, { x: number; y: number }> {
+  getAllPositions(side: 'home' | 'away', missing: readonly Position[] = []): Map<number, { x: number; y: number }> {
     const map = new Map<number, { x: number; y: number }>();
     const formation = FORMATIONS[this.currentFormation];
     
@@ -130,6 +133,15 @@ export class FormationManager {
       }
       map.set(i, { x, y });
     }
+
+    for (const pos of missing) {
+      const gap = map.get(pos);
+      const cover = POSITION_COVER[pos].find(c => !missing.includes(c));
+      const target = cover !== undefined ? map.get(cover) : undefined;
+      if (!gap || !target) continue;
+      target.x = (target.x + gap.x) / 2;
+      target.y = (target.y + gap.y) / 2;
+    }
     return map;
   }
 
@@ -2,15 +2,15 @@
  * PlayerAI — FSM-driven AI for individual player behavior.
  *
  * States: IDLE, SUPPORT_ATTACK, CARRY_BALL, DEFEND, CHASE_BALL,
- *         TACKLE, RUCK_BIND, RETURN_POSITION, SET_PIECE, CELEBRATE
+ *         TACKLE, RUCK_BIND, RETURN_POSITION, RETURN_ONSIDE, SET_PIECE, CELEBRATE
  */
 
-import Phaser from 'phaser';
 import { FSM } from './FSM';
 import type { Player } from '../entities/Player';
 import type { Ball } from '../entities/Ball';
 import { pursue, interpose } from './SteeringBehaviors';
 import { PLAYER, PITCH } from '../utils/Constants';
+import { distance } from '../utils/MathHelpers';
 import { EventBus } from '../utils/EventBus';
 
 export interface PlayerAIContext {
@@ -28,8 +28,20 @@ export interface PlayerAIContext {
 export class PlayerAI {
   private fsm: FSM<PlayerAIContext>;
   private context: PlayerAIContext;
+  private onTeamOrder = (data: { playerId: string; order: 'KICK' | 'PASS' }) => {
+    if (this.context.player.id !== data.playerId) return;
+    if (data.order === 'KICK') {
+      this.fsm.forceState('KICKING');
+    } else if (data.order === 'PASS') {
+      this.fsm.forceState('PASSING');
+    }
+  };
 
-  constructor(player: Player, ball: Ball) {
+  /**
+   * @param takeOrders Carry out TeamAI kick/pass orders — off when the scene
+   *                   only uses the AI to steer (e.g. back onside)
+   */
+  constructor(player: Player, ball: Ball, takeOrders: boolean = true) {
     this.context = {
       player,
       ball,
@@ -169,7 +181,7 @@ export class PlayerAI {
           
           // const dx = tm.sprite.x - myX;
           // const dy = tm.sprite.y - myY;
-          const dist = Phaser.Math.Distance.Between(myX, myY, tm.sprite.x, tm.sprite.y);
+          const dist = distance({ x: myX, y: myY }, { x: tm.sprite.x, y: tm.sprite.y });
           
           // Rule 1: Must be behind ball (rugby law)
           // Home attacking right -> Receiver must be to the left (x < myX)
@@ -190,6 +202,7 @@ export class PlayerAI {
 
         if (bestReceiver) {
            ctx.ball.passTo(ctx.player, bestReceiver);
+           EventBus.emit('ballPassed', { passerId: ctx.player.id, receiverId: bestReceiver.id });
         } else {
            // No receiver? carry on or kick?
            // Transition back to CARRY via update
@@ -204,15 +217,7 @@ export class PlayerAI {
     });
 
     // Listen for Team Orders
-    EventBus.on('teamOrder', (data: { playerId: string; order: 'KICK' | 'PASS' }) => {
-       if (this.context.player.id === data.playerId) {
-          if (data.order === 'KICK') {
-             this.fsm.forceState('KICKING');
-          } else if (data.order === 'PASS') {
-             this.fsm.forceState('PASSING');
-          }
-       }
-    });
+    if (takeOrders) EventBus.on('teamOrder', this.onTeamOrder);
 
     this.fsm.addState({
       name: 'KICKING',
@@ -226,7 +231,7 @@ export class PlayerAI {
          const targetY = (ctx.player.sprite.y < PITCH.HEIGHT_PX / 2) ? 0 : PITCH.HEIGHT_PX;
          
          // Distance to target
-         const dist = Phaser.Math.Distance.Between(ctx.player.sprite.x, ctx.player.sprite.y, targetX, targetY);
+         const dist = distance({ x: ctx.player.sprite.x, y: ctx.player.sprite.y }, { x: targetX, y: targetY });
          const power = Math.min(1.0, dist / 400); // 400px reference kick
          
          ctx.ball.kickWithType(
@@ -239,6 +244,7 @@ export class PlayerAI {
             true, // Bounces
             15 // Deviation
          );
+         EventBus.emit('ballKicked', { kickerId: ctx.player.id, type: 'touch', power });
       },
       update: (_ctx) => {
          // Ball is gone, transition via generic rules
@@ -253,7 +259,7 @@ export class PlayerAI {
          const ballY = ctx.ball.sprite.y;
          
          // If close, stop and push (simulated by RuckSystem/MaulSystem?)
-         const dist = Phaser.Math.Distance.Between(ctx.player.sprite.x, ctx.player.sprite.y, ballX, ballY);
+         const dist = distance({ x: ctx.player.sprite.x, y: ctx.player.sprite.y }, { x: ballX, y: ballY });
          
          if (dist > 30) {
             ctx.player.moveToward(ballX, ballY, 0.6);
@@ -312,6 +318,8 @@ export class PlayerAI {
     this.fsm.addTransition({ from: 'DEFEND', to: 'RETURN_ONSIDE', condition: isOffside, priority: 11 });
     this.fsm.addTransition({ from: 'IDLE', to: 'RETURN_ONSIDE', condition: isOffside, priority: 11 });
     this.fsm.addTransition({ from: 'RETURN_POSITION', to: 'RETURN_ONSIDE', condition: isOffside, priority: 11 });
+    this.fsm.addTransition({ from: 'SUPPORT_ATTACK', to: 'RETURN_ONSIDE', condition: isOffside, priority: 11 });
+    this.fsm.addTransition({ from: 'CHASE_BALL', to: 'RETURN_ONSIDE', condition: isOffside, priority: 11 });
 
     // → IDLE from RETURN_ONSIDE when safe
     this.fsm.addTransition({ from: 'RETURN_ONSIDE', to: 'IDLE', condition: ctx => !isOffside(ctx), priority: 1 });
@@ -404,4 +412,9 @@ export class PlayerAI {
   getState(): string {
     return this.fsm.getCurrentStateName();
   }
+
+  /** Stop listening for team orders (call when the match is torn down) */
+  destroy(): void {
+    EventBus.off('teamOrder', this.onTeamOrder);
+  }
 }
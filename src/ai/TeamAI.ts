@@ -6,14 +6,28 @@
  */
 
 import { FormationManager, FormationType } from './FormationManager';
-import { AI, PITCH, DIFFICULTY } from '../utils/Constants';
+import { AI, PITCH, DIFFICULTY, MATCH, Position, LINEOUT, SCRUM, MAUL } from '../utils/Constants';
 import type { DifficultyConfig } from '../utils/Constants';
+import { RNG } from '../utils/Random';
 import type { Team } from '../entities/Team';
 import type { Ball } from '../entities/Ball';
 import { EventBus } from '../utils/EventBus';
+import type { ShortRestartOption } from '../systems/KickoffSystem';
+import type { LineoutSystem, LineoutPlay } from '../systems/LineoutSystem';
+import type { ScrumSystem, ScrumOption } from '../systems/ScrumSystem';
+import type { MaulSystem } from '../systems/MaulSystem';
+import type { PenaltyOption } from '../systems/PenaltySystem';
 
 export type PlayCall = 'CRASH_BALL' | 'SKIP_PASS' | 'SWITCH' | 'LOOP' | 'INSIDE_BALL' | 'KICK' | 'BOX_KICK' | 'GRUBBER' | 'DROP_GOAL_ATTEMPT';
 
+/** Where the penalty was given */
+export interface PenaltySituation {
+  x: number;
+  y: number;
+  /** Free kicks cannot be kicked at goal */
+  freeKick?: boolean;
+}
+
 export class TeamAI {
   readonly formationManager: FormationManager;
   private _team: Team;
@@ -100,7 +114,7 @@ export class TeamAI {
    * Implements M5 Off-Ball Intelligence (support lines, stagger, decoys).
    */
   private updatePositions(ball: Ball): void {
-    const basePositions = this.formationManager.getAllPositions(this.side);
+    const basePositions = this.formationManager.getAllPositions(this.side, this._team.getMissingPositions());
     const hasPossession = ball.carrier?.teamSide === this.side;
     const ballX = ball.sprite.x;
     const ballY = ball.sprite.y;
@@ -254,7 +268,7 @@ export class TeamAI {
 
     // Drop goal opportunity
     const scoreDiff = this.opponentScore - this.ownScore;
-    if (inOpp22 && Math.abs(scoreDiff) <= 3 && Math.random() < 0.05 * this.riskAppetite) {
+    if (inOpp22 && Math.abs(scoreDiff) <= 3 && RNG.chance(0.05 * this.riskAppetite)) {
       if (ball.carrier) this._team.requestDropGoal(ball.carrier);
       this.currentPlay = 'DROP_GOAL_ATTEMPT';
       return;
@@ -278,8 +292,8 @@ export class TeamAI {
     if (variety >= 3 && this.riskAppetite > 0.4 && !isFatigued) plays.push('SWITCH');
     if (variety >= 6 && this.riskAppetite > 0.5) plays.push('LOOP');
     if (variety >= 6 && this.riskAppetite > 0.7 && !isFatigued) plays.push('INSIDE_BALL');
-    if (variety >= 6 && inOwnHalf && Math.random() < 0.2) plays.push('BOX_KICK');
-    if (variety >= 12 && inOpp22 && Math.random() < 0.3) plays.push('GRUBBER');
+    if (variety >= 6 && inOwnHalf && RNG.chance(0.2)) plays.push('BOX_KICK');
+    if (variety >= 12 && inOpp22 && RNG.chance(0.3)) plays.push('GRUBBER');
 
     // Adaptive weighting: duplicate plays that have high success scores
     //   Scaling by difficulty: EASY = flat, MEDIUM = weak boost, HARD = strong boost
@@ -301,7 +315,7 @@ export class TeamAI {
     }
 
     // Pick random from weighted
-    this.currentPlay = weightedPlays[Math.floor(Math.random() * weightedPlays.length)] || 'CRASH_BALL';
+    this.currentPlay = RNG.pick(weightedPlays) || 'CRASH_BALL';
 
     // TRIGGER ACT: If carrier is AI, force state based on play
     if (ball.carrier && ball.carrier.teamSide === this.side && !ball.carrier.isGrounded && !ball.carrier.isInRuck) {
@@ -368,6 +382,149 @@ export class TeamAI {
     }
   }
 
+  /**
+   * Choose what to do with an awarded penalty — from distance and angle to
+   * the posts, the fly-half's kicking, the score margin and the clock (see
+   * updateContext). Deterministic so the same situation always gets the same call.
+   */
+  choosePenaltyOption(situation: PenaltySituation): PenaltyOption {
+    const tryLineX = this.side === 'home' ? PITCH.TRY_LINE_RIGHT : PITCH.TRY_LINE_LEFT;
+    const toTryLine = Math.abs(tryLineX - situation.x);
+    const inOwnHalf = this.side === 'home' ? situation.x < PITCH.HALFWAY : situation.x > PITCH.HALFWAY;
+    const goalChance = situation.freeKick ? 0 : this.estimateGoalChance(situation.x, situation.y);
+    // Attacking sides want a surer kick before settling for three points
+    const confidence = AI.PENALTY_GOAL_CONFIDENCE + (this.riskAppetite - 0.5) * 0.2;
+    const margin = this.ownScore - this.opponentScore;
+
+    // Endgame: play the scoreboard
+    if (MATCH.HALF_DURATION * 2 - this.gameMinutes <= AI.PENALTY_ENDGAME_MINUTES) {
+      if (margin < 0 && margin >= -3 && goalChance > confidence / 2) return 'kick_at_goal';
+      if (margin < -3) return toTryLine <= AI.PENALTY_ATTACK_ZONE ? 'tap_and_go' : 'kick_to_touch';
+      if (margin >= 0) return goalChance >= confidence ? 'kick_at_goal' : 'kick_to_touch';
+    }
+
+    // On the opposition line: go for the try unless the points are easy
+    if (toTryLine <= AI.PENALTY_ATTACK_ZONE) {
+      if (this.riskAppetite >= 0.6) return 'tap_and_go';
+      return goalChance >= confidence ? 'kick_at_goal' : 'scrum';
+    }
+
+    if (goalChance >= confidence) return 'kick_at_goal';
+    // A free kick in their half is taken quickly; otherwise find touch for territory
+    if (situation.freeKick && !inOwnHalf) return 'tap_and_go';
+    return 'kick_to_touch';
+  }
+
+  /**
+   * The other side's kick-off or drop-out didn't go the distance: take the
+   * scrum and the put-in, unless the pack is too weak to want one.
+   */
+  chooseShortRestartOption(): ShortRestartOption {
+    const pack = this._team.players.filter(p => p.position <= Position.NUMBER_8);
+    if (pack.length === 0) return 'rekick';
+    const strength = pack.reduce((sum, p) => sum + p.stats.strength, 0) / pack.length;
+    return strength >= AI.SHORT_RESTART_SCRUM_STRENGTH ? 'scrum' : 'rekick';
+  }
+
+  /**
+   * Our own put-in: drive when our pack is on top — near their line for
+   * the pushover, or anywhere with a clear edge to win a penalty —
+   * otherwise hook it quickly for clean ball.
+   */
+  chooseScrumOption(scrum: ScrumSystem, x: number): ScrumOption {
+    const edge = scrum.getStrength(this.side) - scrum.getStrength(this.side === 'home' ? 'away' : 'home');
+    if (edge > 0 && scrum.distanceToLine(x) <= SCRUM.PUSHOVER_RANGE) return 'drive';
+    return edge >= SCRUM.DRIVE_EDGE ? 'drive' : 'hook';
+  }
+
+  /**
+   * Numbers on our own throw: the full pack inside the opposition 22 to
+   * set up a maul, a short lineout for quick ball when taking risks.
+   */
+  chooseLineoutNumbers(x: number): number {
+    const inAttacking22 = this.side === 'home' ? x >= PITCH.LINE_22_RIGHT : x <= PITCH.LINE_22_LEFT;
+    if (inAttacking22) return LINEOUT.FULL_NUMBERS;
+    return this.riskAppetite >= 0.6 ? LINEOUT.SHORT_NUMBERS : LINEOUT.FULL_NUMBERS;
+  }
+
+  /**
+   * Our call on our own throw: the front jumper in our own 22 (the safest
+   * throw), the middle in theirs (a platform for the maul), otherwise the
+   * best jumper we have.
+   * @returns Place in the line
+   */
+  chooseLineoutTarget(lineout: LineoutSystem, x: number): number {
+    const jumpers = lineout.getJumpers(this.side);
+    const inOwn22 = this.side === 'home' ? x <= PITCH.LINE_22_LEFT : x >= PITCH.LINE_22_RIGHT;
+    const inAttacking22 = this.side === 'home' ? x >= PITCH.LINE_22_RIGHT : x <= PITCH.LINE_22_LEFT;
+    if (inOwn22) return jumpers[0].index;
+    if (inAttacking22) return jumpers[Math.floor(jumpers.length / 2)].index;
+    return jumpers.reduce((best, j) =>
+      lineout.jumperRating(this.side, j.index) > lineout.jumperRating(this.side, best.index) ? j : best).index;
+  }
+
+  /**
+   * Where to put a jumper up against their throw — a read of which of
+   * their jumpers it is going to.
+   * @returns Place in the line (null = let them have it)
+   */
+  chooseLineoutCompete(lineout: LineoutSystem): number | null {
+    const ours = lineout.getJumpers(this.side);
+    const theirs = lineout.getJumpers(this.side === 'home' ? 'away' : 'home');
+    if (ours.length === 0 || theirs.length === 0) return null;
+    const read = theirs[RNG.int(0, theirs.length - 1)].index;
+    return ours.reduce((best, j) => (Math.abs(j.index - read) < Math.abs(best.index - read) ? j : best)).index;
+  }
+
+  /**
+   * Our own lineout ball: maul it inside their 22, peel around the end of
+   * the line it was caught nearer when taking risks, otherwise give it to
+   * the scrum-half.
+   * @param caughtAt Place in the line the ball was won
+   */
+  chooseLineoutPlay(lineout: LineoutSystem, caughtAt: number, x: number): LineoutPlay {
+    const inAttacking22 = this.side === 'home' ? x >= PITCH.LINE_22_RIGHT : x <= PITCH.LINE_22_LEFT;
+    if (inAttacking22) return 'maul';
+    if (this.riskAppetite < 0.6) return 'pass';
+    const length = lineout.getFormation(this.side).spots.length;
+    return caughtAt < length / 2 ? 'peel_front' : 'peel_back';
+  }
+
+  /**
+   * Take a quick throw-in while their defence isn't set — few of them
+   * near the mark — unless it's in our own 22, where a fumble gives them
+   * the ball in range.
+   * @param cover Defenders near the mark
+   */
+  chooseQuickThrow(x: number, cover: number): boolean {
+    const inOwn22 = this.side === 'home' ? x <= PITCH.LINE_22_LEFT : x >= PITCH.LINE_22_RIGHT;
+    return !inOwn22 && cover <= LINEOUT.QUICK_THROW_MAX_COVER;
+  }
+
+  /**
+   * Our scrum-half's call on our maul: give it time to get going, use it
+   * once it's stopped going forward, and otherwise keep driving while it's
+   * going forward near their line — use it once it's been going a while.
+   */
+  chooseMaulUseIt(maul: MaulSystem): boolean {
+    const { elapsed } = maul.getState();
+    if (elapsed < MAUL.SETTLE_TIME) return false;
+    if (maul.getDriveSpeed() <= 0) return true;
+    return elapsed >= MAUL.USE_IT_TIME && maul.distanceToLine() > MAUL.PENALTY_TRY_RANGE;
+  }
+
+  /** Rough chance of the fly-half landing a goal from (x, y) — 0 to 1 */
+  private estimateGoalChance(x: number, y: number): number {
+    const postsX = this.side === 'home' ? PITCH.POST_RIGHT_X : PITCH.POST_LEFT_X;
+    const dx = Math.abs(postsX - x);
+    const dy = Math.abs(PITCH.POST_Y - y);
+    const distM = Math.hypot(dx, dy) / PITCH.M_TO_PX;
+    // 0 straight in front, 1 out on the touchline
+    const angle = Math.atan2(dy, dx) / (Math.PI / 2);
+    const kicking = this._team.getPlayerByPosition(Position.FLY_HALF).stats.kicking;
+    return Math.max(0, (kicking / 100) * (1 - distM / 60) * (1 - angle * 0.5));
+  }
+
   /** Record an opponent play call for adaptive defense tracking */
   recordOpponentPlay(play: PlayCall): void {
     this.opponentPlayHistory.push(play);
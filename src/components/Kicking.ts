@@ -10,6 +10,9 @@
  * - Restart:      kickoff/22m dropout
  */
 
+import { RNG } from '../utils/Random';
+import { PITCH } from '../utils/Constants';
+
 export const KickType = {
   PUNT: 'PUNT',
   GRUBBER: 'GRUBBER',
@@ -163,5 +166,35 @@ export function calculateKickDeviation(
   const overPowerPenalty = power > 0.85 ? (power - 0.85) * 3 : 0;
 
   const maxDeviation = (1 - accuracy + overPowerPenalty) * 0.4; // Up to ~23° deviation
-  return (Math.random() - 0.5) * 2 * maxDeviation;
+  return RNG.signed() * maxDeviation;
+}
+
+/** How far beyond the touchline (px) a touch finder is aimed to land */
+export const TOUCH_FINDER_MARGIN = 30;
+
+/**
+ * Aim (radians) for a touch finder kicked from height y: land just beyond the
+ * nearest touchline, as far downfield as the kick's distance allows.
+ * @param attackDir +1 when kicking towards +X, −1 towards −X
+ */
+export function touchFinderAngle(y: number, attackDir: 1 | -1, kickDist: number): number {
+  const targetY = y < PITCH.HEIGHT_PX / 2 ? -TOUCH_FINDER_MARGIN : PITCH.HEIGHT_PX + TOUCH_FINDER_MARGIN;
+  const dy = targetY - y;
+  if (Math.abs(dy) >= kickDist) return Math.sign(dy) * (Math.PI / 2);
+  const dx = Math.sqrt(kickDist * kickDist - dy * dy) * attackDir;
+  return Math.atan2(dy, dx);
+}
+
+/**
+ * Where a kick's flight from start to landing crosses a touchline.
+ * Returns null if it landed in the field of play (the ball stays live).
+ */
+export function touchlineCrossing(
+  start: { x: number; y: number },
+  landing: { x: number; y: number },
+): { x: number; y: number } | null {
+  if (landing.y > PITCH.TOUCHLINE_TOP && landing.y < PITCH.TOUCHLINE_BOTTOM) return null;
+  const lineY = landing.y <= PITCH.TOUCHLINE_TOP ? PITCH.TOUCHLINE_TOP : PITCH.TOUCHLINE_BOTTOM;
+  const t = landing.y === start.y ? 1 : (lineY - start.y) / (landing.y - start.y);
+  return { x: start.x + (landing.x - start.x) * t, y: lineY };
 }
@@ -59,6 +59,37 @@ export function selectPassType(distance: number, handling: number): PassType {
   return PassType.SKIP;
 }
 
+/**
+ * Pick the nearest teammate in range on the side being passed to.
+ * Receivers up to FORWARD_PASS.RECEIVER_AHEAD in front of the carrier can be
+ * picked — whether the pass to them went forward is the referee's call.
+ */
+export function findPassReceiver(
+  carrier: Player,
+  teammates: readonly Player[],
+  direction: 'left' | 'right',
+): { receiver: Player; distance: number } | null {
+  const carrierPos = { x: carrier.sprite.x, y: carrier.sprite.y };
+  const ahead = carrier.teamSide === 'home' ? 1 : -1;
+  let best: { receiver: Player; distance: number } | null = null;
+
+  for (const p of teammates) {
+    if (p === carrier) continue;
+    const pPos = { x: p.sprite.x, y: p.sprite.y };
+
+    if (direction === 'left' && pPos.y >= carrierPos.y) continue;
+    if (direction === 'right' && pPos.y <= carrierPos.y) continue;
+    if ((pPos.x - carrierPos.x) * ahead > FORWARD_PASS.RECEIVER_AHEAD) continue;
+
+    const d = distance(carrierPos, pPos);
+    const maxRange = PASS_CONFIGS[selectPassType(d, carrier.stats.handling)].baseRange * (carrier.stats.handling / 100);
+    if (d > maxRange) continue;
+
+    if (!best || d < best.distance) best = { receiver: p, distance: d };
+  }
+  return best;
+}
+
 /**
  * Determine if a pass should be an offload.
  * Requirements: carrier handling > 75, being tackled, teammate nearby.
@@ -70,7 +101,7 @@ export function canOffload(handling: number, isBeingTackled: boolean, nearbyTeam
 
   // Probability scales with handling
   const chance = (handling - 75) / 25; // 0–1 for handling 75–100
-  return Math.random() < chance * 0.6; // Max 60% chance
+  return RNG.chance(chance * 0.6); // Max 60% chance
 }
 
 /**
@@ -78,6 +109,10 @@ export function canOffload(handling: number, isBeingTackled: boolean, nearbyTeam
  * Returns the target player if successful, null otherwise.
  */
 import type { Player } from '../entities/Player';
+import { RNG } from '../utils/Random';
+import { distance } from '../utils/MathHelpers';
+import { FORWARD_PASS } from '../utils/Constants';
+import type { GameEvents } from '../utils/EventBus';
 
 /**
  * Offload Outcome Types
@@ -103,7 +138,7 @@ export function attemptOffload(
   for (const p of supportPlayers) {
     if (p === carrier || p.isGrounded || p.isInRuck) continue;
     // Offload must be close range
-    const d = Phaser.Math.Distance.Between(carrier.sprite.x, carrier.sprite.y, p.sprite.x, p.sprite.y);
+    const d = distance({ x: carrier.sprite.x, y: carrier.sprite.y }, { x: p.sprite.x, y: p.sprite.y });
     if (d < 60 && d < minDist) {
       minDist = d;
       bestSupport = p;
@@ -115,19 +150,39 @@ export function attemptOffload(
   // 3. Success check — difficulty-adjusted handling
   const baseChance = (effectiveHandling / 100) * 0.8; 
   
-  if (Math.random() < baseChance) {
+  if (RNG.chance(baseChance)) {
     // Check for knock-on based on remaining probability
-    if (Math.random() > effectiveHandling / 100 + 0.1) {
+    if (RNG.next() > effectiveHandling / 100 + 0.1) {
       return { type: 'FAILED_KNOCKON' };
     }
     return { type: 'SUCCESS', target: bestSupport };
   } else {
     // Failed attempt!
     // High handling reduces knock-on chance on fail
-    if (Math.random() < 0.4 - (effectiveHandling / 200)) {
+    if (RNG.chance(0.4 - (effectiveHandling / 200))) {
        return { type: 'FAILED_KNOCKON' };
     }
   }
 
   return { type: 'NO_ATTEMPT' };
 }
+
+/**
+ * How far a pass went forward out of the passer's hands (px, negative = backwards).
+ * Ground travel from release to catch towards the passer's attacking try line,
+ * less what the passer's own forward run during the flight carried it.
+ */
+export function forwardPassDistance(side: 'home' | 'away', pass: GameEvents['passCompleted']): number {
+  const dir = side === 'home' ? 1 : -1;
+  const travel = (pass.catchX - pass.releaseX) * dir;
+  const momentum = Math.max(0, pass.passerVx * dir) * (pass.flightMs / 1000) * FORWARD_PASS.MOMENTUM_ALLOWANCE;
+  return travel - momentum;
+}
+
+/**
+ * Whether a completed pass was forward.
+ * @param tolerance Benefit of the doubt (px) — the referee's in real time, the TMO's on review
+ */
+export function isForwardPass(side: 'home' | 'away', pass: GameEvents['passCompleted'], tolerance: number = FORWARD_PASS.TOLERANCE): boolean {
+  return forwardPassDistance(side, pass) > tolerance;
+}
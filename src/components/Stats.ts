@@ -5,6 +5,8 @@
  * Used by Player entity and AI decision-making.
  */
 
+import { RNG } from '../utils/Random';
+
 export interface PlayerStats {
   speed: number;        // 0–100 — affects run/sprint velocity
   strength: number;     // 0–100 — tackle/ruck/maul contests
@@ -24,7 +26,7 @@ export interface PlayerStats {
  */
 export function statCheck(stat: number, difficulty: number = 0): boolean {
   const threshold = stat + difficulty;
-  const roll = Math.random() * 100;
+  const roll = RNG.next() * 100;
   return roll < threshold;
 }
 
@@ -43,11 +45,13 @@ export function blendStats(a: number, b: number, weightA: number = 0.5): number
  * Calculate catch probability based on handling stat and pass accuracy.
  * @param handling Receiver's handling stat
  * @param passAccuracy Pass accuracy modifier (0–1, 1 = perfect)
+ * @param knockOnModifier Weather multiplier on the chance of a spill (1 = dry)
  * @returns Probability 0–1
  */
-export function catchProbability(handling: number, passAccuracy: number): number {
+export function catchProbability(handling: number, passAccuracy: number, knockOnModifier: number = 1): number {
   const base = (handling / 100) * 0.85 + 0.15; // 15–100% base chance
-  return Math.min(1, base * passAccuracy);
+  const dry = Math.min(1, base * passAccuracy);
+  return Math.max(0, 1 - (1 - dry) * knockOnModifier);
 }
 
 /**
@@ -92,7 +96,7 @@ export function rollTackleOutcome(
   carrierMomentum: number = 0.5,
 ): 'dominant' | 'normal' | 'missed' | 'fendOff' {
   const probs = tackleProbabilities(tackler, carrier, carrierMomentum);
-  const roll = Math.random();
+  const roll = RNG.next();
 
   if (roll < probs.dominant) return 'dominant';
   if (roll < probs.dominant + probs.normal) return 'normal';
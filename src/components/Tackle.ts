@@ -5,9 +5,14 @@
 
 import type { PlayerStats } from './Stats';
 import { rollTackleOutcome } from './Stats';
+import { DISCIPLINE } from '../utils/Constants';
+import { RNG } from '../utils/Random';
 
 export type TackleOutcome = 'dominant' | 'normal' | 'missed' | 'fendOff' | 'heldUp';
 
+/** Head contact in a tackle — careless is a penalty, dangerous a red card */
+export type HighTackle = 'careless' | 'dangerous';
+
 export interface TackleResult {
   outcome: TackleOutcome;
   /** Whether the ball is dislodged (loose ball) */
@@ -95,6 +100,20 @@ export function resolveTackle(
   }
 }
 
+/**
+ * Roll for a completed tackle making contact with the head.
+ * Poor tacklers and a carrier at full pace make it likelier.
+ * @param tackler Stats of the tackling player
+ * @param carrierSprinting Whether the carrier was sprinting
+ * @returns The grade of high tackle, or null for a legal one
+ */
+export function rollHighTackle(tackler: PlayerStats, carrierSprinting: boolean = false): HighTackle | null {
+  const technique = 1.5 - tackler.tackling / 100;
+  const chance = DISCIPLINE.HIGH_TACKLE_CHANCE * technique * (carrierSprinting ? 1.5 : 1);
+  if (!RNG.chance(chance)) return null;
+  return RNG.chance(DISCIPLINE.DANGEROUS_SHARE) ? 'dangerous' : 'careless';
+}
+
 /**
  * Check if a tackler is within tackle range of a ball carrier.
  */
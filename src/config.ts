@@ -9,6 +9,10 @@ import { SetPieceScene } from './scenes/SetPieceScene';
 import { HalfTimeScene } from './scenes/HalfTimeScene';
 import { ResultScene } from './scenes/ResultScene';
 import { TeamSelectScene } from './scenes/TeamSelectScene';
+import { ReplayScene } from './scenes/ReplayScene';
+import { InstantReplayScene } from './scenes/InstantReplayScene';
+import { TeamEditorScene } from './scenes/TeamEditorScene';
+import { TournamentScene } from './scenes/TournamentScene';
 import { PITCH } from './utils/Constants';
 
 export const gameConfig: Phaser.Types.Core.GameConfig = {
@@ -25,7 +29,7 @@ export const gameConfig: Phaser.Types.Core.GameConfig = {
       debug: false,
     },
   },
-  scene: [BootScene, MenuScene, TeamSelectScene, MatchScene, SetPieceScene, HalfTimeScene, ResultScene],
+  scene: [BootScene, MenuScene, TeamSelectScene, MatchScene, SetPieceScene, HalfTimeScene, ResultScene, ReplayScene, InstantReplayScene, TeamEditorScene, TournamentScene],
   scale: {
     mode: Phaser.Scale.FIT,
     autoCenter: Phaser.Scale.CENTER_BOTH,
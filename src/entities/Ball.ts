@@ -4,9 +4,12 @@
  * Handles passing (bezier arc), kicking (parabolic trajectory),
  * loose ball physics, and attachment to the carrier.
  */
-import Phaser from 'phaser';
+import type Phaser from 'phaser';
 import { Player } from './Player';
 import { BALL } from '../utils/Constants';
+import { RNG } from '../utils/Random';
+import { EventBus } from '../utils/EventBus';
+import type { WeatherSystem } from '../systems/WeatherSystem';
 import { quadraticBezier, parabolicArc, vec2, distance as vecDist } from '../utils/MathHelpers';
 
 type BallState = 'carried' | 'passing' | 'kicked' | 'loose' | 'ruck';
@@ -23,6 +26,9 @@ export class Ball {
   /** Current carrier (null when loose, passing, or kicked) */
   carrier: Player | null = null;
 
+  /** Team that last had the ball in hand — possessionChange fires when it switches */
+  private possessionTeam: 'home' | 'away' | null = null;
+
   // ── Pass interpolation ─────────────────────────────────
   private passStart = vec2(0, 0);
   private passControl = vec2(0, 0);
@@ -30,6 +36,10 @@ export class Ball {
   private passT = 0;
   private passSpeed = 0;
   private passTarget: Player | null = null;
+  /** Who threw it and how fast they were running at release (px/s) — judged on arrival */
+  private passFrom: Player | null = null;
+  private passerVx = 0;
+  private passElapsed = 0;
 
   // ── Kick interpolation ─────────────────────────────────
   private kickStartPos = vec2(0, 0);
@@ -40,6 +50,9 @@ export class Ball {
   private kickBounces = false;
   private kickBounceDeviation = 0;
 
+  // ── Conditions ─────────────────────────────────────────
+  private weather: WeatherSystem | null = null;
+
   constructor(scene: Phaser.Scene, x: number, y: number) {
 
 
@@ -93,6 +106,7 @@ export class Ball {
 
   private updatePassing(dt: number): void {
     this.passT += dt * this.passSpeed;
+    this.passElapsed += dt * 1000;
 
     if (this.passT >= 1) {
       // Pass complete — snap to target
@@ -102,7 +116,16 @@ export class Ball {
 
       if (this.passTarget) {
         // Check catch (simplified: always catch for now)
-        this.attachToPlayer(this.passTarget);
+        const receiver = this.passTarget;
+        this.attachToPlayer(receiver);
+        if (this.passFrom) {
+          EventBus.emit('passCompleted', {
+            passerId: this.passFrom.id, receiverId: receiver.id,
+            releaseX: this.passStart.x, releaseY: this.passStart.y,
+            catchX: this.passEnd.x, catchY: this.passEnd.y,
+            passerVx: this.passerVx, flightMs: this.passElapsed,
+          });
+        }
       } else {
         this.state = 'loose';
       }
@@ -133,7 +156,7 @@ export class Ball {
         // Bouncing kicks (grubber) get extra random bounce
         if (this.kickBounces) {
           const devRad = (this.kickBounceDeviation * Math.PI) / 180;
-          const bounceAngle = Math.atan2(dy, dx) + (Math.random() - 0.5) * devRad * 2;
+          const bounceAngle = Math.atan2(dy, dx) + RNG.signed() * devRad;
           rollSpeed = 80;
           this.sprite.setVelocity(Math.cos(bounceAngle) * rollSpeed, Math.sin(bounceAngle) * rollSpeed);
         } else {
@@ -160,7 +183,8 @@ export class Ball {
     const vy = this.sprite.body?.velocity.y ?? 0;
 
     if (Math.abs(vx) > 0.5 || Math.abs(vy) > 0.5) {
-      this.sprite.setVelocity(vx * BALL.FRICTION, vy * BALL.FRICTION);
+      const friction = this.weather ? this.weather.ballFriction(BALL.FRICTION) : BALL.FRICTION;
+      this.sprite.setVelocity(vx * friction, vy * friction);
     } else {
       this.sprite.setVelocity(0, 0);
     }
@@ -193,6 +217,9 @@ export class Ball {
     this.passT = 0;
     this.passSpeed = BALL.PASS_SPEED / Math.max(dist / 100, 0.5); // Faster for short passes
     this.passTarget = to;
+    this.passFrom = from;
+    this.passerVx = (from.sprite.body as Phaser.Physics.Arcade.Body | null)?.velocity.x ?? 0;
+    this.passElapsed = 0;
     this.state = 'passing';
   }
 
@@ -208,12 +235,12 @@ export class Ball {
     const angle = this.facingToAngle(from.facing);
 
     this.kickStartPos = vec2(from.sprite.x, from.sprite.y);
-    this.kickEndPos = vec2(
+    this.kickDuration = 1.0 + (kickDist / 400) * 1.5; // Longer kicks take more time
+    this.kickEndPos = this.applyWind(
       from.sprite.x + Math.cos(angle) * kickDist,
       from.sprite.y + Math.sin(angle) * kickDist,
     );
     this.kickT = 0;
-    this.kickDuration = 1.0 + (kickDist / 400) * 1.5; // Longer kicks take more time
     this.kickMaxHeight = kickDist * 0.15; // Higher arc for longer kicks
     this.kickBounces = false;
     this.kickBounceDeviation = 0;
@@ -233,15 +260,32 @@ export class Ball {
     this.carrier = null;
 
     this.kickStartPos = vec2(from.sprite.x, from.sprite.y);
-    this.kickEndPos = vec2(endX, endY);
-    this.kickT = 0;
     this.kickDuration = flightDuration * (0.5 + power * 0.5);
+    this.kickEndPos = this.applyWind(endX, endY);
+    this.kickT = 0;
     this.kickMaxHeight = kickDist * arcHeight;
     this.kickBounces = bounces;
     this.kickBounceDeviation = bounceDeviation;
     this.state = 'kicked';
   }
 
+  /** Where the current (or last) kick left the boot and comes down, wind included */
+  getKickFlight(): { start: { x: number; y: number }; landing: { x: number; y: number } } {
+    return { start: { ...this.kickStartPos }, landing: { ...this.kickEndPos } };
+  }
+
+  /**
+   * Use match weather for kicks and ground roll (null = still conditions).
+   */
+  setWeather(weather: WeatherSystem | null): void {
+    this.weather = weather;
+  }
+
+  /** Landing spot after wind drift over the current kick's flight time */
+  private applyWind(endX: number, endY: number): { x: number; y: number } {
+    return this.weather ? this.weather.applyWindToKick(endX, endY, this.kickDuration) : vec2(endX, endY);
+  }
+
   /**
    * Drop the ball loose at a position (e.g., after tackle / knock-on).
    */
@@ -252,11 +296,16 @@ export class Ball {
     this.sprite.setPosition(x, y);
     // Random small velocity
     this.sprite.setVelocity(
-      (Math.random() - 0.5) * 40,
-      (Math.random() - 0.5) * 40,
+      RNG.signed() * 20,
+      RNG.signed() * 20,
     );
   }
 
+  /** Team that last had the ball in hand (null before the first catch) */
+  getPossessionTeam(): 'home' | 'away' | null {
+    return this.possessionTeam;
+  }
+
   /**
    * Attach the ball to a player (pick up or catch).
    */
@@ -265,6 +314,10 @@ export class Ball {
     player.pickUpBall();
     this.state = 'carried';
     this.passTarget = null;
+    if (player.teamSide !== this.possessionTeam) {
+      this.possessionTeam = player.teamSide;
+      EventBus.emit('possessionChange', { team: player.teamSide });
+    }
   }
 
   /**
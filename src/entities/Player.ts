@@ -4,8 +4,8 @@
  * Each player has stats, a positional role, stamina, and can carry/pass/kick the ball.
  * Movement is driven either by human input or AI steering behaviors.
  */
-import Phaser from 'phaser';
-import { PLAYER, Direction, Position } from '../utils/Constants';
+import type Phaser from 'phaser';
+import { PLAYER, Direction, Position, POSITION_NAMES } from '../utils/Constants';
 import { arrive, separation, blendForces } from '../ai/SteeringBehaviors';
 
 /** Player stat profile */
@@ -20,6 +20,15 @@ export interface PlayerStats {
   workRate: number;
 }
 
+/** Individual player details from a squad (custom team etc.) */
+export interface PlayerProfile {
+  name?: string;
+  /** Replaces the positional defaults stat by stat */
+  stats?: Partial<PlayerStats>;
+  /** Multipliers for the positional defaults (team squad profile), applied before `stats` */
+  statScale?: Partial<PlayerStats>;
+}
+
 /** Default stat profiles by position group */
 const FORWARD_STATS: PlayerStats = {
   speed: 60, strength: 85, handling: 55, kicking: 40,
@@ -51,6 +60,7 @@ export class Player {
   readonly id: string;
   readonly position: Position;
   readonly teamSide: 'home' | 'away';
+  readonly name: string;
   readonly stats: PlayerStats;
   public team: any; // Circular dependency workaround
 
@@ -77,11 +87,13 @@ export class Player {
     position: Position,
     teamSide: 'home' | 'away',
     tint: number,
+    profile: PlayerProfile = {},
   ) {
     this.scene = scene;
     this.id = `player_${playerIdCounter++}`;
     this.position = position;
     this.teamSide = teamSide;
+    this.name = profile.name ?? POSITION_NAMES[position];
     this.teamTint = tint;
     this.formationX = x;
     this.formationY = y;
@@ -90,7 +102,14 @@ export class Player {
     const isForward = position <= Position.NUMBER_8;
     const baseStats = isForward ? { ...FORWARD_STATS } : { ...BACK_STATS };
     const overrides = POSITION_STATS[position] ?? {};
-    this.stats = { ...baseStats, ...overrides };
+    const defaults: PlayerStats = { ...baseStats, ...overrides };
+    if (profile.statScale) {
+      for (const key of Object.keys(defaults) as (keyof PlayerStats)[]) {
+        const scaled = defaults[key] * (profile.statScale[key] ?? 1);
+        defaults[key] = Math.round(Math.min(99, Math.max(1, scaled)));
+      }
+    }
+    this.stats = { ...defaults, ...profile.stats };
     this.stamina = this.stats.stamina;
 
     // Create sprite
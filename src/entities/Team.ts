@@ -4,14 +4,15 @@
  * Handles formation positioning and AI movement
  * for non-controlled players with proper rugby defense/attack behavior.
  */
-import Phaser from 'phaser';
+import type Phaser from 'phaser';
 import { Player } from './Player';
+import type { PlayerProfile, PlayerStats } from './Player';
 import { Ball } from './Ball';
-import { Position, PITCH, PLAYER, DIFFICULTY } from '../utils/Constants';
+import { Position, PITCH, PLAYER, DIFFICULTY, POSITION_COVER } from '../utils/Constants';
 import type { DifficultyConfig } from '../utils/Constants';
 import { distance } from '../utils/MathHelpers';
 import { EventBus } from '../utils/EventBus';
-import { resolveTackle } from '../components/Tackle';
+import { resolveTackle, rollHighTackle } from '../components/Tackle';
 
 /**
  * Default formation positions for attack (relative to halfway, normalized 0–1).
@@ -64,6 +65,39 @@ export interface TeamStats {
   kicking: number;
   handling: number;
   color: number;
+  /** Named players with their own stats, by shirt number (e.g. a custom team) */
+  squad?: ReadonlyArray<SquadPlayer>;
+}
+
+export interface SquadPlayer extends PlayerProfile {
+  position: number;
+}
+
+/** Team rating at which players keep their positional default stats */
+const TEAM_STAT_BASELINE = 75;
+
+/** Which TeamStats rating drives each player stat */
+const STAT_SOURCE: Record<keyof PlayerStats, 'rating' | 'strength' | 'speed' | 'kicking' | 'handling'> = {
+  speed: 'speed',
+  strength: 'strength',
+  handling: 'handling',
+  kicking: 'kicking',
+  stamina: 'rating',
+  tackling: 'strength',
+  awareness: 'rating',
+  workRate: 'strength',
+};
+
+/**
+ * Per-stat multipliers for a team's players — every point above/below
+ * TEAM_STAT_BASELINE moves the matching player stats by 1%.
+ */
+export function teamStatScale(stats: TeamStats): PlayerStats {
+  const scale = {} as PlayerStats;
+  for (const key of Object.keys(STAT_SOURCE) as (keyof PlayerStats)[]) {
+    scale[key] = 1 + (stats[STAT_SOURCE[key]] - TEAM_STAT_BASELINE) / 100;
+  }
+  return scale;
 }
 
 export class Team {
@@ -84,11 +118,19 @@ export class Team {
   // Average stats for quick access
   public avgStamina: number = 100;
 
+  /** Everyone who started or came on, in shirt order — includes players off the field */
+  private lineup: Player[] = [];
+  /** Sin-binned or sent off */
+  private offField = new Set<Player>();
+
   // Substitution tracking
   private reserves: Player[] = [];
   private subsUsed: number = 0;
   private static readonly MAX_SUBS = 8;
 
+  /** Match time this team has been updated for (ms) — drives cooldowns without wall-clock time */
+  private elapsed: number = 0;
+
   // Defensive read speed tracking
   private defenseReadTimestamp: number = 0;
   private lastTrackedCarrierId: string = '';
@@ -99,6 +141,7 @@ export class Team {
     this.color = stats.color;
 
     // Create all 15 players
+    const statScale = teamStatScale(stats);
     const formation = side === 'home' ? ATTACK_FORMATION : DEFENSE_FORMATION;
 
     const allPositions = [
@@ -124,10 +167,12 @@ export class Team {
         y = f.ry * PITCH.HEIGHT_PX;
       }
 
-      const player = new Player(scene, x, y, pos, side, this.color);
+      const profile = stats.squad?.find(s => s.position === pos);
+      const player = new Player(scene, x, y, pos, side, this.color, { ...profile, statScale });
       player.team = this;
       this.players.push(player);
     }
+    this.lineup = [...this.players];
 
     // Create 8 bench reserve players (off-screen, ready for substitution)
     const benchPositions = [
@@ -136,7 +181,7 @@ export class Team {
       Position.SCRUM_HALF, Position.INSIDE_CENTRE, Position.RIGHT_WING,  // backs cover
     ];
     for (const pos of benchPositions) {
-      const reserve = new Player(scene, -100, -100, pos, side, this.color);
+      const reserve = new Player(scene, -100, -100, pos, side, this.color, { statScale });
       reserve.team = this;
       reserve.sprite.setVisible(false);
       reserve.sprite.setActive(false);
@@ -149,11 +194,28 @@ export class Team {
    * Get a player by their positional number.
    */
   getPlayerByPosition(pos: Position): Player {
-    const p = this.players.find((pl) => pl.position === pos);
+    const p = this.players.find((pl) => pl.position === pos)
+      ?? POSITION_COVER[pos].map(cover => this.players.find(pl => pl.position === cover)).find(Boolean)
+      ?? this.players[0];
     if (!p) throw new Error(`No player found for position ${pos}`);
     return p;
   }
 
+  /** All fifteen shirts in order, with anyone off the field still in their slot */
+  getLineup(): readonly Player[] {
+    return this.lineup;
+  }
+
+  /** Bench players not yet brought on */
+  getReserves(): readonly Player[] {
+    return this.reserves;
+  }
+
+  /** Hooker's strike at the scrum (handling stands in for hooking skill) */
+  getHookingSkill(): number {
+    return this.players.find(p => p.position === Position.HOOKER)?.stats.handling ?? 50;
+  }
+
   /** Get the player with the lowest stamina (for fatigue-aware decisions). */
   getLowestStaminaPlayer(): Player | null {
     if (this.players.length === 0) return null;
@@ -207,6 +269,7 @@ export class Team {
     if (idx !== -1) {
       this.players[idx] = reserve;
     }
+    this.lineup[this.lineup.indexOf(tiredPlayer)] = reserve;
 
     this.subsUsed++;
     EventBus.emit('substitution', {
@@ -219,11 +282,52 @@ export class Team {
     return true;
   }
 
+  // ────────────────────────────────────────────────────────
+  // DISCIPLINE — playing a man short
+  // ────────────────────────────────────────────────────────
+
+  /**
+   * Take a carded player off the field. Their position is covered by a
+   * teammate (see getPlayerByPosition) and the formation closes the gap.
+   */
+  removeFromPlay(player: Player): void {
+    if (!this.players.includes(player)) return;
+    this.offField.add(player);
+    this.players.splice(this.players.indexOf(player), 1);
+
+    player.hasBall = false;
+    player.isInRuck = false;
+    player.sprite.setVelocity(0, 0);
+    player.sprite.setPosition(-100, -100);
+    player.sprite.setVisible(false);
+    player.sprite.setActive(false);
+    (player.sprite.body as Phaser.Physics.Arcade.Body).enable = false;
+  }
+
+  /** Sin bin served — back on at the touchline by halfway */
+  returnToPlay(player: Player): void {
+    if (!this.offField.delete(player)) return;
+    this.players.splice(0, this.players.length, ...this.lineup.filter(p => !this.offField.has(p)));
+
+    (player.sprite.body as Phaser.Physics.Arcade.Body).enable = true;
+    player.sprite.setPosition(PITCH.HALFWAY, PITCH.HEIGHT_PX - 5);
+    player.sprite.setVisible(true);
+    player.sprite.setActive(true);
+    player.isGrounded = false;
+  }
+
+  /** Shirts 1–15 with nobody on the field wearing them */
+  getMissingPositions(): Position[] {
+    return (Object.values(Position) as Position[]).filter(pos => !this.players.some(p => p.position === pos));
+  }
+
   /**
    * Update all AI-controlled players on this team.
    * @param controlledPlayer If set, this player is human-controlled and skipped.
    */
   update(delta: number, ball: Ball, controlledPlayer: Player | null): void {
+    this.elapsed += delta;
+
     // Calculate average stamina
     let totalStamina = 0;
     for (const p of this.players) {
@@ -299,7 +403,7 @@ export class Team {
     // 1. DESIGNATED TACKLER — Sprint toward ball carrier
     //    Defensive read speed: delay pursuit by aiReactionDelay (M5.6)
     if (designatedTackler) {
-      const now = Date.now();
+      const now = this.elapsed;
       if (carrier.id !== this.lastTrackedCarrierId) {
         this.lastTrackedCarrierId = carrier.id;
         this.defenseReadTimestamp = now;
@@ -378,7 +482,7 @@ export class Team {
       // Ball carrier AI — run forward with slight weave
       if (player.hasBall) {
         const targetX = this.side === 'home' ? PITCH.TRY_LINE_RIGHT : PITCH.TRY_LINE_LEFT;
-        const weaveY = player.sprite.y + Math.sin(Date.now() / 600) * 20;
+        const weaveY = player.sprite.y + Math.sin(this.elapsed / 600) * 20;
         // player.moveToward(targetX, weaveY, 0.85);
         player.updateAI(0, this.players, { x: targetX, y: weaveY });
         continue;
@@ -430,8 +534,8 @@ export class Team {
   // ────────────────────────────────────────────────────────
 
   attemptAITackle(tackler: Player, carrier: Player, ball: Ball): void {
-    const now = Date.now();
-    const lastTackle = this.tackleCooldowns.get(tackler.id) ?? 0;
+    const now = this.elapsed;
+    const lastTackle = this.tackleCooldowns.get(tackler.id) ?? -Infinity;
     if (now - lastTackle < 1500) return; // 1.5s cooldown
 
     if (tackler.isGrounded || tackler.isInRuck || carrier.isGrounded) return;
@@ -448,18 +552,21 @@ export class Team {
 
     const result = resolveTackle(tacklerStats, carrier.stats, carrierSprinting, false);
     this.tackleCooldowns.set(tackler.id, now);
+    const made = result.outcome !== 'missed' && result.outcome !== 'fendOff';
 
     EventBus.emit('tackle', {
       tacklerId: tackler.id,
       carrierId: carrier.id,
       outcome: result.outcome,
+      dominant: result.outcome === 'dominant',
+      high: (made && rollHighTackle(tackler.stats, carrierSprinting)) || undefined,
     });
 
     switch (result.outcome) {
       case 'dominant':
         carrier.getsTackled();
         tackler.isGrounded = true;
-        setTimeout(() => { tackler.isGrounded = false; }, result.tacklerRecoveryMs);
+        this.scene.time.delayedCall(result.tacklerRecoveryMs, () => { tackler.isGrounded = false; });
         if (carrier.hasBall) {
           carrier.releaseBall();
           ball.dropLoose(carrier.sprite.x, carrier.sprite.y);
@@ -469,7 +576,7 @@ export class Team {
       case 'normal':
         carrier.getsTackled();
         tackler.isGrounded = true;
-        setTimeout(() => { tackler.isGrounded = false; }, result.tacklerRecoveryMs);
+        this.scene.time.delayedCall(result.tacklerRecoveryMs, () => { tackler.isGrounded = false; });
         if (carrier.hasBall) {
           carrier.releaseBall();
           ball.dropLoose(carrier.sprite.x, carrier.sprite.y);
@@ -479,13 +586,13 @@ export class Team {
       case 'missed':
         tackler.sprite.setVelocity(0, 0);
         tackler.isGrounded = true;
-        setTimeout(() => { tackler.isGrounded = false; }, result.tacklerRecoveryMs);
+        this.scene.time.delayedCall(result.tacklerRecoveryMs, () => { tackler.isGrounded = false; });
         break;
 
       case 'fendOff':
         tackler.sprite.setVelocity(0, 0);
         tackler.isGrounded = true;
-        setTimeout(() => { tackler.isGrounded = false; }, result.tacklerRecoveryMs);
+        this.scene.time.delayedCall(result.tacklerRecoveryMs, () => { tackler.isGrounded = false; });
         break;
     }
   }
@@ -547,7 +654,7 @@ export class Team {
 
     for (const p of this.players) {
       if (exclude.includes(p)) continue;
-      const d = Phaser.Math.Distance.Between(x, y, p.sprite.x, p.sprite.y);
+      const d = distance({ x, y }, { x: p.sprite.x, y: p.sprite.y });
       if (d < minDist) {
         minDist = d;
         closest = p;
@@ -559,9 +666,10 @@ export class Team {
    * Set players for Kickoff Chase (Kicking Team).
    * Kicker (Fly Half) at center.
    * Chasers spread along the line.
+   * @param originX Where the restart is kicked from (halfway, or the 22 / goal line for a drop-out)
    */
-  setKickoffChaseFormation(): void {
-    const startX = PITCH.HALFWAY;
+  setKickoffChaseFormation(originX: number = PITCH.HALFWAY): void {
+    const startX = originX;
     const direction = this.side === 'home' ? 1 : -1;
     
     // Kicker (10) is handled by KickoffSystem (placed at ball).
@@ -589,13 +697,14 @@ export class Team {
    * Set players for Kickoff Receive (Receiving Team).
    * Forwards in pods for lifting/catching (10m line).
    * Backs deep covering kicks.
+   * @param originX Where the restart is kicked from — the lines are set relative to it
    */
-  setKickoffReceiveFormation(): void {
+  setKickoffReceiveFormation(originX: number = PITCH.HALFWAY): void {
     const direction = this.side === 'home' ? 1 : -1;
-    // 10m line for this team
-    const tenMeterLine = this.side === 'home' ? PITCH.LINE_10_LEFT : PITCH.LINE_10_RIGHT; 
-    // 22m line 
-    const twentyTwoLine = this.side === 'home' ? PITCH.LINE_22_LEFT : PITCH.LINE_22_RIGHT;
+    // 10m line from the kick (the 10m line for this team at a kick-off)
+    const tenMeterLine = originX - (PITCH.HALFWAY - PITCH.LINE_10_LEFT) * direction;
+    // 22m line at a kick-off — 33 m back from the kick
+    const twentyTwoLine = originX - (PITCH.HALFWAY - PITCH.LINE_22_LEFT) * direction;
 
     // Forwards (1-8) at 10m line waiting for short kick
     const forwards = [1,2,3,4,5,6,7,8];
@@ -603,7 +712,8 @@ export class Team {
 
     let fIndex = 0;
     for (const pos of forwards) {
-      const p = this.getPlayerByPosition(pos as any);
+      const p = this.players.find(pl => pl.position === pos);
+      if (!p) continue; // Off the field — the pack is a man short
       const y = (PITCH.HEIGHT_PX / 9) * (fIndex + 1);
       // Stand 5m behind 10m line
       const x = tenMeterLine - (50 * direction); // if Home (attacks right), 10mLeft is x=600. home side is < 600. wait.
@@ -630,7 +740,8 @@ export class Team {
     // Backs scattered deep (22m to 50m)
     let bIndex = 0;
     for (const pos of backs) {
-       const p = this.getPlayerByPosition(pos as any);
+       const p = this.players.find(pl => pl.position === pos);
+       if (!p) continue;
        const y = (PITCH.HEIGHT_PX / 8) * (bIndex + 1);
        const x = twentyTwoLine; // On the 22
        
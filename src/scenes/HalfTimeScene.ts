@@ -3,6 +3,8 @@
  */
 
 import Phaser from 'phaser';
+import { EventBus } from '../utils/EventBus';
+import type { CardRecord } from '../systems/DisciplineSystem';
 
 interface HalfTimeData {
   homeScore: number;
@@ -13,6 +15,12 @@ interface HalfTimeData {
   passes: { home: number; away: number };
   penalties: { home: number; away: number };
   carries: { home: number; away: number };
+  metres: { home: number; away: number };
+  tackleSuccess: { home: number; away: number }; // % of tackles made
+  turnovers: { home: number; away: number };     // Possession won in open play
+  yellowCards?: { home: number; away: number };
+  redCards?: { home: number; away: number };
+  cards?: CardRecord[];
 }
 
 export class HalfTimeScene extends Phaser.Scene {
@@ -50,6 +58,11 @@ export class HalfTimeScene extends Phaser.Scene {
       ['Passes', String(this.sceneData.passes.home), String(this.sceneData.passes.away)],
       ['Penalties', String(this.sceneData.penalties.home), String(this.sceneData.penalties.away)],
       ['Carries', String(this.sceneData.carries.home), String(this.sceneData.carries.away)],
+      ['Metres', String(this.sceneData.metres.home), String(this.sceneData.metres.away)],
+      ['Tackle %', `${this.sceneData.tackleSuccess.home}%`, `${this.sceneData.tackleSuccess.away}%`],
+      ['Turnovers', String(this.sceneData.turnovers.home), String(this.sceneData.turnovers.away)],
+      ['Yellow cards', String(this.sceneData.yellowCards?.home ?? 0), String(this.sceneData.yellowCards?.away ?? 0)],
+      ['Red cards', String(this.sceneData.redCards?.home ?? 0), String(this.sceneData.redCards?.away ?? 0)],
     ];
 
     const startY = 150;
@@ -58,13 +71,22 @@ export class HalfTimeScene extends Phaser.Scene {
     this.add.text(width / 2, startY - 25, 'STAT', { fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5);
     this.add.text(width / 2 + 100, startY - 25, 'AWAY', { fontSize: '11px', fontFamily: 'monospace', color: '#ef4444' }).setOrigin(0.5);
 
+    const rowHeight = 24;
     stats.forEach(([label, home, away], i) => {
-      const y = startY + i * 28;
+      const y = startY + i * rowHeight;
       this.add.text(width / 2 - 100, y, home, { fontSize: '12px', fontFamily: 'monospace', color: '#ffffff' }).setOrigin(0.5);
       this.add.text(width / 2, y, label, { fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5);
       this.add.text(width / 2 + 100, y, away, { fontSize: '12px', fontFamily: 'monospace', color: '#ffffff' }).setOrigin(0.5);
     });
 
+    // Who was carded, and when
+    const cardsY = startY + stats.length * rowHeight;
+    (this.sceneData.cards ?? []).slice(0, 3).forEach((c, i) => {
+      this.add.text(width / 2, cardsY + i * 13, `${c.card === 'red' ? 'RC' : 'YC'} ${c.minute}' ${c.name} (${c.team.toUpperCase()}) — ${c.reason}`, {
+        fontSize: '10px', fontFamily: 'monospace', color: c.card === 'red' ? '#ef4444' : '#eab308',
+      }).setOrigin(0.5);
+    });
+
     // Continue button
     const btn = this.add.text(width / 2, height - 80, '▶ CONTINUE', {
       fontSize: '16px', fontFamily: 'monospace', color: '#0f172a',
@@ -74,8 +96,9 @@ export class HalfTimeScene extends Phaser.Scene {
     btn.on('pointerover', () => btn.setStyle({ backgroundColor: '#22c55e' }));
     btn.on('pointerout', () => btn.setStyle({ backgroundColor: '#4ade80' }));
     btn.on('pointerdown', () => {
+      // MatchScene restarts the clock, kicks off and resumes itself
       this.scene.stop();
-      this.scene.resume('MatchScene');
+      EventBus.emit('secondHalfStart', {});
     });
   }
 }
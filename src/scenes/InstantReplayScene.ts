@@ -0,0 +1,119 @@
+/**
+ * InstantReplayScene — slow-motion replay of the last few seconds of play.
+ *
+ * Launched on top of a paused MatchScene after a try or a big hit. Plays a
+ * clip from the ReplayRecorder's buffer end-on from behind the attack, then
+ * stops itself and emits `instantReplayEnd` so MatchScene can carry on.
+ *
+ * Controls: SPACE / ENTER / ESC skip.
+ */
+
+import Phaser from 'phaser';
+import { CAMERA, INSTANT_REPLAY } from '../utils/Constants';
+import { EventBus } from '../utils/EventBus';
+import { sampleReplay } from '../systems/ReplayRecorder';
+import type { Replay } from '../systems/ReplayRecorder';
+import { ReplayRenderer } from '../ui/ReplayRenderer';
+import { drawPitch } from '../ui/PitchRenderer';
+
+interface InstantReplayData {
+  clip: Replay;
+  /** Banner text, e.g. "TRY — Blues" */
+  title: string;
+  /** Side in possession — the camera looks down their attacking direction */
+  attackingSide: 'home' | 'away';
+}
+
+export class InstantReplayScene extends Phaser.Scene {
+  private clip!: Replay;
+  private title = '';
+  private attackingSide: 'home' | 'away' = 'home';
+  private replayRenderer!: ReplayRenderer;
+  private playhead = 0;
+  private finished = false;
+  private progressFill!: Phaser.GameObjects.Rectangle;
+  private progressWidth = 0;
+
+  constructor() {
+    super({ key: 'InstantReplayScene' });
+  }
+
+  init(data: InstantReplayData): void {
+    this.clip = data.clip;
+    this.title = data.title;
+    this.attackingSide = data.attackingSide;
+    this.playhead = 0;
+    this.finished = false;
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+
+    drawPitch(this);
+    this.replayRenderer = new ReplayRenderer(this, this.clip);
+    this.replayRenderer.render(sampleReplay(this.clip, 0));
+
+    // ── Camera: close and end-on, attack running up the screen ──
+    const cam = this.cameras.main;
+    const ball = this.replayRenderer.getBall();
+    cam.setZoom(CAMERA.ZOOM_CLOSE);
+    cam.setRotation(this.attackingSide === 'home' ? -Math.PI / 2 : Math.PI / 2);
+    cam.centerOn(ball.x, ball.y);
+    cam.startFollow(ball, true, CAMERA.FOLLOW_LERP, CAMERA.FOLLOW_LERP);
+
+    // ── Overlay (own camera so it isn't rotated) ────────
+    const overlay: Phaser.GameObjects.GameObject[] = [
+      this.add.rectangle(0, 0, width, 40, 0x000000, 0.85).setOrigin(0),
+      this.add.rectangle(0, height - 40, width, 40, 0x000000, 0.85).setOrigin(0),
+      this.add.text(10, 12, '● REPLAY', {
+        fontSize: '12px', fontFamily: 'monospace', color: '#ef4444',
+      }),
+      this.add.text(width / 2, 20, this.title, {
+        fontSize: '16px', fontFamily: 'monospace', color: '#fbbf24',
+      }).setOrigin(0.5),
+      this.add.text(width - 10, 12, `${INSTANT_REPLAY.SPEED}x`, {
+        fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8',
+      }).setOrigin(1, 0),
+      this.add.text(width / 2, height - 14, '[SPACE] Skip', {
+        fontSize: '10px', fontFamily: 'monospace', color: '#94a3b8',
+      }).setOrigin(0.5),
+    ];
+
+    this.progressWidth = width - 40;
+    overlay.push(this.add.rectangle(20, height - 30, this.progressWidth, 4, 0x1e293b).setOrigin(0, 0.5));
+    this.progressFill = this.add.rectangle(20, height - 30, 0, 4, 0xef4444).setOrigin(0, 0.5);
+    overlay.push(this.progressFill);
+
+    const uiCam = this.cameras.add(0, 0, width, height).setName('overlay');
+    uiCam.ignore(this.children.list.filter(obj => !overlay.includes(obj)));
+    cam.ignore(overlay);
+
+    // ── Skip ────────────────────────────────────────────
+    this.input.keyboard?.once('keydown-SPACE', () => this.finish());
+    this.input.keyboard?.once('keydown-ENTER', () => this.finish());
+    this.input.keyboard?.once('keydown-ESC', () => this.finish());
+
+    cam.fadeIn(200, 0, 0, 0);
+  }
+
+  update(_time: number, delta: number): void {
+    if (this.finished) return;
+
+    this.playhead += delta * INSTANT_REPLAY.SPEED;
+    if (this.playhead >= this.clip.duration) {
+      this.finish();
+      return;
+    }
+
+    this.replayRenderer.render(sampleReplay(this.clip, this.playhead));
+    this.progressFill.width = (this.playhead / Math.max(1, this.clip.duration)) * this.progressWidth;
+  }
+
+  /** Hand control back to MatchScene (end of clip or skipped) */
+  private finish(): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.scene.stop();
+    EventBus.emit('instantReplayEnd', {});
+  }
+}
@@ -12,24 +12,104 @@ import Phaser from 'phaser';
 import { Player } from '../entities/Player';
 import { Ball } from '../entities/Ball';
 import { Team } from '../entities/Team';
+import type { TeamStats } from '../entities/Team';
 import { TeamAI } from '../ai/TeamAI';
-import { PITCH, CAMERA, TEAM_COLORS, PLAYER, Position, DIFFICULTY } from '../utils/Constants';
+import { PlayerAI } from '../ai/PlayerAI';
+import { PITCH, CAMERA, TEAM_COLORS, PLAYER, Position, DIFFICULTY, INSTANT_REPLAY, OFFSIDE, TMO, FORWARD_PASS, RESTART, LINEOUT, SCRUM } from '../utils/Constants';
 import type { DifficultyConfig } from '../utils/Constants';
 import { EventBus } from '../utils/EventBus';
+import type { GameEvents } from '../utils/EventBus';
 import { distance } from '../utils/MathHelpers';
+import { RNG, SeededRandom } from '../utils/Random';
 import { PhaseManager } from '../systems/PhaseManager';
 import { RuckSystem } from '../systems/RuckSystem';
+import type { RuckBreakdown } from '../systems/RuckSystem';
 import { ClockSystem } from '../systems/ClockSystem';
 import { ScoringSystem } from '../systems/ScoringSystem';
 import { MaulSystem } from '../systems/MaulSystem';
 import { OffsidesSystem } from '../systems/OffsidesSystem';
-import { KickoffSystem } from '../systems/KickoffSystem';
-import { resolveTackle, isInTackleRange } from '../components/Tackle';
-import { PowerBar, KickType, KICK_CONFIGS, calculateKickDistance, calculateKickDeviation } from '../components/Kicking';
-import { selectPassType, PASS_CONFIGS } from '../components/Passing';
+import { PenaltySystem } from '../systems/PenaltySystem';
+import type { PenaltyOption } from '../systems/PenaltySystem';
+import { KickoffSystem, isRestartPhase, deadBallRestart } from '../systems/KickoffSystem';
+import type { RestartType, ShortRestartOption } from '../systems/KickoffSystem';
+import { ReplayRecorder } from '../systems/ReplayRecorder';
+import { WeatherSystem } from '../systems/WeatherSystem';
+import { MatchStats } from '../systems/MatchStats';
+import { DisciplineSystem } from '../systems/DisciplineSystem';
+import { TMOSystem } from '../systems/TMOSystem';
+import { LineoutSystem, createTouchIncident, canQuickThrow, findQuickThrow, countQuickThrowCover, inFromTouch } from '../systems/LineoutSystem';
+import type { TouchIncident } from '../systems/LineoutSystem';
+import { ScrumSystem } from '../systems/ScrumSystem';
+import type { TryAttempt, TMOCheck, TMODecision } from '../systems/TMOSystem';
+import type { WeatherChoice, WeatherForecast } from '../systems/WeatherSystem';
+import type { Replay } from '../systems/ReplayRecorder';
+import { resolveTackle, isInTackleRange, rollHighTackle } from '../components/Tackle';
+import { PowerBar, KickType, KICK_CONFIGS, calculateKickDistance, calculateKickDeviation, touchFinderAngle, touchlineCrossing } from '../components/Kicking';
+import { selectPassType, PASS_CONFIGS, isForwardPass, findPassReceiver } from '../components/Passing';
 import { catchProbability } from '../components/Stats';
 import { AudioManager } from '../systems/AudioManager';
 import { ObjectPool } from '../utils/ObjectPool';
+import { drawPitch } from '../ui/PitchRenderer';
+
+/** A side as picked in TeamSelectScene — squad profile plus any custom players */
+interface MatchTeamData extends TeamStats {
+  name: string;
+}
+
+/** A side as it arrives from team selection — the colour is only worn by custom teams */
+type MatchTeamStats = Omit<TeamStats, 'color'> & Partial<Pick<TeamStats, 'color'>>;
+
+/** Used when the scene is started without team selection */
+const DEFAULT_TEAM_STATS: Record<'home' | 'away', MatchTeamStats> = {
+  home: { rating: 75, strength: 70, speed: 72, kicking: 68, handling: 70 },
+  away: { rating: 73, strength: 68, speed: 74, kicking: 70, handling: 72 },
+};
+
+/**
+ * Kit colours for the match: a custom team wears the colour picked for it in
+ * the editor, everyone else home blue or away red. If both would look the
+ * same, the away side changes.
+ */
+function kitColors(home: MatchTeamStats, away: MatchTeamStats): Record<'home' | 'away', number> {
+  const kit = (team: MatchTeamStats, fallback: number) => (team.squad && team.color !== undefined ? team.color : fallback);
+  const colors = { home: kit(home, TEAM_COLORS.HOME), away: kit(away, TEAM_COLORS.AWAY) };
+  if (colors.away === colors.home) colors.away = colors.home === TEAM_COLORS.AWAY ? TEAM_COLORS.HOME : TEAM_COLORS.AWAY;
+  return colors;
+}
+
+/** Banner shown when the AI side announces its penalty choice */
+const PENALTY_OPTION_LABELS: Record<PenaltyOption, string> = {
+  kick_at_goal: 'Going for the posts',
+  kick_to_touch: 'Kicking to touch',
+  scrum: 'Scrum',
+  tap_and_go: 'Tap and go!',
+};
+/** Banner for the receiving side's call on a short restart */
+const SHORT_RESTART_LABELS: Record<ShortRestartOption, string> = {
+  scrum: 'Scrum',
+  rekick: 'Kick it again',
+};
+/** How long the AI's penalty call stays up before it is taken (ms) */
+const AI_PENALTY_CALL_DELAY = 1500;
+
+/** Kick to touch from a penalty — aim turn rate (rad/s) with ↑/↓ */
+const TOUCH_KICK_AIM_SPEED = 1.2;
+/** Kick to touch — kicked automatically if the player hasn't after this long (ms) */
+const TOUCH_KICK_TIMEOUT = 10000;
+/** Lineouts are never formed closer than 5 m to the try line */
+const LINEOUT_MIN_FROM_TRY_LINE = 50;
+
+/** A penalty kick to touch being lined up or in flight */
+interface TouchKick {
+  team: 'home' | 'away';
+  kicker: Player;
+  /** Aim relative to straight downfield, negative towards the top touchline */
+  aimOffset: number;
+  inFlight: boolean;
+  aimGraphics: Phaser.GameObjects.Graphics | null;
+  prompt: Phaser.GameObjects.Text | null;
+  timeout: Phaser.Time.TimerEvent | null;
+}
 
 export class MatchScene extends Phaser.Scene {
   // ── Teams & Ball ───────────────────────────────────────
@@ -68,6 +148,10 @@ export class MatchScene extends Phaser.Scene {
   private powerBarLabel!: Phaser.GameObjects.Text;
   private kickTypeText!: Phaser.GameObjects.Text;
   private actionPrompt!: Phaser.GameObjects.Text;
+  private instantReplayPrompt!: Phaser.GameObjects.Text;
+  private challengePrompt!: Phaser.GameObjects.Text;
+  private advantageText!: Phaser.GameObjects.Text;
+  private cardsText!: Phaser.GameObjects.Text;
 
   // ── M2/M3/M5 Systems ────────────────────────────────────
   private phaseManager!: PhaseManager;
@@ -76,13 +160,55 @@ export class MatchScene extends Phaser.Scene {
   private scoringSystem!: ScoringSystem;
   private maulSystem!: MaulSystem;
   private offsidesSystem!: OffsidesSystem;
+  /** Per-player AI, used to walk offside players back onside */
+  private playerAIs = new Map<string, PlayerAI>();
+  private penaltySystem!: PenaltySystem;
   private kickoffSystem!: KickoffSystem;
+  private weatherSystem!: WeatherSystem;
+  private weatherChoice: WeatherChoice = 'clear';
+  /** Forecast previewed in TeamSelectScene (otherwise rolled at kick-off) */
+  private weatherForecast: WeatherForecast | null = null;
   // @ts-ignore — used by M5 AI difficulty scaling
   private difficulty: DifficultyConfig = DIFFICULTY.MEDIUM;
+  private seed = 0;
+  private teamNames = { home: 'HOME', away: 'AWAY' };
+  /** Started from TournamentScene — the result goes back into the competition */
+  private tournament = false;
+  /** Named players from custom teams (undefined = positional defaults) */
+  private teamStats: Record<'home' | 'away', MatchTeamStats> = DEFAULT_TEAM_STATS;
+  private replayRecorder!: ReplayRecorder;
+  private matchStats!: MatchStats;
+  private discipline!: DisciplineSystem;
+  /** Side whose big hit can be replayed with V (null = no offer open) */
+  private instantReplayOffer: 'home' | 'away' | null = null;
+  private instantReplayOfferTimer: Phaser.Time.TimerEvent | null = null;
+  private tmo!: TMOSystem;
+  /** Side putting in the next scrum (null = the controlled side, as before) */
+  private scrumFeed: 'home' | 'away' | null = null;
+  /** Scrums reset in a row — the referee gives the ball after SCRUM.MAX_RESETS */
+  private scrumResets = 0;
+  /** Side throwing in at the next lineout (null = decided by halfway, as before) */
+  private lineoutThrow: 'home' | 'away' | null = null;
+  /** Ball in touch, with a quick throw-in possible until the lineout forms */
+  private touchIncident: TouchIncident | null = null;
+  /** The lineout in SetPieceScene — its pods form a maul if the winners drive */
+  private lineoutSystem: LineoutSystem | null = null;
+  /** "Use it" offered to the controlled side's scrum-half while their maul goes on */
+  private useItPrompt: Phaser.GameObjects.Text | null = null;
+  /** Side that kicked last — a defender grounding it in-goal restarts with a goal-line drop-out */
+  private lastKickSide: 'home' | 'away' | null = null;
+  /** Try the controlled side can send to the TMO with C (null = no offer open) */
+  private challengeOffer: { attempt: TryAttempt; clip: Replay } | null = null;
+  private challengeOfferTimer: Phaser.Time.TimerEvent | null = null;
+  /** Celebration running before the conversion (cut short by a challenge) */
+  private tryCelebrationTimer: Phaser.Time.TimerEvent | null = null;
+  /** Continuation to run once InstantReplayScene hands back control */
+  private afterInstantReplay: (() => void) | null = null;
   private powerBar!: PowerBar;
   private selectedKickType: KickType = KickType.PUNT;
   private kickSelectorOpen = false;
   private kickSelectorItems: Phaser.GameObjects.Text[] = [];
+  private touchKick: TouchKick | null = null;
 
   // ── Game state ─────────────────────────────────────────
   private autoSwitchTimer = 0;
@@ -106,6 +232,9 @@ export class MatchScene extends Phaser.Scene {
   // ── Audio ──────────────────────────────────────────────
   private audioManager!: AudioManager;
 
+  /** EventBus unsubscribers, run on shutdown so a restarted match starts clean */
+  private busListeners: Array<() => void> = [];
+
   // ── Object Pools ───────────────────────────────────────
   private labelPool!: ObjectPool<Phaser.GameObjects.Text>;
   private particlePool!: ObjectPool<Phaser.GameObjects.Particles.ParticleEmitter>;
@@ -116,25 +245,33 @@ export class MatchScene extends Phaser.Scene {
   }
 
   /** Read scene data from TeamSelectScene */
-  init(data: { homeTeam?: { name: string; color: number }; awayTeam?: { name: string; color: number }; difficulty?: 'EASY' | 'MEDIUM' | 'HARD' }): void {
+  init(data: { homeTeam?: MatchTeamData; awayTeam?: MatchTeamData; difficulty?: 'EASY' | 'MEDIUM' | 'HARD'; seed?: number; weather?: WeatherChoice; forecast?: WeatherForecast; tournament?: boolean }): void {
     if (data.difficulty && DIFFICULTY[data.difficulty]) {
       this.difficulty = DIFFICULTY[data.difficulty];
     }
+    // Same seed → same match: every gameplay roll comes from the shared RNG
+    this.seed = data.seed ?? SeededRandom.generateSeed();
+    RNG.setSeed(this.seed);
+    this.teamNames = { home: data.homeTeam?.name ?? 'HOME', away: data.awayTeam?.name ?? 'AWAY' };
+    this.teamStats = {
+      home: data.homeTeam ?? DEFAULT_TEAM_STATS.home,
+      away: data.awayTeam ?? DEFAULT_TEAM_STATS.away,
+    };
+    this.weatherChoice = data.weather ?? 'clear';
+    this.weatherForecast = data.forecast ?? null;
+    this.tournament = data.tournament ?? false;
+    this.touchKick = null;
   }
 
   create(): void {
     // ── Draw the pitch ──────────────────────────────────
-    this.drawPitch();
+    drawPitch(this);
+    this.physics.world.setBounds(0, 0, PITCH.WIDTH_PX, PITCH.HEIGHT_PX);
 
     // ── Create teams ────────────────────────────────────
-    this.homeTeam = new Team(this, 'home', {
-      rating: 75, strength: 70, speed: 72, kicking: 68, handling: 70,
-      color: TEAM_COLORS.HOME,
-    });
-    this.awayTeam = new Team(this, 'away', {
-      rating: 73, strength: 68, speed: 74, kicking: 70, handling: 72,
-      color: TEAM_COLORS.AWAY,
-    });
+    const colors = kitColors(this.teamStats.home, this.teamStats.away);
+    this.homeTeam = new Team(this, 'home', { ...this.teamStats.home, color: colors.home });
+    this.awayTeam = new Team(this, 'away', { ...this.teamStats.away, color: colors.away });
     
     // Set difficulty on teams
     this.homeTeam.setDifficulty(this.difficulty);
@@ -202,18 +339,62 @@ export class MatchScene extends Phaser.Scene {
     this.scoringSystem = new ScoringSystem();
     this.maulSystem = new MaulSystem(this);
     this.offsidesSystem = new OffsidesSystem();
+    this.penaltySystem = new PenaltySystem();
     this.kickoffSystem = new KickoffSystem(this.ball);
     this.powerBar = new PowerBar();
 
+    // Weather: gameplay effects now, visuals once the HUD exists
+    this.weatherSystem = new WeatherSystem();
+    this.ball.setWeather(this.weatherSystem);
+    this.events.once('shutdown', () => this.weatherSystem.destroy());
+
     // Cascade difficulty config to sub-systems
     this.ruckSystem.setDifficulty(this.difficulty);
+    this.ruckSystem.setOffsides(this.offsidesSystem);
+
+    // ── Replay recording ────────────────────────────────
+    this.replayRecorder = new ReplayRecorder({
+      homeTeam: this.homeTeam,
+      awayTeam: this.awayTeam,
+      ball: this.ball,
+      clock: this.clockSystem,
+      scoring: this.scoringSystem,
+    }, {
+      seed: this.seed,
+      home: { name: this.teamNames.home, color: this.homeTeam.color },
+      away: { name: this.teamNames.away, color: this.awayTeam.color },
+    });
+    this.replayRecorder.start();
+    this.events.once('shutdown', () => this.replayRecorder.stop());
+
+    // ── Match statistics ────────────────────────────────
+    this.matchStats = new MatchStats(this.homeTeam, this.awayTeam, this.ball);
+    this.matchStats.start();
+    this.events.once('shutdown', () => this.matchStats.destroy());
+
+    // ── Referee's cards ─────────────────────────────────
+    this.discipline = new DisciplineSystem(this.homeTeam, this.awayTeam, this.clockSystem);
+    this.discipline.start();
+    this.events.once('shutdown', () => this.discipline.destroy());
+
+    // ── Television Match Official ───────────────────────
+    this.tmo = new TMOSystem(this.homeTeam, this.awayTeam);
+    this.tmo.start();
+    this.events.once('shutdown', () => this.tmo.destroy());
+    this.events.once('shutdown', () => {
+      for (const ai of this.playerAIs.values()) ai.destroy();
+      this.playerAIs.clear();
+    });
 
-    // Start with kickoff → open play
-    this.phaseManager.transition('OPEN_PLAY');
+    // Start with kickoff → open play once the ball is down
     this.performKickoff();
 
     // ── Event listeners ─────────────────────────────────
     this.setupEventListeners();
+    this.events.once('shutdown', () => {
+      for (const off of this.busListeners) off();
+      this.busListeners = [];
+    });
 
     // ── Minimap ─────────────────────────────────────────
     this.setupMinimap();
@@ -221,6 +402,7 @@ export class MatchScene extends Phaser.Scene {
     // ── Audio Manager ────────────────────────────────────
     this.audioManager = new AudioManager(this);
     this.audioManager.startCrowdAmbience();
+    this.events.once('shutdown', () => this.audioManager.destroy());
 
     // ── Object Pools ───────────────────────────────────────
     
@@ -274,6 +456,11 @@ export class MatchScene extends Phaser.Scene {
     // ── HUD ─────────────────────────────────────────────
     this.createHUD();
 
+    // ── Weather ─────────────────────────────────────────
+    const forecast = this.weatherForecast ?? WeatherSystem.generateForecast(this.weatherChoice);
+    this.weatherSystem.setForecast(forecast, this);
+    this.minimapCamera.ignore(this.weatherSystem.getDisplayObjects());
+
     // ── Fade in ─────────────────────────────────────────
     this.cameras.main.fadeIn(400, 0, 0, 0);
   }
@@ -281,9 +468,16 @@ export class MatchScene extends Phaser.Scene {
   update(_time: number, delta: number): void {
     // ── Update match clock ──────────────────────────────
     this.clockSystem.update(delta);
+    this.replayRecorder.update(delta);
+    this.matchStats.update(delta);
+    this.discipline.update();
 
     // ── Handle controlled player input ──────────────────
-    this.handlePlayerInput(delta);
+    if (this.touchKick) {
+      this.updateTouchKick(delta);
+    } else {
+      this.handlePlayerInput(delta);
+    }
 
     // ── Update selection ring + arrow ────────────────────
     this.selectionRing.setPosition(
@@ -309,11 +503,13 @@ export class MatchScene extends Phaser.Scene {
     // ── Update ball ─────────────────────────────────────
     this.ball.update(delta);
 
-    // ── Check for stuck ball ────────────────────────────
-    this.checkStuckBall(delta);
-
-    // ── Check for out of bounds ─────────────────────────
-    this.checkOutOfBounds();
+    // ── Check for stuck ball / out of bounds ────────────
+    // (a penalty kick to touch settles its own outcome, as does a restart;
+    // a ball already in touch waits for the throw-in)
+    if (!this.touchKick && !isRestartPhase(this.phaseManager.getPhase()) && this.phaseManager.getPhase() !== 'TOUCH') {
+      this.checkStuckBall(delta);
+      this.checkOutOfBounds();
+    }
 
     // ── Update ruck system ──────────────────────────────
     this.ruckSystem.update(delta);
@@ -327,20 +523,17 @@ export class MatchScene extends Phaser.Scene {
     if (this.maulSystem.isActive()) {
       this.maulSystem.update(delta, this.ball);
       this.autoCommitToMaul();
+    } else if (this.useItPrompt) {
+      this.closeUseItPrompt();
     }
 
 
     // ── Update offside lines ────────────────────────────
-    if (this.ruckSystem.isActive()) {
-      const ruckState = this.ruckSystem.getState();
-      this.offsidesSystem.setRuckOffsideLine(ruckState.x, true);
-    } else {
-      this.offsidesSystem.clearRuckOffside();
-      this.offsidesSystem.setGeneralOffsideLine(this.ball.sprite.x);
-    }
+    this.updateOffsideLines();
+    this.checkKickOffside();
 
     // ── Offside interference check (M5.4) ────────────────
-    if (this.ruckSystem.isActive() && this.ball.carrier) {
+    if ((this.ruckSystem.isActive() || this.maulSystem.isActive()) && this.ball.carrier) {
       const carrierX = this.ball.carrier.sprite.x;
       const carrierY = this.ball.carrier.sprite.y;
       const checkTeam = this.ball.carrier.teamSide === 'home' ? this.awayTeam : this.homeTeam;
@@ -351,28 +544,30 @@ export class MatchScene extends Phaser.Scene {
         
         const distToCarrier = Math.hypot(p.sprite.x - carrierX, p.sprite.y - carrierY);
         if (distToCarrier < 80) {
-          // Offside player interfering with play — penalty
-          EventBus.emit('penaltyAwarded', {
-            x: p.sprite.x,
-            y: p.sprite.y,
-            reason: 'Offside — interfering with play',
-            severity: 'penalty' as const,
-          });
+          // Offside player interfering with play — advantage to the side in possession
+          this.penaltySystem.signalInfringement('offside', p.sprite.x, p.sprite.y, p.teamSide, true, p.id);
           break; // Only one penalty at a time
         }
       }
     }
 
-    // ── Update Kickoff System ───────────────────────────
-    if (this.phaseManager.getPhase() === 'KICK_OFF') {
+    // ── Update Kickoff System (kick-offs and drop-outs) ─
+    if (isRestartPhase(this.phaseManager.getPhase())) {
       this.kickoffSystem.update(delta);
     }
 
-    // ── Check for try scored ────────────────────────────
+    // ── Check for try scored / touched down in-goal ─────
     if (this.phaseManager.getPhase() === 'OPEN_PLAY') {
-      const tryResult = this.scoringSystem.checkTry(this.ball);
-      if (tryResult && tryResult.scored) {
-        this.handleTryScored(tryResult.team);
+      // A kick gathered in the field of play has been played — taking it back in-goal is not grounding it
+      if (this.ball.carrier && this.ball.sprite.x > PITCH.TRY_LINE_LEFT && this.ball.sprite.x < PITCH.TRY_LINE_RIGHT) this.lastKickSide = null;
+      const tryResult = this.scoringSystem.detectTry(this.ball);
+      const grounding = this.scoringSystem.detectGrounding(this.ball, this.lastKickSide);
+      if (tryResult && this.ball.carrier) {
+        this.handleTryAttempt(this.tmo.assessAttempt(tryResult.team, this.ball.carrier, tryResult.x, tryResult.y));
+      } else if (grounding) {
+        EventBus.emit('ballGrounded', grounding);
+        this.showRefereeBadge(`TOUCHED DOWN — goal-line drop-out ${this.teamNames[grounding.team]}`, '#1e293bee');
+        this.performGoalLineDropout(grounding.team);
       }
     }
 
@@ -393,14 +588,25 @@ export class MatchScene extends Phaser.Scene {
     // ── Update AI players ───────────────────────────────
     // Only run AI movement and decisions during active play
     const activePhase = this.phaseManager.getPhase();
-    const isPlayPhase = activePhase === 'OPEN_PLAY' || activePhase === 'KICK_OFF';
+    const isPlayPhase = activePhase === 'OPEN_PLAY' || (isRestartPhase(activePhase) && this.ball.state === 'kicked');
+    if (activePhase === 'OPEN_PLAY' || activePhase === 'TACKLE' || activePhase === 'RUCK') {
+      this.penaltySystem.update(delta, this.ball.sprite.x, this.ball.getPossessionTeam());
+    }
     if (isPlayPhase) {
+      const score = this.scoringSystem.getScore();
+      const minutes = this.clockSystem.getMinutes();
+      this.homeTeamAI.updateContext(score.home, score.away, minutes);
+      this.awayTeamAI.updateContext(score.away, score.home, minutes);
+
       const phaseCount = this.phaseManager.getPhaseCount();
       this.homeTeamAI.update(delta, this.ball, phaseCount);
       this.awayTeamAI.update(delta, this.ball, phaseCount);
       this.homeTeam.update(delta, this.ball, this.controlledPlayer);
       this.awayTeam.update(delta, this.ball, null);
     }
+    if (activePhase !== 'SCRUM' && activePhase !== 'LINEOUT') {
+      this.steerOffsidePlayers(delta);
+    }
 
     // ── Update HUD ──────────────────────────────────────
     this.updateHUD();
@@ -445,8 +651,10 @@ export class MatchScene extends Phaser.Scene {
       this.stuckBallTimer += delta;
       
       if (this.stuckBallTimer > 5000) { // 5 seconds
-        // Award scrum 
-        if (this.phaseManager.canTransition('SCRUM')) {
+        // Advantage comes back for the penalty; otherwise award scrum
+        if (this.penaltySystem.isPlayingAdvantage()) {
+          this.penaltySystem.advantageOver();
+        } else if (this.phaseManager.canTransition('SCRUM')) {
           this.phaseManager.queueTransition('SCRUM', 1);
           this.time.delayedCall(500, () => {
               EventBus.emit('phaseChange', { from: 'OPEN_PLAY', to: 'SCRUM' });
@@ -468,14 +676,18 @@ export class MatchScene extends Phaser.Scene {
     const isKicked = this.ball.state === 'kicked';
     const isCarried = this.ball.state === 'carried';
 
+    // Play stopped with nothing gained — back to the advantage mark
+    const out = y <= 0 || y >= PITCH.HEIGHT_PX || x <= PITCH.DEAD_BALL_LEFT || x >= PITCH.DEAD_BALL_RIGHT;
+    if (out && this.penaltySystem.isPlayingAdvantage()) {
+      this.penaltySystem.advantageOver();
+      return;
+    }
+
     // Sidelines (Touch)
     if (y <= 0 || y >= PITCH.HEIGHT_PX) {
       if (isCarried) {
-        // Carried into touch -> Lineout
-        if (this.phaseManager.canTransition('LINEOUT')) {
-           this.phaseManager.queueTransition('LINEOUT', 1);
-           EventBus.emit('phaseChange', { from: 'OPEN_PLAY', to: 'LINEOUT' });
-        }
+        // Carried into touch -> quick throw-in or lineout
+        this.ballIntoTouch();
       } else if (isKicked) {
         // Kicked out on full
         if (this.phaseManager.canTransition('SCRUM')) {
@@ -483,23 +695,17 @@ export class MatchScene extends Phaser.Scene {
            EventBus.emit('phaseChange', { from: 'OPEN_PLAY', to: 'SCRUM' });
         }
       } else if (isLoose) {
-        // Bounced out -> Lineout
-        if (this.phaseManager.canTransition('LINEOUT')) {
-           this.phaseManager.queueTransition('LINEOUT', 1);
-           EventBus.emit('phaseChange', { from: 'OPEN_PLAY', to: 'LINEOUT' });
-        }
+        // Bounced out -> quick throw-in or lineout
+        this.ballIntoTouch();
       }
     }
 
     // Dead-ball lines (In-Goal)
-    if (x <= 0 || x >= PITCH.WIDTH_PX) {
+    if (x <= PITCH.DEAD_BALL_LEFT || x >= PITCH.DEAD_BALL_RIGHT) {
       if (isKicked || isLoose) {
-        // Ball went dead
-        // Simple logic: if attacking team kicked it dead -> 22m drop out
-        // If defending team kicked/carried it dead -> 5m scrum
-        const deadSide = x <= 0 ? 'home' : 'away';
-        // For now, always give a 22 dropout to the defending team of that zone
-        this.performDropout22(deadSide);
+        // Ball went dead — the team defending that end drops out
+        const deadSide = x <= PITCH.DEAD_BALL_LEFT ? 'home' : 'away';
+        this.performRestart(deadBallRestart(deadSide, this.ball.getPossessionTeam()), deadSide);
       }
     }
   }
@@ -537,8 +743,14 @@ export class MatchScene extends Phaser.Scene {
   // EVENT LISTENERS
   // ─────────────────────────────────────────────────────────
 
+  /** Subscribe for the lifetime of this match */
+  private listen<K extends keyof GameEvents>(event: K, callback: (data: GameEvents[K]) => void): void {
+    EventBus.on(event, callback);
+    this.busListeners.push(() => EventBus.off(event, callback));
+  }
+
   private setupEventListeners(): void {
-    EventBus.on('ruckBallAvailable', (data: { x: number; y: number; attackingTeam: 'home' | 'away' }) => {
+    this.listen('ruckBallAvailable', (data: { x: number; y: number; attackingTeam: 'home' | 'away' }) => {
       if (this.phaseManager.canTransition('OPEN_PLAY')) {
         this.phaseManager.transition('OPEN_PLAY');
         this.ruckSystem.endRuck();
@@ -549,7 +761,7 @@ export class MatchScene extends Phaser.Scene {
       }
     });
 
-    EventBus.on('ruckTurnover', (data: { x: number; y: number; attackingTeam: 'home' | 'away' }) => {
+    this.listen('ruckTurnover', (data: { x: number; y: number; attackingTeam: 'home' | 'away' }) => {
       if (this.phaseManager.canTransition('OPEN_PLAY')) {
         this.phaseManager.transition('OPEN_PLAY');
         this.ruckSystem.endRuck();
@@ -560,7 +772,7 @@ export class MatchScene extends Phaser.Scene {
       }
     });
 
-    EventBus.on('ruckTimeout', () => {
+    this.listen('ruckTimeout', () => {
       // 5s elapsed — award attacking team the ball via scrum
       const atkSide = this.ruckSystem.getAttackingTeam();
       this.ruckSystem.endRuck();
@@ -577,26 +789,60 @@ export class MatchScene extends Phaser.Scene {
       }
     });
 
-    EventBus.on('penaltyAwarded', (data: { x: number; y: number; reason: string; severity?: 'penalty'|'free_kick' }) => {
-      if (!this.phaseManager.canTransition('PENALTY')) return;
+    // Maul over the line, or pulled down when it would have been
+    this.listen('maulTry', (data) => {
+      if (data.penaltyTry) {
+        this.scoringSystem.awardPenaltyTry(data.team);
+        this.showRefereeBadge(`PENALTY TRY — ${this.teamNames[data.team]}`, '#7f1d1dee');
+      } else {
+        this.scoringSystem.awardTry(data.team, data.y);
+      }
+      this.handleTryScored(data.team);
+    });
+
+    this.listen('penaltyAwarded', (data) => {
+      if (!this.phaseManager.canTransition('PENALTY')) {
+        this.penaltySystem.reset();
+        return;
+      }
+      // A penalty from elsewhere (e.g. the ruck) stops any advantage being played
+      if (this.penaltySystem.isPlayingAdvantage()) this.penaltySystem.reset();
 
+      // Work out the beneficiary before the ruck (and its attacking side) is cleared
+      const awarded = this.penaltyAwardedTo(data);
       this.clockSystem.pause();
       this.phaseManager.transition('PENALTY');
       this.ruckSystem.endRuck();
 
       const isFreeKick = data.severity === 'free_kick';
       const typeLabel = isFreeKick ? 'FREE KICK' : 'PENALTY';
+      const situation = { x: data.x, y: data.y, freeKick: isFreeKick };
       
       // Simple UI
       const { width, height } = this.cameras.main;
       const cy = height / 2;
       
-      const title = this.add.text(width / 2, cy - 100, `${typeLabel}: ${data.reason.toUpperCase()}`, {
+      const title = this.add.text(width / 2, cy - 100, `${typeLabel} ${this.teamNames[awarded]}: ${data.reason.toUpperCase()}`, {
          fontSize: '32px', color: '#ff0000', backgroundColor: '#000000'
       }).setOrigin(0.5).setScrollFactor(0).setDepth(100);
 
+      // AI side awarded it — its coach makes the call
+      if (awarded !== this.controlledPlayer.teamSide) {
+        const option = this.getTeamAI(awarded).choosePenaltyOption(situation);
+        const call = this.add.text(width / 2, cy, PENALTY_OPTION_LABELS[option], {
+           fontSize: '24px', color: '#ffffff', backgroundColor: '#000000'
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(100);
+        this.time.delayedCall(AI_PENALTY_CALL_DELAY, () => {
+          title.destroy();
+          call.destroy();
+          this.clockSystem.resume();
+          this.takePenaltyOption(option, data, awarded);
+        });
+        return;
+      }
+
       // Options
-      let optionsText = '[2] Scrum  [3] Lineout  [4] Tap';
+      let optionsText = '[2] Scrum  [3] Kick to Touch  [4] Tap';
       if (!isFreeKick) {
          optionsText = '[1] Kick at Goal  ' + optionsText;
       }
@@ -605,89 +851,41 @@ export class MatchScene extends Phaser.Scene {
          fontSize: '24px', color: '#ffffff', backgroundColor: '#000000'
       }).setOrigin(0.5).setScrollFactor(0).setDepth(100);
 
+      // Kept so clearUI takes off only these, not other prompts' keys
+      const keys: [string, () => void][] = [
+         ['keydown-TWO', () => choose('scrum')],
+         ['keydown-THREE', () => choose('kick_to_touch')],
+         ['keydown-FOUR', () => choose('tap_and_go')],
+      ];
+      if (!isFreeKick) {
+         keys.unshift(['keydown-ONE', () => choose('kick_at_goal')]);
+      }
+
       const clearUI = () => {
          title.destroy();
          opts.destroy();
-         this.input.keyboard?.off('keydown-ONE');
-         this.input.keyboard?.off('keydown-TWO');
-         this.input.keyboard?.off('keydown-THREE');
-         this.input.keyboard?.off('keydown-FOUR');
+         for (const [key, handler] of keys) this.input.keyboard?.off(key, handler);
          this.clockSystem.resume();
       };
-      
-      if (this.input.keyboard) {
-          // [1] Kick at Goal
-          if (!isFreeKick) {
-             this.input.keyboard.on('keydown-ONE', () => {
-                clearUI();
-                this.scene.launch('SetPieceScene', {
-                   type: 'penalty_kick',
-                   x: data.x, y: data.y,
-                   team: this.controlledPlayer.teamSide 
-                });
-                this.scene.pause();
-             });
-          }
-          
-          // [2] Scrum
-          this.input.keyboard.on('keydown-TWO', () => {
-             clearUI();
-             // Transition logic handled by phase change usually, but we need to trigger it manually or via event
-             // Let's just launch scene directly for M3 simplicity, similar to other set pieces
-             this.scene.launch('SetPieceScene', {
-                type: 'scrum',
-                x: data.x, y: data.y,
-                team: this.controlledPlayer.teamSide,
-                stats: { homeStrength: 50, awayStrength: 50, homeHooking: 50, awayHooking: 50 } // Simplified stats for now
-             });
-             this.scene.pause();
-          });
-
-          // [3] Lineout (Kick to Touch simulation -> just start lineout at sideline)
-          this.input.keyboard.on('keydown-THREE', () => {
-             clearUI();
-             // Find nearest touchline y
-             const touchY = data.y < PITCH.HEIGHT_PX / 2 ? 0 : PITCH.HEIGHT_PX;
-             this.scene.launch('SetPieceScene', {
-                type: 'lineout',
-                x: data.x, y: touchY, // Move to touch
-                team: this.controlledPlayer.teamSide
-             });
-             this.scene.pause();
-          });
+      const choose = (option: PenaltyOption) => {
+         penaltyTimeout.remove(false);
+         clearUI();
+         this.takePenaltyOption(option, data, awarded);
+      };
 
-          // [4] Tap and Go
-          this.input.keyboard.on('keydown-FOUR', () => {
-             clearUI();
-             this.phaseManager.transition('TAP_AND_GO');
-             this.phaseManager.transition('OPEN_PLAY');
-             // Give ball to scrum half or clicked player
-             const sh = this.homeTeam.getPlayerByPosition(9);
-             if (sh) this.ball.attachToPlayer(sh);
-          });
-      }
+      for (const [key, handler] of keys) this.input.keyboard?.on(key, handler);
 
       // ── Auto-resolve after 8s (prevents stuck PENALTY state) ─
+      // The coach takes the option the player didn't
       const penaltyTimeout = this.time.delayedCall(8000, () => {
         if (this.phaseManager.getPhase() !== 'PENALTY') return;
-        clearUI();
-        if (this.phaseManager.canTransition('OPEN_PLAY')) {
-          this.phaseManager.transition('OPEN_PLAY');
-        } else {
-          this.phaseManager.forcePhase('OPEN_PLAY');
-        }
-        const fallbackSH = this.homeTeam.getPlayerByPosition(9);
-        if (fallbackSH) this.ball.attachToPlayer(fallbackSH);
+        choose(this.getTeamAI(awarded).choosePenaltyOption(situation));
       });
-      const cancelPenaltyTimeout = () => penaltyTimeout.remove(false);
-      this.input.keyboard?.once('keydown-ONE', cancelPenaltyTimeout);
-      this.input.keyboard?.once('keydown-TWO', cancelPenaltyTimeout);
-      this.input.keyboard?.once('keydown-THREE', cancelPenaltyTimeout);
-      this.input.keyboard?.once('keydown-FOUR', cancelPenaltyTimeout);
     });
 
     // ── M3: Clock events ─────────────────────────────────
-    EventBus.on('halfTime', () => {
+    this.listen('halfTime', () => {
+      this.penaltySystem.reset();
       if (this.phaseManager.canTransition('HALF_TIME')) {
         this.phaseManager.transition('HALF_TIME');
       } else {
@@ -702,17 +900,14 @@ export class MatchScene extends Phaser.Scene {
       this.scene.launch('HalfTimeScene', {
         homeScore: score.home,
         awayScore: score.away,
-        possession: 50,
         territory: territoryPct,
-        tackles: { home: 0, away: 0 },
-        passes: { home: 0, away: 0 },
-        carries: { home: 0, away: 0 },
-        penalties: { home: 0, away: 0 },
+        ...this.matchStats.getSummary(),
+        ...this.discipline.getSummary(),
       });
       this.scene.pause();
     });
 
-    EventBus.on('fullTime', () => {
+    this.listen('fullTime', () => {
       if (this.phaseManager.canTransition('FULL_TIME')) {
         this.phaseManager.transition('FULL_TIME');
       } else {
@@ -720,93 +915,212 @@ export class MatchScene extends Phaser.Scene {
       }
       this.clockSystem.pause();
       const score = this.scoringSystem.getScore();
+      const replay = this.replayRecorder.stop();
+      ReplayRecorder.save(replay);
+      const mom = this.matchStats.getManOfMatch();
       this.scene.start('ResultScene', {
         homeScore: score.home,
         awayScore: score.away,
-        stats: {
-          possession: { home: 50, away: 50 },
-          tackles: { home: 0, away: 0 },
-          carries: { home: 0, away: 0 },
-          passes: { home: 0, away: 0 },
-          penalties: { home: 0, away: 0 },
-        },
+        ...this.matchStats.getSummary(),
+        ...this.discipline.getSummary(),
+        manOfMatch: mom ? `${mom.name} (${this.teamNames[mom.team]})` : undefined,
+        reportCard: { home: this.matchStats.getReportCard('home'), away: this.matchStats.getReportCard('away') },
+        tries: { ...this.scoringSystem.getTries() },
+        seed: this.seed,
+        replay,
+        tournamentFixture: this.tournament ? { ...this.teamNames } : undefined,
       });
     });
 
     // Resume from half-time
-    EventBus.on('secondHalfStart', () => {
+    this.listen('secondHalfStart', () => {
       this.clockSystem.startSecondHalf();
-      this.phaseManager.forcePhase('KICK_OFF');
-      this.phaseManager.transition('OPEN_PLAY');
       // Second half started by Away team (usually)
       this.performKickoff('away');
       this.scene.resume();
     });
 
     // ── Score event for HUD ──────────────────────────────
-    EventBus.on('score', () => {
+    this.listen('score', () => {
       // HUD picks up new score in updateHUD()
+      this.penaltySystem.reset();
+    });
+
+    // ── 10-metre law: a kick in open play puts those in front of the kicker offside ──
+    this.listen('ballKicked', (data) => {
+      const kicker = this.getPlayerById(data.kickerId);
+      if (!kicker) return;
+      this.lastKickSide = kicker.teamSide;
+      if (this.phaseManager.getPhase() !== 'OPEN_PLAY') return;
+      const { start, landing } = this.ball.getKickFlight();
+      const team = kicker.teamSide === 'home' ? this.homeTeam : this.awayTeam;
+      this.offsidesSystem.setKickOffsideLine(kicker.teamSide, start.x, landing.x, team.players);
+    });
+
+    // ── Advantage: breakdowns count towards the window, knock-ons end it ──
+    this.listen('ruckFormed', () => {
+      this.penaltySystem.recordPhase();
+      this.lastKickSide = null;
     });
 
-    // ── Tackle event: cosmetics + audio only ────────────────────
+    // Runs before the knock-on scrum is set, so the penalty is taken instead
+    this.listen('knockOn', () => {
+      this.penaltySystem.advantageOver();
+    });
+    this.listen('forwardPass', () => {
+      this.penaltySystem.advantageOver();
+    });
+
+    // ── Forward pass: judged when the ball arrives ──────────
+    this.listen('passCompleted', (data) => {
+      if (this.phaseManager.getPhase() !== 'OPEN_PLAY') return;
+      const passer = this.getPlayerById(data.passerId);
+      if (!passer || !isForwardPass(passer.teamSide, data, FORWARD_PASS.REFEREE_TOLERANCE)) return;
+      this.callForwardPass(passer, data.receiverId, data.catchX, data.catchY);
+    });
+
+    // ── Tackle event: cosmetics, audio and the referee ──────────
     // Game logic is handled in tryTackleOrFend() and Team.attemptAITackle()
-    // This handler is ONLY for side effects (audio, camera shake, etc.)
-    EventBus.on('tackle', (_data: any) => {
+    // This handler is for side effects (audio, camera shake, high-tackle penalty)
+    this.listen('tackle', (data) => {
       // Camera micro-shake on tackle
       this.cameras.main.shake(80, 0.003);
+
+      // Head contact — play stops straight away (DisciplineSystem decides the card)
+      if (data.high) {
+        const tackler = this.getPlayerById(data.tacklerId);
+        if (tackler) {
+          this.penaltySystem.signalInfringement('high_tackle', tackler.sprite.x, tackler.sprite.y, tackler.teamSide, false, tackler.id);
+        }
+      }
+
+      if (data.dominant) {
+        const carrier = this.getPlayerById(data.carrierId);
+        if (carrier) this.offerInstantReplay(carrier.teamSide);
+      }
+    });
+
+    // ── Discipline: cards, sin bins, warnings ──────────────
+    this.listen('card', (data) => {
+      const record = this.discipline.getCards().find(c => c.playerId === data.playerId);
+      const who = record ? `${record.name} (${this.teamNames[data.team]})` : this.teamNames[data.team];
+      const isRed = data.card === 'red';
+      this.showRefereeBadge(`${isRed ? 'RED' : 'YELLOW'} CARD — ${who}`, isRed ? '#7f1d1dee' : '#a16207ee');
+      if (this.controlledPlayer.id === data.playerId) this.switchPlayer();
+    });
+
+    this.listen('sinBinReturn', (data) => {
+      this.showRefereeBadge(`${this.teamNames[data.team]} back to 15`, '#14532dee');
+    });
+
+    this.listen('teamWarning', (data) => {
+      this.showRefereeBadge(`TEAM WARNING — ${this.teamNames[data.team]}`, '#1e293bee');
+    });
+
+    // ── Weather: scheduled changes + pitch wetness ────────
+    this.listen('clockTick', (data) => {
+      this.weatherSystem.update(data.half, data.gameMinutes);
+    });
+
+    this.listen('weatherChange', (data) => {
+      this.minimapCamera.ignore(this.weatherSystem.getDisplayObjects());
+      this.showWeatherBadge(data.description);
+    });
+
+    // ── Instant replay finished / skipped ────────────────
+    this.listen('instantReplayEnd', () => {
+      this.scene.resume();
+      const next = this.afterInstantReplay;
+      this.afterInstantReplay = null;
+      next?.();
     });
 
 
 
 
     // ── Set Piece Resolution ─────────────────────────────
-    EventBus.on('ruckResolved', (data: { team: 'home' | 'away'; action?: string }) => {
+    this.listen('ruckResolved', (data) => {
       const winningTeam = data.team === 'home' ? this.homeTeam : this.awayTeam;
       
       let recipient = winningTeam.getPlayerByPosition(Position.SCRUM_HALF); // Default 9
 
+      if (data.action === 'not_straight') {
+          // Scrum to the defence, 15 m in from touch
+          const y = this.ball.sprite.y < PITCH.HEIGHT_PX / 2 ? 150 : PITCH.HEIGHT_PX - 150;
+          this.ball.sprite.setPosition(this.ball.sprite.x, y);
+          this.scrumFeed = data.team;
+          this.scene.resume();
+          this.phaseManager.transition('SCRUM');
+          return;
+      }
+
+      if (data.action === 'scrum_reset' && ++this.scrumResets < SCRUM.MAX_RESETS) {
+          // Down again — set it again, put-in as the referee gives it
+          this.scrumFeed = data.team;
+          this.scene.resume();
+          this.phaseManager.transition('SCRUM');
+          return;
+      }
+      this.scrumResets = 0;
+
+      if (data.action === 'pushover') {
+          // Driven over — the No. 8 grounds it at the base
+          const tryLineX = data.team === 'home' ? PITCH.TRY_LINE_RIGHT : PITCH.TRY_LINE_LEFT;
+          const eight = winningTeam.getPlayerByPosition(Position.NUMBER_8);
+          eight.sprite.setPosition(tryLineX + (data.team === 'home' ? 10 : -10), this.ball.sprite.y);
+          this.ball.attachToPlayer(eight);
+          this.cameras.main.zoomTo(CAMERA.ZOOM_DEFAULT, 1000, 'cubic.out');
+          this.scene.resume();
+          this.scoringSystem.awardTry(data.team, this.ball.sprite.y);
+          this.handleTryScored(data.team);
+          return;
+      }
+
+      if (data.action === 'overthrow') {
+          // Over the tail of the line — comes down loose for anyone
+          this.ball.dropLoose(this.ball.sprite.x, inFromTouch(this.ball.sprite.y, LINEOUT.OVERTHROW_DEPTH));
+          this.cameras.main.zoomTo(CAMERA.ZOOM_DEFAULT, 1000, 'cubic.out');
+          this.scene.resume();
+          this.phaseManager.transition('OPEN_PLAY');
+          return;
+      }
+
       if (data.action === 'maul') {
-          // Driving maul from lineout (M5.3)
-          const ballX = this.ball.sprite.x;
-          const nearTryLine = data.team === 'home'
-            ? ballX > PITCH.LINE_22_RIGHT
-            : ballX < PITCH.LINE_22_LEFT;
-
-          if (nearTryLine) {
-            // Start a driving maul instead of giving ball to backs
-            const jumper = winningTeam.getPlayerByPosition(5) || winningTeam.getPlayerByPosition(4);
-            const supporter = winningTeam.getPlayerByPosition(1); // Loosehead prop as initial supporter
-            
-            if (jumper && supporter) {
-              // Find a defender to act as the tackler in the maul
-              const oppTeam = data.team === 'home' ? this.awayTeam : this.homeTeam;
-              const nearestDef = oppTeam.players
-                .filter(p => !p.isGrounded && !p.isInRuck && p.position <= 8)
-                .sort((a, b) => {
-                  const dA = Math.hypot(a.sprite.x - jumper.sprite.x, a.sprite.y - jumper.sprite.y);
-                  const dB = Math.hypot(b.sprite.x - jumper.sprite.x, b.sprite.y - jumper.sprite.y);
-                  return dA - dB;
-                })[0];
-
-              if (nearestDef && this.phaseManager.canTransition('MAUL')) {
-                this.ball.attachToPlayer(jumper);
-                this.phaseManager.transition('MAUL');
-                this.maulSystem.startMaul(jumper, nearestDef, supporter, data.team === 'home');
-                this.cameras.main.zoomTo(CAMERA.ZOOM_DEFAULT, 1000, 'cubic.out');
-                this.scene.resume();
-                return;
-              }
-            }
+          // Driving maul from lineout (M5.3) — the catcher's pod binds on at the mark
+          const jumper = data.playerId ? this.getPlayerById(data.playerId) : undefined;
+          if (jumper && this.lineoutSystem && this.phaseManager.canTransition('MAUL')) {
+            const pod = this.lineoutSystem.getPod(data.team, jumper);
+            const mx = this.ball.sprite.x;
+            const my = inFromTouch(this.ball.sprite.y, (LINEOUT.LINE_FRONT + LINEOUT.LINE_TAIL) / 2);
+            this.lineoutSystem = null;
+            this.phaseManager.transition('MAUL');
+            this.maulSystem.startLineoutMaul(pod, mx, my, data.team === 'home');
+            this.ball.attachToPlayer(jumper);
+            this.cameras.main.zoomTo(CAMERA.ZOOM_DEFAULT, 1000, 'cubic.out');
+            this.scene.resume();
+            return;
           }
-          
+
           // Fallback: ball to Lock/Forward
           recipient = winningTeam.getPlayerByPosition(5) || winningTeam.getPlayerByPosition(4) || recipient;
+      } else if (data.action === 'peel_front' || data.action === 'peel_back') {
+          // A forward takes it off the jumper and comes around the end of the line
+          const peeler = data.playerId ? this.getPlayerById(data.playerId) : undefined;
+          if (peeler) {
+            const depth = data.action === 'peel_front' ? LINEOUT.LINE_FRONT : LINEOUT.LINE_TAIL;
+            peeler.sprite.setPosition(this.ball.sprite.x, inFromTouch(this.ball.sprite.y, depth));
+            recipient = peeler;
+          }
+      } else if (data.action === 'quick_throw') {
+          // Straight to whoever the ball was thrown to
+          recipient = (data.playerId && this.getPlayerById(data.playerId)) || recipient;
       } else if (data.action === 'blindside' || data.action === 'openside') {
           // Ball to SH (9) as usual
       }
 
       if (recipient) {
         this.ball.attachToPlayer(recipient);
+        this.offsidesSystem.holdSetPieceLine(recipient);
         this.cameras.main.zoomTo(CAMERA.ZOOM_DEFAULT, 1000, 'cubic.out');
       }
 
@@ -817,202 +1131,53 @@ export class MatchScene extends Phaser.Scene {
       this.scene.resume();
     });
 
+    // ── Kick-off / drop-out didn't go the distance ───────
+    this.listen('restartShort', (data) => this.handleShortRestart(data));
+
+    // ── Kick at goal from SetPieceScene ──────────────────
+    this.listen('goalKickResult', (data) => {
+      if (data.type !== 'penalty') return;
+      this.scene.resume();
+      if (data.success) {
+        this.restartAfterScore(data.team);
+      } else {
+        this.performDropout22(data.team === 'home' ? 'away' : 'home');
+      }
+    });
+
     // ── Phase Change Listener ────────────────────────────
-    EventBus.on('phaseChange', (data: { from: string, to: string }) => {
+    this.listen('phaseChange', (data: { from: string, to: string }) => {
+      // KickoffSystem announces the restart landing — follow it into open play
+      if (data.to === 'OPEN_PLAY' && data.from === this.phaseManager.getPhase() && isRestartPhase(data.from)) {
+        this.phaseManager.transition('OPEN_PLAY');
+        return;
+      }
+
       if (data.to === 'SCRUM') {
+         this.offsidesSystem.setScrumOffsideLine(this.ball.sprite.x);
+
          // Determine feed team
-         const feedTeam = this.controlledPlayer.teamSide; 
-         
-         // Calculate pack strengths (average of forwards 1-8)
-         const calculatePackStrength = (team: Team) => {
-            let total = 0;
-            let count = 0;
-            for (const p of team.players) {
-               if (p.position <= 8) { // Forwards are 1-8
-                  total += p.stats.strength;
-                  count++;
-               }
-            }
-            return count > 0 ? total / count : 50;
-         };
-
-         // Get Hooker stats (Position 2, index 1 usually, but check position prop)
-         const getHookerInstinct = (team: Team) => {
-            const hooker = team.players.find(p => p.position === 2);
-            // Fallback for testing if no hooker found
-            return hooker ? (hooker.stats.handling || 50) : 50; 
-            // Using 'handling' as proxy for hooking skill
-         };
-
-         const homeStrength = calculatePackStrength(this.homeTeam);
-         const awayStrength = calculatePackStrength(this.awayTeam);
-         const homeHooking = getHookerInstinct(this.homeTeam);
-         const awayHooking = getHookerInstinct(this.awayTeam);
-
-         this.scene.launch('SetPieceScene', {
-            type: 'scrum',
-            x: this.ball.sprite.x,
-            y: this.ball.sprite.y,
-            team: feedTeam,
-            stats: { 
-               homeStrength, 
-               awayStrength,
-               homeHooking,
-               awayHooking
-            }
-         });
-         this.scene.pause();
+         const feedTeam = this.scrumFeed ?? this.controlledPlayer.teamSide;
+         this.scrumFeed = null;
+         this.launchScrum(feedTeam, this.ball.sprite.x, this.ball.sprite.y);
          
          // Zoom camera
          this.cameras.main.zoomTo(1.5, 1000, 'cubic.in');
       } else if (data.to === 'LINEOUT') {
          // Determine throw team
-         const throwTeam = this.ball.sprite.x < PITCH.HALFWAY ? 'home' : 'away';
-
-         this.scene.launch('SetPieceScene', {
-            type: 'lineout',
-            x: this.ball.sprite.x,
-            y: this.ball.sprite.y,
-            team: throwTeam
-         });
-         this.scene.pause();
+         const throwTeam = this.lineoutThrow ?? (this.ball.sprite.x < PITCH.HALFWAY ? 'home' : 'away');
+         this.lineoutThrow = null;
+         this.touchIncident = null;
+         this.launchLineout(throwTeam);
       }
     });
 
     // ── Play Selected from PlaySelector UI ───────────────
-    EventBus.on('playSelected', (data: { play: string }) => {
+    this.listen('playSelected', (data: { play: string }) => {
       this.homeTeamAI.setCurrentPlay(data.play as any);
     });
   }
 
-  // ─────────────────────────────────────────────────────────
-  // PITCH DRAWING
-  // ─────────────────────────────────────────────────────────
-
-  private drawPitch(): void {
-    const gfx = this.add.graphics();
-
-    // Grass background with stripe effect
-    for (let x = 0; x < PITCH.WIDTH_PX; x += 100) {
-      const shade = (x / 100) % 2 === 0 ? 0x2d7d2d : 0x339933;
-      gfx.fillStyle(shade, 1);
-      gfx.fillRect(x, 0, 100, PITCH.HEIGHT_PX);
-    }
-
-    // In-goal areas (lighter tint)
-    gfx.fillStyle(0x3d8d3d, 1);
-    gfx.fillRect(0, 0, PITCH.TRY_LINE_LEFT, PITCH.HEIGHT_PX);
-    gfx.fillRect(PITCH.TRY_LINE_RIGHT, 0, PITCH.WIDTH_PX - PITCH.TRY_LINE_RIGHT, PITCH.HEIGHT_PX);
-
-    // Field lines
-    gfx.lineStyle(2, 0xffffff, 0.8);
-
-    // Touchlines
-    gfx.strokeRect(PITCH.TRY_LINE_LEFT, 0, PITCH.TRY_LINE_RIGHT - PITCH.TRY_LINE_LEFT, PITCH.HEIGHT_PX);
-
-    // Halfway
-    gfx.beginPath();
-    gfx.moveTo(PITCH.HALFWAY, 0);
-    gfx.lineTo(PITCH.HALFWAY, PITCH.HEIGHT_PX);
-    gfx.strokePath();
-
-    // 22m lines
-    this.drawDashedLine(gfx, PITCH.LINE_22_LEFT, 0, PITCH.LINE_22_LEFT, PITCH.HEIGHT_PX);
-    this.drawDashedLine(gfx, PITCH.LINE_22_RIGHT, 0, PITCH.LINE_22_RIGHT, PITCH.HEIGHT_PX);
-
-    // 10m lines
-    this.drawDashedLine(gfx, PITCH.LINE_10_LEFT, 0, PITCH.LINE_10_LEFT, PITCH.HEIGHT_PX);
-    this.drawDashedLine(gfx, PITCH.LINE_10_RIGHT, 0, PITCH.LINE_10_RIGHT, PITCH.HEIGHT_PX);
-
-    // Try lines (solid, thicker)
-    gfx.lineStyle(3, 0xffffff, 1);
-    gfx.beginPath();
-    gfx.moveTo(PITCH.TRY_LINE_LEFT, 0);
-    gfx.lineTo(PITCH.TRY_LINE_LEFT, PITCH.HEIGHT_PX);
-    gfx.strokePath();
-    gfx.beginPath();
-    gfx.moveTo(PITCH.TRY_LINE_RIGHT, 0);
-    gfx.lineTo(PITCH.TRY_LINE_RIGHT, PITCH.HEIGHT_PX);
-    gfx.strokePath();
-
-    // Dead-ball lines
-    gfx.lineStyle(2, 0xffffff, 0.5);
-    gfx.beginPath();
-    gfx.moveTo(50, 0);
-    gfx.lineTo(50, PITCH.HEIGHT_PX);
-    gfx.strokePath();
-    gfx.beginPath();
-    gfx.moveTo(PITCH.WIDTH_PX - 50, 0);
-    gfx.lineTo(PITCH.WIDTH_PX - 50, PITCH.HEIGHT_PX);
-    gfx.strokePath();
-
-    // Halfway circle
-    gfx.lineStyle(2, 0xffffff, 0.6);
-    gfx.strokeCircle(PITCH.HALFWAY, PITCH.HEIGHT_PX / 2, 50);
-
-    // Goal posts
-    this.drawGoalPosts(gfx, PITCH.POST_LEFT_X, PITCH.POST_Y);
-    this.drawGoalPosts(gfx, PITCH.POST_RIGHT_X, PITCH.POST_Y);
-
-    // 5m dashes along touchlines
-    gfx.lineStyle(1, 0xffffff, 0.4);
-    for (let x = PITCH.TRY_LINE_LEFT; x <= PITCH.TRY_LINE_RIGHT; x += 50) {
-      gfx.beginPath();
-      gfx.moveTo(x, 0);
-      gfx.lineTo(x, 10);
-      gfx.strokePath();
-      gfx.beginPath();
-      gfx.moveTo(x, PITCH.HEIGHT_PX - 10);
-      gfx.lineTo(x, PITCH.HEIGHT_PX);
-      gfx.strokePath();
-    }
-
-    gfx.setDepth(-1);
-    this.physics.world.setBounds(0, 0, PITCH.WIDTH_PX, PITCH.HEIGHT_PX);
-  }
-
-  private drawDashedLine(gfx: Phaser.GameObjects.Graphics, x1: number, y1: number, x2: number, y2: number): void {
-    const dashLength = 10;
-    const gapLength = 6;
-    const totalLength = Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
-    const dx = (x2 - x1) / totalLength;
-    const dy = (y2 - y1) / totalLength;
-    let drawn = 0;
-    let drawing = true;
-
-    gfx.lineStyle(1, 0xffffff, 0.5);
-    while (drawn < totalLength) {
-      const segLen = drawing ? dashLength : gapLength;
-      const endDraw = Math.min(drawn + segLen, totalLength);
-      if (drawing) {
-        gfx.beginPath();
-        gfx.moveTo(x1 + dx * drawn, y1 + dy * drawn);
-        gfx.lineTo(x1 + dx * endDraw, y1 + dy * endDraw);
-        gfx.strokePath();
-      }
-      drawn = endDraw;
-      drawing = !drawing;
-    }
-  }
-
-  private drawGoalPosts(gfx: Phaser.GameObjects.Graphics, x: number, y: number): void {
-    const postWidth = PITCH.POST_WIDTH;
-    const halfPost = postWidth / 2;
-    gfx.lineStyle(3, 0xf0e68c, 1);
-    gfx.beginPath();
-    gfx.moveTo(x, y - halfPost);
-    gfx.lineTo(x, y + halfPost);
-    gfx.strokePath();
-    gfx.lineStyle(3, 0xf0e68c, 1);
-    gfx.beginPath();
-    gfx.moveTo(x - 5, y - halfPost);
-    gfx.lineTo(x - 5, y + halfPost);
-    gfx.strokePath();
-    gfx.fillStyle(0xffd700, 1);
-    gfx.fillCircle(x - 5, y - halfPost, 3);
-    gfx.fillCircle(x - 5, y + halfPost, 3);
-  }
-
   // ─────────────────────────────────────────────────────────
   // MINIMAP
   // ─────────────────────────────────────────────────────────
@@ -1089,10 +1254,10 @@ export class MatchScene extends Phaser.Scene {
     
     if (!success) {
       // Miss wide or short
-      const missOffset = (Math.random() > 0.5 ? 1 : -1) * (50 + Math.random() * 100);
+      const missOffset = (RNG.chance(0.5) ? 1 : -1) * RNG.range(50, 150);
       endY += missOffset;
       // Maybe short?
-      if (Math.random() < 0.3) endX -= 100 * (kicker.teamSide === 'home' ? 1 : -1);
+      if (RNG.chance(0.3)) endX -= 100 * (kicker.teamSide === 'home' ? 1 : -1);
     }
     
     // Visual text
@@ -1128,44 +1293,23 @@ export class MatchScene extends Phaser.Scene {
     
     this.time.delayedCall(2000, () => {
       if (success) {
-         // Success -> Kick Off (handled by score event -> logic?)
-         // Actually ScoreSystem emits score. MatchScene updates HUD.
-         // We need to trigger restart flow.
-         this.phaseManager.forcePhase('KICK_OFF');
-         this.phaseManager.transition('OPEN_PLAY');
-         // Restart by conceding team
-         const restartTeam = kicker.teamSide === 'home' ? 'away' : 'home';
-         this.performKickoff(restartTeam);
+         // Success -> Kick Off by the conceding team
+         this.restartAfterScore(kicker.teamSide);
        } else {
          // Miss -> 22m Drop Out (defending team kicks from 22)
-         // Transition to 'DROP_OUT_22' (map to restart logic)
-         // For now, just reset like a 22 dropout?
-         // Simpler: Scrum at kick point? Or 22 dropout.
-         // Let's force a 22 dropout restart.
-         this.phaseManager.transition('OPEN_PLAY'); // Reset phase?
          this.performDropout22(kicker.teamSide === 'home' ? 'away' : 'home');
        }
     });
   }
 
+  /** 22m drop-out — the side defending that end restarts from its own 22 */
   performDropout22(kickingTeam: 'home' | 'away'): void {
-     // Position ball at 22 center
-     const x = kickingTeam === 'home' ? PITCH.LINE_22_LEFT : PITCH.LINE_22_RIGHT;
-     const y = PITCH.HEIGHT_PX / 2;
-     
-     this.ball.sprite.setPosition(x, y);
-     this.ball.sprite.setVelocity(0, 0);
-     this.ball.state = 'loose';
-     
-     // Give ball to kicker
-     const team = kickingTeam === 'home' ? this.homeTeam : this.awayTeam;
-     const kicker = team.getPlayerByPosition(Position.FLY_HALF);
-     if (kicker) {
-       kicker.sprite.setPosition(x, y);
-       this.ball.attachToPlayer(kicker);
-       // Auto kick? Or let them play?
-       // Let them play (Tap and Go style)
-     }
+    this.performRestart('DROP_OUT_22', kickingTeam);
+  }
+
+  /** Goal-line drop-out — after the ball is held up or touched down in-goal by the defence */
+  private performGoalLineDropout(kickingTeam: 'home' | 'away'): void {
+    this.performRestart('GOAL_LINE_DROP_OUT', kickingTeam);
   }
 
   // @ts-ignore — kept for AI tackle handler compatibility
@@ -1178,6 +1322,11 @@ export class MatchScene extends Phaser.Scene {
   // HELPERS
   // ─────────────────────────────────────────────────────────
 
+  /** Who RuckSystem needs to know about to judge the breakdown */
+  private breakdownFor(tackler: Player, carrier: Player): RuckBreakdown {
+    return { tackler, carrier, players: [...this.homeTeam.players, ...this.awayTeam.players] };
+  }
+
   private setupInput(): void {
     if (!this.input.keyboard) return;
 
@@ -1196,6 +1345,7 @@ export class MatchScene extends Phaser.Scene {
       R: this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.R),
       F: this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.F),
       T: this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.T),
+      V: this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.V),
     };
 
     // Player switch
@@ -1215,6 +1365,13 @@ export class MatchScene extends Phaser.Scene {
 
     // Kick type selector
     this.keys.T.on('down', () => this.toggleKickSelector());
+
+    // Instant replay of a big hit (only while the offer is up)
+    this.keys.V.on('down', () => this.acceptInstantReplayOffer());
+
+    // Captain's challenge on an opposition try (only while the offer is up)
+    this.keys.C = this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.C);
+    this.keys.C.on('down', () => this.acceptChallenge());
   }
 
   private handlePlayerInput(delta: number): void {
@@ -1237,6 +1394,111 @@ export class MatchScene extends Phaser.Scene {
     player.moveInDirection(vx, vy, sprinting, delta);
   }
 
+  /** Form both packs from the forwards on the pitch and hand over to SetPieceScene */
+  private launchScrum(feed: 'home' | 'away', x: number, y: number): void {
+    const defending = feed === 'home' ? 'away' : 'home';
+    const human = this.controlledPlayer.teamSide;
+    this.scene.launch('SetPieceScene', {
+      type: 'scrum',
+      x, y,
+      team: feed,
+      scrum: new ScrumSystem(this.getTeam(feed), this.getTeam(defending), this.weatherSystem.getWetness()),
+      controlledSide: human,
+      opponentAI: this.getTeamAI(human === 'home' ? 'away' : 'home'),
+    });
+    this.scene.pause();
+  }
+
+  private getTeam(side: 'home' | 'away'): Team {
+    return side === 'home' ? this.homeTeam : this.awayTeam;
+  }
+
+  private getTeamAI(side: 'home' | 'away'): TeamAI {
+    return side === 'home' ? this.homeTeamAI : this.awayTeamAI;
+  }
+
+  /**
+   * Side a penalty was given to: the explicit team, else the opposition of the
+   * named offender, else from the side in possession (a ruck's attackers while
+   * one is live) and whether the attack infringed.
+   */
+  private penaltyAwardedTo(data: GameEvents['penaltyAwarded']): 'home' | 'away' {
+    if (data.team) return data.team;
+    const offender = data.playerId ? this.getPlayerById(data.playerId) : undefined;
+    if (offender) return offender.teamSide === 'home' ? 'away' : 'home';
+    const inPossession = this.ruckSystem.isActive()
+      ? this.ruckSystem.getAttackingTeam()
+      : this.ball.getPossessionTeam() ?? this.controlledPlayer.teamSide;
+    if (!data.againstAttack) return inPossession;
+    return inPossession === 'home' ? 'away' : 'home';
+  }
+
+  /** Carry out a penalty decision for the awarded side */
+  private takePenaltyOption(option: PenaltyOption, data: GameEvents['penaltyAwarded'], awarded: 'home' | 'away'): void {
+    this.penaltySystem.selectOption(option);
+    switch (option) {
+      case 'kick_at_goal':
+        if (awarded === this.controlledPlayer.teamSide) {
+          this.scene.launch('SetPieceScene', {
+            type: 'penalty_kick',
+            x: data.x, y: data.y,
+            team: awarded,
+            wind: this.weatherSystem.goalKickWind(awarded),
+          });
+          this.scene.pause();
+        } else {
+          this.kickPenaltyGoal(awarded, data.x, data.y);
+        }
+        break;
+
+      case 'scrum':
+        this.launchScrum(awarded, data.x, data.y);
+        break;
+
+      case 'kick_to_touch':
+        this.startTouchKick(awarded, data.x, data.y);
+        break;
+
+      case 'tap_and_go': {
+        this.phaseManager.transition('TAP_AND_GO');
+        this.phaseManager.transition('OPEN_PLAY');
+        const sh = this.getTeam(awarded).getPlayerByPosition(Position.SCRUM_HALF);
+        this.ball.attachToPlayer(sh);
+        break;
+      }
+    }
+  }
+
+  /** AI kick at goal — resolved here, like conversions, rather than in SetPieceScene */
+  private kickPenaltyGoal(team: 'home' | 'away', x: number, y: number): void {
+    const { width, height } = this.cameras.main;
+    const postsX = team === 'home' ? PITCH.POST_RIGHT_X : PITCH.POST_LEFT_X;
+    const wind = this.weatherSystem.goalKickWind(team);
+    const accuracy = RNG.range(0.6, 0.95) * Math.max(0.5, 1 - Math.abs(wind.crosswind) * 0.2);
+    const power = RNG.range(0.5, 0.8) + wind.tailwind * 0.1;
+    const kicker = this.getTeam(team).getPlayerByPosition(Position.FLY_HALF);
+    const success = this.scoringSystem.attemptPenaltyGoal(
+      team, accuracy, power, kicker.stats.kicking, distance({ x, y }, { x: postsX, y: PITCH.POST_Y }),
+    );
+    EventBus.emit('ballKicked', { kickerId: kicker.id, type: 'penalty_goal', power });
+
+    const resultText = this.add.text(width / 2, height / 2, success ? 'PENALTY GOAL!' : 'MISSED', {
+      fontSize: '32px', fontFamily: 'monospace',
+      color: success ? '#22c55e' : '#ef4444',
+      backgroundColor: '#00000088', padding: { x: 16, y: 8 },
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(200);
+
+    const opposition = team === 'home' ? 'away' : 'home';
+    this.time.delayedCall(2000, () => {
+      resultText.destroy();
+      if (success) {
+        this.restartAfterScore(team);
+      } else {
+        this.performDropout22(opposition);
+      }
+    });
+  }
+
   // ─────────────────────────────────────────────────────────
   // PLAYER SWITCHING
   // ─────────────────────────────────────────────────────────
@@ -1296,42 +1558,13 @@ export class MatchScene extends Phaser.Scene {
   // ─────────────────────────────────────────────────────────
 
   private tryPass(direction: 'left' | 'right'): void {
-    if (!this.controlledPlayer.hasBall) return;
+    if (!this.controlledPlayer.hasBall || this.touchKick) return;
 
     const carrier = this.controlledPlayer;
-    const carrierPos = { x: carrier.sprite.x, y: carrier.sprite.y };
-
-    let bestTarget: Player | null = null;
-    let bestDist = Infinity;
+    const target = findPassReceiver(carrier, this.homeTeam.players, direction);
 
-    for (const p of this.homeTeam.players) {
-      if (p === carrier) continue;
-
-      const pPos = { x: p.sprite.x, y: p.sprite.y };
-
-      // Direction check
-      if (direction === 'left' && pPos.y >= carrierPos.y) continue;
-      if (direction === 'right' && pPos.y <= carrierPos.y) continue;
-
-      // Onside check — receiver must be behind or level
-      const behind = pPos.x <= carrierPos.x + 20;
-      if (!behind) continue;
-
-      const d = distance(carrierPos, pPos);
-
-      // Auto-select pass type and check range
-      const passType = selectPassType(d, carrier.stats.handling);
-      const config = PASS_CONFIGS[passType];
-      const maxRange = config.baseRange * (carrier.stats.handling / 100);
-      if (d > maxRange) continue;
-
-      if (d < bestDist) {
-        bestDist = d;
-        bestTarget = p;
-      }
-    }
-
-    if (bestTarget) {
+    if (target) {
+      const { receiver: bestTarget, distance: bestDist } = target;
       const passType = selectPassType(bestDist, carrier.stats.handling);
       const config = PASS_CONFIGS[passType];
 
@@ -1345,8 +1578,10 @@ export class MatchScene extends Phaser.Scene {
       // Catch probability check — on pass completion
       this.time.delayedCall(300, () => {
         if (this.ball.state === 'carried' && this.ball.carrier === bestTarget) {
-          const catchChance = catchProbability(bestTarget.stats.handling, config.accuracyMod);
-          if (Math.random() > catchChance) {
+          const catchChance = catchProbability(
+            bestTarget.stats.handling, config.accuracyMod, this.weatherSystem.getConfig().knockOnModifier,
+          );
+          if (!RNG.chance(catchChance)) {
             // Knock-on!
             this.ball.dropLoose(bestTarget.sprite.x, bestTarget.sprite.y);
             bestTarget.releaseBall();
@@ -1354,6 +1589,7 @@ export class MatchScene extends Phaser.Scene {
 
             if (this.phaseManager.canTransition('KNOCK_ON')) {
               this.phaseManager.transition('KNOCK_ON');
+              this.scrumFeed = bestTarget.teamSide === 'home' ? 'away' : 'home';
               // Award scrum after knock-on
               // Listen for phaseChange will handle launching SetPieceScene
               this.time.delayedCall(1500, () => {
@@ -1382,6 +1618,24 @@ export class MatchScene extends Phaser.Scene {
     }
   }
 
+  /** Whistle a forward pass — play stops and the other side feeds the scrum */
+  private callForwardPass(passer: Player, receiverId: string, x: number, y: number): void {
+    const receiver = this.getPlayerById(receiverId);
+    this.ball.dropLoose(x, y);
+    receiver?.releaseBall();
+    EventBus.emit('forwardPass', { playerId: passer.id, receiverId, x, y, team: passer.teamSide });
+
+    // A penalty from advantage being over is taken instead
+    if (!this.phaseManager.canTransition('FORWARD_PASS')) return;
+    const feed = passer.teamSide === 'home' ? 'away' : 'home';
+    this.phaseManager.transition('FORWARD_PASS');
+    this.showRefereeBadge(`FORWARD PASS — scrum ${this.teamNames[feed]}`, '#1e293bee');
+    this.scrumFeed = feed;
+    this.time.delayedCall(1500, () => {
+      this.phaseManager.transition('SCRUM');
+    });
+  }
+
   // ─────────────────────────────────────────────────────────
   // KICKING (M2.7) — Power bar + kick types
   // ─────────────────────────────────────────────────────────
@@ -1394,6 +1648,11 @@ export class MatchScene extends Phaser.Scene {
 
   private releaseKick(): void {
     if (!this.powerBar.isCharging) return;
+    if (this.touchKick) {
+      this.hidePowerBar();
+      this.kickForTouch(this.powerBar.release());
+      return;
+    }
 
     const power = this.powerBar.release();
     const kicker = this.controlledPlayer;
@@ -1442,6 +1701,248 @@ export class MatchScene extends Phaser.Scene {
     this.powerBarFill.setFillStyle(this.powerBar.getColor());
   }
 
+  // ─────────────────────────────────────────────────────────
+  // PENALTY KICK TO TOUCH
+  // ─────────────────────────────────────────────────────────
+
+  /**
+   * Fly-half lines up a touch finder from the mark. The human aims with ↑/↓
+   * and kicks with the power bar (R); the AI aims for just beyond the nearest
+   * touchline and kicks straight away.
+   */
+  private startTouchKick(team: 'home' | 'away', x: number, y: number): void {
+    const kicker = this.getTeam(team).getPlayerByPosition(Position.FLY_HALF);
+    kicker.sprite.setPosition(x, y);
+    kicker.setVelocity(0, 0);
+    this.ball.attachToPlayer(kicker);
+
+    const attackDir = team === 'home' ? 1 : -1;
+    const expected = calculateKickDistance(KickType.TOUCH_FINDER, kicker.stats.kicking, 0.75);
+    const angle = touchFinderAngle(y, attackDir, expected);
+    const aimOffset = Phaser.Math.Angle.Wrap(team === 'home' ? angle : Math.PI - angle);
+
+    this.touchKick = { team, kicker, aimOffset, inFlight: false, aimGraphics: null, prompt: null, timeout: null };
+
+    if (team !== this.controlledPlayer.teamSide) {
+      this.kickForTouch(RNG.range(0.65, 0.85));
+      return;
+    }
+
+    this.controlledPlayer = kicker;
+    const { width } = this.cameras.main;
+    this.touchKick.aimGraphics = this.add.graphics().setDepth(50);
+    this.touchKick.prompt = this.add.text(width / 2, 470, '↑/↓ AIM   HOLD R FOR POWER', {
+      fontSize: '14px', fontFamily: 'monospace', color: '#ffffff', backgroundColor: '#000000aa',
+      padding: { x: 8, y: 4 },
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(100);
+    this.touchKick.timeout = this.time.delayedCall(TOUCH_KICK_TIMEOUT, () => {
+      this.powerBar.reset();
+      this.hidePowerBar();
+      this.kickForTouch(0.75);
+    });
+  }
+
+  /** Absolute kick angle for an aim offset from straight downfield */
+  private touchKickAngle(tk: TouchKick): number {
+    return tk.team === 'home' ? tk.aimOffset : Math.PI - tk.aimOffset;
+  }
+
+  private updateTouchKick(delta: number): void {
+    const tk = this.touchKick!;
+    tk.kicker.setVelocity(0, 0);
+
+    if (tk.inFlight) {
+      if (this.ball.state !== 'kicked') this.resolveTouchKick();
+      return;
+    }
+    if (!tk.aimGraphics) return;
+
+    // Turn the aim, never back towards our own line
+    let turn = 0;
+    if (this.wasd.W.isDown || this.cursors.up.isDown) turn -= 1;
+    if (this.wasd.S.isDown || this.cursors.down.isDown) turn += 1;
+    tk.aimOffset = Phaser.Math.Clamp(
+      tk.aimOffset + turn * TOUCH_KICK_AIM_SPEED * (delta / 1000), -Math.PI / 2, Math.PI / 2,
+    );
+
+    // Aim line grows with the power being charged
+    const power = this.powerBar.isCharging ? this.powerBar.power : 0.5;
+    const length = calculateKickDistance(KickType.TOUCH_FINDER, tk.kicker.stats.kicking, power);
+    const angle = this.touchKickAngle(tk);
+    const { x, y } = tk.kicker.sprite;
+    tk.aimGraphics.clear();
+    tk.aimGraphics.lineStyle(2, 0xffffff, 0.7);
+    tk.aimGraphics.lineBetween(x, y, x + Math.cos(angle) * length, y + Math.sin(angle) * length);
+    tk.aimGraphics.strokeCircle(x + Math.cos(angle) * length, y + Math.sin(angle) * length, 6);
+  }
+
+  /** Strike the touch finder — Kicking's TOUCH_FINDER config, wind applied by the Ball */
+  private kickForTouch(power: number): void {
+    const tk = this.touchKick;
+    if (!tk || tk.inFlight) return;
+    tk.inFlight = true;
+    tk.aimGraphics?.destroy();
+    tk.prompt?.destroy();
+    tk.timeout?.remove(false);
+
+    const kicker = tk.kicker;
+    const config = KICK_CONFIGS[KickType.TOUCH_FINDER];
+    const kickDist = calculateKickDistance(KickType.TOUCH_FINDER, kicker.stats.kicking, power);
+    const angle = this.touchKickAngle(tk) + calculateKickDeviation(KickType.TOUCH_FINDER, kicker.stats.kicking, power);
+
+    this.ball.kickWithType(
+      kicker, power, kickDist,
+      kicker.sprite.x + Math.cos(angle) * kickDist,
+      kicker.sprite.y + Math.sin(angle) * kickDist,
+      config.arcHeight,
+      config.flightDuration,
+      config.bounces,
+      config.bounceDeviation,
+    );
+    EventBus.emit('ballKicked', { kickerId: kicker.id, type: KickType.TOUCH_FINDER, power });
+  }
+
+  /**
+   * Ball has come down: found touch → kicking side throws in where it crossed;
+   * touch-in-goal → 22 drop-out; short of touch → play on.
+   */
+  private resolveTouchKick(): void {
+    const tk = this.touchKick!;
+    this.touchKick = null;
+
+    const { start, landing } = this.ball.getKickFlight();
+    const crossing = touchlineCrossing(start, landing);
+
+    if (!crossing) {
+      this.phaseManager.transition('OPEN_PLAY');
+      return;
+    }
+
+    if (crossing.x <= PITCH.TRY_LINE_LEFT || crossing.x >= PITCH.TRY_LINE_RIGHT) {
+      this.phaseManager.transition('OPEN_PLAY');
+      this.performDropout22(tk.team === 'home' ? 'away' : 'home');
+      return;
+    }
+
+    const x = Phaser.Math.Clamp(
+      crossing.x,
+      PITCH.TRY_LINE_LEFT + LINEOUT_MIN_FROM_TRY_LINE,
+      PITCH.TRY_LINE_RIGHT - LINEOUT_MIN_FROM_TRY_LINE,
+    );
+    this.ball.sprite.setPosition(x, crossing.y);
+    this.ball.sprite.setVelocity(0, 0);
+    EventBus.emit('touch', { x, y: crossing.y, team: tk.team });
+    this.lineoutThrow = tk.team;
+    this.phaseManager.transition('LINEOUT');
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // TOUCH & QUICK THROW-IN
+  // ─────────────────────────────────────────────────────────
+
+  /**
+   * Carried or bounced into touch: the ball is dead at the mark and the
+   * other side throws in — quickly if they can, otherwise once the
+   * lineout has formed.
+   */
+  private ballIntoTouch(): void {
+    if (!this.phaseManager.canTransition('TOUCH')) return;
+
+    const x = Phaser.Math.Clamp(
+      this.ball.sprite.x,
+      PITCH.TRY_LINE_LEFT + LINEOUT_MIN_FROM_TRY_LINE,
+      PITCH.TRY_LINE_RIGHT - LINEOUT_MIN_FROM_TRY_LINE,
+    );
+    const y = this.ball.sprite.y <= PITCH.TOUCHLINE_TOP ? PITCH.TOUCHLINE_TOP : PITCH.TOUCHLINE_BOTTOM;
+    const putOut = this.ball.carrier?.teamSide ?? this.ball.getPossessionTeam() ?? this.controlledPlayer.teamSide;
+    const team = putOut === 'home' ? 'away' : 'home';
+
+    const carrier = this.ball.carrier;
+    this.ball.dropLoose(x, y);
+    carrier?.releaseBall();
+    this.ball.sprite.setVelocity(0, 0);
+
+    const touch = createTouchIncident(team, x, y, this.time.now);
+    this.touchIncident = touch;
+    this.lineoutThrow = team;
+    EventBus.emit('touch', { x, y, team });
+    this.phaseManager.transition('TOUCH');
+
+    // The lineout forms unless someone takes it quickly first
+    this.time.delayedCall(LINEOUT.QUICK_THROW_WINDOW, () => this.formLineout(touch));
+    if (!canQuickThrow(touch, this.time.now) || !findQuickThrow(this.getTeam(team), touch)) {
+      if (touch.spectatorTouched) this.showRefereeBadge('BALL HANDLED OFF THE PITCH — lineout', '#1e293bee');
+      return;
+    }
+
+    if (team !== this.controlledPlayer.teamSide) {
+      const cover = countQuickThrowCover(this.getTeam(putOut), touch);
+      if (this.getTeamAI(team).chooseQuickThrow(x, cover)) {
+        this.time.delayedCall(LINEOUT.QUICK_THROW_AI_DELAY, () => this.takeQuickThrow(touch));
+      }
+      return;
+    }
+
+    const { width, height } = this.cameras.main;
+    const prompt = this.add.text(width / 2, height / 2, '[1] Quick throw-in', {
+      fontSize: '20px', color: '#ffffff', backgroundColor: '#000000', padding: { x: 12, y: 6 },
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(100);
+    this.minimapCamera.ignore(prompt);
+
+    const onQuickThrow = () => {
+      prompt.destroy();
+      this.takeQuickThrow(touch);
+    };
+    this.input.keyboard?.once('keydown-ONE', onQuickThrow);
+    // Window closed — the lineout forms
+    this.time.delayedCall(LINEOUT.QUICK_THROW_WINDOW, () => {
+      this.input.keyboard?.off('keydown-ONE', onQuickThrow);
+      if (prompt.active) prompt.destroy();
+    });
+  }
+
+  /** Throw it in before the lineout forms — play goes on from the receiver */
+  private takeQuickThrow(touch: TouchIncident): void {
+    if (this.touchIncident !== touch || !canQuickThrow(touch, this.time.now)) return;
+    const takers = findQuickThrow(this.getTeam(touch.team), touch);
+    if (!takers) return;
+
+    this.touchIncident = null;
+    this.lineoutThrow = null;
+    takers.thrower.sprite.setPosition(touch.x, touch.y);
+    EventBus.emit('quickThrow', {
+      team: touch.team, throwerId: takers.thrower.id, receiverId: takers.receiver.id, x: touch.x, y: touch.y,
+    });
+    this.showRefereeBadge(`QUICK THROW-IN — ${this.teamNames[touch.team]}`, '#1e293bee');
+    EventBus.emit('ruckResolved', { team: touch.team, action: 'quick_throw', playerId: takers.receiver.id });
+  }
+
+  /** Nobody took it quickly — the lineout forms */
+  private formLineout(touch: TouchIncident): void {
+    if (this.touchIncident !== touch || this.phaseManager.getPhase() !== 'TOUCH') return;
+    this.phaseManager.transition('LINEOUT');
+  }
+
+  /** Form both lines from the Teams and hand over to SetPieceScene */
+  private launchLineout(throwTeam: 'home' | 'away'): void {
+    this.offsidesSystem.setLineoutOffsideLine(this.ball.sprite.x);
+    const defendTeam = throwTeam === 'home' ? 'away' : 'home';
+    const human = this.controlledPlayer.teamSide;
+    const lineout = new LineoutSystem(this.getTeam(throwTeam), this.getTeam(defendTeam));
+    this.lineoutSystem = lineout;
+
+    this.scene.launch('SetPieceScene', {
+      type: 'lineout',
+      x: this.ball.sprite.x,
+      y: this.ball.sprite.y,
+      team: throwTeam,
+      lineout,
+      controlledSide: human,
+      opponentAI: this.getTeamAI(human === 'home' ? 'away' : 'home'),
+    });
+    this.scene.pause();
+  }
+
   // ─────────────────────────────────────────────────────────
   // KICK TYPE SELECTOR (T key)
   // ─────────────────────────────────────────────────────────
@@ -1527,6 +2028,8 @@ export class MatchScene extends Phaser.Scene {
     );
     if (!inRange) return;
 
+    const tackler = this.controlledPlayer;
+
     // Set cooldown (cleared after recovery)
     this._tackleCooldown = true;
     this.time.delayedCall(1200, () => { this._tackleCooldown = false; });
@@ -1542,8 +2045,15 @@ export class MatchScene extends Phaser.Scene {
       false,
     );
 
-    // Emit for audio only (no game logic in the handler)
-    EventBus.emit('tackle', { tacklerId: this.controlledPlayer.id, carrierId: carrier.id, outcome: result.outcome });
+    // Emit for audio, stats and the referee
+    const made = result.outcome !== 'missed' && result.outcome !== 'fendOff';
+    EventBus.emit('tackle', {
+      tacklerId: this.controlledPlayer.id,
+      carrierId: carrier.id,
+      outcome: result.outcome,
+      dominant: result.outcome === 'dominant',
+      high: (made && rollHighTackle(this.controlledPlayer.stats, carrierSprinting)) || undefined,
+    });
 
     // Visual: brief flash on tackler (not a positional tween)
     this.controlledPlayer.sprite.setTint(0xffffff);
@@ -1568,7 +2078,7 @@ export class MatchScene extends Phaser.Scene {
           this.time.delayedCall(400, () => {
             if (this.phaseManager.canTransition('RUCK')) {
               this.phaseManager.transition('RUCK');
-              this.ruckSystem.startRuck(carrier.sprite.x, carrier.sprite.y, carrier.teamSide);
+              this.ruckSystem.startRuck(carrier.sprite.x, carrier.sprite.y, carrier.teamSide, this.breakdownFor(tackler, carrier));
             }
           });
         }
@@ -1590,7 +2100,7 @@ export class MatchScene extends Phaser.Scene {
           this.time.delayedCall(400, () => {
             if (this.phaseManager.canTransition('RUCK')) {
               this.phaseManager.transition('RUCK');
-              this.ruckSystem.startRuck(carrier.sprite.x, carrier.sprite.y, carrier.teamSide);
+              this.ruckSystem.startRuck(carrier.sprite.x, carrier.sprite.y, carrier.teamSide, this.breakdownFor(tackler, carrier));
             }
           });
         }
@@ -1624,7 +2134,7 @@ export class MatchScene extends Phaser.Scene {
             this.time.delayedCall(400, () => {
               if (this.phaseManager.canTransition('RUCK')) {
                 this.phaseManager.transition('RUCK');
-                this.ruckSystem.startRuck(carrier.sprite.x, carrier.sprite.y, carrier.teamSide);
+                this.ruckSystem.startRuck(carrier.sprite.x, carrier.sprite.y, carrier.teamSide, this.breakdownFor(tackler, carrier));
               }
             });
           }
@@ -1654,6 +2164,64 @@ export class MatchScene extends Phaser.Scene {
     }
   }
 
+  // ─────────────────────────────────────────────────────────
+  // OFFSIDE LINES
+  // ─────────────────────────────────────────────────────────
+
+  /** Move the offside lines with the breakdown, or the ball in open play */
+  private updateOffsideLines(): void {
+    const phase = this.phaseManager.getPhase();
+    if (this.ruckSystem.isActive()) {
+      this.offsidesSystem.setRuckOffsideLine(this.ruckSystem.getState().x, true);
+    } else if (this.maulSystem.isActive()) {
+      const feet = this.maulSystem.getHindmostFeet();
+      this.offsidesSystem.setMaulOffsideLine(feet.home, feet.away);
+    } else if (phase !== 'SCRUM' && phase !== 'LINEOUT') {
+      // Set-piece lines stay until the ball is out; the 10-metre line follows the kick down
+      const ballX = this.ball.state === 'kicked' ? this.ball.getKickFlight().landing.x : this.ball.sprite.x;
+      this.offsidesSystem.setGeneralOffsideLine(ballX, this.ball.carrier);
+    }
+  }
+
+  /**
+   * 10-metre law: once the ball is gathered the kick has been played. If the
+   * opposition has it, anyone still offside within 10 m of the catcher is
+   * penalised on the spot — no advantage, as in SimulationEngine.
+   */
+  private checkKickOffside(): void {
+    const kickingSide = this.offsidesSystem.getKickingSide();
+    const carrier = this.ball.carrier;
+    if (!kickingSide || !carrier) return;
+
+    if (carrier.teamSide !== kickingSide) {
+      const kickingTeam = kickingSide === 'home' ? this.homeTeam : this.awayTeam;
+      const offender = kickingTeam.players.find(p =>
+        this.offsidesSystem.isOffside(p)
+        && distance({ x: p.sprite.x, y: p.sprite.y }, { x: carrier.sprite.x, y: carrier.sprite.y }) < OFFSIDE.KICK_TEN_METRES);
+      if (offender) {
+        this.penaltySystem.signalInfringement('offside', offender.sprite.x, offender.sprite.y, kickingSide, false, offender.id);
+      }
+    }
+    this.offsidesSystem.clearKickOffside();
+  }
+
+  /** AI players caught offside retire through PlayerAI's RETURN_ONSIDE state */
+  private steerOffsidePlayers(delta: number): void {
+    for (const p of [...this.homeTeam.players, ...this.awayTeam.players]) {
+      if (p === this.controlledPlayer || p.isGrounded || p.isInRuck) continue;
+
+      let ai = this.playerAIs.get(p.id);
+      const offside = this.offsidesSystem.isOffside(p);
+      if (!offside && ai?.getState() !== 'RETURN_ONSIDE') continue;
+      if (!ai) {
+        ai = new PlayerAI(p, this.ball, false);
+        this.playerAIs.set(p.id, ai);
+      }
+      const line = offside ? this.offsidesSystem.getOffsideLine(p.teamSide) : undefined;
+      ai.update(delta, this.ball, p.formationX, p.formationY, false, line);
+    }
+  }
+
   // ─────────────────────────────────────────────────────────
   // RUCK AUTO-COMMIT (M2.9)
   // ─────────────────────────────────────────────────────────
@@ -1692,39 +2260,43 @@ export class MatchScene extends Phaser.Scene {
 
   private autoCommitToMaul(): void {
     const maulState = this.maulSystem.getState();
-    if (!maulState.active) return;
-
-    const maulPos = { x: maulState.x, y: maulState.y };
+    if (!maulState.active || !maulState.carrier) return;
 
-    // Commit nearest forwards from attacking team
-    for (const p of this.homeTeam.players) {
+    // Forwards from both sides make their way in — they bind on as they arrive
+    const attacking = maulState.carrier.teamSide;
+    for (const p of [...this.homeTeam.players, ...this.awayTeam.players]) {
       if (p === this.controlledPlayer || p.isGrounded || p.isInRuck) continue;
       if (p.position > 8) continue; // Only forwards join mauls
-      const d = distance({ x: p.sprite.x, y: p.sprite.y }, maulPos);
-      if (d < 100 && maulState.attackers.length < 5) {
-        this.maulSystem.commitPlayer(p, true);
-      }
+      this.maulSystem.queueJoiner(p, p.teamSide === attacking);
     }
 
-    // Commit nearest forwards from defending team
-    for (const p of this.awayTeam.players) {
-      if (p.isGrounded || p.isInRuck) continue;
-      if (p.position > 8) continue;
-      const d = distance({ x: p.sprite.x, y: p.sprite.y }, maulPos);
-      if (d < 100 && maulState.defenders.length < 4) {
-        this.maulSystem.commitPlayer(p, false);
-      }
+    // Scrum-half uses it — on the player's command, or the AI's call
+    if (attacking === this.controlledPlayer.teamSide) {
+      if (!this.useItPrompt) this.offerUseIt();
+    } else if (this.getTeamAI(attacking).chooseMaulUseIt(this.maulSystem)) {
+      this.maulSystem.releaseBall();
     }
+  }
 
-    // Ball transfer: after 2s of progressing, release ball
-    const elapsed = Date.now() - maulState.startTime;
-    if (elapsed > 2000 && maulState.attackers.length >= 2) {
-      const atkStr = maulState.attackers.reduce((s, p) => s + p.stats.strength, 0);
-      const defStr = maulState.defenders.reduce((s, p) => s + p.stats.strength, 0);
-      if (atkStr > defStr) {
-        this.maulSystem.releaseBall();
-      }
-    }
+  /** The controlled side's maul — [1] gets the ball out to the scrum-half */
+  private offerUseIt(): void {
+    const { width, height } = this.cameras.main;
+    this.useItPrompt = this.add.text(width / 2, height - 80, '[1] Use it', {
+      fontSize: '20px', color: '#ffffff', backgroundColor: '#000000', padding: { x: 12, y: 6 },
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(100);
+    this.minimapCamera.ignore(this.useItPrompt);
+    this.input.keyboard?.once('keydown-ONE', this.onUseIt);
+  }
+
+  private onUseIt = (): void => {
+    this.closeUseItPrompt();
+    if (this.maulSystem.isActive()) this.maulSystem.releaseBall();
+  };
+
+  private closeUseItPrompt(): void {
+    this.input.keyboard?.off('keydown-ONE', this.onUseIt);
+    this.useItPrompt?.destroy();
+    this.useItPrompt = null;
   }
 
   // ─────────────────────────────────────────────────────────────
@@ -1736,6 +2308,16 @@ export class MatchScene extends Phaser.Scene {
   // ─────────────────────────────────────────────────────────────
 
   private performKickoff(kickingTeamSide: 'home' | 'away' = 'home'): void {
+    this.performRestart('KICK_OFF', kickingTeamSide);
+  }
+
+  /** After any score the conceding side kicks off from halfway */
+  private restartAfterScore(scoringTeam: 'home' | 'away'): void {
+    this.performKickoff(scoringTeam === 'home' ? 'away' : 'home');
+  }
+
+  /** Kick-off or drop-out: into the restart phase and let KickoffSystem take it */
+  private performRestart(type: RestartType, kickingTeamSide: 'home' | 'away'): void {
     const kickingTeam = kickingTeamSide === 'home' ? this.homeTeam : this.awayTeam;
     const receivingTeam = kickingTeamSide === 'home' ? this.awayTeam : this.homeTeam;
 
@@ -1746,15 +2328,100 @@ export class MatchScene extends Phaser.Scene {
       p.hasBall = false;
     }
     this.ball.carrier = null;
+    this.lastKickSide = null;
+
+    if (this.phaseManager.getPhase() !== type) {
+      if (this.phaseManager.canTransition(type)) {
+        this.phaseManager.transition(type);
+      } else {
+        this.phaseManager.forcePhase(type);
+      }
+    }
 
     // Use KickoffSystem to manage setup
-    this.kickoffSystem.startKickoff(kickingTeam, receivingTeam, 'KICK_OFF');
+    this.kickoffSystem.startKickoff(kickingTeam, receivingTeam, type);
+  }
+
+  /**
+   * A kick-off or drop-out that didn't go the distance: the receiving side
+   * has a scrum at the mark or the kick taken again. The AI's coach calls
+   * it; the player chooses with 1 / 2.
+   */
+  private handleShortRestart(data: GameEvents['restartShort']): void {
+    const receiving = data.team === 'home' ? 'away' : 'home';
+    const label = data.type === 'KICK_OFF' ? 'KICK-OFF NOT 10 M' : 'DROP-OUT SHORT';
+
+    if (receiving !== this.controlledPlayer.teamSide) {
+      const option = this.getTeamAI(receiving).chooseShortRestartOption();
+      this.showRefereeBadge(`${label} — ${SHORT_RESTART_LABELS[option]}, ${this.teamNames[receiving]}`, '#1e293bee');
+      this.time.delayedCall(RESTART.SHORT_CALL_DELAY, () => this.takeShortRestartOption(option, data));
+      return;
+    }
+
+    const { width, height } = this.cameras.main;
+    const prompt = this.add.text(width / 2, height / 2, `${label}   [1] Scrum  [2] Kick it again`, {
+      fontSize: '20px', color: '#ffffff', backgroundColor: '#000000', padding: { x: 12, y: 6 },
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(100);
+    this.minimapCamera.ignore(prompt);
+
+    const choose = (option: ShortRestartOption) => {
+      prompt.destroy();
+      timeout.remove(false);
+      this.input.keyboard?.off('keydown-ONE', onScrum);
+      this.input.keyboard?.off('keydown-TWO', onRekick);
+      this.takeShortRestartOption(option, data);
+    };
+    const onScrum = () => choose('scrum');
+    const onRekick = () => choose('rekick');
+    this.input.keyboard?.once('keydown-ONE', onScrum);
+    this.input.keyboard?.once('keydown-TWO', onRekick);
+    // The coach takes it if the player doesn't
+    const timeout = this.time.delayedCall(8000, () => choose(this.getTeamAI(receiving).chooseShortRestartOption()));
+  }
+
+  private takeShortRestartOption(option: ShortRestartOption, data: GameEvents['restartShort']): void {
+    if (this.phaseManager.getPhase() !== data.type) return;
+
+    if (option === 'rekick') {
+      this.performRestart(data.type, data.team);
+      return;
+    }
+
+    const mark = this.kickoffSystem.getScrumMark();
+    const carrier = this.ball.carrier;
+    this.ball.dropLoose(mark.x, mark.y);
+    carrier?.releaseBall();
+    this.ball.sprite.setVelocity(0, 0);
+    this.scrumFeed = data.team === 'home' ? 'away' : 'home';
+    this.phaseManager.transition('SCRUM');
   }
 
   // ─────────────────────────────────────────────────────────────
   // TRY SCORED (M3)
   // ─────────────────────────────────────────────────────────────
 
+  /**
+   * The ball has been carried over the line. Clear-cut tries are given
+   * on the spot; close calls go to the TMO first.
+   */
+  private handleTryAttempt(attempt: TryAttempt): void {
+    const clip = this.replayRecorder.clip(TMO.REVIEW_MS);
+    const checks = this.tmo.getReviewReasons(attempt);
+    if (checks.length > 0) {
+      this.referToTMO(attempt, clip, checks);
+      return;
+    }
+
+    this.scoringSystem.awardTry(attempt.team, attempt.y);
+    this.handleTryScored(attempt.team);
+
+    // The side that conceded can ask for it to be looked at
+    const defending = attempt.team === 'home' ? 'away' : 'home';
+    if (this.controlledPlayer.teamSide === defending && this.tmo.hasChallenge(defending)) {
+      this.offerChallenge(attempt, clip);
+    }
+  }
+
   private handleTryScored(team: 'home' | 'away'): void {
     // Transition phase: TRY_SCORED
     if (this.phaseManager.canTransition('TRY_SCORED')) {
@@ -1766,6 +2433,10 @@ export class MatchScene extends Phaser.Scene {
     // Pause clock during try celebration
     this.clockSystem.pause();
 
+    // Grab the build-up now, before the celebration plays out
+    const clip = this.replayRecorder.clip(INSTANT_REPLAY.BUFFER_MS);
+    this.closeInstantReplayOffer();
+
     // Try Animation: Dot Down
     if (this.ball.carrier) {
        this.tweens.add({
@@ -1814,11 +2485,17 @@ export class MatchScene extends Phaser.Scene {
     });
 
     // After celebration, reset and reset game
-    this.time.delayedCall(3000, () => {
+    this.tryCelebrationTimer = this.time.delayedCall(3000, () => {
+      this.tryCelebrationTimer = null;
       tryText.destroy();
       this.cameras.main.zoomTo(CAMERA.ZOOM_DEFAULT, 1000, 'cubic.in');
+      // Captain's challenge — the TMO takes it from here
+      if (this.phaseManager.getPhase() !== 'TRY_SCORED') return;
 
-      this.resetAfterTry(team, width, height); // Extracted conversion logic
+      // Show the try again before the conversion
+      this.playInstantReplay(clip, `TRY — ${this.teamNames[team]}`, team, () => {
+        this.resetAfterTry(team, width, height); // Extracted conversion logic
+      });
     });
   }
 
@@ -1835,9 +2512,17 @@ export class MatchScene extends Phaser.Scene {
   }
 
   private resetAfterTry(team: 'home' | 'away', width: number, height: number): void {
-      // Conversion attempt logic
-      const accuracy = 0.5 + Math.random() * 0.4;
-      const power = 0.5 + Math.random() * 0.3;
+      // A penalty try has nothing to convert
+      if (!this.scoringSystem.isConversionPending()) {
+        this.restartAfterScore(team);
+        this.clockSystem.resume();
+        return;
+      }
+
+      // Conversion attempt logic — a crosswind costs accuracy, a tailwind adds carry
+      const wind = this.weatherSystem.goalKickWind(team);
+      const accuracy = RNG.range(0.5, 0.9) * Math.max(0.5, 1 - Math.abs(wind.crosswind) * 0.2);
+      const power = RNG.range(0.5, 0.8) + wind.tailwind * 0.1;
       const kicker = team === 'home'
         ? this.homeTeam.getPlayerByPosition(Position.FLY_HALF)
         : this.awayTeam.getPlayerByPosition(Position.FLY_HALF);
@@ -1852,14 +2537,159 @@ export class MatchScene extends Phaser.Scene {
 
       this.time.delayedCall(2000, () => {
         convText.destroy();
-        this.phaseManager.forcePhase('KICK_OFF');
-        this.phaseManager.transition('OPEN_PLAY');
-        const restartTeam = team === 'home' ? 'away' : 'home';
-        this.performKickoff(restartTeam);
+        this.restartAfterScore(team);
         this.clockSystem.resume();
       });
   }
 
+  // ─────────────────────────────────────────────────────────
+  // TMO
+  // ─────────────────────────────────────────────────────────
+
+  /**
+   * Stop the clock, show the TMO the build-up and act on the ruling.
+   * @param checks Close calls the referee referred (empty for a captain's challenge)
+   * @param challengedBy Side whose captain challenged an awarded try
+   */
+  private referToTMO(attempt: TryAttempt, clip: Replay, checks: TMOCheck[], challengedBy?: 'home' | 'away'): void {
+    if (this.phaseManager.canTransition('TMO_REVIEW')) {
+      this.phaseManager.transition('TMO_REVIEW');
+    } else {
+      this.phaseManager.forcePhase('TMO_REVIEW');
+    }
+    this.clockSystem.pause();
+    this.closeInstantReplayOffer();
+
+    const labels: Record<TMOCheck, string> = {
+      touch: 'TOUCH', dead_ball: 'DEAD BALL', held_up: 'GROUNDING', forward_pass: 'FORWARD PASS',
+    };
+    const title = challengedBy
+      ? `CAPTAIN'S CHALLENGE — ${this.teamNames[challengedBy]}`
+      : `TMO — CHECKING ${checks.map(c => labels[c]).join(', ')}`;
+    this.showRefereeBadge(title, '#1e3a8aee');
+
+    const decision = this.tmo.review(attempt, clip);
+    this.playInstantReplay(clip, title, attempt.team, () => this.applyTMODecision(attempt, decision, challengedBy));
+  }
+
+  private applyTMODecision(attempt: TryAttempt, decision: TMODecision, challengedBy?: 'home' | 'away'): void {
+    const team = attempt.team;
+    EventBus.emit('tmoDecision', { team, awarded: decision.awarded, reason: decision.reason, challengedBy });
+    this.showRefereeBadge(decision.reason, decision.awarded ? '#14532dee' : '#7f1d1dee');
+
+    if (decision.awarded) {
+      if (challengedBy) {
+        // Already on the board — straight to the conversion
+        const { width, height } = this.cameras.main;
+        this.phaseManager.transition('TRY_SCORED');
+        this.resetAfterTry(team, width, height);
+      } else {
+        this.scoringSystem.awardTry(team, attempt.y);
+        this.handleTryScored(team);
+      }
+      return;
+    }
+
+    if (challengedBy) this.scoringSystem.disallowTry(team);
+    this.restartAfterNoTry(team, decision);
+  }
+
+  /** Restart for the defending side where the TMO found the infringement */
+  private restartAfterNoTry(team: 'home' | 'away', decision: TMODecision): void {
+    const defending = team === 'home' ? 'away' : 'home';
+    const fiveMetres = 5 * PITCH.M_TO_PX;
+    const x = Phaser.Math.Clamp(decision.x, PITCH.TRY_LINE_LEFT + fiveMetres, PITCH.TRY_LINE_RIGHT - fiveMetres);
+
+    const carrier = this.ball.carrier;
+    this.ball.dropLoose(x, decision.y);
+    carrier?.releaseBall();
+    this.ball.sprite.setVelocity(0, 0);
+    this.clockSystem.resume();
+
+    switch (decision.infringement) {
+      case 'in_touch':
+        this.ball.sprite.setPosition(x, decision.y < PITCH.HEIGHT_PX / 2 ? PITCH.TOUCHLINE_TOP : PITCH.TOUCHLINE_BOTTOM);
+        this.lineoutThrow = defending;
+        this.phaseManager.transition('LINEOUT');
+        break;
+      case 'forward_pass':
+      case 'knock_on':
+        this.ball.sprite.setPosition(x, Phaser.Math.Clamp(decision.y, fiveMetres, PITCH.HEIGHT_PX - fiveMetres));
+        this.scrumFeed = defending;
+        this.phaseManager.transition('SCRUM');
+        break;
+      default:
+        // Held up or grounded dead — the defending side restarts from its goal line
+        this.performGoalLineDropout(defending);
+    }
+  }
+
+  /** Show the "[C] challenge" prompt while the try is celebrated */
+  private offerChallenge(attempt: TryAttempt, clip: Replay): void {
+    this.challengeOfferTimer?.remove();
+    this.challengeOffer = { attempt, clip };
+    this.challengePrompt.setVisible(true);
+    this.challengeOfferTimer = this.time.delayedCall(TMO.CHALLENGE_WINDOW_MS, () => this.closeChallengeOffer());
+  }
+
+  private closeChallengeOffer(): void {
+    this.challengeOfferTimer?.remove();
+    this.challengeOfferTimer = null;
+    this.challengeOffer = null;
+    this.challengePrompt.setVisible(false);
+  }
+
+  private acceptChallenge(): void {
+    const offer = this.challengeOffer;
+    if (!offer) return;
+    this.closeChallengeOffer();
+    const side = offer.attempt.team === 'home' ? 'away' : 'home';
+    if (!this.tmo.useChallenge(side)) return;
+    this.referToTMO(offer.attempt, offer.clip, [], side);
+    // Clears the celebration now — it sees the review and stops short of the conversion
+    this.tryCelebrationTimer?.remove(true);
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // INSTANT REPLAY
+  // ─────────────────────────────────────────────────────────
+
+  /**
+   * Pause the match and play a clip in InstantReplayScene.
+   * @param then Runs once the replay ends or is skipped (immediately if the clip is too short)
+   */
+  private playInstantReplay(clip: Replay, title: string, attackingSide: 'home' | 'away', then?: () => void): void {
+    if (clip.frames.length < 2) {
+      then?.();
+      return;
+    }
+    this.afterInstantReplay = then ?? null;
+    this.scene.launch('InstantReplayScene', { clip, title, attackingSide });
+    this.scene.pause();
+  }
+
+  /** Show the "[V] replay" prompt for a few seconds after a big hit */
+  private offerInstantReplay(attackingSide: 'home' | 'away'): void {
+    this.instantReplayOfferTimer?.remove();
+    this.instantReplayOffer = attackingSide;
+    this.instantReplayPrompt.setVisible(true);
+    this.instantReplayOfferTimer = this.time.delayedCall(INSTANT_REPLAY.PROMPT_MS, () => this.closeInstantReplayOffer());
+  }
+
+  private closeInstantReplayOffer(): void {
+    this.instantReplayOfferTimer?.remove();
+    this.instantReplayOfferTimer = null;
+    this.instantReplayOffer = null;
+    this.instantReplayPrompt.setVisible(false);
+  }
+
+  private acceptInstantReplayOffer(): void {
+    const side = this.instantReplayOffer;
+    if (!side) return;
+    this.closeInstantReplayOffer();
+    this.playInstantReplay(this.replayRecorder.clip(INSTANT_REPLAY.BUFFER_MS), 'BIG HIT', side);
+  }
+
   // ─────────────────────────────────────────────────────────
   // HUD
   // ─────────────────────────────────────────────────────────
@@ -1911,18 +2741,79 @@ export class MatchScene extends Phaser.Scene {
       fontSize: '9px', fontFamily: 'monospace', color: '#94a3b8',
     }).setOrigin(0.5, 0).setScrollFactor(0).setDepth(100);
 
+    // Instant replay offer after a big hit
+    this.instantReplayPrompt = this.add.text(width - 10, 70, '[V] REPLAY THAT HIT', {
+      fontSize: '10px', fontFamily: 'monospace', color: '#fbbf24',
+      backgroundColor: '#000000aa', padding: { x: 6, y: 3 },
+    }).setOrigin(1, 0).setScrollFactor(0).setDepth(100).setVisible(false);
+
+    this.challengePrompt = this.add.text(width - 10, 92, "[C] CAPTAIN'S CHALLENGE", {
+      fontSize: '10px', fontFamily: 'monospace', color: '#93c5fd',
+      backgroundColor: '#000000aa', padding: { x: 6, y: 3 },
+    }).setOrigin(1, 0).setScrollFactor(0).setDepth(100).setVisible(false);
+
+    // Advantage being played
+    this.advantageText = this.add.text(20, 70, '', {
+      fontSize: '11px', fontFamily: 'monospace', color: '#fbbf24',
+      backgroundColor: '#000000aa', padding: { x: 6, y: 3 },
+    }).setScrollFactor(0).setDepth(100).setVisible(false);
+
+    // Cards — sin-bin countdowns and players sent off
+    this.cardsText = this.add.text(20, 12, '', {
+      fontSize: '10px', fontFamily: 'monospace', color: '#ffffff', lineSpacing: 2,
+    }).setScrollFactor(0).setDepth(100);
+
     // Collect all HUD elements
     this.hudElements.push(
       this.scoreText, this.clockText, this.phaseText,
       this.staminaBg, this.staminaBar, this.staminaLabel,
       this.powerBarBg, this.powerBarFill, this.powerBarLabel,
-      this.kickTypeText, this.actionPrompt,
+      this.kickTypeText, this.actionPrompt, this.instantReplayPrompt,
+      this.challengePrompt, this.advantageText, this.cardsText,
     );
 
     // Ignore HUD from minimap
     this.minimapCamera.ignore(this.hudElements);
   }
 
+  /** Brief HUD badge announcing a change in conditions */
+  private showWeatherBadge(description: string): void {
+    const { width } = this.cameras.main;
+    const badge = this.add.text(width / 2, 66, `☁ ${description.toUpperCase()}`, {
+      fontSize: '11px', fontFamily: 'monospace', color: '#e0f2fe',
+      backgroundColor: '#0c4a6ecc', padding: { x: 8, y: 4 },
+    }).setOrigin(0.5, 0).setScrollFactor(0).setDepth(150).setAlpha(0);
+    this.minimapCamera.ignore(badge);
+
+    this.tweens.add({
+      targets: badge,
+      alpha: 1,
+      duration: 300,
+      hold: 4000,
+      yoyo: true,
+      onComplete: () => badge.destroy(),
+    });
+  }
+
+  /** Referee decision banner under the scoreboard */
+  private showRefereeBadge(text: string, background: string): void {
+    const { width } = this.cameras.main;
+    const badge = this.add.text(width / 2, 88, text, {
+      fontSize: '13px', fontFamily: 'monospace', color: '#ffffff',
+      backgroundColor: background, padding: { x: 10, y: 5 },
+    }).setOrigin(0.5, 0).setScrollFactor(0).setDepth(150).setAlpha(0);
+    this.minimapCamera.ignore(badge);
+
+    this.tweens.add({
+      targets: badge,
+      alpha: 1,
+      duration: 200,
+      hold: 2500,
+      yoyo: true,
+      onComplete: () => badge.destroy(),
+    });
+  }
+
   private updateHUD(): void {
     const score = this.scoringSystem.getScore();
     this.scoreText.setText(`HOME ${score.home} — ${score.away} AWAY`);
@@ -1949,6 +2840,26 @@ export class MatchScene extends Phaser.Scene {
     // Kick type display
     this.kickTypeText.setText(`Kick: ${this.selectedKickType.replace('_', ' ')}`);
 
+    // Cards
+    const cardLines = this.discipline.getSinBin().map(e => {
+      const left = Math.ceil(e.secondsLeft);
+      const clock = `${Math.floor(left / 60)}:${String(left % 60).padStart(2, '0')}`;
+      return `YC #${e.player.position} ${this.teamNames[e.team]}  ${clock}`;
+    });
+    for (const c of this.discipline.getCards()) {
+      if (c.card === 'red') cardLines.push(`RC #${c.position} ${this.teamNames[c.team]}  OFF`);
+    }
+    this.cardsText.setText(cardLines.join('\n'));
+
+    // Advantage indicator
+    const playingAdvantage = this.penaltySystem.isPlayingAdvantage();
+    this.advantageText.setVisible(playingAdvantage);
+    if (playingAdvantage) {
+      const marks = this.penaltySystem.getMarks().length;
+      const team = this.teamNames[this.penaltySystem.getBenefitTeam()];
+      this.advantageText.setText(`ADVANTAGE ${team}${marks > 1 ? ` ×${marks}` : ''}`);
+    }
+
     // Action prompts
     const prompts: string[] = [];
     if (this.controlledPlayer.hasBall) {
@@ -50,14 +50,15 @@ export class MenuScene extends Phaser.Scene {
     // ── Buttons ──────────────────────────────────────────
     const buttons = [
       { label: '▶  PLAY MATCH', action: () => this.startMatch(), color: 0x16a34a, hoverColor: 0x22c55e },
+      { label: '🏆  TOURNAMENT', action: () => this.startTournament(), color: 0xb45309, hoverColor: 0xd97706 },
       { label: '⚙  SETTINGS', action: () => this.toggleSettings(), color: 0x334155, hoverColor: 0x475569 },
       { label: '📝  CREDITS', action: () => this.toggleCredits(), color: 0x334155, hoverColor: 0x475569 },
     ];
 
     const btnWidth = 220;
     const btnHeight = 44;
-    const startY = height * 0.48;
-    const spacing = 55;
+    const startY = height * 0.45;
+    const spacing = 50;
 
     buttons.forEach((btn, i) => {
       const y = startY + i * spacing;
@@ -104,6 +105,13 @@ export class MenuScene extends Phaser.Scene {
     });
   }
 
+  private startTournament(): void {
+    this.cameras.main.fadeOut(300, 0, 0, 0);
+    this.time.delayedCall(300, () => {
+      this.scene.start('TournamentScene');
+    });
+  }
+
   // ── Settings Overlay ──────────────────────────────────
   private toggleSettings(): void {
     if (this.settingsOverlay.length > 0) {
@@ -0,0 +1,245 @@
+/**
+ * ReplayScene — plays back a recorded match.
+ *
+ * Controls:
+ *   SPACE  pause / resume
+ *   ← / →  scrub back / forward 5 s (click the timeline to jump)
+ *   ↑ / ↓  playback speed (0.25x – 4x)
+ *   WASD   pan the free camera (F re-follows the ball)
+ *   1/2/3  close / default / wide zoom (CAMERA presets)
+ *   ESC    leave
+ */
+
+import Phaser from 'phaser';
+import { CAMERA, PITCH } from '../utils/Constants';
+import { ReplayRecorder, sampleReplay } from '../systems/ReplayRecorder';
+import type { Replay, ReplayEvent } from '../systems/ReplayRecorder';
+import { ReplayRenderer } from '../ui/ReplayRenderer';
+import { drawPitch } from '../ui/PitchRenderer';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+const SCRUB_STEP_MS = 5000;
+const PAN_SPEED = 600; // px/s at zoom 1
+/** How long an event caption stays on screen (recording ms) */
+const CAPTION_MS = 3000;
+
+interface ReplaySceneData {
+  replay?: Replay;
+  /** Scene to return to on ESC (default MenuScene) */
+  returnTo?: string;
+}
+
+export class ReplayScene extends Phaser.Scene {
+  private replay: Replay | null = null;
+  private returnTo = 'MenuScene';
+  private replayRenderer!: ReplayRenderer;
+  private notableEvents: ReplayEvent[] = [];
+
+  private playhead = 0;
+  private speedIndex = 2;
+  private paused = false;
+  private following = true;
+
+  private keys!: Record<string, Phaser.Input.Keyboard.Key>;
+  private infoText!: Phaser.GameObjects.Text;
+  private statusText!: Phaser.GameObjects.Text;
+  private captionText!: Phaser.GameObjects.Text;
+  private timelineFill!: Phaser.GameObjects.Rectangle;
+  private timelineWidth = 0;
+
+  constructor() {
+    super({ key: 'ReplayScene' });
+  }
+
+  init(data: ReplaySceneData): void {
+    this.replay = data.replay ?? ReplayRecorder.load();
+    this.returnTo = data.returnTo ?? 'MenuScene';
+    this.playhead = 0;
+    this.speedIndex = 2;
+    this.paused = false;
+    this.following = true;
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+
+    if (!this.replay) {
+      this.add.text(width / 2, height / 2, 'No replay saved\n\n[ESC] Back', {
+        fontSize: '16px', fontFamily: 'monospace', color: '#94a3b8', align: 'center',
+      }).setOrigin(0.5);
+      this.input.keyboard?.once('keydown-ESC', () => this.scene.start(this.returnTo));
+      return;
+    }
+
+    const replay = this.replay;
+    drawPitch(this);
+    this.replayRenderer = new ReplayRenderer(this, replay);
+    this.replayRenderer.render(sampleReplay(replay, 0));
+
+    this.notableEvents = replay.events.filter(e =>
+      e.event === 'score' || e.event === 'penaltyAwarded' || e.event === 'halfTime' ||
+      e.event === 'knockOn' || e.event === 'touch' || e.event === 'tmoDecision',
+    );
+
+    // ── Camera ──────────────────────────────────────────
+    const cam = this.cameras.main;
+    cam.setBounds(0, 0, PITCH.WIDTH_PX, PITCH.HEIGHT_PX);
+    cam.setZoom(CAMERA.ZOOM_DEFAULT);
+    cam.startFollow(this.replayRenderer.getBall(), true, CAMERA.FOLLOW_LERP, CAMERA.FOLLOW_LERP);
+
+    // ── Overlay ─────────────────────────────────────────
+    this.add.text(10, 8, '● REPLAY', {
+      fontSize: '12px', fontFamily: 'monospace', color: '#ef4444',
+      backgroundColor: '#00000088', padding: { x: 6, y: 3 },
+    }).setScrollFactor(0).setDepth(100);
+
+    this.infoText = this.add.text(width / 2, 8, '', {
+      fontSize: '14px', fontFamily: 'monospace', color: '#ffffff',
+      backgroundColor: '#00000088', padding: { x: 10, y: 4 },
+    }).setOrigin(0.5, 0).setScrollFactor(0).setDepth(100);
+
+    this.statusText = this.add.text(width - 10, 8, '', {
+      fontSize: '12px', fontFamily: 'monospace', color: '#eab308',
+      backgroundColor: '#00000088', padding: { x: 6, y: 3 },
+    }).setOrigin(1, 0).setScrollFactor(0).setDepth(100);
+
+    this.captionText = this.add.text(width / 2, height - 60, '', {
+      fontSize: '14px', fontFamily: 'monospace', color: '#fbbf24',
+      backgroundColor: '#000000aa', padding: { x: 10, y: 4 },
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(100);
+
+    this.add.text(width / 2, height - 12,
+      'SPACE pause  ←/→ scrub  ↑/↓ speed  WASD pan  F follow  1/2/3 zoom  ESC exit', {
+        fontSize: '9px', fontFamily: 'monospace', color: '#94a3b8',
+      }).setOrigin(0.5, 1).setScrollFactor(0).setDepth(100);
+
+    // Timeline — click to jump
+    this.timelineWidth = width - 40;
+    const timelineY = height - 34;
+    const track = this.add.rectangle(20, timelineY, this.timelineWidth, 6, 0x1e293b)
+      .setOrigin(0, 0.5).setScrollFactor(0).setDepth(100).setInteractive();
+    this.timelineFill = this.add.rectangle(20, timelineY, 0, 6, 0x4ade80)
+      .setOrigin(0, 0.5).setScrollFactor(0).setDepth(101);
+    track.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      const ratio = Phaser.Math.Clamp((pointer.x - 20) / this.timelineWidth, 0, 1);
+      this.seek(ratio * replay.duration);
+    });
+
+    // Marks for scores on the timeline
+    for (const e of replay.events) {
+      if (e.event !== 'score') continue;
+      const x = 20 + (e.t / Math.max(1, replay.duration)) * this.timelineWidth;
+      this.add.rectangle(x, timelineY, 2, 12, 0xfbbf24).setScrollFactor(0).setDepth(102);
+    }
+
+    this.setupInput();
+    cam.fadeIn(300, 0, 0, 0);
+  }
+
+  private setupInput(): void {
+    if (!this.input.keyboard) return;
+    const kb = this.input.keyboard;
+    const KeyCodes = Phaser.Input.Keyboard.KeyCodes;
+
+    this.keys = {
+      W: kb.addKey(KeyCodes.W),
+      A: kb.addKey(KeyCodes.A),
+      S: kb.addKey(KeyCodes.S),
+      D: kb.addKey(KeyCodes.D),
+    };
+
+    kb.on('keydown-SPACE', () => {
+      // Restart from the top once the end has been reached
+      if (this.paused && this.replay && this.playhead >= this.replay.duration) this.playhead = 0;
+      this.paused = !this.paused;
+    });
+    kb.on('keydown-LEFT', () => this.seek(this.playhead - SCRUB_STEP_MS));
+    kb.on('keydown-RIGHT', () => this.seek(this.playhead + SCRUB_STEP_MS));
+    kb.on('keydown-UP', () => { this.speedIndex = Math.min(SPEEDS.length - 1, this.speedIndex + 1); });
+    kb.on('keydown-DOWN', () => { this.speedIndex = Math.max(0, this.speedIndex - 1); });
+    kb.on('keydown-ONE', () => this.cameras.main.zoomTo(CAMERA.ZOOM_CLOSE, CAMERA.ZOOM_DURATION));
+    kb.on('keydown-TWO', () => this.cameras.main.zoomTo(CAMERA.ZOOM_DEFAULT, CAMERA.ZOOM_DURATION));
+    kb.on('keydown-THREE', () => this.cameras.main.zoomTo(CAMERA.ZOOM_WIDE, CAMERA.ZOOM_DURATION));
+    kb.on('keydown-F', () => {
+      this.following = true;
+      this.cameras.main.startFollow(this.replayRenderer.getBall(), true, CAMERA.FOLLOW_LERP, CAMERA.FOLLOW_LERP);
+    });
+    kb.once('keydown-ESC', () => this.scene.start(this.returnTo));
+  }
+
+  /** Jump the playhead, clamped to the recording */
+  private seek(t: number): void {
+    if (!this.replay) return;
+    this.playhead = Phaser.Math.Clamp(t, 0, this.replay.duration);
+  }
+
+  update(_time: number, delta: number): void {
+    if (!this.replay) return;
+
+    // ── Playhead ────────────────────────────────────────
+    if (!this.paused) {
+      this.playhead += delta * SPEEDS[this.speedIndex];
+      if (this.playhead >= this.replay.duration) {
+        this.playhead = this.replay.duration;
+        this.paused = true;
+      }
+    }
+
+    const frame = sampleReplay(this.replay, this.playhead);
+    this.replayRenderer.render(frame);
+
+    // ── Free camera ─────────────────────────────────────
+    const cam = this.cameras.main;
+    const pan = (PAN_SPEED / cam.zoom) * (delta / 1000);
+    const dx = !this.keys ? 0 : (this.keys.D.isDown ? 1 : 0) - (this.keys.A.isDown ? 1 : 0);
+    const dy = !this.keys ? 0 : (this.keys.S.isDown ? 1 : 0) - (this.keys.W.isDown ? 1 : 0);
+    if (dx !== 0 || dy !== 0) {
+      if (this.following) {
+        cam.stopFollow();
+        this.following = false;
+      }
+      cam.scrollX += dx * pan;
+      cam.scrollY += dy * pan;
+    }
+
+    // ── Overlay ─────────────────────────────────────────
+    const mins = String(Math.floor(frame.clock / 60)).padStart(2, '0');
+    const secs = String(Math.floor(frame.clock % 60)).padStart(2, '0');
+    this.infoText.setText(
+      `${this.replay.home.name} ${frame.score[0]} — ${frame.score[1]} ${this.replay.away.name}   ${mins}:${secs}`,
+    );
+    this.statusText.setText(this.paused ? '❚❚ PAUSED' : `▶ ${SPEEDS[this.speedIndex]}x`);
+    this.timelineFill.width = (this.playhead / Math.max(1, this.replay.duration)) * this.timelineWidth;
+    this.captionText.setText(this.captionAt(this.playhead));
+    this.captionText.setVisible(this.captionText.text !== '');
+  }
+
+  /** Caption for the most recent notable event, if it is still fresh */
+  private captionAt(t: number): string {
+    let latest: ReplayEvent | null = null;
+    for (const e of this.notableEvents) {
+      if (e.t > t) break;
+      latest = e;
+    }
+    if (!latest || t - latest.t > CAPTION_MS) return '';
+
+    const data = latest.data as Record<string, unknown>;
+    const teamName = (side: unknown) => side === 'away' ? this.replay!.away.name : this.replay!.home.name;
+    switch (latest.event) {
+      case 'score':
+        return `${String(data.type).toUpperCase()} — ${teamName(data.team)} (+${data.points})`;
+      case 'penaltyAwarded':
+        return `PENALTY: ${String(data.reason).toUpperCase()}`;
+      case 'knockOn':
+        return 'KNOCK-ON';
+      case 'touch':
+        return 'BALL IN TOUCH';
+      case 'tmoDecision':
+        return `TMO: ${String(data.reason)}`;
+      case 'halfTime':
+        return 'HALF TIME';
+      default:
+        return '';
+    }
+  }
+}
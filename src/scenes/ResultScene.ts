@@ -3,6 +3,11 @@
  */
 
 import Phaser from 'phaser';
+import type { Replay } from '../systems/ReplayRecorder';
+import { TournamentSystem } from '../systems/TournamentSystem';
+import { sortReportCard } from '../systems/MatchStats';
+import type { ReportCardEntry, ReportCardSortKey } from '../systems/MatchStats';
+import type { CardRecord } from '../systems/DisciplineSystem';
 
 interface ResultData {
   homeScore: number;
@@ -12,11 +17,48 @@ interface ResultData {
   passes: { home: number; away: number };
   penalties: { home: number; away: number };
   carries: { home: number; away: number };
-  manOfMatch: string; // Player position + team
+  metres: { home: number; away: number };
+  tackleSuccess: { home: number; away: number }; // % of tackles made
+  turnovers: { home: number; away: number };     // Possession won in open play
+  yellowCards?: { home: number; away: number };
+  redCards?: { home: number; away: number };
+  cards?: CardRecord[];
+  tries?: { home: number; away: number };
+  manOfMatch?: string; // Highest-rated player + team
+  seed?: number;      // RNG seed the match was played with
+  replay?: Replay;    // Full-match recording for ReplayScene
+  /** Tournament match — team names as they lined up in MatchScene */
+  tournamentFixture?: { home: string; away: string };
+  /** Per-player ratings for both matchday squads */
+  reportCard?: { home: ReportCardEntry[]; away: ReportCardEntry[] };
 }
 
+/** Report card columns: header, sort key, x offset within a side's panel */
+const REPORT_COLUMNS: { label: string; key: ReportCardSortKey; x: number }[] = [
+  { label: '#', key: 'shirt', x: 0 },
+  { label: 'RTG', key: 'rating', x: 120 },
+  { label: 'TKL', key: 'tackles', x: 155 },
+  { label: 'MIS', key: 'missedTackles', x: 185 },
+  { label: 'CAR', key: 'carries', x: 215 },
+  { label: 'MET', key: 'metres', x: 245 },
+  { label: 'PAS', key: 'passesCompleted', x: 275 },
+  { label: 'KCK', key: 'kicks', x: 305 },
+  { label: 'RCK', key: 'rucks', x: 335 },
+  { label: 'PEN', key: 'penaltiesConceded', x: 365 },
+  { label: 'TRY', key: 'tries', x: 395 },
+];
+const REPORT_NAME_X = 22;
+const REPORT_NAME_MAX = 14;
+const REPORT_HEADER_Y = 192;
+const REPORT_ROW_Y = 206;
+const REPORT_ROW_HEIGHT = 10;
+/** Extra gap between the starters and the bench */
+const REPORT_BENCH_GAP = 4;
+
 export class ResultScene extends Phaser.Scene {
   private sceneData!: ResultData;
+  private reportView!: Phaser.GameObjects.Container;
+  private reportSort: ReportCardSortKey = 'shirt';
 
   constructor() {
     super({ key: 'ResultScene' });
@@ -26,6 +68,17 @@ export class ResultScene extends Phaser.Scene {
     this.sceneData = data;
   }
 
+  /** Feed the result into the saved tournament (ignored if already recorded) */
+  private recordTournamentResult(fixture: { home: string; away: string }): void {
+    const tournament = new TournamentSystem();
+    if (!tournament.load()) return;
+    const tries = this.sceneData.tries ?? { home: 0, away: 0 };
+    tournament.recordResult(
+      fixture.home, fixture.away, this.sceneData.homeScore, this.sceneData.awayScore, tries.home, tries.away,
+    );
+    tournament.save();
+  }
+
   create(): void {
     const { width, height } = this.cameras.main;
 
@@ -40,7 +93,10 @@ export class ResultScene extends Phaser.Scene {
     // Score (large)
     const winner = this.sceneData.homeScore > this.sceneData.awayScore ? 'HOME WINS!' :
                    this.sceneData.awayScore > this.sceneData.homeScore ? 'AWAY WINS!' : 'DRAW';
-    this.add.text(width / 2, 80, `HOME ${this.sceneData.homeScore} — ${this.sceneData.awayScore} AWAY`, {
+    const fixture = this.sceneData.tournamentFixture;
+    if (fixture) this.recordTournamentResult(fixture);
+    const names = fixture ?? { home: 'HOME', away: 'AWAY' };
+    this.add.text(width / 2, 80, `${names.home} ${this.sceneData.homeScore} — ${this.sceneData.awayScore} ${names.away}`, {
       fontSize: '24px', fontFamily: 'monospace', color: '#eab308',
     }).setOrigin(0.5);
     this.add.text(width / 2, 110, winner, {
@@ -48,9 +104,36 @@ export class ResultScene extends Phaser.Scene {
     }).setOrigin(0.5);
 
     // Man of the Match
-    this.add.text(width / 2, 150, `🏆 Man of the Match: ${this.sceneData.manOfMatch}`, {
-      fontSize: '12px', fontFamily: 'monospace', color: '#fbbf24',
-    }).setOrigin(0.5);
+    if (this.sceneData.manOfMatch) {
+      this.add.text(width / 2, 150, `🏆 Man of the Match: ${this.sceneData.manOfMatch}`, {
+        fontSize: '12px', fontFamily: 'monospace', color: '#fbbf24',
+      }).setOrigin(0.5);
+    }
+
+    // Tabs — team stats / player report card
+    const statsView: Phaser.GameObjects.Text[] = [];
+    const reportCard = this.sceneData.reportCard;
+    if (reportCard) {
+      this.reportView = this.add.container(0, 0).setVisible(false);
+      const statsTab = this.add.text(width / 2 - 70, 172, 'TEAM STATS', {
+        fontSize: '11px', fontFamily: 'monospace', color: '#0f172a',
+        backgroundColor: '#eab308', padding: { x: 8, y: 3 },
+      }).setOrigin(0.5).setInteractive();
+      const reportTab = this.add.text(width / 2 + 70, 172, 'REPORT CARD', {
+        fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
+        backgroundColor: '#1e293b', padding: { x: 8, y: 3 },
+      }).setOrigin(0.5).setInteractive();
+
+      const showReport = (show: boolean) => {
+        for (const obj of statsView) obj.setVisible(!show);
+        this.reportView.setVisible(show);
+        statsTab.setStyle(show ? { color: '#94a3b8', backgroundColor: '#1e293b' } : { color: '#0f172a', backgroundColor: '#eab308' });
+        reportTab.setStyle(show ? { color: '#0f172a', backgroundColor: '#eab308' } : { color: '#94a3b8', backgroundColor: '#1e293b' });
+      };
+      statsTab.on('pointerdown', () => showReport(false));
+      reportTab.on('pointerdown', () => showReport(true));
+      this.renderReportCard();
+    }
 
     // Stats
     const stats = [
@@ -59,30 +142,142 @@ export class ResultScene extends Phaser.Scene {
       ['Passes', String(this.sceneData.passes.home), String(this.sceneData.passes.away)],
       ['Penalties', String(this.sceneData.penalties.home), String(this.sceneData.penalties.away)],
       ['Carries', String(this.sceneData.carries.home), String(this.sceneData.carries.away)],
+      ['Metres', String(this.sceneData.metres.home), String(this.sceneData.metres.away)],
+      ['Tackle %', `${this.sceneData.tackleSuccess.home}%`, `${this.sceneData.tackleSuccess.away}%`],
+      ['Turnovers', String(this.sceneData.turnovers.home), String(this.sceneData.turnovers.away)],
+      ['Yellow cards', String(this.sceneData.yellowCards?.home ?? 0), String(this.sceneData.yellowCards?.away ?? 0)],
+      ['Red cards', String(this.sceneData.redCards?.home ?? 0), String(this.sceneData.redCards?.away ?? 0)],
     ];
 
-    const startY = 200;
-    this.add.text(width / 2 - 100, startY - 20, 'HOME', { fontSize: '10px', fontFamily: 'monospace', color: '#3b82f6' }).setOrigin(0.5);
-    this.add.text(width / 2 + 100, startY - 20, 'AWAY', { fontSize: '10px', fontFamily: 'monospace', color: '#ef4444' }).setOrigin(0.5);
+    const startY = reportCard ? 215 : 200;
+    statsView.push(
+      this.add.text(width / 2 - 100, startY - 20, 'HOME', { fontSize: '10px', fontFamily: 'monospace', color: '#3b82f6' }).setOrigin(0.5),
+      this.add.text(width / 2 + 100, startY - 20, 'AWAY', { fontSize: '10px', fontFamily: 'monospace', color: '#ef4444' }).setOrigin(0.5),
+    );
 
+    const rowHeight = 20;
     stats.forEach(([label, home, away], i) => {
-      const y = startY + i * 24;
-      this.add.text(width / 2 - 100, y, home, { fontSize: '11px', fontFamily: 'monospace', color: '#ffffff' }).setOrigin(0.5);
-      this.add.text(width / 2, y, label, { fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5);
-      this.add.text(width / 2 + 100, y, away, { fontSize: '11px', fontFamily: 'monospace', color: '#ffffff' }).setOrigin(0.5);
+      const y = startY + i * rowHeight;
+      statsView.push(
+        this.add.text(width / 2 - 100, y, home, { fontSize: '11px', fontFamily: 'monospace', color: '#ffffff' }).setOrigin(0.5),
+        this.add.text(width / 2, y, label, { fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8' }).setOrigin(0.5),
+        this.add.text(width / 2 + 100, y, away, { fontSize: '11px', fontFamily: 'monospace', color: '#ffffff' }).setOrigin(0.5),
+      );
     });
 
-    // Buttons
-    const playAgain = this.add.text(width / 2 - 80, height - 50, '↻ PLAY AGAIN', {
+    // Cards, one line per side
+    (['home', 'away'] as const).forEach((side, i) => {
+      const cards = (this.sceneData.cards ?? []).filter(c => c.team === side);
+      if (cards.length === 0) return;
+      const list = cards.map(c => `${c.card === 'red' ? 'RC' : 'YC'} ${c.name} ${c.minute}'`).join(', ');
+      statsView.push(
+        this.add.text(width / 2, startY + stats.length * rowHeight + i * 12, `${names[side]}: ${list}`, {
+          fontSize: '9px', fontFamily: 'monospace', color: '#eab308',
+        }).setOrigin(0.5),
+      );
+    });
+
+    // Buttons — tournament matches head back to the hub instead of a rematch
+    const playAgain = this.add.text(width / 2 - 80, height - 50, fixture ? '▶ CONTINUE' : '↻ PLAY AGAIN', {
       fontSize: '12px', fontFamily: 'monospace', color: '#0f172a',
       backgroundColor: '#4ade80', padding: { x: 12, y: 6 },
     }).setOrigin(0.5).setInteractive();
-    playAgain.on('pointerdown', () => this.scene.start('MatchScene'));
+    playAgain.on('pointerdown', () => this.scene.start(fixture ? 'TournamentScene' : 'MatchScene'));
 
     const toMenu = this.add.text(width / 2 + 80, height - 50, '◀ MENU', {
       fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8',
       backgroundColor: '#1e293b', padding: { x: 12, y: 6 },
     }).setOrigin(0.5).setInteractive();
     toMenu.on('pointerdown', () => this.scene.start('MenuScene'));
+
+    if (this.sceneData.replay) {
+      const watchReplay = this.add.text(width / 2, height - 85, '▶ WATCH REPLAY', {
+        fontSize: '12px', fontFamily: 'monospace', color: '#0f172a',
+        backgroundColor: '#eab308', padding: { x: 12, y: 6 },
+      }).setOrigin(0.5).setInteractive();
+      watchReplay.on('pointerdown', () => this.scene.start('ReplayScene', {
+        replay: this.sceneData.replay,
+        returnTo: fixture ? 'TournamentScene' : undefined,
+      }));
+    }
+
+    // Seed — enter it again to replay the exact same match
+    if (this.sceneData.seed !== undefined) {
+      this.add.text(width - 10, height - 10, `Seed ${this.sceneData.seed}`, {
+        fontSize: '10px', fontFamily: 'monospace', color: '#475569',
+      }).setOrigin(1, 1);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // REPORT CARD
+  // ─────────────────────────────────────────────────────────
+
+  /** Draw both squads side by side, ordered by the selected column */
+  private renderReportCard(): void {
+    const reportCard = this.sceneData.reportCard;
+    if (!reportCard) return;
+    this.reportView.removeAll(true);
+
+    const names = this.sceneData.tournamentFixture ?? { home: 'HOME', away: 'AWAY' };
+    const panels = [
+      { side: 'home' as const, x: 30, color: '#3b82f6' },
+      { side: 'away' as const, x: 500, color: '#ef4444' },
+    ];
+    const small = { fontSize: '10px', fontFamily: 'monospace' };
+
+    for (const panel of panels) {
+      this.reportView.add(this.add.text(panel.x + REPORT_NAME_X, REPORT_HEADER_Y, names[panel.side].toUpperCase(), {
+        ...small, color: panel.color,
+      }).setOrigin(0, 0.5));
+
+      for (const col of REPORT_COLUMNS) {
+        const header = this.add.text(panel.x + col.x, REPORT_HEADER_Y, col.label, {
+          ...small, color: col.key === this.reportSort ? '#fbbf24' : '#94a3b8',
+        }).setOrigin(0, 0.5).setInteractive();
+        header.on('pointerdown', () => {
+          this.reportSort = col.key;
+          this.renderReportCard();
+        });
+        this.reportView.add(header);
+      }
+
+      const rows = sortReportCard(reportCard[panel.side], this.reportSort);
+      let y = REPORT_ROW_Y;
+      rows.forEach((entry, i) => {
+        if (this.reportSort === 'shirt' && i > 0 && entry.shirt > 15 && rows[i - 1].shirt <= 15) {
+          y += REPORT_BENCH_GAP;
+        }
+        this.reportView.add(this.reportRow(panel.x, y, entry));
+        y += REPORT_ROW_HEIGHT;
+      });
+    }
+  }
+
+  /** One player's line — grey for replacements who never came on */
+  private reportRow(x: number, y: number, entry: ReportCardEntry): Phaser.GameObjects.Text[] {
+    const unused = entry.rating === null;
+    const color = unused ? '#475569' : '#ffffff';
+    const ratingColor = unused ? color
+      : entry.rating! >= 7.5 ? '#4ade80'
+      : entry.rating! < 5.5 ? '#ef4444'
+      : color;
+    const style = { fontSize: '10px', fontFamily: 'monospace', color };
+    const cell = (colX: number, text: string, cellColor = color) =>
+      this.add.text(x + colX, y, text, { ...style, color: cellColor }).setOrigin(0, 0.5);
+
+    const texts = [
+      cell(0, String(entry.shirt)),
+      cell(REPORT_NAME_X, entry.name.slice(0, REPORT_NAME_MAX)),
+    ];
+    for (const col of REPORT_COLUMNS) {
+      if (col.key === 'shirt') continue;
+      if (col.key === 'rating') {
+        texts.push(cell(col.x, unused ? '–' : entry.rating!.toFixed(1), ratingColor));
+      } else {
+        texts.push(cell(col.x, unused ? '–' : String(entry[col.key])));
+      }
+    }
+    return texts;
   }
 }
@@ -6,6 +6,11 @@
  */
 
 import { EventBus } from '../utils/EventBus';
+import { RNG } from '../utils/Random';
+import type { GoalKickWind } from '../systems/WeatherSystem';
+import type { LineoutSystem, LineoutOutcome, LineoutPlay, LineoutResult } from '../systems/LineoutSystem';
+import type { ScrumSystem, ScrumOption, ScrumOutcome, ScrumResult } from '../systems/ScrumSystem';
+import type { TeamAI } from '../ai/TeamAI';
 
 type SetPieceType = 'scrum' | 'lineout' | 'conversion' | 'penalty_kick';
 
@@ -14,14 +19,56 @@ interface SetPieceConfig {
   x: number;
   y: number;
   team: 'home' | 'away';
-  stats?: {
-    homeStrength: number;
-    awayStrength: number;
-    homeHooking: number;
-    awayHooking: number;
-  };
+  /** Both packs for a scrum, formed by MatchScene from the Teams */
+  scrum?: ScrumSystem;
+  /** Wind for kicks at goal (omitted = still) */
+  wind?: GoalKickWind;
+  /** Both lines for a lineout, formed by MatchScene from the Teams */
+  lineout?: LineoutSystem;
+  /** Side the player controls — the other side's coach makes its own calls */
+  controlledSide?: 'home' | 'away';
+  /** Coach of the side the player doesn't control */
+  opponentAI?: TeamAI;
 }
 
+/** Aim offset (radians of aimAngle) per unit of crosswind */
+const WIND_AIM_DRIFT = 0.15;
+/** Power sweet-spot shift per unit of tailwind */
+const WIND_POWER_SHIFT = 0.1;
+/** Vertical gap between players in the lineout drawing (px) */
+const LINEOUT_SPACING = 30;
+/** A mistimed jump keeps this share of the jumper's rating */
+const LINEOUT_MISTIMED = 0.7;
+/** Banner when the player's side comes down with the ball */
+const LINEOUT_OUTCOME_LABELS: Record<LineoutOutcome, string> = {
+  clean: 'CLEAN TAKE!',
+  contested: 'WON IN THE AIR!',
+  stolen: 'STOLEN!',
+  fumbled: 'LOOSE — RECOVERED!',
+  not_straight: 'NOT STRAIGHT!',
+  overthrown: 'OVERTHROWN!',
+};
+/** The human pack's shove from the scrum mini-game: this share of its strength with no push… */
+const SCRUM_EFFORT_MIN = 0.8;
+/** …plus this much more at full power */
+const SCRUM_EFFORT_RANGE = 0.4;
+/** Banner when the scrum settles */
+const SCRUM_OUTCOME_LABELS: Record<ScrumOutcome, string> = {
+  won: 'BALL WON!',
+  against_the_head: 'AGAINST THE HEAD!',
+  reset: 'RESET!',
+  wheel: 'WHEELED!',
+  collapsed: 'SCRUM COLLAPSED!',
+  pushover: 'PUSHOVER TRY!',
+};
+/** Banner for what the side that won it does next */
+const LINEOUT_PLAY_LABELS: Record<LineoutPlay, string> = {
+  pass: 'QUICK PASS!',
+  maul: 'DRIVING MAUL!',
+  peel_front: 'PEEL AROUND THE FRONT!',
+  peel_back: 'PEEL AROUND THE BACK!',
+};
+
 export class SetPieceScene extends Phaser.Scene {
   private config!: SetPieceConfig;
   private phaseText!: Phaser.GameObjects.Text;
@@ -40,13 +87,17 @@ export class SetPieceScene extends Phaser.Scene {
   private aimAngle = 0;
   private aimDirection = 1;
 
-  // Lineout target selection
-  private lineoutTarget: 'front' | 'middle' | 'back' = 'middle';
+  // Lineout: the player's pick (jumper to throw to or contest with) and the AI's call
+  private lineoutTarget = 0;
+  private lineoutCall = 0;
 
   private homeStrength = 50;
   private awayStrength = 50;
   private homeHooking = 50;
   private awayHooking = 50;
+  // Scrum: the put-in call and the player's shove over the contest
+  private scrumOption: ScrumOption = 'hook';
+  private powerSum = 0;
   
   // Collapse monitoring
   private highPowerDuration = 0;
@@ -67,12 +118,14 @@ export class SetPieceScene extends Phaser.Scene {
     this.powerLevel = 0;
     this.isCharging = false;
     
-    if (data.stats) {
-      this.homeStrength = data.stats.homeStrength;
-      this.awayStrength = data.stats.awayStrength;
-      this.homeHooking = data.stats.homeHooking;
-      this.awayHooking = data.stats.awayHooking;
+    if (data.scrum) {
+      this.homeStrength = data.scrum.getStrength('home');
+      this.awayStrength = data.scrum.getStrength('away');
+      this.homeHooking = data.scrum.getHooking('home');
+      this.awayHooking = data.scrum.getHooking('away');
     }
+    this.scrumOption = 'hook';
+    this.powerSum = 0;
     this.highPowerDuration = 0;
     this.myHookProgress = 0;
     this.oppHookProgress = 0;
@@ -132,10 +185,28 @@ export class SetPieceScene extends Phaser.Scene {
       }
   }
 
+  /** Side the player controls in a scrum (the feeding side if none is given) */
+  private get humanSide(): 'home' | 'away' {
+    return this.config.controlledSide ?? this.config.team;
+  }
+
   private startScrum(): void {
     this.phase = 'setup';
     this.instructionText.setText('Press SPACE on "SET". Don\'t over-push!');
 
+    // Put-in call: the player's if it's their ball, otherwise their coach's
+    if (this.humanSide === this.config.team) {
+      this.instructionText.setText('↑ Hook  ↓ Drive — SPACE on "SET". Don\'t over-push!');
+      this.input.keyboard?.on('keydown-UP', () => {
+        if (this.phase === 'setup') this.setScrumOption('hook');
+      });
+      this.input.keyboard?.on('keydown-DOWN', () => {
+        if (this.phase === 'setup') this.setScrumOption('drive');
+      });
+    } else if (this.config.scrum && this.config.opponentAI) {
+      this.scrumOption = this.config.opponentAI.chooseScrumOption(this.config.scrum, this.config.x);
+    }
+
     // Draw scrum formation visual
     const { width, height } = this.cameras.main;
     const cx = width / 2;
@@ -194,6 +265,11 @@ export class SetPieceScene extends Phaser.Scene {
     });
   }
 
+  private setScrumOption(option: ScrumOption): void {
+    this.scrumOption = option;
+    this.phaseText.setText(option === 'hook' ? 'QUICK STRIKE' : 'DRIVE');
+  }
+
   private handleEarlyEngagement(): void {
     this.phase = 'complete';
     this.phaseText.setText('EARLY ENGAGEMENT!');
@@ -201,7 +277,7 @@ export class SetPieceScene extends Phaser.Scene {
     this.cameras.main.shake(100, 0.01);
     this.time.delayedCall(2000, () => {
       this.scene.stop();
-      EventBus.emit('ruckResolved', { team: this.config.team === 'home' ? 'away' : 'home' });
+      EventBus.emit('ruckResolved', { team: this.humanSide === 'home' ? 'away' : 'home' });
     });
   }
 
@@ -219,8 +295,8 @@ export class SetPieceScene extends Phaser.Scene {
       }
     }
     
-    const yourStrength = this.config.team === 'home' ? this.homeStrength : this.awayStrength;
-    const oppStrength = this.config.team === 'home' ? this.awayStrength : this.homeStrength;
+    const yourStrength = this.humanSide === 'home' ? this.homeStrength : this.awayStrength;
+    const oppStrength = this.humanSide === 'home' ? this.awayStrength : this.homeStrength;
     
     // Base power from strength difference (0.5 + difference/200)
     // If stats are 0-100.
@@ -233,6 +309,7 @@ export class SetPieceScene extends Phaser.Scene {
     const noise = Math.sin(Date.now() / 200) * 0.05;
 
     this.powerLevel = Math.max(0, Math.min(1, basePower + tapContribution + noise));
+    this.powerSum += this.powerLevel * delta;
     
     // COLLAPSE LOGIC
     if (this.powerLevel > 0.9) {
@@ -255,8 +332,8 @@ export class SetPieceScene extends Phaser.Scene {
     // Hook speed = Base + (Power bonus) + (Stat bonus)
     // Target: reach 100
     
-    const myStat = this.config.team === 'home' ? this.homeHooking : this.awayHooking;
-    const oppStat = this.config.team === 'home' ? this.awayHooking : this.homeHooking;
+    const myStat = this.humanSide === 'home' ? this.homeHooking : this.awayHooking;
+    const oppStat = this.humanSide === 'home' ? this.awayHooking : this.homeHooking;
     
     // My hook speed
     let mySpeed = 0;
@@ -278,53 +355,74 @@ export class SetPieceScene extends Phaser.Scene {
     this.myHookProgress += delta * mySpeed;
     this.oppHookProgress += delta * oppSpeed;
     
-    // Check for win
-    let finished = false;
-    let won = false;
-    
-    if (this.myHookProgress >= 100) {
-       finished = true;
-       won = true;
-    } else if (this.oppHookProgress >= 100) {
-       finished = true;
-       won = false;
-    } else if (this.contestElapsed >= 6000) { // Timeout safety (6s)
-       finished = true;
-       won = this.myHookProgress > this.oppHookProgress;
+    // The contest is over once either hooker gets there
+    if (this.myHookProgress >= 100 || this.oppHookProgress >= 100 || this.contestElapsed >= 6000) { // Timeout safety (6s)
+      this.resolveScrum();
     }
+  }
 
-    // Contest complete
-    if (finished) {
-      if (won) {
-         // Decision phase for winner:
-         this.phase = 'decision';
-         this.phaseText.setText('WIN! ← BLIND | OPEN →');
-         this.instructionText.setText('Select Attack Side');
-         
-         const winningTeam = this.config.team;
-
-         if (this.input.keyboard) {
-             this.input.keyboard.once('keydown-LEFT', () => this.finishScrum(winningTeam, 'blindside'));
-             this.input.keyboard.once('keydown-RIGHT', () => this.finishScrum(winningTeam, 'openside'));
-         }
-         // Fallback
-         this.time.delayedCall(3000, () => {
-             if (this.phase === 'decision') this.finishScrum(winningTeam, 'openside');
-         });
-      } else {
-         // Lost
-         this.phase = 'complete';
-         this.phaseText.setText('BALL LOST!');
-         this.instructionText.setText('Opponent hooked faster');
-         this.time.delayedCall(1000, () => {
-             this.scene.stop();
-             EventBus.emit('ruckResolved', { team: this.config.team === 'home' ? 'away' : 'home', action: 'openside' }); 
-         });
-      }
+  /** Settle the scrum from both packs, with the player's shove over the contest */
+  private resolveScrum(): void {
+    this.phase = 'complete';
+    const scrum = this.config.scrum!;
+    const human = this.humanSide;
+    const opposition = human === 'home' ? 'away' : 'home';
+    const averagePower = this.contestElapsed > 0 ? this.powerSum / this.contestElapsed : 0.5;
+    const effort = SCRUM_EFFORT_MIN + SCRUM_EFFORT_RANGE * averagePower;
+
+    const result: ScrumResult = scrum.resolve(this.scrumOption, this.config.x, effort, human);
+    EventBus.emit('scrumResult', { feeding: this.config.team, winner: result.winner, outcome: result.outcome, option: this.scrumOption });
+
+    this.phaseText.setText(SCRUM_OUTCOME_LABELS[result.outcome]);
+    const done = (emit: () => void, delay = 1500) => this.time.delayedCall(delay, () => {
+      this.scene.stop();
+      emit();
+    });
+
+    switch (result.outcome) {
+      case 'reset':
+      case 'wheel':
+        this.instructionText.setText(`Scrum again — ${result.winner === human ? 'your' : 'their'} put-in`);
+        done(() => EventBus.emit('ruckResolved', { team: result.winner, action: 'scrum_reset' }));
+        return;
+
+      case 'collapsed':
+        this.instructionText.setText(`Penalty ${result.winner === human ? 'to you' : 'against you'} — the pack going backwards took it down`);
+        this.cameras.main.shake(200, 0.02);
+        done(() => EventBus.emit('penaltyAwarded', {
+          x: this.config.x, y: this.config.y, reason: 'collapsing_scrum', team: result.winner,
+        }), 2000);
+        return;
+
+      case 'pushover':
+        this.instructionText.setText('Driven over the line!');
+        done(() => EventBus.emit('ruckResolved', { team: result.winner, action: 'pushover' }));
+        return;
+    }
+
+    if (result.winner === human) {
+       // Decision phase for winner:
+       this.phase = 'decision';
+       this.phaseText.setText(`${SCRUM_OUTCOME_LABELS[result.outcome]} ← BLIND | OPEN →`);
+       this.instructionText.setText('Select Attack Side');
+
+       if (this.input.keyboard) {
+           this.input.keyboard.once('keydown-LEFT', () => this.finishScrum(human, 'blindside'));
+           this.input.keyboard.once('keydown-RIGHT', () => this.finishScrum(human, 'openside'));
+       }
+       // Fallback
+       this.time.delayedCall(3000, () => {
+           if (this.phase === 'decision') this.finishScrum(human, 'openside');
+       });
+    } else {
+       // Lost
+       this.instructionText.setText(result.outcome === 'won' ? 'Their ball' : 'Opponent hooked faster');
+       done(() => EventBus.emit('ruckResolved', { team: opposition, action: 'openside' }), 1000);
     }
   }
 
   private finishScrum(team: 'home'|'away', side: 'blindside'|'openside'): void {
+      if (this.phase === 'complete') return;
       this.phase = 'complete';
       this.phaseText.setText(side === 'blindside' ? 'BLIDE SIDE!' : '0PEN SIDE!');
       this.instructionText.setText('');
@@ -341,14 +439,14 @@ export class SetPieceScene extends Phaser.Scene {
      this.instructionText.setText('Penalty for over-pushing!');
      this.cameras.main.shake(200, 0.02);
      
-     // Penalty against this team (so opposition wins)
+     // Penalty against the player's pack (so opposition wins)
      this.time.delayedCall(2000, () => {
         this.scene.stop();
         EventBus.emit('penaltyAwarded', { 
            x: this.config.x, 
            y: this.config.y, 
            reason: 'collapsing_scrum', 
-           againstAttack: this.config.team === 'home' 
+           team: this.humanSide === 'home' ? 'away' : 'home',
         });
      });
   }
@@ -357,47 +455,56 @@ export class SetPieceScene extends Phaser.Scene {
   // LINEOUT MINI-GAME
   // ─────────────────────────────────────────────────────────
 
-  // Store lineout players for animation
-  private lineoutSprites: Record<string, Phaser.GameObjects.Arc> = {};
+  // Lineout circles by place in the line, for highlighting and the lift
+  private lineoutSprites: Record<'attack' | 'defence', Phaser.GameObjects.Arc[]> = { attack: [], defence: [] };
+  private lineoutObjects: Phaser.GameObjects.GameObject[] = [];
+
+  /** The player's side throws in (otherwise they defend it) */
+  private get humanThrows(): boolean {
+    return this.config.controlledSide === this.config.team;
+  }
 
   private startLineout(): void {
     this.phase = 'setup';
-    this.lineoutTarget = 'middle';
-    this.lineoutSprites = {};
-
-    const { width, height } = this.cameras.main;
-    const cx = width / 2;
-
-    // Draw lineout formation
-    const positions = [height / 2 - 60, height / 2, height / 2 + 60];
-    const labels = ['FRONT', 'MIDDLE', 'BACK'];
-    const keys = ['front', 'middle', 'back'];
+    const lineout = this.config.lineout!;
+    const ai = this.config.opponentAI;
 
-    for (let i = 0; i < 3; i++) {
-      const circle = this.add.circle(cx - 20, positions[i], 8, 0x2563eb).setScrollFactor(0).setDepth(5);
-      this.lineoutSprites[keys[i]] = circle;
-      
-      this.add.circle(cx + 20, positions[i], 8, 0xdc2626).setScrollFactor(0).setDepth(5);
-      this.add.text(cx - 60, positions[i], labels[i], {
-        fontSize: '10px', fontFamily: 'monospace', color: '#94a3b8',
-      }).setOrigin(0.5).setScrollFactor(0).setDepth(5);
+    if (this.humanThrows) {
+      this.lineoutTarget = lineout.getJumpers(this.config.team)[0].index;
+      this.instructionText.setText('←/→ Numbers  ↑/↓ Jumper  SPACE to throw');
+    } else {
+      // Their coach calls numbers and target; the player picks a jumper to contest with
+      if (ai) lineout.setNumbers(ai.chooseLineoutNumbers(this.config.x));
+      this.lineoutCall = ai ? ai.chooseLineoutTarget(lineout, this.config.x) : lineout.getJumpers(this.config.team)[0].index;
+      this.lineoutTarget = lineout.getJumpers(this.opposition())[0].index;
+      this.instructionText.setText('↑/↓ Jumper to contest  SPACE when they throw');
     }
+    this.drawLineout();
 
-    this.instructionText.setText('↑/↓ Select target, SPACE to throw');
+    const cycle = (step: number) => {
+      const jumpers = lineout.getJumpers(this.humanThrows ? this.config.team : this.opposition());
+      const i = jumpers.findIndex(j => j.index === this.lineoutTarget);
+      this.lineoutTarget = jumpers[Math.max(0, Math.min(jumpers.length - 1, i + step))].index;
+      this.highlightTarget();
+    };
+    const numbers = (step: number) => {
+      lineout.setNumbers(lineout.getNumbers() + step);
+      this.lineoutTarget = lineout.getJumpers(this.config.team)[0].index;
+      this.drawLineout();
+    };
 
-    // Arrow key listeners
     if (this.input.keyboard) {
       this.input.keyboard.on('keydown-UP', () => {
-        if (this.phase !== 'setup') return;
-        this.lineoutTarget = this.lineoutTarget === 'back' ? 'middle' : 'front';
-        this.phaseText.setText(`Target: ${this.lineoutTarget.toUpperCase()}`);
-        this.highlightTarget();
+        if (this.phase === 'setup') cycle(-1);
       });
       this.input.keyboard.on('keydown-DOWN', () => {
-        if (this.phase !== 'setup') return;
-        this.lineoutTarget = this.lineoutTarget === 'front' ? 'middle' : 'back';
-        this.phaseText.setText(`Target: ${this.lineoutTarget.toUpperCase()}`);
-        this.highlightTarget();
+        if (this.phase === 'setup') cycle(1);
+      });
+      this.input.keyboard.on('keydown-LEFT', () => {
+        if (this.phase === 'setup' && this.humanThrows) numbers(-1);
+      });
+      this.input.keyboard.on('keydown-RIGHT', () => {
+        if (this.phase === 'setup' && this.humanThrows) numbers(1);
       });
       this.input.keyboard.on('keydown-SPACE', () => {
         if (this.phase !== 'setup') return;
@@ -407,15 +514,62 @@ export class SetPieceScene extends Phaser.Scene {
         this.isCharging = true;
       });
     }
-    
+  }
+
+  private opposition(): 'home' | 'away' {
+    return this.config.team === 'home' ? 'away' : 'home';
+  }
+
+  /** Both lines from the front: throwing side in blue, defence in red, shirt numbers on */
+  private drawLineout(): void {
+    const lineout = this.config.lineout!;
+    const { width, height } = this.cameras.main;
+    const cx = width / 2;
+    this.lineoutObjects.forEach(o => o.destroy());
+    this.lineoutObjects = [];
+    this.lineoutSprites = { attack: [], defence: [] };
+
+    const lines = [
+      { key: 'attack' as const, side: this.config.team, x: cx - 20, color: 0x2563eb },
+      { key: 'defence' as const, side: this.opposition(), x: cx + 20, color: 0xdc2626 },
+    ];
+    const spots = lineout.getFormation(this.config.team).spots.length;
+    const top = height / 2 - ((spots - 1) * LINEOUT_SPACING) / 2;
+
+    for (const line of lines) {
+      for (const spot of lineout.getFormation(line.side).spots) {
+        const y = top + spot.index * LINEOUT_SPACING;
+        const circle = this.add.circle(line.x, y, spot.role === 'jumper' ? 10 : 7, line.color).setScrollFactor(0).setDepth(5);
+        const label = this.add.text(line.x, y, `${spot.player.position}`, {
+          fontSize: '9px', fontFamily: 'monospace', color: '#ffffff',
+        }).setOrigin(0.5).setScrollFactor(0).setDepth(6);
+        this.lineoutSprites[line.key].push(circle);
+        this.lineoutObjects.push(circle, label);
+      }
+    }
+
+    // Hooker on the touchline, in front of the line
+    const thrower = lineout.getFormation(this.config.team).thrower;
+    this.lineoutObjects.push(
+      this.add.circle(cx, top - LINEOUT_SPACING, 8, 0x2563eb).setScrollFactor(0).setDepth(5),
+      this.add.text(cx, top - LINEOUT_SPACING, `${thrower.position}`, {
+        fontSize: '9px', fontFamily: 'monospace', color: '#ffffff',
+      }).setOrigin(0.5).setScrollFactor(0).setDepth(6),
+      this.add.text(cx - 70, top - LINEOUT_SPACING, `${lineout.getNumbers()}-MAN`, {
+        fontSize: '10px', fontFamily: 'monospace', color: '#94a3b8',
+      }).setOrigin(0.5).setScrollFactor(0).setDepth(5),
+    );
+
     this.highlightTarget();
   }
 
   private highlightTarget(): void {
      // visual feedback for selection
-     Object.values(this.lineoutSprites).forEach(s => s.setStrokeStyle(0));
-     const target = this.lineoutSprites[this.lineoutTarget];
-     if (target) target.setStrokeStyle(2, 0xffff00);
+     const own = this.humanThrows ? this.lineoutSprites.attack : this.lineoutSprites.defence;
+     [...this.lineoutSprites.attack, ...this.lineoutSprites.defence].forEach(s => s.setStrokeStyle(0));
+     own[this.lineoutTarget]?.setStrokeStyle(2, 0xffff00);
+     const spot = this.config.lineout!.getFormation(this.humanThrows ? this.config.team : this.opposition()).spots[this.lineoutTarget];
+     if (spot) this.phaseText.setText(`${this.humanThrows ? 'Throw to' : 'Contest with'}: ${spot.player.name}`);
   }
 
   private updateLineout(delta: number): void {
@@ -432,7 +586,7 @@ export class SetPieceScene extends Phaser.Scene {
         const spaceKey = this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
         if (Phaser.Input.Keyboard.JustDown(spaceKey) && this.powerLevel > 0.3) {
            // Simulate Lift
-           const jumper = this.lineoutSprites[this.lineoutTarget];
+           const jumper = (this.humanThrows ? this.lineoutSprites.attack : this.lineoutSprites.defence)[this.lineoutTarget];
            if (jumper) {
              this.tweens.add({
                 targets: jumper,
@@ -450,63 +604,92 @@ export class SetPieceScene extends Phaser.Scene {
     }
   }
 
-  // Contest time tracked manually, no fixed duration property needed
-  // private contestElapsed = 0; // Already declared above, removing duplicate and fixing previous bad edit logic
-  // ...
-
-  // ... (inside resolveLineout)
   private resolveLineout(): void {
     this.isCharging = false;
-    
-    // Timing-based success: sweet spot at power 0.5–0.8
+    const lineout = this.config.lineout!;
+    const human = this.config.controlledSide ?? this.config.team;
+
+    // Timing-based: sweet spot at power 0.5–0.8
     const timingGood = (this.powerLevel > 0.5 && this.powerLevel < 0.8);
-    const stealChance = timingGood ? 0.1 : 0.6;
-    
-    // Determine winner based on random roll modified by timing
-    const success = Math.random() > stealChance;
-    const winningTeam = success ? this.config.team : (this.config.team === 'home' ? 'away' : 'home');
+    const timing = timingGood ? 1 : LINEOUT_MISTIMED;
+
+    const target = this.humanThrows ? this.lineoutTarget : this.lineoutCall;
+    const compete = this.humanThrows
+      ? this.config.opponentAI?.chooseLineoutCompete(lineout) ?? null
+      : this.lineoutTarget;
+    const result = lineout.resolve(target, compete, timing, human);
+    EventBus.emit('lineoutResult', {
+      throwing: this.config.team,
+      winner: result.winner,
+      outcome: result.outcome,
+      numbers: lineout.getNumbers(),
+      catcherId: result.catcher?.id,
+    });
 
-    if (!success || this.config.team !== this.controlledPlayerTeam()) {
-       // CPU won or we lost -> Immediate resolution
-       this.finishLineout(winningTeam, 'pass'); // CPU always passes for now
+    if (result.outcome === 'not_straight') {
+      this.phase = 'complete';
+      this.phaseText.setText('NOT STRAIGHT!');
+      this.instructionText.setText('Scrum to the defence');
+      this.time.delayedCall(1500, () => {
+        this.scene.stop();
+        EventBus.emit('ruckResolved', { team: result.winner, action: 'not_straight' });
+      });
+      return;
+    }
+
+    if (result.outcome === 'overthrown') {
+      this.phase = 'complete';
+      this.phaseText.setText('OVERTHROWN!');
+      this.instructionText.setText('Loose ball at the tail');
+      this.time.delayedCall(1500, () => {
+        this.scene.stop();
+        EventBus.emit('ruckResolved', { team: result.winner, action: 'overthrow' });
+      });
+      return;
+    }
+
+    if (result.winner !== human) {
+       // CPU won or we lost -> their coach calls it
+       const ai = this.config.opponentAI;
+       const catcher = result.catcher ? lineout.getFormation(result.winner).spots.find(s => s.player === result.catcher) : undefined;
+       this.finishLineout(result, ai ? ai.chooseLineoutPlay(lineout, catcher?.index ?? result.target, this.config.x) : 'pass');
     } else {
        // We won -> Decision time
        this.phase = 'decision';
-       this.phaseText.setText('WIN! ← PASS | MAUL →');
-       this.instructionText.setText('Select Next Move');
+       this.phaseText.setText(`${LINEOUT_OUTCOME_LABELS[result.outcome]} ← PASS | MAUL →`);
+       this.instructionText.setText('↑ Peel around the front  ↓ Peel around the back');
 
        if (this.input.keyboard) {
-           this.input.keyboard.once('keydown-LEFT', () => this.finishLineout(winningTeam, 'pass'));
-           this.input.keyboard.once('keydown-RIGHT', () => this.finishLineout(winningTeam, 'maul'));
+           this.input.keyboard.once('keydown-LEFT', () => this.finishLineout(result, 'pass'));
+           this.input.keyboard.once('keydown-RIGHT', () => this.finishLineout(result, 'maul'));
+           this.input.keyboard.once('keydown-UP', () => this.finishLineout(result, 'peel_front'));
+           this.input.keyboard.once('keydown-DOWN', () => this.finishLineout(result, 'peel_back'));
        }
        // Fallback timeout
        this.time.delayedCall(3000, () => {
-          if (this.phase === 'decision') this.finishLineout(winningTeam, 'pass');
+          if (this.phase === 'decision') this.finishLineout(result, 'pass');
        });
     }
   }
 
-  private finishLineout(team: 'home' | 'away', action: 'pass' | 'maul'): void {
+  /** Hand back to MatchScene — a peel goes to the forward coming around the end, otherwise the catcher */
+  private finishLineout(result: LineoutResult, play: LineoutPlay): void {
+      if (this.phase === 'complete') return;
       this.phase = 'complete';
-      this.phaseText.setText(action === 'pass' ? 'QUICK PASS!' : 'DRIVING MAUL!');
+      this.phaseText.setText(LINEOUT_PLAY_LABELS[play]);
       this.instructionText.setText('');
-      
+
+      const peeler = play === 'peel_front' || play === 'peel_back'
+        ? this.config.lineout!.getPeeler(result.winner, play === 'peel_front' ? 'front' : 'back', result.catcher)
+        : null;
+      const playerId = (peeler ?? result.catcher)?.id;
+
       this.time.delayedCall(1000, () => {
         this.scene.stop();
-        EventBus.emit('ruckResolved', { team, action });
+        EventBus.emit('ruckResolved', { team: result.winner, action: play, playerId });
       });
   }
 
-  // Helper to check controlled team (assuming simple single player control for M3 context)
-  private controlledPlayerTeam(): 'home' | 'away' {
-      // In a real scenario, we'd pass this in config or check registry.
-      // For now, assume user plays 'home' as per default setup usually.
-      // Or check config.team if we assume we always play the active side in this mini-game?
-      // Wait, config.team is the *throwing* team.
-      // If I am away team and I throw...
-      return 'home'; // Default assumption for M3
-  }
-
   // ─────────────────────────────────────────────────────────
   // KICK AT GOAL (Conversion / Penalty)
   // ─────────────────────────────────────────────────────────
@@ -527,6 +710,16 @@ export class SetPieceScene extends Phaser.Scene {
     this.add.triangle(width / 2, height / 2 + 20, 0, 10, 5, 0, -5, 0, 0x22c55e)
       .setScrollFactor(0).setDepth(5);
 
+    // Wind indicator above the posts
+    const wind = this.config.wind;
+    if (wind && (wind.crosswind !== 0 || wind.tailwind !== 0)) {
+      const across = wind.crosswind > 0 ? '→' : wind.crosswind < 0 ? '←' : '';
+      const along = wind.tailwind > 0 ? '↑' : wind.tailwind < 0 ? '↓' : '';
+      this.add.text(width / 2, height / 2 - 130, `WIND ${along}${across}`, {
+        fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8',
+      }).setOrigin(0.5).setScrollFactor(0).setDepth(5);
+    }
+
     this.instructionText.setText('SPACE to set aim, then SPACE for power');
     this.phaseText.setText('AIM');
   }
@@ -572,12 +765,17 @@ export class SetPieceScene extends Phaser.Scene {
     this.isCharging = false;
     this.phase = 'complete';
 
+    // Crosswind pushes the ball off line; aim into it to compensate
+    const wind = this.config.wind ?? { crosswind: 0, tailwind: 0 };
+    const flightAngle = this.aimAngle + wind.crosswind * WIND_AIM_DRIFT;
+
     // Accuracy based on aim angle (closer to 0 = better)
-    const aimAccuracy = 1 - Math.abs(this.aimAngle) * 2;
-    // Power sweet spot: 0.6–0.85
-    const powerAccuracy = (this.powerLevel > 0.5 && this.powerLevel < 0.85) ? 1.0 : 0.4;
+    const aimAccuracy = 1 - Math.abs(flightAngle) * 2;
+    // Power sweet spot: 0.5–0.85, lower with the wind behind, higher into it
+    const shift = -wind.tailwind * WIND_POWER_SHIFT;
+    const powerAccuracy = (this.powerLevel > 0.5 + shift && this.powerLevel < 0.85 + shift) ? 1.0 : 0.4;
 
-    const success = aimAccuracy > 0.5 && powerAccuracy > 0.5 && Math.random() < (aimAccuracy * powerAccuracy);
+    const success = aimAccuracy > 0.5 && powerAccuracy > 0.5 && RNG.chance(aimAccuracy * powerAccuracy);
 
     this.phaseText.setText(success ? '✓ SUCCESSFUL!' : '✗ MISSED!');
 
@@ -591,6 +789,11 @@ export class SetPieceScene extends Phaser.Scene {
 
     this.time.delayedCall(1500, () => {
       this.scene.stop();
+      EventBus.emit('goalKickResult', {
+        team: this.config.team,
+        type: this.config.type === 'conversion' ? 'conversion' : 'penalty',
+        success,
+      });
     });
   }
 }
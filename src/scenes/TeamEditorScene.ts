@@ -0,0 +1,308 @@
+/**
+ * TeamEditorScene — create and edit custom teams.
+ *
+ * Left:   custom teams (new / rename / recolour / delete)
+ * Middle: the selected team's 15 players (click to select, rename)
+ * Right:  stat sliders for the selected player, within the team stat budget
+ *
+ * Names are typed in place: ENTER confirms, ESC cancels. ESC otherwise
+ * returns to TeamSelectScene. Every change is saved by TeamEditor as it happens.
+ */
+
+import Phaser from 'phaser';
+import { TeamEditor, STAT_MIN, STAT_MAX, TEAM_STAT_BUDGET, MAX_NAME_LENGTH } from '../systems/TeamEditor';
+import type { CustomStatKey, CustomTeam } from '../systems/TeamEditor';
+
+const MAX_CUSTOM_TEAMS = 10;
+const STAT_STEP = 5;
+const BAR_WIDTH = 180;
+
+const STAT_ROWS: Array<{ key: CustomStatKey; label: string }> = [
+  { key: 'speed', label: 'SPEED' },
+  { key: 'strength', label: 'STRENGTH' },
+  { key: 'handling', label: 'HANDLING' },
+  { key: 'kicking', label: 'KICKING' },
+  { key: 'stamina', label: 'STAMINA' },
+  { key: 'tackling', label: 'TACKLING' },
+  { key: 'awareness', label: 'AWARENESS' },
+  { key: 'workRate', label: 'WORK RATE' },
+];
+
+const PALETTE = [
+  0x1a1a2e, 0x2d6a2d, 0xd4a017, 0xffffff, 0x2563eb, 0x22c55e,
+  0xdc2626, 0x1e3a5f, 0x7c3aed, 0xf97316, 0x0ea5e9, 0xec4899,
+];
+
+/** In-progress name entry */
+interface TextEntry {
+  target: 'team' | 'player';
+  value: string;
+  commit: (value: string) => void;
+}
+
+export class TeamEditorScene extends Phaser.Scene {
+  private editor!: TeamEditor;
+  private selectedTeamId: string | null = null;
+  private selectedPosition = 1;
+  private textEntry: TextEntry | null = null;
+  private confirmingDelete = false;
+
+  /** Everything rebuilt by redraw() */
+  private dynamicObjects: Phaser.GameObjects.GameObject[] = [];
+
+  constructor() {
+    super({ key: 'TeamEditorScene' });
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+    this.editor = new TeamEditor();
+    this.selectedTeamId = this.editor.getTeams()[0]?.id ?? null;
+    this.selectedPosition = 1;
+    this.textEntry = null;
+    this.confirmingDelete = false;
+    this.dynamicObjects = [];
+
+    this.add.rectangle(width / 2, height / 2, width, height, 0x0f172a);
+    this.add.text(width / 2, 24, 'TEAM EDITOR', {
+      fontSize: '22px', fontFamily: 'monospace', color: '#f8fafc',
+    }).setOrigin(0.5);
+
+    this.add.text(20, 56, 'TEAMS', { fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8' });
+    this.add.text(280, 56, 'SQUAD', { fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8' });
+
+    const backBtn = this.add.text(40, height - 30, '◀ Back', {
+      fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
+    }).setInteractive();
+    backBtn.on('pointerdown', () => this.leave());
+
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => this.handleKey(event));
+
+    this.redraw();
+    this.cameras.main.fadeIn(300, 0, 0, 0);
+  }
+
+  private leave(): void {
+    this.scene.start('TeamSelectScene');
+  }
+
+  private selectedTeam(): CustomTeam | undefined {
+    return this.selectedTeamId ? this.editor.getTeam(this.selectedTeamId) : undefined;
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // INPUT
+  // ─────────────────────────────────────────────────────────
+
+  private handleKey(event: KeyboardEvent): void {
+    if (!this.textEntry) {
+      if (event.key === 'Escape') this.leave();
+      return;
+    }
+
+    const entry = this.textEntry;
+    if (event.key === 'Enter') {
+      const value = entry.value.trim();
+      this.textEntry = null;
+      if (value) entry.commit(value);
+    } else if (event.key === 'Escape') {
+      this.textEntry = null;
+    } else if (event.key === 'Backspace') {
+      entry.value = entry.value.slice(0, -1);
+    } else if (event.key.length === 1 && entry.value.length < MAX_NAME_LENGTH) {
+      entry.value += event.key;
+    } else {
+      return;
+    }
+    this.redraw();
+  }
+
+  private startTextEntry(target: TextEntry['target'], initial: string, commit: (value: string) => void): void {
+    this.textEntry = { target, value: initial, commit };
+    this.redraw();
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // ACTIONS
+  // ─────────────────────────────────────────────────────────
+
+  private newTeam(): void {
+    const count = this.editor.getTeams().length;
+    if (count >= MAX_CUSTOM_TEAMS) return;
+    const team = this.editor.createTeam(`Custom XV ${count + 1}`, PALETTE[count % PALETTE.length]);
+    this.selectedTeamId = team.id;
+    this.selectedPosition = 1;
+    this.startTextEntry('team', team.name, name => this.editor.updateTeam(team.id, name));
+  }
+
+  private recolourTeam(team: CustomTeam): void {
+    const idx = PALETTE.indexOf(team.color);
+    this.editor.updateTeam(team.id, undefined, PALETTE[(idx + 1) % PALETTE.length]);
+    this.redraw();
+  }
+
+  /** Two clicks: the first arms the button, the second deletes */
+  private deleteTeam(team: CustomTeam, armed: boolean): void {
+    if (!armed) {
+      this.confirmingDelete = true;
+      this.redraw();
+      return;
+    }
+    this.editor.deleteTeam(team.id);
+    this.selectedTeamId = this.editor.getTeams()[0]?.id ?? null;
+    this.selectedPosition = 1;
+    this.redraw();
+  }
+
+  private setStat(team: CustomTeam, key: CustomStatKey, value: number): void {
+    this.editor.updatePlayerStats(team.id, this.selectedPosition, { [key]: value });
+    this.redraw();
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // DRAWING
+  // ─────────────────────────────────────────────────────────
+
+  private redraw(): void {
+    for (const obj of this.dynamicObjects) obj.destroy();
+    this.dynamicObjects = [];
+
+    this.drawTeamList();
+
+    const team = this.selectedTeam();
+    if (!team) {
+      this.track(this.add.text(600, 240, 'Create a team to get started', {
+        fontSize: '14px', fontFamily: 'monospace', color: '#64748b',
+      }).setOrigin(0.5));
+      return;
+    }
+    this.drawSquad(team);
+    this.drawStats(team);
+  }
+
+  private drawTeamList(): void {
+    const teams = this.editor.getTeams();
+    const editingTeam = this.textEntry?.target === 'team';
+
+    teams.forEach((team, i) => {
+      const y = 84 + i * 24;
+      const selected = team.id === this.selectedTeamId;
+      const name = selected && editingTeam ? `${this.textEntry!.value}_` : team.name;
+
+      this.track(this.add.rectangle(28, y, 12, 12, team.color).setStrokeStyle(1, 0x94a3b8));
+      const row = this.track(this.add.text(42, y, name, {
+        fontSize: '12px', fontFamily: 'monospace', color: selected ? '#fbbf24' : '#e2e8f0',
+      }).setOrigin(0, 0.5).setInteractive());
+      row.on('pointerdown', () => {
+        if (this.textEntry) return;
+        this.selectedTeamId = team.id;
+        this.selectedPosition = 1;
+        this.confirmingDelete = false;
+        this.redraw();
+      });
+    });
+
+    if (teams.length < MAX_CUSTOM_TEAMS) {
+      this.addButton(20, 84 + MAX_CUSTOM_TEAMS * 24, '+ NEW TEAM', () => this.newTeam(), '#4ade80');
+    }
+
+    const team = this.selectedTeam();
+    if (!team) return;
+    const y = 84 + MAX_CUSTOM_TEAMS * 24 + 36;
+    const armed = this.confirmingDelete;
+    this.addButton(20, y, '✎ RENAME', () => {
+      this.startTextEntry('team', team.name, name => this.editor.updateTeam(team.id, name));
+    });
+    this.addButton(20, y + 26, '◐ COLOUR', () => this.recolourTeam(team));
+    this.addButton(20, y + 52, armed ? '✖ CONFIRM DELETE?' : '✖ DELETE',
+      () => this.deleteTeam(team, armed), '#ef4444');
+  }
+
+  private drawSquad(team: CustomTeam): void {
+    const editingPlayer = this.textEntry?.target === 'player';
+
+    for (const [i, player] of team.players.entries()) {
+      const y = 84 + i * 22;
+      const selected = player.position === this.selectedPosition;
+      const name = selected && editingPlayer ? `${this.textEntry!.value}_` : player.name;
+      const row = this.track(this.add.text(280, y, `${String(player.position).padStart(2, ' ')}  ${name}`, {
+        fontSize: '12px', fontFamily: 'monospace', color: selected ? '#fbbf24' : '#e2e8f0',
+      }).setOrigin(0, 0.5).setInteractive());
+      row.on('pointerdown', () => {
+        if (this.textEntry) return;
+        this.selectedPosition = player.position;
+        this.redraw();
+      });
+    }
+
+    const player = team.players.find(p => p.position === this.selectedPosition);
+    if (!player) return;
+    this.addButton(280, 84 + 15 * 22 + 14, '✎ RENAME PLAYER', () => {
+      this.startTextEntry('player', player.name, name => this.editor.updatePlayerName(team.id, player.position, name));
+    });
+  }
+
+  private drawStats(team: CustomTeam): void {
+    const player = team.players.find(p => p.position === this.selectedPosition);
+    if (!player) return;
+
+    this.track(this.add.text(560, 56, `#${player.position} ${player.name}`.toUpperCase(), {
+      fontSize: '12px', fontFamily: 'monospace', color: '#fbbf24',
+    }));
+
+    for (const [i, { key, label }] of STAT_ROWS.entries()) {
+      const y = 100 + i * 36;
+      const value = player.stats[key];
+
+      this.track(this.add.text(560, y, label, {
+        fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
+      }).setOrigin(0, 0.5));
+
+      this.addButton(660, y, '−', () => this.setStat(team, key, value - STAT_STEP)).setOrigin(0.5);
+
+      // Slider: click anywhere on the track to set the value
+      const track = this.track(this.add.rectangle(680, y, BAR_WIDTH, 10, 0x1e293b)
+        .setOrigin(0, 0.5).setInteractive());
+      track.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+        const ratio = Phaser.Math.Clamp((pointer.x - 680) / BAR_WIDTH, 0, 1);
+        this.setStat(team, key, STAT_MIN + ratio * (STAT_MAX - STAT_MIN));
+      });
+      const fill = (value - STAT_MIN) / (STAT_MAX - STAT_MIN);
+      const color = value >= 85 ? 0x22c55e : value >= 60 ? 0xeab308 : 0xef4444;
+      this.track(this.add.rectangle(680, y, BAR_WIDTH * fill, 10, color).setOrigin(0, 0.5));
+
+      this.addButton(880, y, '+', () => this.setStat(team, key, value + STAT_STEP)).setOrigin(0.5);
+      this.track(this.add.text(900, y, String(value), {
+        fontSize: '12px', fontFamily: 'monospace', color: '#f8fafc',
+      }).setOrigin(0, 0.5));
+    }
+
+    const total = this.editor.getStatTotal(team.id);
+    const remaining = this.editor.getBudgetRemaining(team.id);
+    this.track(this.add.text(560, 400, `BUDGET  ${total} / ${TEAM_STAT_BUDGET}   (${remaining} left)`, {
+      fontSize: '12px', fontFamily: 'monospace', color: remaining > 0 ? '#4ade80' : '#ef4444',
+    }));
+    this.track(this.add.text(560, 420, 'Lower a stat to free points for another', {
+      fontSize: '9px', fontFamily: 'monospace', color: '#64748b',
+    }));
+  }
+
+  private addButton(x: number, y: number, label: string, action: () => void, color = '#94a3b8'): Phaser.GameObjects.Text {
+    const btn = this.track(this.add.text(x, y, label, {
+      fontSize: '12px', fontFamily: 'monospace', color,
+    }).setOrigin(0, 0.5).setInteractive());
+    btn.on('pointerover', () => btn.setColor('#ffffff'));
+    btn.on('pointerout', () => btn.setColor(color));
+    btn.on('pointerdown', () => {
+      if (this.textEntry) return;
+      this.confirmingDelete = false; // Any other click disarms delete
+      action();
+    });
+    return btn;
+  }
+
+  private track<T extends Phaser.GameObjects.GameObject>(obj: T): T {
+    this.dynamicObjects.push(obj);
+    return obj;
+  }
+}
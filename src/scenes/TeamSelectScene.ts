@@ -1,27 +1,48 @@
 /**
- * TeamSelectScene — pre-match team and difficulty selection.
+ * TeamSelectScene — pre-match team, difficulty and weather selection.
  */
 
 import Phaser from 'phaser';
+import { WeatherSystem, WEATHER_TYPES } from '../systems/WeatherSystem';
+import type { WeatherChoice, WeatherForecast } from '../systems/WeatherSystem';
+import { SeededRandom } from '../utils/Random';
+import { TeamEditor } from '../systems/TeamEditor';
+import type { TeamStats } from '../entities/Team';
+import { NATIONS } from '../utils/Constants';
+
+/** A selectable side: built-in nation or custom team (only custom teams carry a squad) */
+interface TeamOption extends TeamStats {
+  name: string;
+}
+
+const TEAMS: TeamOption[] = [...NATIONS];
+
+const WEATHER_CHOICES: WeatherChoice[] = ['random', ...WEATHER_TYPES];
 
-const TEAMS = [
-  { name: 'All Blacks', color: 0x1a1a2e },
-  { name: 'Springboks', color: 0x2d6a2d },
-  { name: 'Wallabies', color: 0xd4a017 },
-  { name: 'England', color: 0xffffff },
-  { name: 'France', color: 0x2563eb },
-  { name: 'Ireland', color: 0x22c55e },
-  { name: 'Wales', color: 0xdc2626 },
-  { name: 'Scotland', color: 0x1e3a5f },
-];
+const WEATHER_LABELS: Record<WeatherChoice, string> = {
+  random: 'RANDOM',
+  clear: 'CLEAR',
+  rain: 'RAIN',
+  wind: 'WIND',
+  rain_and_wind: 'RAIN + WIND',
+};
 
 export class TeamSelectScene extends Phaser.Scene {
+  private teams: TeamOption[] = TEAMS;
   private homeIndex = 0;
   private awayIndex = 1;
   private difficulty: 'EASY' | 'MEDIUM' | 'HARD' = 'MEDIUM';
+  private weatherIndex = 0;
+  /** Seeds the forecast preview so flicking through choices stays stable */
+  private forecastSeed = 0;
+  private forecast!: WeatherForecast;
   private homeText!: Phaser.GameObjects.Text;
   private awayText!: Phaser.GameObjects.Text;
+  private homeProfileText!: Phaser.GameObjects.Text;
+  private awayProfileText!: Phaser.GameObjects.Text;
   private diffText!: Phaser.GameObjects.Text;
+  private weatherText!: Phaser.GameObjects.Text;
+  private forecastText!: Phaser.GameObjects.Text;
   private homePreview!: Phaser.GameObjects.Arc;
   private awayPreview!: Phaser.GameObjects.Arc;
 
@@ -32,6 +53,12 @@ export class TeamSelectScene extends Phaser.Scene {
   create(): void {
     const { width, height } = this.cameras.main;
 
+    // Built-in nations followed by custom teams from the editor
+    const custom = new TeamEditor().getTeams().map(t => ({ name: t.name, ...TeamEditor.toTeamStats(t) }));
+    this.teams = [...TEAMS, ...custom];
+    if (this.homeIndex >= this.teams.length) this.homeIndex = 0;
+    if (this.awayIndex >= this.teams.length) this.awayIndex = 1;
+
     this.add.rectangle(width / 2, height / 2, width, height, 0x0f172a);
 
     this.add.text(width / 2, 30, 'TEAM SELECT', {
@@ -40,34 +67,40 @@ export class TeamSelectScene extends Phaser.Scene {
 
     // Home team
     this.add.text(width / 4, 80, 'HOME', { fontSize: '14px', fontFamily: 'monospace', color: '#3b82f6' }).setOrigin(0.5);
-    this.homePreview = this.add.circle(width / 4, 130, 20, TEAMS[this.homeIndex].color);
-    this.homeText = this.add.text(width / 4, 170, TEAMS[this.homeIndex].name, {
+    this.homePreview = this.add.circle(width / 4, 130, 20, this.teams[this.homeIndex].color);
+    this.homeText = this.add.text(width / 4, 170, this.teamLabel(this.homeIndex), {
       fontSize: '14px', fontFamily: 'monospace', color: '#ffffff',
     }).setOrigin(0.5);
+    this.homeProfileText = this.add.text(width / 4, 192, this.profileLabel(this.homeIndex), {
+      fontSize: '10px', fontFamily: 'monospace', color: '#94a3b8',
+    }).setOrigin(0.5);
 
     // Navigation buttons for home
     this.createNavButton(width / 4 - 80, 130, '◀', () => {
-      this.homeIndex = (this.homeIndex - 1 + TEAMS.length) % TEAMS.length;
+      this.homeIndex = (this.homeIndex - 1 + this.teams.length) % this.teams.length;
       this.updateDisplay();
     });
     this.createNavButton(width / 4 + 80, 130, '▶', () => {
-      this.homeIndex = (this.homeIndex + 1) % TEAMS.length;
+      this.homeIndex = (this.homeIndex + 1) % this.teams.length;
       this.updateDisplay();
     });
 
     // Away team
     this.add.text(3 * width / 4, 80, 'AWAY', { fontSize: '14px', fontFamily: 'monospace', color: '#ef4444' }).setOrigin(0.5);
-    this.awayPreview = this.add.circle(3 * width / 4, 130, 20, TEAMS[this.awayIndex].color);
-    this.awayText = this.add.text(3 * width / 4, 170, TEAMS[this.awayIndex].name, {
+    this.awayPreview = this.add.circle(3 * width / 4, 130, 20, this.teams[this.awayIndex].color);
+    this.awayText = this.add.text(3 * width / 4, 170, this.teamLabel(this.awayIndex), {
       fontSize: '14px', fontFamily: 'monospace', color: '#ffffff',
     }).setOrigin(0.5);
+    this.awayProfileText = this.add.text(3 * width / 4, 192, this.profileLabel(this.awayIndex), {
+      fontSize: '10px', fontFamily: 'monospace', color: '#94a3b8',
+    }).setOrigin(0.5);
 
     this.createNavButton(3 * width / 4 - 80, 130, '◀', () => {
-      this.awayIndex = (this.awayIndex - 1 + TEAMS.length) % TEAMS.length;
+      this.awayIndex = (this.awayIndex - 1 + this.teams.length) % this.teams.length;
       this.updateDisplay();
     });
     this.createNavButton(3 * width / 4 + 80, 130, '▶', () => {
-      this.awayIndex = (this.awayIndex + 1) % TEAMS.length;
+      this.awayIndex = (this.awayIndex + 1) % this.teams.length;
       this.updateDisplay();
     });
 
@@ -98,6 +131,31 @@ export class TeamSelectScene extends Phaser.Scene {
       this.diffText.setText(this.difficulty);
     });
 
+    // Weather
+    this.add.text(width / 2, 310, 'WEATHER', {
+      fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8',
+    }).setOrigin(0.5);
+
+    this.weatherText = this.add.text(width / 2, 338, '', {
+      fontSize: '14px', fontFamily: 'monospace', color: '#38bdf8',
+    }).setOrigin(0.5);
+
+    this.forecastText = this.add.text(width / 2, 362, '', {
+      fontSize: '10px', fontFamily: 'monospace', color: '#94a3b8', align: 'center',
+    }).setOrigin(0.5, 0);
+
+    this.createNavButton(width / 2 - 90, 338, '◀', () => {
+      this.weatherIndex = (this.weatherIndex - 1 + WEATHER_CHOICES.length) % WEATHER_CHOICES.length;
+      this.updateWeather();
+    });
+    this.createNavButton(width / 2 + 90, 338, '▶', () => {
+      this.weatherIndex = (this.weatherIndex + 1) % WEATHER_CHOICES.length;
+      this.updateWeather();
+    });
+
+    this.forecastSeed = SeededRandom.generateSeed();
+    this.updateWeather();
+
     // Start Match button
     const startBtn = this.add.text(width / 2, height - 60, '▶ START MATCH', {
       fontSize: '18px', fontFamily: 'monospace', color: '#0f172a',
@@ -108,9 +166,11 @@ export class TeamSelectScene extends Phaser.Scene {
     startBtn.on('pointerout', () => startBtn.setStyle({ backgroundColor: '#4ade80' }));
     startBtn.on('pointerdown', () => {
       this.scene.start('MatchScene', {
-        homeTeam: TEAMS[this.homeIndex],
-        awayTeam: TEAMS[this.awayIndex],
+        homeTeam: this.teams[this.homeIndex],
+        awayTeam: this.teams[this.awayIndex],
         difficulty: this.difficulty,
+        weather: WEATHER_CHOICES[this.weatherIndex],
+        forecast: this.forecast,
       });
     });
 
@@ -119,6 +179,14 @@ export class TeamSelectScene extends Phaser.Scene {
       fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
     }).setInteractive();
     backBtn.on('pointerdown', () => this.scene.start('MenuScene'));
+
+    // Custom team editor
+    const editBtn = this.add.text(width - 40, height - 30, '✎ Edit Teams', {
+      fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
+    }).setOrigin(1, 0).setInteractive();
+    editBtn.on('pointerover', () => editBtn.setColor('#ffffff'));
+    editBtn.on('pointerout', () => editBtn.setColor('#94a3b8'));
+    editBtn.on('pointerdown', () => this.scene.start('TeamEditorScene'));
   }
 
   private createNavButton(x: number, y: number, label: string, action: () => void): void {
@@ -130,10 +198,32 @@ export class TeamSelectScene extends Phaser.Scene {
     btn.on('pointerdown', action);
   }
 
+  /** Show the selected weather and roll its forecast */
+  private updateWeather(): void {
+    const choice = WEATHER_CHOICES[this.weatherIndex];
+    this.forecast = WeatherSystem.generateForecast(choice, new SeededRandom(this.forecastSeed));
+    this.weatherText.setText(WEATHER_LABELS[choice]);
+    this.forecastText.setText(WeatherSystem.describeForecast(this.forecast).join('\n'));
+  }
+
+  /** Team name, marked when it comes from the editor */
+  private teamLabel(index: number): string {
+    const team = this.teams[index];
+    return team.squad ? `✎ ${team.name}` : team.name;
+  }
+
+  /** Squad profile summary, e.g. "PACK 92  PACE 76  HANDS 74  BOOT 84" */
+  private profileLabel(index: number): string {
+    const t = this.teams[index];
+    return `PACK ${t.strength}  PACE ${t.speed}  HANDS ${t.handling}  BOOT ${t.kicking}`;
+  }
+
   private updateDisplay(): void {
-    this.homeText.setText(TEAMS[this.homeIndex].name);
-    this.homePreview.setFillStyle(TEAMS[this.homeIndex].color);
-    this.awayText.setText(TEAMS[this.awayIndex].name);
-    this.awayPreview.setFillStyle(TEAMS[this.awayIndex].color);
+    this.homeText.setText(this.teamLabel(this.homeIndex));
+    this.homeProfileText.setText(this.profileLabel(this.homeIndex));
+    this.homePreview.setFillStyle(this.teams[this.homeIndex].color);
+    this.awayText.setText(this.teamLabel(this.awayIndex));
+    this.awayProfileText.setText(this.profileLabel(this.awayIndex));
+    this.awayPreview.setFillStyle(this.teams[this.awayIndex].color);
   }
 }
@@ -0,0 +1,388 @@
+/**
+ * TournamentScene — tournament hub driving TournamentSystem.
+ *
+ * Setup: pick a format (knockout / league), the number of teams and the
+ *        side you play as. The rest of the field is drawn from the nations.
+ * Hub:   bracket or league table plus fixtures. Fixtures you aren't in are
+ *        simulated off-screen with SimulationEngine, one per frame, so the
+ *        whole competition can be completed. Your own fixtures launch
+ *        MatchScene; ResultScene records the result and returns here.
+ *
+ * The tournament is saved after every result, so it survives a reload.
+ */
+
+import Phaser from 'phaser';
+import { TournamentSystem } from '../systems/TournamentSystem';
+import type { TournamentFormat, TournamentMatch, TryBonusRule } from '../systems/TournamentSystem';
+import { SimulationEngine } from '../systems/SimulationEngine';
+import { TeamEditor } from '../systems/TeamEditor';
+import type { TeamStats } from '../entities/Team';
+import { NATIONS } from '../utils/Constants';
+import { SeededRandom } from '../utils/Random';
+
+/** A side that can be entered: built-in nation or custom team */
+interface TeamOption extends TeamStats {
+  name: string;
+}
+
+const FIELD_SIZES = [4, 8];
+const FORMAT_LABELS: Record<TournamentFormat, string> = { knockout: 'KNOCKOUT', league: 'LEAGUE' };
+const TRY_BONUS_LABELS: Record<TryBonusRule, string> = { four_tries: '4 TRIES', three_more: '3 TRIES MORE' };
+const ROUND_NAMES = ['FINAL', 'SEMI-FINALS', 'QUARTER-FINALS'];
+
+/** Profile for a team whose custom squad has since been deleted */
+const FALLBACK_STATS: Omit<TeamStats, 'color'> = { rating: 75, strength: 75, speed: 75, kicking: 75, handling: 75 };
+
+/** Pause between simulated fixtures so the table visibly updates (ms) */
+const SIM_STEP_DELAY = 60;
+
+export class TournamentScene extends Phaser.Scene {
+  private tournament!: TournamentSystem;
+  private inProgress = false;
+  private simulating = false;
+  private confirmingAbandon = false;
+  private teams: TeamOption[] = [];
+
+  // Setup choices
+  private format: TournamentFormat = 'knockout';
+  private fieldSize = 8;
+  private teamIndex = 0;
+  private tryBonus: TryBonusRule = 'four_tries';
+
+  /** Everything rebuilt by redraw() */
+  private dynamicObjects: Phaser.GameObjects.GameObject[] = [];
+
+  constructor() {
+    super({ key: 'TournamentScene' });
+  }
+
+  create(): void {
+    const { width, height } = this.cameras.main;
+    const custom = new TeamEditor().getTeams().map(t => ({ name: t.name, ...TeamEditor.toTeamStats(t) }));
+    this.teams = [...NATIONS, ...custom];
+    if (this.teamIndex >= this.teams.length) this.teamIndex = 0;
+
+    this.tournament = new TournamentSystem();
+    this.inProgress = this.tournament.load();
+    this.simulating = false;
+    this.confirmingAbandon = false;
+    this.dynamicObjects = [];
+
+    this.add.rectangle(width / 2, height / 2, width, height, 0x0f172a);
+    this.add.text(width / 2, 24, 'TOURNAMENT', {
+      fontSize: '22px', fontFamily: 'monospace', color: '#f8fafc',
+    }).setOrigin(0.5);
+
+    const backBtn = this.add.text(40, height - 30, '◀ Menu', {
+      fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
+    }).setInteractive();
+    backBtn.on('pointerdown', () => this.scene.start('MenuScene'));
+    this.input.keyboard?.on('keydown-ESC', () => this.scene.start('MenuScene'));
+
+    this.simulatePendingFixtures();
+    this.cameras.main.fadeIn(300, 0, 0, 0);
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // ACTIONS
+  // ─────────────────────────────────────────────────────────
+
+  /** User's team plus nations drawn in a random order */
+  private startTournament(): void {
+    const user = this.teams[this.teamIndex];
+    const rng = new SeededRandom();
+    const field = [user, ...NATIONS.filter(n => n.name !== user.name).slice(0, this.fieldSize - 1)];
+    for (let i = field.length - 1; i > 0; i--) {
+      const j = rng.int(0, i);
+      [field[i], field[j]] = [field[j], field[i]];
+    }
+
+    const entrants = field.map(t => ({ name: t.name, color: t.color }));
+    this.tournament = new TournamentSystem({ tryBonus: this.tryBonus });
+    if (this.format === 'knockout') {
+      this.tournament.initKnockout(entrants);
+    } else {
+      this.tournament.initLeague(entrants);
+    }
+    this.tournament.setUserTeam(user.name);
+    this.tournament.save();
+    this.inProgress = true;
+    this.simulatePendingFixtures();
+  }
+
+  /** Two clicks: the first arms the button, the second abandons */
+  private abandon(armed: boolean): void {
+    if (!armed) {
+      this.confirmingAbandon = true;
+      this.redraw();
+      return;
+    }
+    this.tournament.clear();
+    this.tournament = new TournamentSystem();
+    this.inProgress = false;
+    this.simulating = false;
+    this.redraw();
+  }
+
+  /** Simulate fixtures one per frame until it's the user's turn or the tournament ends */
+  private simulatePendingFixtures(): void {
+    const next = this.tournament.getNextMatch();
+    this.simulating = this.inProgress && next !== null && !this.tournament.isUserMatch(next);
+    this.redraw();
+    if (!this.simulating || !next) return;
+
+    // Let the table render before the next match blocks the frame
+    this.time.delayedCall(SIM_STEP_DELAY, () => {
+      const result = new SimulationEngine({
+        homeStats: this.teamData(next.home),
+        awayStats: this.teamData(next.away),
+      }).run();
+      this.tournament.recordResult(
+        next.home, next.away, result.score.home, result.score.away, result.tries.home, result.tries.away,
+      );
+      this.tournament.save();
+      this.simulatePendingFixtures();
+    });
+  }
+
+  /** Launch MatchScene with the user always in control of the home side */
+  private playNextMatch(match: TournamentMatch): void {
+    const user = this.tournament.getUserTeam() ?? match.home;
+    const opponent = match.home === user ? match.away : match.home;
+    this.scene.start('MatchScene', {
+      homeTeam: this.teamData(user),
+      awayTeam: this.teamData(opponent),
+      weather: 'random',
+      tournament: true,
+    });
+  }
+
+  private teamData(name: string): TeamOption {
+    const team = this.teams.find(t => t.name === name);
+    if (team) return team;
+    const entrant = this.tournament.getTeams().find(t => t.name === name);
+    return { name, color: entrant?.color ?? 0xffffff, ...FALLBACK_STATS };
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // DRAWING
+  // ─────────────────────────────────────────────────────────
+
+  private redraw(): void {
+    for (const obj of this.dynamicObjects) obj.destroy();
+    this.dynamicObjects = [];
+
+    if (!this.inProgress) {
+      this.drawSetup();
+      return;
+    }
+
+    if (this.tournament.getFormat() === 'knockout') {
+      this.drawBracket();
+    } else {
+      this.drawLeagueTable();
+      this.drawFixtures();
+    }
+    this.drawStatus();
+  }
+
+  private drawSetup(): void {
+    const { width } = this.cameras.main;
+    const team = this.teams[this.teamIndex];
+
+    const rows: Array<{ label: string; value: string; step: (dir: 1 | -1) => void }> = [
+      {
+        label: 'FORMAT', value: FORMAT_LABELS[this.format],
+        step: () => { this.format = this.format === 'knockout' ? 'league' : 'knockout'; },
+      },
+      {
+        label: 'TEAMS', value: String(this.fieldSize),
+        step: (dir) => {
+          const idx = FIELD_SIZES.indexOf(this.fieldSize);
+          this.fieldSize = FIELD_SIZES[(idx + dir + FIELD_SIZES.length) % FIELD_SIZES.length];
+        },
+      },
+      {
+        label: 'TRY BONUS', value: TRY_BONUS_LABELS[this.tryBonus],
+        step: () => { this.tryBonus = this.tryBonus === 'four_tries' ? 'three_more' : 'four_tries'; },
+      },
+      {
+        label: 'YOUR TEAM', value: team.squad ? `✎ ${team.name}` : team.name,
+        step: (dir) => { this.teamIndex = (this.teamIndex + dir + this.teams.length) % this.teams.length; },
+      },
+    ];
+
+    rows.forEach(({ label, value, step }, i) => {
+      const y = 96 + i * 62;
+      this.track(this.add.text(width / 2, y, label, {
+        fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8',
+      }).setOrigin(0.5));
+      this.track(this.add.text(width / 2, y + 28, value, {
+        fontSize: '16px', fontFamily: 'monospace', color: '#eab308',
+      }).setOrigin(0.5));
+      this.addButton(width / 2 - 130, y + 28, '◀', () => { step(-1); this.redraw(); }).setOrigin(0.5);
+      this.addButton(width / 2 + 130, y + 28, '▶', () => { step(1); this.redraw(); }).setOrigin(0.5);
+    });
+
+    this.track(this.add.circle(width / 2 - 100, 96 + 3 * 62 + 28, 8, team.color).setStrokeStyle(1, 0x94a3b8));
+
+    const summary = this.format === 'knockout'
+      ? `${Math.log2(this.fieldSize)} rounds — lose once and you're out`
+      : `${this.fieldSize - 1} matches each — 4 pts a win, 2 a draw, bonus points`;
+    this.track(this.add.text(width / 2, 350, summary, {
+      fontSize: '10px', fontFamily: 'monospace', color: '#64748b',
+    }).setOrigin(0.5));
+
+    const start = this.track(this.add.text(width / 2, 410, '▶ START TOURNAMENT', {
+      fontSize: '16px', fontFamily: 'monospace', color: '#0f172a',
+      backgroundColor: '#4ade80', padding: { x: 20, y: 8 },
+    }).setOrigin(0.5).setInteractive());
+    start.on('pointerover', () => start.setStyle({ backgroundColor: '#22c55e' }));
+    start.on('pointerout', () => start.setStyle({ backgroundColor: '#4ade80' }));
+    start.on('pointerdown', () => this.startTournament());
+  }
+
+  /** One column per round; later rounds show TBD until drawn */
+  private drawBracket(): void {
+    const matches = this.tournament.getMatches();
+    const firstRound = matches.filter(m => m.round === 1).length;
+    const rounds = Math.max(1, Math.round(Math.log2(firstRound * 2)));
+    const colWidth = 900 / rounds;
+    const user = this.tournament.getUserTeam();
+
+    for (let round = 1; round <= rounds; round++) {
+      const x = 30 + (round - 1) * colWidth;
+      const count = firstRound / 2 ** (round - 1);
+      const slot = 330 / count;
+      const inRound = matches.filter(m => m.round === round);
+
+      this.track(this.add.text(x, 64, ROUND_NAMES[rounds - round] ?? `ROUND ${round}`, {
+        fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
+      }));
+
+      for (let i = 0; i < count; i++) {
+        const y = 90 + slot * i + slot / 2 - 18;
+        const match = inRound[i];
+        this.track(this.add.rectangle(x, y, colWidth - 40, 36, 0x1e293b).setOrigin(0, 0));
+        if (!match) {
+          this.track(this.add.text(x + 8, y + 18, 'TBD', {
+            fontSize: '11px', fontFamily: 'monospace', color: '#475569',
+          }).setOrigin(0, 0.5));
+          continue;
+        }
+        const homeWon = match.played && match.homeScore >= match.awayScore;
+        const lines: Array<[string, number, boolean]> = [
+          [match.home, match.homeScore, homeWon],
+          [match.away, match.awayScore, match.played && !homeWon],
+        ];
+        lines.forEach(([name, score, won], j) => {
+          const color = name === user ? '#fbbf24' : match.played && !won ? '#64748b' : '#e2e8f0';
+          this.track(this.add.text(x + 8, y + 9 + j * 18, name, {
+            fontSize: '11px', fontFamily: 'monospace', color,
+          }).setOrigin(0, 0.5));
+          if (match.played) {
+            this.track(this.add.text(x + colWidth - 48, y + 9 + j * 18, String(score), {
+              fontSize: '11px', fontFamily: 'monospace', color,
+            }).setOrigin(1, 0.5));
+          }
+        });
+      }
+    }
+  }
+
+  private drawLeagueTable(): void {
+    const user = this.tournament.getUserTeam();
+    const header = `${'#'.padEnd(3)}${'TEAM'.padEnd(14)}  P  W  D  L   PD  TF  BP  PTS`;
+    this.track(this.add.text(30, 64, header, {
+      fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
+    }));
+
+    this.tournament.getLeagueTable().forEach((t, i) => {
+      const played = t.wins + t.draws + t.losses;
+      const diff = t.pointsFor - t.pointsAgainst;
+      const line = `${String(i + 1).padEnd(3)}${t.name.slice(0, 14).padEnd(14)}`
+        + `${String(played).padStart(3)}${String(t.wins).padStart(3)}${String(t.draws).padStart(3)}`
+        + `${String(t.losses).padStart(3)}${(diff > 0 ? `+${diff}` : String(diff)).padStart(5)}`
+        + `${String(t.triesFor).padStart(4)}${String(t.bonusPoints).padStart(4)}${String(this.tournament.getLeaguePoints(t)).padStart(5)}`;
+      this.track(this.add.text(30, 90 + i * 22, line, {
+        fontSize: '11px', fontFamily: 'monospace', color: t.name === user ? '#fbbf24' : '#e2e8f0',
+      }));
+    });
+  }
+
+  /** A window of fixtures around the next one to be played */
+  private drawFixtures(): void {
+    const matches = this.tournament.getMatches();
+    const nextIdx = matches.findIndex(m => !m.played);
+    const from = Math.max(0, Math.min((nextIdx === -1 ? matches.length : nextIdx) - 4, matches.length - 14));
+
+    this.track(this.add.text(560, 64, 'FIXTURES', {
+      fontSize: '11px', fontFamily: 'monospace', color: '#94a3b8',
+    }));
+    matches.slice(from, from + 14).forEach((m, i) => {
+      const score = m.played ? `${m.homeScore}–${m.awayScore}` : 'v';
+      const isNext = from + i === nextIdx;
+      const color = isNext ? '#4ade80' : this.tournament.isUserMatch(m) ? '#fbbf24' : m.played ? '#94a3b8' : '#e2e8f0';
+      this.track(this.add.text(560, 90 + i * 22, `${isNext ? '▶' : ' '} ${m.home.padStart(14)} ${score.padStart(5)} ${m.away}`, {
+        fontSize: '11px', fontFamily: 'monospace', color,
+      }));
+    });
+  }
+
+  /** Next fixture / champion, plus play and abandon buttons */
+  private drawStatus(): void {
+    const { width, height } = this.cameras.main;
+    const next = this.tournament.getNextMatch();
+
+    if (this.tournament.isTournamentComplete()) {
+      const champion = this.tournament.getFormat() === 'knockout'
+        ? this.tournament.getWinner()
+        : this.tournament.getLeagueTable()[0]?.name;
+      const won = champion === this.tournament.getUserTeam();
+      this.track(this.add.text(width / 2, 450, `🏆 CHAMPIONS: ${champion ?? '—'}`, {
+        fontSize: '18px', fontFamily: 'monospace', color: won ? '#4ade80' : '#eab308',
+      }).setOrigin(0.5));
+    } else if (this.simulating) {
+      this.track(this.add.text(width / 2, 450, 'Simulating other fixtures…', {
+        fontSize: '12px', fontFamily: 'monospace', color: '#94a3b8',
+      }).setOrigin(0.5));
+    } else if (next) {
+      this.track(this.add.text(width / 2, 430, `NEXT: ${next.home} v ${next.away}`, {
+        fontSize: '12px', fontFamily: 'monospace', color: '#e2e8f0',
+      }).setOrigin(0.5));
+      const play = this.track(this.add.text(width / 2, 466, '▶ PLAY MATCH', {
+        fontSize: '16px', fontFamily: 'monospace', color: '#0f172a',
+        backgroundColor: '#4ade80', padding: { x: 20, y: 8 },
+      }).setOrigin(0.5).setInteractive());
+      play.on('pointerover', () => play.setStyle({ backgroundColor: '#22c55e' }));
+      play.on('pointerout', () => play.setStyle({ backgroundColor: '#4ade80' }));
+      play.on('pointerdown', () => this.playNextMatch(next));
+    }
+
+    const armed = this.confirmingAbandon;
+    const label = this.tournament.isTournamentComplete() ? '✚ NEW TOURNAMENT' : armed ? '✖ CONFIRM ABANDON?' : '✖ ABANDON';
+    this.addButton(width - 200, height - 24, label, () => {
+      if (this.tournament.isTournamentComplete()) this.abandon(true);
+      else this.abandon(armed);
+    }, '#ef4444');
+  }
+
+  private addButton(x: number, y: number, label: string, action: () => void, color = '#94a3b8'): Phaser.GameObjects.Text {
+    const btn = this.track(this.add.text(x, y, label, {
+      fontSize: '12px', fontFamily: 'monospace', color,
+    }).setOrigin(0, 0.5).setInteractive());
+    btn.on('pointerover', () => btn.setColor('#ffffff'));
+    btn.on('pointerout', () => btn.setColor(color));
+    btn.on('pointerdown', () => {
+      if (this.simulating) return;
+      this.confirmingAbandon = false; // Any other click disarms abandon
+      action();
+    });
+    return btn;
+  }
+
+  private track<T extends Phaser.GameObjects.GameObject>(obj: T): T {
+    this.dynamicObjects.push(obj);
+    return obj;
+  }
+}
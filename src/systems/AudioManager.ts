@@ -8,6 +8,7 @@
 
 import Phaser from 'phaser';
 import { EventBus } from '../utils/EventBus';
+import type { GameEvents } from '../utils/EventBus';
 
 /** Audio identifiers for all game sounds. */
 export type SFXName =
@@ -32,6 +33,9 @@ export class AudioManager {
   private crowdHum: Phaser.Sound.BaseSound | null = null;
   private currentExcitement = 0.3; // 0 = quiet, 1 = roaring
 
+  /** EventBus unsubscribers, run in destroy() */
+  private busListeners: Array<() => void> = [];
+
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
     this.setupEventListeners();
@@ -202,36 +206,41 @@ export class AudioManager {
 
   // ── Event-Driven SFX ──────────────────────────────────
 
+  private listen<K extends keyof GameEvents>(event: K, callback: (data: GameEvents[K]) => void): void {
+    EventBus.on(event, callback);
+    this.busListeners.push(() => EventBus.off(event, callback));
+  }
+
   private setupEventListeners(): void {
-    EventBus.on('tackle', () => {
+    this.listen('tackle', () => {
       this.play('tackle_thud');
       this.setExcitement(Math.min(1, this.currentExcitement + 0.15));
     });
 
-    EventBus.on('score', () => {
+    this.listen('score', () => {
       this.play('crowd_roar');
       this.play('score_chime', 0.8);
       this.setExcitement(1.0);
     });
 
-    EventBus.on('penaltyAwarded', () => {
+    this.listen('penaltyAwarded', () => {
       this.play('whistle_short');
     });
 
-    EventBus.on('halfTime', () => {
+    this.listen('halfTime', () => {
       this.play('whistle_long');
     });
 
-    EventBus.on('fullTime', () => {
+    this.listen('fullTime', () => {
       this.play('whistle_long');
     });
 
-    EventBus.on('ruckBallAvailable', () => {
+    this.listen('ruckBallAvailable', () => {
       // Subtle whoosh as ball emerges
       this.play('pass_whoosh', 0.4);
     });
 
-    EventBus.on('playSelected', () => {
+    this.listen('playSelected', () => {
       this.play('ui_open', 0.5);
     });
   }
@@ -242,6 +251,8 @@ export class AudioManager {
   }
 
   destroy(): void {
+    for (const off of this.busListeners) off();
+    this.busListeners = [];
     this.crowdHum?.destroy();
   }
 }
@@ -8,9 +8,12 @@
 
 import { MATCH } from '../utils/Constants';
 import { EventBus } from '../utils/EventBus';
+import { RNG } from '../utils/Random';
 
 export class ClockSystem {
   private gameSeconds = 0;
+  /** Game time actually played, injury time included — carries over half-time */
+  private playedSeconds = 0;
   private half: 1 | 2 = 1;
   private paused = false;
   private injuryTimeSeconds = 0;
@@ -22,6 +25,11 @@ export class ClockSystem {
     return Math.floor(this.gameSeconds / 60);
   }
 
+  /** Game seconds played in the match so far — for timing that spans half-time */
+  getPlayedSeconds(): number {
+    return this.playedSeconds;
+  }
+
   /** Game seconds within current minute */
   getSeconds(): number {
     return Math.floor(this.gameSeconds % 60);
@@ -65,7 +73,9 @@ export class ClockSystem {
     if (this.paused || this.matchEnded) return;
 
     // Accelerate time
-    this.gameSeconds += (deltaMs / 1000) * MATCH.TIME_SCALE;
+    const elapsed = (deltaMs / 1000) * MATCH.TIME_SCALE;
+    this.gameSeconds += elapsed;
+    this.playedSeconds += elapsed;
 
     const minutes = this.getMinutes();
 
@@ -79,7 +89,7 @@ export class ClockSystem {
     // Half-time check
     if (this.half === 1 && minutes >= MATCH.HALF_DURATION) {
       if (!this.injuryTimeAdded) {
-        this.injuryTimeSeconds = (MATCH.INJURY_TIME_MIN + Math.random() * (MATCH.INJURY_TIME_MAX - MATCH.INJURY_TIME_MIN)) * 60;
+        this.injuryTimeSeconds = RNG.range(MATCH.INJURY_TIME_MIN, MATCH.INJURY_TIME_MAX) * 60;
         this.injuryTimeAdded = true;
       }
       if (this.gameSeconds >= (MATCH.HALF_DURATION * 60 + this.injuryTimeSeconds)) {
@@ -90,7 +100,7 @@ export class ClockSystem {
     // Full-time check
     if (this.half === 2 && minutes >= MATCH.HALF_DURATION * 2) {
       if (!this.injuryTimeAdded) {
-        this.injuryTimeSeconds = (MATCH.INJURY_TIME_MIN + Math.random() * (MATCH.INJURY_TIME_MAX - MATCH.INJURY_TIME_MIN)) * 60;
+        this.injuryTimeSeconds = RNG.range(MATCH.INJURY_TIME_MIN, MATCH.INJURY_TIME_MAX) * 60;
         this.injuryTimeAdded = true;
       }
       if (this.gameSeconds >= (MATCH.HALF_DURATION * 2 * 60 + this.injuryTimeSeconds)) {
@@ -121,6 +131,7 @@ export class ClockSystem {
 
   reset(): void {
     this.gameSeconds = 0;
+    this.playedSeconds = 0;
     this.half = 1;
     this.paused = false;
     this.injuryTimeSeconds = 0;
@@ -0,0 +1,231 @@
+/**
+ * DisciplineSystem — the referee's cards.
+ *
+ * Watches penaltyAwarded (and the tackle that caused a high-tackle penalty)
+ * on the EventBus and decides when a penalty also earns a card:
+ *   team warning — a side reaching TEAM_WARNING_PENALTIES; the next offender
+ *                  after a warning is sin-binned
+ *   yellow       — repeated cynical breakdown offences near their own line,
+ *                  a player's own repeat offending, any of the above, or
+ *                  conceding a penalty try (maulTry)
+ *   red          — a dangerous high tackle, or a second yellow
+ *
+ * A high tackle only counts towards the penalty that follows it: once
+ * advantage is gained or the whistle goes for anything, it lapses.
+ *
+ * Carded players come out of Team.players. A yellow is a sin bin of
+ * SIN_BIN_MINUTES of played game time (ClockSystem), after which they return.
+ *
+ * Usage:
+ *   const discipline = new DisciplineSystem(homeTeam, awayTeam, clock);
+ *   discipline.start();          // subscribe
+ *   discipline.update();         // every frame — brings sin-binned players back
+ *   discipline.getSummary();     // HalfTimeScene / ResultScene
+ *   discipline.destroy();        // unsubscribe
+ */
+
+import type { Team } from '../entities/Team';
+import type { Player } from '../entities/Player';
+import type { ClockSystem } from './ClockSystem';
+import { EventBus } from '../utils/EventBus';
+import type { GameEvents } from '../utils/EventBus';
+import { DISCIPLINE, PITCH } from '../utils/Constants';
+import type { PerSide } from './MatchStats';
+
+type Side = 'home' | 'away';
+
+export type CardType = 'yellow' | 'red';
+
+export interface CardRecord {
+  playerId: string;
+  name: string;
+  position: number;
+  team: Side;
+  card: CardType;
+  reason: string;
+  /** Match clock minute the card was shown */
+  minute: number;
+}
+
+/** A player serving time in the sin bin */
+export interface SinBinEntry {
+  player: Player;
+  team: Side;
+  /** Game seconds until they can return */
+  secondsLeft: number;
+}
+
+/** The cards HalfTimeScene and ResultScene display */
+export interface DisciplineSummary {
+  yellowCards: PerSide;
+  redCards: PerSide;
+  cards: CardRecord[];
+}
+
+/** Breakdown offences that kill the ball on purpose */
+const CYNICAL_OFFENCES = new Set([
+  'hands_in_ruck', 'not_releasing', 'offside_at_ruck', 'side_entry', 'off_feet', 'not_rolling_away', 'collapsing_maul',
+]);
+
+const other = (side: Side): Side => (side === 'home' ? 'away' : 'home');
+
+export class DisciplineSystem {
+  private teams: Record<Side, Team>;
+  private clock: ClockSystem;
+
+  private cards: CardRecord[] = [];
+  private sinBin: { player: Player; team: Side; returnAt: number }[] = [];
+  private penalties: PerSide = { home: 0, away: 0 };
+  private playerPenalties = new Map<string, number>();
+  private cynical: PerSide = { home: 0, away: 0 };
+  private warned: Record<Side, boolean> = { home: false, away: false };
+  /** High tackles waiting for their penalty, by tackler */
+  private highTackles = new Map<string, 'careless' | 'dangerous'>();
+
+  private onTackle = (data: GameEvents['tackle']) => {
+    if (data.high) this.highTackles.set(data.tacklerId, data.high);
+  };
+  private onAdvantageOver = (data: GameEvents['advantageOver']) => {
+    // Advantage gained wipes the infringements; called back, the penalty follows
+    if (data.outcome !== 'called_back') this.highTackles.clear();
+  };
+  private onMaulTry = (data: GameEvents['maulTry']) => {
+    const offender = data.penaltyTry ? this.findPlayer(data.playerId) : undefined;
+    if (!offender || !this.teams[offender.teamSide].players.includes(offender)) return;
+    const secondYellow = this.cards.some(c => c.playerId === offender.id && c.card === 'yellow');
+    this.showCard(offender, secondYellow ? 'red' : 'yellow', secondYellow ? 'Second yellow card' : 'Penalty try');
+  };
+  private onPenaltyAwarded = (data: GameEvents['penaltyAwarded']) => {
+    const offender = data.playerId ? this.findPlayer(data.playerId) : undefined;
+    const high = offender && this.highTackles.get(offender.id);
+    // The whistle ends the passage — any other high tackle in it has had its chance
+    this.highTackles.clear();
+    const side = offender?.teamSide ?? (data.team && other(data.team));
+    if (!side) return;
+
+    this.penalties[side]++;
+    const reasons: string[] = [];
+
+    if (data.reason === 'high_tackle' && offender && high === 'dangerous') {
+      this.showCard(offender, 'red', 'Dangerous high tackle');
+      return;
+    }
+
+    if (CYNICAL_OFFENCES.has(data.reason) && this.distanceFromOwnLine(side, data.x) <= DISCIPLINE.CYNICAL_ZONE) {
+      this.cynical[side]++;
+      if (this.cynical[side] >= DISCIPLINE.CYNICAL_REPEATS) reasons.push('Repeated cynical play near the line');
+    }
+
+    if (offender) {
+      const own = (this.playerPenalties.get(offender.id) ?? 0) + 1;
+      this.playerPenalties.set(offender.id, own);
+      if (own >= DISCIPLINE.PLAYER_REPEAT_PENALTIES) reasons.push('Repeated infringing');
+    }
+
+    if (this.warned[side]) {
+      reasons.push('Team warning ignored');
+    } else if (this.penalties[side] >= DISCIPLINE.TEAM_WARNING_PENALTIES) {
+      this.warned[side] = true;
+      EventBus.emit('teamWarning', { team: side, penalties: this.penalties[side] });
+    }
+
+    if (reasons.length === 0 || !offender || !this.teams[side].players.includes(offender)) return;
+
+    // The card resets whatever earned it
+    this.cynical[side] = 0;
+    this.warned[side] = false;
+    this.penalties[side] = 0;
+    this.playerPenalties.set(offender.id, 0);
+
+    const secondYellow = this.cards.some(c => c.playerId === offender.id && c.card === 'yellow');
+    this.showCard(offender, secondYellow ? 'red' : 'yellow', secondYellow ? 'Second yellow card' : reasons[0]);
+  };
+
+  constructor(homeTeam: Team, awayTeam: Team, clock: ClockSystem) {
+    this.teams = { home: homeTeam, away: awayTeam };
+    this.clock = clock;
+  }
+
+  /** Subscribe to match events */
+  start(): void {
+    EventBus.on('tackle', this.onTackle);
+    EventBus.on('advantageOver', this.onAdvantageOver);
+    EventBus.on('penaltyAwarded', this.onPenaltyAwarded);
+    EventBus.on('maulTry', this.onMaulTry);
+  }
+
+  /** Unsubscribe from the EventBus */
+  destroy(): void {
+    EventBus.off('tackle', this.onTackle);
+    EventBus.off('advantageOver', this.onAdvantageOver);
+    EventBus.off('penaltyAwarded', this.onPenaltyAwarded);
+    EventBus.off('maulTry', this.onMaulTry);
+  }
+
+  /** Bring back anyone whose sin bin has been served — call every frame */
+  update(): void {
+    const now = this.clock.getPlayedSeconds();
+    for (const entry of this.sinBin.filter(e => now >= e.returnAt)) {
+      this.sinBin.splice(this.sinBin.indexOf(entry), 1);
+      this.teams[entry.team].returnToPlay(entry.player);
+      EventBus.emit('sinBinReturn', { team: entry.team, playerId: entry.player.id });
+    }
+  }
+
+  getCards(): readonly CardRecord[] {
+    return this.cards;
+  }
+
+  getSinBin(): SinBinEntry[] {
+    const now = this.clock.getPlayedSeconds();
+    return this.sinBin.map(e => ({ player: e.player, team: e.team, secondsLeft: Math.max(0, e.returnAt - now) }));
+  }
+
+  /** Whether the side is on a team warning */
+  isWarned(side: Side): boolean {
+    return this.warned[side];
+  }
+
+  getSummary(): DisciplineSummary {
+    const count = (card: CardType): PerSide => ({
+      home: this.cards.filter(c => c.card === card && c.team === 'home').length,
+      away: this.cards.filter(c => c.card === card && c.team === 'away').length,
+    });
+    return { yellowCards: count('yellow'), redCards: count('red'), cards: [...this.cards] };
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // INTERNALS
+  // ─────────────────────────────────────────────────────────
+
+  private showCard(player: Player, card: CardType, reason: string): void {
+    const team = player.teamSide;
+    this.cards.push({
+      playerId: player.id,
+      name: player.name,
+      position: player.position,
+      team,
+      card,
+      reason,
+      minute: this.clock.getMinutes(),
+    });
+
+    this.teams[team].removeFromPlay(player);
+    const binned = this.sinBin.findIndex(e => e.player === player);
+    if (binned !== -1) this.sinBin.splice(binned, 1);
+    if (card === 'yellow') {
+      this.sinBin.push({ player, team, returnAt: this.clock.getPlayedSeconds() + DISCIPLINE.SIN_BIN_MINUTES * 60 });
+    }
+
+    EventBus.emit('card', { team, playerId: player.id, card, reason });
+  }
+
+  private findPlayer(id: string): Player | undefined {
+    return [...this.teams.home.getLineup(), ...this.teams.away.getLineup()].find(p => p.id === id);
+  }
+
+  /** How far x is from the try line the side defends (px) */
+  private distanceFromOwnLine(side: Side, x: number): number {
+    return side === 'home' ? x - PITCH.TRY_LINE_LEFT : PITCH.TRY_LINE_RIGHT - x;
+  }
+}
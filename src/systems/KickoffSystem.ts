@@ -1,17 +1,42 @@
 import { Ball } from '../entities/Ball';
 import { Player } from '../entities/Player';
 import { Team } from '../entities/Team';
-import { PITCH, GamePhase } from '../utils/Constants';
+import { PITCH, RESTART, GamePhase } from '../utils/Constants';
 import { EventBus } from '../utils/EventBus';
+import { RNG } from '../utils/Random';
+import { distance } from '../utils/MathHelpers';
+
+/** The kicked restarts KickoffSystem runs */
+export type RestartType = Extract<GamePhase, 'KICK_OFF' | 'DROP_OUT_22' | 'GOAL_LINE_DROP_OUT'>;
+
+/** What the receiving side takes when a restart doesn't go the distance */
+export type ShortRestartOption = 'scrum' | 'rekick';
+
+/** Whether the phase is a kicked restart, run by KickoffSystem */
+export function isRestartPhase(phase: GamePhase): phase is RestartType {
+  return phase === 'KICK_OFF' || phase === 'DROP_OUT_22' || phase === 'GOAL_LINE_DROP_OUT';
+}
+
+/**
+ * Restart for a ball made dead in an in-goal: a 22 m drop-out if the attack
+ * put it there, a goal-line drop-out if the defence made it dead.
+ * @param defending Side defending that in-goal — they take the drop-out
+ * @param lastPlayedBy Side that last had the ball in hand
+ */
+export function deadBallRestart(defending: 'home' | 'away', lastPlayedBy: 'home' | 'away' | null): RestartType {
+  return lastPlayedBy === defending ? 'GOAL_LINE_DROP_OUT' : 'DROP_OUT_22';
+}
 
 export class KickoffSystem {
   private phase: 'SETUP' | 'RUN_UP' | 'KICK' | 'FLIGHT' | 'COMPLETE' = 'SETUP';
   private kicker: Player | null = null;
   private ball: Ball;
   private kickingTeam: Team | null = null;
+  private receivingTeam: Team | null = null;
+  private type: RestartType = 'KICK_OFF';
   private kickOrigin: { x: number, y: number } = { x: 0, y: 0 };
   
-  // Logic to track 10m rule
+  // Logic to track 10m rule — or the line a drop-out has to clear
   private crossed10mLine = false;
 
   constructor(ball: Ball) {
@@ -22,23 +47,23 @@ export class KickoffSystem {
    * Initialize a kickoff
    * @param kickingTeam The team performing the kickoff
    * @param receivingTeam The receiving team
-   * @param type 'KICK_OFF' | '22_DROP_OUT'
+   * @param type Kick-off from halfway, 22 m drop-out or goal-line drop-out
    */
-  startKickoff(kickingTeam: Team, receivingTeam: Team, type: GamePhase): void {
+  startKickoff(kickingTeam: Team, receivingTeam: Team, type: RestartType = 'KICK_OFF'): void {
     this.kickingTeam = kickingTeam;
+    this.receivingTeam = receivingTeam;
+    this.type = type;
     this.phase = 'SETUP';
     this.crossed10mLine = false;
 
-    // Determine kick origin
-    // Home attacks Right -> Kickoff from Center (Width/2)
-    // Away attacks Left -> Kickoff from Center (Width/2)
-    // For 22 drop out, it would be the 22m line.
-    
-    let startX = PITCH.HALFWAY;
-    if (type === 'KICK_OFF') {
-      startX = PITCH.HALFWAY;
-    } else { // 22 Drop out logic later? OR assume standard kickoff for now
-      startX = PITCH.HALFWAY;
+    // Determine kick origin — kick-offs from the centre of halfway,
+    // drop-outs from the centre of the kicking side's own 22 or goal line
+    const home = kickingTeam.side === 'home';
+    let startX: number = PITCH.HALFWAY;
+    if (type === 'DROP_OUT_22') {
+      startX = home ? PITCH.LINE_22_LEFT : PITCH.LINE_22_RIGHT;
+    } else if (type === 'GOAL_LINE_DROP_OUT') {
+      startX = home ? PITCH.TRY_LINE_LEFT : PITCH.TRY_LINE_RIGHT;
     }
 
     this.kickOrigin = { x: startX, y: PITCH.HEIGHT_PX / 2 };
@@ -52,21 +77,56 @@ export class KickoffSystem {
     this.kicker = kickingTeam.getPlayerByPosition(10); // Fly Half
     
     // Position Kicker slightly behind ball
-    const kickerOffsetX = kickingTeam.side === 'home' ? -50 : 50;
+    const kickerOffsetX = home ? -50 : 50;
     this.kicker.setPosition(this.kickOrigin.x + kickerOffsetX, this.kickOrigin.y);
-    this.kicker.setRotation(kickingTeam.side === 'home' ? 0 : Math.PI); // Face opponent
+    this.kicker.setRotation(home ? 0 : Math.PI); // Face opponent
 
     // Setup Formations
-    kickingTeam.setKickoffChaseFormation();
-    receivingTeam.setKickoffReceiveFormation();
+    kickingTeam.setKickoffChaseFormation(this.kickOrigin.x);
+    receivingTeam.setKickoffReceiveFormation(this.kickOrigin.x);
 
     console.log(`[KickoffSystem] Started ${type} by ${kickingTeam.side}`);
   }
 
+  /** The restart being taken */
+  getType(): RestartType {
+    return this.type;
+  }
+
+  /** Where the restart is taken from */
+  getKickOrigin(): { x: number, y: number } {
+    return { ...this.kickOrigin };
+  }
+
+  /**
+   * The line the ball has to cross: the opposition 10 m line for a
+   * kick-off, the 22 for a 22 m drop-out, 5 m out for a goal-line drop-out.
+   */
+  getRequiredLineX(): number {
+    const home = this.kickingTeam?.side !== 'away';
+    switch (this.type) {
+      case 'DROP_OUT_22':
+        return this.kickOrigin.x;
+      case 'GOAL_LINE_DROP_OUT':
+        return this.kickOrigin.x + (home ? RESTART.GOAL_LINE_CLEARANCE : -RESTART.GOAL_LINE_CLEARANCE);
+      default:
+        return home ? PITCH.LINE_10_RIGHT : PITCH.LINE_10_LEFT;
+    }
+  }
+
+  /**
+   * Where the scrum goes if the receiving side takes it for a short
+   * restart — the centre of halfway or the 22, or 5 m out.
+   */
+  getScrumMark(): { x: number, y: number } {
+    const x = this.type === 'GOAL_LINE_DROP_OUT' ? this.getRequiredLineX() : this.kickOrigin.x;
+    return { x, y: PITCH.HEIGHT_PX / 2 };
+  }
+
   update(_delta: number): void {
     if (this.phase === 'SETUP') {
       // Trigger run up (for now auto)
-      if (Math.random() < 0.05) {
+      if (RNG.chance(0.05)) {
          this.phase = 'RUN_UP';
       }
       return;
@@ -75,7 +135,7 @@ export class KickoffSystem {
     if (this.phase === 'RUN_UP') {
       if (!this.kicker) return;
       
-      const dist = Phaser.Math.Distance.Between(this.kicker.sprite.x, this.kicker.sprite.y, this.ball.sprite.x, this.ball.sprite.y);
+      const dist = distance({ x: this.kicker.sprite.x, y: this.kicker.sprite.y }, { x: this.ball.sprite.x, y: this.ball.sprite.y });
       if (dist < 10) {
         this.executeKick();
       } else {
@@ -84,13 +144,15 @@ export class KickoffSystem {
     }
 
     if (this.phase === 'FLIGHT') {
+      const lineX = this.getRequiredLineX();
       if (this.kickingTeam?.side === 'home') {
-        if (this.ball.sprite.x > PITCH.LINE_10_RIGHT) this.crossed10mLine = true;
+        if (this.ball.sprite.x > lineX) this.crossed10mLine = true;
       } else {
-        if (this.ball.sprite.x < PITCH.LINE_10_LEFT) this.crossed10mLine = true;
+        if (this.ball.sprite.x < lineX) this.crossed10mLine = true;
       }
 
-      if (this.ball.isGrounded()) {
+      // Down, or gathered before it landed
+      if (this.ball.isGrounded() || this.ball.carrier) {
          this.completeKickoff();
       }
     }
@@ -102,19 +164,23 @@ export class KickoffSystem {
     this.phase = 'FLIGHT';
     
     let targetX = 0;
-    if (this.kickingTeam.side === 'home') {
-      targetX = Phaser.Math.Between(PITCH.LINE_22_RIGHT, PITCH.TRY_LINE_RIGHT - 50);
+    if (this.type !== 'KICK_OFF') {
+      // Drop-outs are kicked downfield from the kicker's own end
+      const length = RNG.int(RESTART.DROP_OUT_MIN_LENGTH, RESTART.DROP_OUT_MAX_LENGTH);
+      targetX = this.kickOrigin.x + (this.kickingTeam.side === 'home' ? length : -length);
+    } else if (this.kickingTeam.side === 'home') {
+      targetX = RNG.int(PITCH.LINE_22_RIGHT, PITCH.TRY_LINE_RIGHT - 50);
     } else {
-      targetX = Phaser.Math.Between(PITCH.TRY_LINE_LEFT + 50, PITCH.LINE_22_LEFT);
+      targetX = RNG.int(PITCH.TRY_LINE_LEFT + 50, PITCH.LINE_22_LEFT);
     }
 
-    const targetY = Phaser.Math.Between(100, PITCH.HEIGHT_PX - 100);
+    const targetY = RNG.int(100, PITCH.HEIGHT_PX - 100);
 
     // Calculate params for high kick
-    const kickDist = Phaser.Math.Distance.Between(this.ball.sprite.x, this.ball.sprite.y, targetX, targetY);
+    const kickDist = distance({ x: this.ball.sprite.x, y: this.ball.sprite.y }, { x: targetX, y: targetY });
     const power = Math.min(1, kickDist / 800); 
 
-    EventBus.emit('ballKicked', { kickerId: this.kicker.id, type: 'kickoff', power });
+    EventBus.emit('ballKicked', { kickerId: this.kicker.id, type: this.type === 'KICK_OFF' ? 'kickoff' : 'dropout', power });
     
     // Use kickWithType for high, hanging kick
     this.ball.kickWithType(
@@ -134,16 +200,18 @@ export class KickoffSystem {
   private completeKickoff(): void {
     this.phase = 'COMPLETE';
     
-    if (!this.crossed10mLine) {
-        // Not 10m? Scrum to receiving team at center
-        console.log('[KickoffSystem] Kick did not travel 10m! Scrum.');
-        // Trigger Scrum (EventBus or PhaseManager direct?)
-        // EventBus.emit('phaseChain', { to: 'SCRUM', reason: 'NOT_10M' }); 
-        // For simplicity, just valid for now.
+    // Short, unless the receivers chose to play it anyway
+    const playedByReceivers = !!this.ball.carrier && this.ball.carrier.teamSide === this.receivingTeam?.side;
+    if (!this.crossed10mLine && !playedByReceivers && this.kickingTeam) {
+        // Not 10m? Receiving team can have a scrum or the kick again
+        console.log(`[KickoffSystem] ${this.type} did not go the distance!`);
+        const { x, y } = this.ball.sprite;
+        EventBus.emit('restartShort', { type: this.type, team: this.kickingTeam.side, x, y });
+        return;
     }
 
     // Transition games state to OPEN_PLAY
-    EventBus.emit('phaseChange', { from: 'KICK_OFF', to: 'OPEN_PLAY' });
+    EventBus.emit('phaseChange', { from: this.type, to: 'OPEN_PLAY' });
   }
 
   isActive(): boolean {
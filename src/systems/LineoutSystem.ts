@@ -0,0 +1,322 @@
+/**
+ * LineoutSystem — who stands in the line, where the throw goes and who wins it.
+ *
+ * Each side forms its line from the forwards it has on the pitch
+ * (Team.players): the locks, flankers and No. 8 jump, the props and any
+ * forwards left over lift. The hooker throws and the scrum-half receives.
+ * The throwing side calls the numbers — from a two-man short lineout to
+ * the full seven — and the defence matches them.
+ *
+ * The throw is aimed at one of the jumpers. It can be:
+ *   not straight — more likely from a poor thrower, and the further back it goes
+ *   overthrown   — over the tail of the line, to come down loose
+ *   uncontested  — caught, bar a fumble
+ *   contested    — the defence put a jumper up opposite: jumper (strength,
+ *                  awareness) and lifters against each other, the throwing
+ *                  side ahead for knowing the call
+ *
+ * The side that wins it passes, mauls — the catcher's pod binding on
+ * around them — or peels, a forward taking the ball off the jumper and
+ * running around the front or the back of the line.
+ *
+ * Before the lineout forms, the side throwing in can take a quick
+ * throw-in instead, as long as nobody off the pitch has handled the ball
+ * (see canQuickThrow / findQuickThrow).
+ *
+ * Usage:
+ *   const lineout = new LineoutSystem(throwingTeam, defendingTeam);
+ *   lineout.setNumbers(3);                              // short lineout
+ *   const target = throwingAI.chooseLineoutTarget(lineout, x);
+ *   const compete = defendingAI.chooseLineoutCompete(lineout);
+ *   const result = lineout.resolve(target, compete);   // winner + catcher
+ *   lineout.getPeeler(result.winner, 'back', result.catcher);
+ */
+
+import type { Team } from '../entities/Team';
+import type { Player } from '../entities/Player';
+import { RNG } from '../utils/Random';
+import { distance } from '../utils/MathHelpers';
+import { LINEOUT, PITCH, Position } from '../utils/Constants';
+
+type Side = 'home' | 'away';
+
+export type LineoutRole = 'jumper' | 'lifter';
+
+/** One player's place in the line */
+export interface LineoutSpot {
+  player: Player;
+  role: LineoutRole;
+  /** Place in the line, 0 = front */
+  index: number;
+}
+
+export interface LineoutFormation {
+  side: Side;
+  spots: LineoutSpot[];
+  /** Hooker (or whoever covers) throwing in */
+  thrower: Player;
+}
+
+export type LineoutOutcome = 'clean' | 'contested' | 'stolen' | 'fumbled' | 'not_straight' | 'overthrown';
+
+/** What the side that won it does next */
+export type LineoutPlay = 'pass' | 'maul' | 'peel_front' | 'peel_back';
+
+/** End of the line a peel goes around */
+export type PeelRoute = 'front' | 'back';
+
+export interface LineoutResult {
+  /** Side with the ball — for an overthrow, nobody yet (the throwing side is given) */
+  winner: Side;
+  outcome: LineoutOutcome;
+  /** Jumper who came down with the ball (null for a throw not straight or over the top) */
+  catcher: Player | null;
+  /** Place in the line the throw was aimed at */
+  target: number;
+}
+
+/** Best jumpers first; everyone else in the pack lifts */
+const JUMPERS: Position[] = [Position.LOCK_4, Position.LOCK_5, Position.NUMBER_8, Position.BLINDSIDE_FLANKER, Position.OPENSIDE_FLANKER];
+const LIFTERS: Position[] = [Position.LOOSEHEAD_PROP, Position.TIGHTHEAD_PROP];
+
+/** The ball gone into touch, waiting to be thrown back in */
+export interface TouchIncident {
+  /** Side throwing in — the opposition of the side that put it out */
+  team: Side;
+  x: number;
+  y: number;
+  /** Handled by someone off the pitch on its way back — no quick throw */
+  spectatorTouched: boolean;
+  /** When it went out (ms) */
+  at: number;
+}
+
+const other = (side: Side): Side => (side === 'home' ? 'away' : 'home');
+
+/** Record the ball going into touch, rolling whether anyone off the pitch gets to it first */
+export function createTouchIncident(team: Side, x: number, y: number, at: number): TouchIncident {
+  return { team, x, y, spectatorTouched: RNG.chance(LINEOUT.SPECTATOR_TOUCH_CHANCE), at };
+}
+
+/** A quick throw-in is allowed: the ball untouched off the pitch and the lineout not formed yet */
+export function canQuickThrow(touch: TouchIncident, now: number): boolean {
+  return !touch.spectatorTouched && now - touch.at < LINEOUT.QUICK_THROW_WINDOW;
+}
+
+/**
+ * Who takes a quick throw-in: the throwing side's nearest player to the
+ * mark throws to the nearest teammate at least 5 m in from touch and
+ * not in front of the mark.
+ * @returns null when nobody is close enough to fetch the ball or there's nobody to throw to
+ */
+export function findQuickThrow(team: Team, touch: TouchIncident): { thrower: Player; receiver: Player } | null {
+  const from = (p: Player) => distance({ x: p.sprite.x, y: p.sprite.y }, { x: touch.x, y: touch.y });
+  const standing = team.players.filter(p => !p.isGrounded && !p.isInRuck).sort((a, b) => from(a) - from(b));
+  const thrower = standing[0];
+  if (!thrower || from(thrower) > LINEOUT.QUICK_THROW_REACH) return null;
+
+  const receiver = standing.find(p => p !== thrower
+    && Math.abs(p.sprite.y - touch.y) >= LINEOUT.QUICK_THROW_MIN_DISTANCE
+    && (team.side === 'home' ? p.sprite.x <= touch.x : p.sprite.x >= touch.x));
+  return receiver ? { thrower, receiver } : null;
+}
+
+/** Defenders near enough the mark to cover a quick throw-in */
+export function countQuickThrowCover(defence: Team, touch: TouchIncident): number {
+  return defence.players.filter(p =>
+    distance({ x: p.sprite.x, y: p.sprite.y }, { x: touch.x, y: touch.y }) <= LINEOUT.QUICK_THROW_COVER).length;
+}
+
+/** The y `depth` in from whichever touchline `y` is nearer */
+export function inFromTouch(y: number, depth: number): number {
+  return y <= PITCH.HEIGHT_PX / 2 ? PITCH.TOUCHLINE_TOP + depth : PITCH.TOUCHLINE_BOTTOM - depth;
+}
+
+export class LineoutSystem {
+  private teams: Record<Side, Team>;
+  private throwingSide: Side;
+  private numbers: number = LINEOUT.FULL_NUMBERS;
+  private formations!: Record<Side, LineoutFormation>;
+
+  constructor(throwingTeam: Team, defendingTeam: Team) {
+    this.throwingSide = throwingTeam.side;
+    this.teams = { [throwingTeam.side]: throwingTeam, [defendingTeam.side]: defendingTeam } as Record<Side, Team>;
+    this.setNumbers(LINEOUT.FULL_NUMBERS);
+  }
+
+  /** Side throwing in */
+  getThrowingSide(): Side {
+    return this.throwingSide;
+  }
+
+  getNumbers(): number {
+    return this.numbers;
+  }
+
+  /**
+   * The throwing side's call on numbers, capped by the forwards it has —
+   * the defence lines up the same.
+   */
+  setNumbers(numbers: number): void {
+    const available = Math.min(this.countForwards(this.throwingSide), this.countForwards(other(this.throwingSide)));
+    this.numbers = Math.max(Math.min(LINEOUT.MIN_NUMBERS, available), Math.min(numbers, LINEOUT.FULL_NUMBERS, available));
+    this.formations = {
+      home: this.form(this.teams.home),
+      away: this.form(this.teams.away),
+    } as Record<Side, LineoutFormation>;
+  }
+
+  getFormation(side: Side): LineoutFormation {
+    return this.formations[side];
+  }
+
+  /** The side's jumpers, front to back */
+  getJumpers(side: Side): LineoutSpot[] {
+    return this.formations[side].spots.filter(s => s.role === 'jumper');
+  }
+
+  /**
+   * How good the jumper at `index` is in the air: their strength and
+   * awareness, and the strength of the lifters either side of them.
+   */
+  jumperRating(side: Side, index: number): number {
+    const spots = this.formations[side].spots;
+    const jumper = spots[index];
+    if (!jumper) return 0;
+    const lifters = spots.filter(s => s.role === 'lifter' && Math.abs(s.index - index) === 1);
+    const lift = lifters.reduce((sum, s) => sum + s.player.stats.strength, 0) / 2;
+    const own = (jumper.player.stats.strength + jumper.player.stats.awareness) / 2;
+    return own * (1 - LINEOUT.LIFTER_SHARE) + lift * LINEOUT.LIFTER_SHARE;
+  }
+
+  /** Chance the throw to `index` isn't straight — the hooker's accuracy (handling), worse further back */
+  notStraightChance(index: number): number {
+    const accuracy = this.formations[this.throwingSide].thrower.stats.handling / 100;
+    return (1 - accuracy) * (LINEOUT.NOT_STRAIGHT_CHANCE + LINEOUT.DEPTH_PENALTY * index);
+  }
+
+  /** Chance the throw to `index` goes over the top — the hooker's accuracy, rising towards the tail */
+  overthrowChance(index: number): number {
+    const accuracy = this.formations[this.throwingSide].thrower.stats.handling / 100;
+    const depth = (index + 1) / this.formations[this.throwingSide].spots.length;
+    return (1 - accuracy) * LINEOUT.OVERTHROW_CHANCE * depth;
+  }
+
+  /**
+   * The pod a driving maul forms around — the catcher and the lifters
+   * either side of them, catcher first.
+   */
+  getPod(side: Side, catcher: Player): Player[] {
+    const spots = this.formations[side].spots;
+    const at = spots.find(s => s.player === catcher)?.index;
+    const lifters = at === undefined ? [] : spots.filter(s => s.role === 'lifter' && Math.abs(s.index - at) === 1);
+    return [catcher, ...lifters.map(s => s.player)];
+  }
+
+  /**
+   * Forward who peels off the end of the line with the ball — whoever
+   * stands at the front or the back, other than the catcher.
+   */
+  getPeeler(side: Side, route: PeelRoute, catcher: Player | null = null): Player {
+    const spots = this.formations[side].spots.filter(s => s.player !== catcher);
+    const spot = route === 'front' ? spots[0] : spots[spots.length - 1];
+    return (spot ?? this.formations[side].spots[0]).player;
+  }
+
+  /**
+   * Throw to the jumper at `target` and settle who wins it. A throw aimed
+   * at a lifter goes to the nearest jumper instead.
+   * @param compete Place in the line the defence put its jumper up (null = didn't compete)
+   * @param timing Jump timing from the mini-game for the human side, 0–1 (1 = perfect)
+   * @param timedSide Side the timing applies to (omitted = the throwing side)
+   */
+  resolve(target: number, compete: number | null, timing = 1, timedSide: Side = this.throwingSide): LineoutResult {
+    const throwing = this.throwingSide;
+    const defending = other(throwing);
+    const jumper = this.getJumpers(throwing).reduce((best, j) =>
+      (Math.abs(j.index - target) < Math.abs(best.index - target) ? j : best));
+    const at = jumper.index;
+
+    if (RNG.chance(this.notStraightChance(at))) {
+      return { winner: defending, outcome: 'not_straight', catcher: null, target: at };
+    }
+    if (RNG.chance(this.overthrowChance(at))) {
+      return { winner: throwing, outcome: 'overthrown', catcher: null, target: at };
+    }
+
+    const timed = (side: Side, rating: number) => (side === timedSide ? rating * timing : rating);
+    const marker = compete === null ? undefined : this.formations[defending].spots[compete];
+    const contested = marker?.role === 'jumper' && Math.abs(marker.index - at) <= LINEOUT.CONTEST_REACH;
+
+    if (contested && marker) {
+      const attack = timed(throwing, this.jumperRating(throwing, at)) + LINEOUT.THROWER_EDGE;
+      const defence = timed(defending, this.jumperRating(defending, marker.index));
+      return RNG.chance(attack / (attack + defence))
+        ? { winner: throwing, outcome: 'contested', catcher: jumper.player, target: at }
+        : { winner: defending, outcome: 'stolen', catcher: marker.player, target: at };
+    }
+
+    // Free to take it — a fumble gives the defence the loose ball
+    const fumble = LINEOUT.FUMBLE_CHANCE * (1 - jumper.player.stats.handling / 100) / Math.max(0.1, timed(throwing, 1));
+    if (RNG.chance(fumble)) {
+      const nearest = this.formations[defending].spots.find(s => s.index >= at) ?? this.formations[defending].spots[0];
+      return { winner: defending, outcome: 'fumbled', catcher: nearest?.player ?? null, target: at };
+    }
+    return { winner: throwing, outcome: 'clean', catcher: jumper.player, target: at };
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // INTERNALS
+  // ─────────────────────────────────────────────────────────
+
+  /** Forwards on the pitch who can stand in the line (not the thrower) */
+  private countForwards(side: Side): number {
+    return this.getPack(this.teams[side]).length;
+  }
+
+  /** Forwards available to the line — everyone in the pack bar whoever throws in */
+  private getPack(team: Team): Player[] {
+    const thrower = team.getPlayerByPosition(Position.HOOKER);
+    return team.players.filter(p => p.position <= Position.NUMBER_8 && p !== thrower);
+  }
+
+  /**
+   * Line up `numbers` forwards: a lifter at the front, then each jumper
+   * with a lifter behind, any spare lifters at the tail.
+   */
+  private form(team: Team): LineoutFormation {
+    const pack = this.getPack(team);
+    const jumperCount = this.numbers <= 3 ? 1 : this.numbers <= 5 ? 2 : 3;
+    const rank = (order: Position[]) => (a: Player, b: Player) => {
+      const ai = order.indexOf(a.position);
+      const bi = order.indexOf(b.position);
+      return (ai < 0 ? order.length : ai) - (bi < 0 ? order.length : bi);
+    };
+
+    const jumpers = pack.filter(p => JUMPERS.includes(p.position)).sort(rank(JUMPERS)).slice(0, jumperCount);
+    // Short of jumpers (cards) — whoever is left goes up
+    for (const p of pack) {
+      if (jumpers.length >= jumperCount) break;
+      if (!jumpers.includes(p)) jumpers.push(p);
+    }
+    const lifters = pack.filter(p => !jumpers.includes(p)).sort(rank(LIFTERS)).slice(0, this.numbers - jumpers.length);
+
+    const line: { player: Player; role: LineoutRole }[] = [];
+    const nextLifter = () => {
+      const l = lifters.shift();
+      if (l) line.push({ player: l, role: 'lifter' });
+    };
+    nextLifter();
+    for (const j of jumpers) {
+      line.push({ player: j, role: 'jumper' });
+      nextLifter();
+    }
+    while (lifters.length > 0) nextLifter();
+
+    return {
+      side: team.side,
+      spots: line.map((s, index) => ({ ...s, index })),
+      thrower: team.getPlayerByPosition(Position.HOOKER),
+    };
+  }
+}
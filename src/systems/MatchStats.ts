@@ -0,0 +1,409 @@
+/**
+ * MatchStats — per-team and per-player match statistics.
+ *
+ * Listens to tackle, ballPassed, ballKicked, possessionChange,
+ * penaltyAwarded, ruckCommitted, ruckBallAvailable, ruckTurnover, knockOn,
+ * forwardPass, score, tryDisallowed and substitution on the EventBus, and follows the ball
+ * carrier each frame for carries and metres made. Every player in the matchday squad (1–15 plus
+ * bench) has an entry from kick-off, so the report card lists them all.
+ *
+ * Definitions:
+ *   metres     — forward progress by the carrier (towards the opposition try line)
+ *   turnover   — possession won from the opposition in play, i.e. not from a
+ *                kick, restart, penalty, knock-on or forward pass
+ *   penalties  — conceded by the named offender's side, else the side the
+ *                penalty was not given to, else by the team in possession when
+ *                the penalty is against the attack, otherwise by the defence
+ *   rucks won  — breakdowns that ended with the ball available to a side,
+ *                whether the attack recycled it or the defence turned it over
+ *
+ * Usage:
+ *   const stats = new MatchStats(homeTeam, awayTeam, ball);
+ *   stats.start();            // subscribe
+ *   stats.update(delta);      // every frame of play
+ *   stats.getSummary();       // HalfTimeScene / ResultScene numbers
+ *   stats.destroy();          // unsubscribe
+ */
+
+import type { Team } from '../entities/Team';
+import type { Ball } from '../entities/Ball';
+import type { Player } from '../entities/Player';
+import { EventBus } from '../utils/EventBus';
+import type { GameEvents } from '../utils/EventBus';
+import { PITCH } from '../utils/Constants';
+
+type Side = 'home' | 'away';
+
+export interface PerSide {
+  home: number;
+  away: number;
+}
+
+export interface PlayerMatchStats {
+  id: string;
+  name: string;
+  position: number;
+  /** Matchday shirt — 1–15 for starters, 16 up for the bench */
+  shirt: number;
+  team: Side;
+  tackles: number;
+  missedTackles: number;
+  carries: number;
+  metres: number;
+  passes: number;
+  passesCompleted: number;
+  kicks: number;
+  knockOns: number;
+  forwardPasses: number;
+  turnoversWon: number;
+  rucks: number;
+  penaltiesConceded: number;
+  tries: number;
+}
+
+/** One line of the post-match report card */
+export interface ReportCardEntry extends PlayerMatchStats {
+  /** Out of 10 (null for a replacement who never came on) */
+  rating: number | null;
+}
+
+/** Report card columns that can be sorted on */
+export type ReportCardSortKey = 'shirt' | 'rating' | 'tackles' | 'missedTackles' | 'carries' | 'metres'
+  | 'passesCompleted' | 'kicks' | 'rucks' | 'penaltiesConceded' | 'tries';
+
+export interface TeamMatchStats {
+  possessionMs: number;
+  tackles: number;
+  missedTackles: number;
+  carries: number;
+  metres: number;
+  passes: number;
+  kicks: number;
+  knockOns: number;
+  forwardPasses: number;
+  penaltiesConceded: number;
+  turnoversWon: number;
+  rucksWon: number;
+  tries: number;
+}
+
+/** The numbers HalfTimeScene and ResultScene display */
+export interface MatchStatsSummary {
+  /** Home possession % */
+  possession: number;
+  tackles: PerSide;
+  passes: PerSide;
+  penalties: PerSide;
+  carries: PerSide;
+  metres: PerSide;
+  /** Tackles made as a % of tackles attempted */
+  tackleSuccess: PerSide;
+  turnovers: PerSide;
+}
+
+/** Tackle outcomes where the tackler failed to stop the carrier */
+const MISSED_OUTCOMES = new Set(['missed', 'fendOff']);
+
+const emptyTeam = (): TeamMatchStats => ({
+  possessionMs: 0, tackles: 0, missedTackles: 0, carries: 0, metres: 0, passes: 0,
+  kicks: 0, knockOns: 0, forwardPasses: 0, penaltiesConceded: 0, turnoversWon: 0, rucksWon: 0, tries: 0,
+});
+
+export class MatchStats {
+  private ball: Ball;
+
+  private teams: Record<Side, TeamMatchStats> = { home: emptyTeam(), away: emptyTeam() };
+  private players = new Map<string, PlayerMatchStats>();
+  /** Starters plus any replacement who has come on */
+  private played = new Set<string>();
+
+  /** Team currently in possession (null before the first catch) */
+  private possession: Side | null = null;
+  /** The next possession change comes from a kick or restart, not a turnover */
+  private restartPending = true;
+  /** Carrier being followed for metres */
+  private carrierId: string | null = null;
+  private carrierX = 0;
+  /** Receiver of the last pass — a knock-on by them makes the pass incomplete */
+  private lastReceiverId: string | null = null;
+  private lastPasserId: string | null = null;
+  /** Who scored each side's last try — taken back if the TMO overturns it */
+  private lastTryScorer: Record<Side, PlayerMatchStats | null> = { home: null, away: null };
+
+  // ─── Listeners (kept for removal in destroy) ──────────────
+  private onTackle = (data: GameEvents['tackle']) => {
+    const tackler = this.playerStats(data.tacklerId);
+    if (!tackler) return;
+    if (MISSED_OUTCOMES.has(data.outcome ?? '')) {
+      tackler.missedTackles++;
+      this.teams[tackler.team].missedTackles++;
+    } else {
+      tackler.tackles++;
+      this.teams[tackler.team].tackles++;
+    }
+  };
+  private onBallPassed = (data: GameEvents['ballPassed']) => {
+    const passer = this.playerStats(data.passerId);
+    if (!passer) return;
+    passer.passes++;
+    passer.passesCompleted++;
+    this.teams[passer.team].passes++;
+    this.lastPasserId = data.passerId;
+    this.lastReceiverId = data.receiverId;
+  };
+  private onBallKicked = (data: GameEvents['ballKicked']) => {
+    this.restartPending = true;
+    const kicker = this.playerStats(data.kickerId);
+    if (!kicker) return;
+    kicker.kicks++;
+    this.teams[kicker.team].kicks++;
+  };
+  private onPossessionChange = (data: GameEvents['possessionChange']) => {
+    const previous = this.possession;
+    this.possession = data.team;
+    if (previous === null || this.restartPending) {
+      this.restartPending = false;
+      return;
+    }
+    this.teams[data.team].turnoversWon++;
+    const carrier = this.ball.carrier ? this.playerStats(this.ball.carrier.id) : undefined;
+    if (carrier) carrier.turnoversWon++;
+  };
+  private onPenaltyAwarded = (data: GameEvents['penaltyAwarded']) => {
+    this.restartPending = true;
+    const player = data.playerId ? this.playerStats(data.playerId) : undefined;
+    if (player) player.penaltiesConceded++;
+    const offender = player?.team
+      ?? (data.team && other(data.team))
+      ?? (this.possession && (data.againstAttack ? this.possession : other(this.possession)));
+    if (offender) this.teams[offender].penaltiesConceded++;
+  };
+  private onRuckCommitted = (data: GameEvents['ruckCommitted']) => {
+    const player = this.playerStats(data.playerId);
+    if (player) player.rucks++;
+  };
+  private onSubstitution = (data: GameEvents['substitution']) => {
+    this.played.add(data.inPlayer);
+  };
+  private onRuckWon = (data: GameEvents['ruckBallAvailable'] | GameEvents['ruckTurnover']) => {
+    this.teams[data.attackingTeam].rucksWon++;
+  };
+  private onKnockOn = (data: GameEvents['knockOn']) => {
+    this.restartPending = true;
+    const player = this.playerStats(data.playerId);
+    if (!player) return;
+    player.knockOns++;
+    this.teams[player.team].knockOns++;
+    if (data.playerId === this.lastReceiverId && this.lastPasserId) {
+      const passer = this.playerStats(this.lastPasserId);
+      if (passer) passer.passesCompleted--;
+      this.lastReceiverId = null;
+    }
+  };
+  private onForwardPass = (data: GameEvents['forwardPass']) => {
+    this.restartPending = true;
+    this.teams[data.team].forwardPasses++;
+    const passer = this.playerStats(data.playerId);
+    if (!passer) return;
+    passer.forwardPasses++;
+    passer.passesCompleted--;
+    if (data.receiverId === this.lastReceiverId) this.lastReceiverId = null;
+  };
+  private onScore = (data: GameEvents['score']) => {
+    this.restartPending = true;
+    if (data.type !== 'try') return;
+    this.teams[data.team].tries++;
+    // Nobody scores a penalty try — it only counts to the team
+    const scorer = !data.penaltyTry && this.ball.carrier?.teamSide === data.team ? this.playerStats(this.ball.carrier.id) : undefined;
+    if (scorer) scorer.tries++;
+    this.lastTryScorer[data.team] = scorer ?? null;
+  };
+  private onTryDisallowed = (data: GameEvents['tryDisallowed']) => {
+    this.teams[data.team].tries--;
+    const scorer = this.lastTryScorer[data.team];
+    if (scorer) scorer.tries--;
+    this.lastTryScorer[data.team] = null;
+  };
+
+  constructor(homeTeam: Team, awayTeam: Team, ball: Ball) {
+    this.ball = ball;
+
+    for (const team of [homeTeam, awayTeam]) {
+      for (const p of team.players) {
+        this.addPlayer(p, p.position);
+        this.played.add(p.id);
+      }
+      team.getReserves().forEach((p, i) => this.addPlayer(p, 16 + i));
+    }
+  }
+
+  /** Subscribe to match events */
+  start(): void {
+    EventBus.on('tackle', this.onTackle);
+    EventBus.on('ballPassed', this.onBallPassed);
+    EventBus.on('ballKicked', this.onBallKicked);
+    EventBus.on('possessionChange', this.onPossessionChange);
+    EventBus.on('penaltyAwarded', this.onPenaltyAwarded);
+    EventBus.on('ruckCommitted', this.onRuckCommitted);
+    EventBus.on('ruckBallAvailable', this.onRuckWon);
+    EventBus.on('ruckTurnover', this.onRuckWon);
+    EventBus.on('knockOn', this.onKnockOn);
+    EventBus.on('forwardPass', this.onForwardPass);
+    EventBus.on('score', this.onScore);
+    EventBus.on('tryDisallowed', this.onTryDisallowed);
+    EventBus.on('substitution', this.onSubstitution);
+  }
+
+  /** Unsubscribe from the EventBus */
+  destroy(): void {
+    EventBus.off('tackle', this.onTackle);
+    EventBus.off('ballPassed', this.onBallPassed);
+    EventBus.off('ballKicked', this.onBallKicked);
+    EventBus.off('possessionChange', this.onPossessionChange);
+    EventBus.off('penaltyAwarded', this.onPenaltyAwarded);
+    EventBus.off('ruckCommitted', this.onRuckCommitted);
+    EventBus.off('ruckBallAvailable', this.onRuckWon);
+    EventBus.off('ruckTurnover', this.onRuckWon);
+    EventBus.off('knockOn', this.onKnockOn);
+    EventBus.off('forwardPass', this.onForwardPass);
+    EventBus.off('score', this.onScore);
+    EventBus.off('tryDisallowed', this.onTryDisallowed);
+    EventBus.off('substitution', this.onSubstitution);
+  }
+
+  /**
+   * Possession time, carries and metres — call once per frame of play.
+   * @param delta Frame delta in ms
+   */
+  update(delta: number): void {
+    if (this.possession) this.teams[this.possession].possessionMs += delta;
+
+    const carrier = this.ball.carrier;
+    if (!carrier) {
+      this.carrierId = null;
+      return;
+    }
+
+    const stats = this.playerStats(carrier.id);
+    if (!stats) return;
+    if (carrier.id !== this.carrierId) {
+      this.carrierId = carrier.id;
+      this.carrierX = carrier.sprite.x;
+      stats.carries++;
+      this.teams[stats.team].carries++;
+      return;
+    }
+
+    const dir = carrier.teamSide === 'home' ? 1 : -1;
+    const gained = Math.max(0, (carrier.sprite.x - this.carrierX) * dir) / PITCH.M_TO_PX;
+    this.carrierX = carrier.sprite.x;
+    stats.metres += gained;
+    this.teams[stats.team].metres += gained;
+  }
+
+  getTeamStats(side: Side): Readonly<TeamMatchStats> {
+    return this.teams[side];
+  }
+
+  /** Every player in both matchday squads, in no particular order */
+  getPlayerStats(): PlayerMatchStats[] {
+    return [...this.players.values()];
+  }
+
+  /** One side's squad, starters 1–15 then the bench, each with a rating */
+  getReportCard(side: Side): ReportCardEntry[] {
+    return [...this.players.values()]
+      .filter(p => p.team === side)
+      .map(p => ({
+        ...p,
+        metres: Math.round(p.metres),
+        rating: this.played.has(p.id) ? MatchStats.rating(p) : null,
+      }))
+      .sort((a, b) => a.shirt - b.shirt);
+  }
+
+  /** Home possession as a whole percentage (50 before anyone has had the ball) */
+  getPossession(): number {
+    const total = this.teams.home.possessionMs + this.teams.away.possessionMs;
+    return total > 0 ? Math.round((this.teams.home.possessionMs / total) * 100) : 50;
+  }
+
+  /** Tackles made as a whole percentage of attempts (100 with no attempts) */
+  getTackleSuccess(side: Side): number {
+    const t = this.teams[side];
+    const attempts = t.tackles + t.missedTackles;
+    return attempts > 0 ? Math.round((t.tackles / attempts) * 100) : 100;
+  }
+
+  getSummary(): MatchStatsSummary {
+    const both = (pick: (t: TeamMatchStats) => number): PerSide =>
+      ({ home: pick(this.teams.home), away: pick(this.teams.away) });
+    return {
+      possession: this.getPossession(),
+      tackles: both(t => t.tackles),
+      passes: both(t => t.passes),
+      penalties: both(t => t.penaltiesConceded),
+      carries: both(t => t.carries),
+      metres: both(t => Math.round(t.metres)),
+      tackleSuccess: { home: this.getTackleSuccess('home'), away: this.getTackleSuccess('away') },
+      turnovers: both(t => t.turnoversWon),
+    };
+  }
+
+  /**
+   * Player rating out of 10 — starts at 6 and moves with contributions.
+   */
+  static rating(p: PlayerMatchStats): number {
+    const score = 6
+      + p.tries * 1.0
+      + p.tackles * 0.15 - p.missedTackles * 0.3
+      + p.carries * 0.05 + p.metres * 0.02
+      + p.passesCompleted * 0.03
+      + p.turnoversWon * 0.4
+      + p.kicks * 0.03
+      + p.rucks * 0.05
+      - p.knockOns * 0.4
+      - p.penaltiesConceded * 0.5;
+    return Math.round(Math.min(10, Math.max(0, score)) * 10) / 10;
+  }
+
+  /** Highest-rated player who took the field (home side first on a tie), or null */
+  getManOfMatch(): PlayerMatchStats | null {
+    let best: PlayerMatchStats | null = null;
+    for (const p of this.players.values()) {
+      if (!this.played.has(p.id)) continue;
+      if (!best || MatchStats.rating(p) > MatchStats.rating(best)) best = p;
+    }
+    return best;
+  }
+
+  private playerStats(id: string): PlayerMatchStats | undefined {
+    return this.players.get(id);
+  }
+
+  private addPlayer(player: Player, shirt: number): void {
+    this.players.set(player.id, {
+      id: player.id, name: player.name, position: player.position, shirt, team: player.teamSide,
+      tackles: 0, missedTackles: 0, carries: 0, metres: 0, passes: 0, passesCompleted: 0,
+      kicks: 0, knockOns: 0, forwardPasses: 0, turnoversWon: 0, rucks: 0, penaltiesConceded: 0, tries: 0,
+    });
+  }
+}
+
+/**
+ * Order a report card by one column — best first, shirt number ascending.
+ * Replacements who never came on always sit at the bottom.
+ */
+export function sortReportCard(entries: readonly ReportCardEntry[], key: ReportCardSortKey): ReportCardEntry[] {
+  const value = (e: ReportCardEntry): number => (key === 'rating' ? e.rating ?? -1 : e[key]);
+  return [...entries].sort((a, b) => {
+    const unused = Number(a.rating === null) - Number(b.rating === null);
+    if (unused !== 0) return unused;
+    if (key === 'shirt') return a.shirt - b.shirt;
+    return value(b) - value(a) || a.shirt - b.shirt;
+  });
+}
+
+function other(side: Side): Side {
+  return side === 'home' ? 'away' : 'home';
+}
@@ -2,14 +2,33 @@
  * MaulSystem — handles maul formation, progression, and resolution.
  *
  * A maul forms when a ball carrier is held up (stays on feet) and
- * a supporting teammate arrives within 1 second. The maul then
- * progresses forward based on attacking vs defending strength ratio.
+ * a supporting teammate arrives within 1 second, or from a lineout
+ * when the catcher's pod binds on around them. Other forwards join
+ * over time — sooner the closer they are and the harder they work —
+ * and the maul goes forward on the push of those bound on: each
+ * player's strength, scaled by their work rate, against the defence's.
+ *
+ * It ends when:
+ *   the scrum-half uses it  — releaseBall(), on the player's command or the AI's call
+ *   it's driven over        — maulTry, the carrier grounding it
+ *   a defender pulls it down — penaltyAwarded 'collapsing_maul', or a penalty
+ *                              try (maulTry) if it would have scored
+ *   it stops or goes on too long — ruckTimeout, a scrum
+ *
+ * Usage:
+ *   maul.startLineoutMaul(lineout.getPod(side, catcher), x, y, side === 'home');
+ *   maul.queueJoiner(player, isAttacker);   // forwards on their way
+ *   maul.update(delta, ball);               // every frame
+ *   if (ai.chooseMaulUseIt(maul)) maul.releaseBall();
  */
 
-import Phaser from 'phaser';
+import type Phaser from 'phaser';
 import { Player } from '../entities/Player';
 import { Ball } from '../entities/Ball';
 import { EventBus } from '../utils/EventBus';
+import { RNG } from '../utils/Random';
+import { MAUL, PITCH } from '../utils/Constants';
+import { distance } from '../utils/MathHelpers';
 
 interface MaulState {
   active: boolean;
@@ -18,26 +37,37 @@ interface MaulState {
   carrier: Player | null;
   attackers: Player[];
   defenders: Player[];
-  startTime: number;
+  /** Time since maul formation (ms) */
+  elapsed: number;
   /** Direction of maul movement: 1 = right, -1 = left */
   direction: 1 | -1;
 }
 
+/** A player on their way to bind on */
+interface Joiner {
+  player: Player;
+  isAttacker: boolean;
+  /** Maul time they arrive (ms) */
+  at: number;
+}
+
+/** How hard a player gets stuck in — their work rate, with a floor */
+const effort = (player: Player): number =>
+  MAUL.WORK_RATE_FLOOR + (1 - MAUL.WORK_RATE_FLOOR) * player.stats.workRate / 100;
+
+/** A player's weight on the maul: strength, scaled by how hard they work */
+const push = (player: Player): number => player.stats.strength * effort(player);
+
 export class MaulSystem {
   private state: MaulState = {
     active: false, x: 0, y: 0,
     carrier: null, attackers: [], defenders: [],
-    startTime: 0, direction: 1,
+    elapsed: 0, direction: 1,
   };
   // @ts-ignore — used for delayed calls and particle effects
   private scene: Phaser.Scene;
 
-  /** Maul collapses after this duration (ms) */
-  private static readonly MAX_DURATION = 8000;
-  /** Crawl speed when maul is moving (px/s) */
-  private static readonly CRAWL_SPEED = 20;
-  /** Stall timer — if no progress for this long, collapse */
-  private static readonly STALL_TIMEOUT = 3000;
+  private joining: Joiner[] = [];
   private stallTimer = 0;
   private lastX = 0;
 
@@ -52,25 +82,38 @@ export class MaulSystem {
    * @param attacksRight Whether the attacking team attacks to the right
    */
   startMaul(carrier: Player, tackler: Player, attacker: Player, attacksRight: boolean): void {
+    this.begin(carrier.sprite.x, carrier.sprite.y, [carrier, attacker], [tackler], attacksRight);
+  }
+
+  /**
+   * Start a driving maul from a lineout: the catcher and their lifters bind
+   * on at the mark, with nobody from the defence on it yet.
+   * @param pod The catcher first, then whoever lifted them
+   */
+  startLineoutMaul(pod: Player[], x: number, y: number, attacksRight: boolean): void {
+    for (const p of pod) p.sprite.setPosition(x, y + RNG.signed() * 10);
+    this.begin(x, y, pod, [], attacksRight);
+  }
+
+  private begin(x: number, y: number, attackers: Player[], defenders: Player[], attacksRight: boolean): void {
     this.state = {
       active: true,
-      x: carrier.sprite.x,
-      y: carrier.sprite.y,
-      carrier,
-      attackers: [carrier, attacker],
-      defenders: [tackler],
-      startTime: Date.now(),
+      x,
+      y,
+      carrier: attackers[0],
+      attackers: [...attackers],
+      defenders: [...defenders],
+      elapsed: 0,
       direction: attacksRight ? 1 : -1,
     };
-    this.lastX = this.state.x;
+    this.joining = [];
+    this.lastX = x;
     this.stallTimer = 0;
 
-    // Lock carrier + attacker + defender in maul
-    carrier.isInRuck = true;
-    attacker.isInRuck = true;
-    tackler.isInRuck = true;
+    // Lock everyone bound on in the maul
+    for (const p of [...attackers, ...defenders]) p.isInRuck = true;
 
-    EventBus.emit('ruckFormed', { x: this.state.x, y: this.state.y, attackingTeam: carrier.teamSide });
+    EventBus.emit('ruckFormed', { x, y, attackingTeam: attackers[0].teamSide });
   }
 
   /** Commit a player to the maul */
@@ -84,6 +127,18 @@ export class MaulSystem {
     }
   }
 
+  /**
+   * Send a player to the maul — they bind on once they've covered the
+   * ground, quicker the harder they work. Ignored if already on their way,
+   * or too far away to matter.
+   */
+  queueJoiner(player: Player, isAttacker: boolean): void {
+    if (!this.state.active || player.isInRuck || this.joining.some(j => j.player === player)) return;
+    const d = distance({ x: player.sprite.x, y: player.sprite.y }, this.state);
+    if (d > MAUL.JOIN_RANGE) return;
+    this.joining.push({ player, isAttacker, at: this.state.elapsed + (d / (MAUL.JOIN_SPEED * effort(player))) * 1000 });
+  }
+
   isActive(): boolean {
     return this.state.active;
   }
@@ -92,59 +147,98 @@ export class MaulSystem {
     return this.state;
   }
 
+  /** Back foot of each side's players in the maul — their offside lines */
+  getHindmostFeet(): { home: number; away: number } {
+    const feet = { home: this.state.x, away: this.state.x };
+    for (const p of [...this.state.attackers, ...this.state.defenders]) {
+      if (p.teamSide === 'home') feet.home = Math.min(feet.home, p.sprite.x);
+      else feet.away = Math.max(feet.away, p.sprite.x);
+    }
+    return feet;
+  }
+
+  /** The attack's push over the defence's (2 with nobody defending it) */
+  getPushRatio(): number {
+    const atk = this.state.attackers.reduce((sum, p) => sum + push(p), 0);
+    const def = this.state.defenders.reduce((sum, p) => sum + push(p), 0);
+    return def > 0 ? atk / def : 2.0;
+  }
+
+  /** How fast the maul is going forward (px/s, 0 if it isn't) */
+  getDriveSpeed(): number {
+    const ratio = this.getPushRatio();
+    return ratio > 1.0 ? Math.min(MAUL.MAX_SPEED, MAUL.DRIVE_SPEED * (ratio - 1)) : 0;
+  }
+
+  /** How far the maul is from the try line it's going for (px) */
+  distanceToLine(): number {
+    return this.state.direction === 1 ? PITCH.TRY_LINE_RIGHT - this.state.x : this.state.x - PITCH.TRY_LINE_LEFT;
+  }
+
   /**
    * Update the maul each frame.
    */
   update(delta: number, ball: Ball): void {
     if (!this.state.active) return;
 
-    const elapsed = Date.now() - this.state.startTime;
+    this.state.elapsed += delta;
 
     // Timeout — collapse
-    if (elapsed > MaulSystem.MAX_DURATION) {
+    if (this.state.elapsed > MAUL.MAX_DURATION) {
       this.collapse();
       return;
     }
 
-    // Calculate push strength
-    const atkStrength = this.state.attackers.reduce((sum, p) => sum + p.stats.strength, 0);
-    const defStrength = this.state.defenders.reduce((sum, p) => sum + p.stats.strength, 0);
-    const ratio = defStrength > 0 ? atkStrength / defStrength : 2.0;
+    this.bindArrivals();
 
-    // Defense overpowering — collapse if ratio < 0.8 for STALL_TIMEOUT
-    if (ratio < 0.8) {
-      this.stallTimer += delta;
-      if (this.stallTimer > MaulSystem.STALL_TIMEOUT) {
-        this.collapse();
+    // Movement: driven forward on the push of those bound on
+    const speed = this.getDriveSpeed();
+    if (speed > 0) {
+      // Defenders going backwards are tempted to pull it down
+      if (this.state.defenders.length > 0 && RNG.chance(MAUL.COLLAPSE_RATE * (speed / MAUL.MAX_SPEED) * (delta / 1000))) {
+        this.pulledDown(this.state.defenders[RNG.int(0, this.state.defenders.length - 1)]);
         return;
       }
-    } else {
-      this.stallTimer = 0;
-    }
 
-    // Movement: crawl forward based on ratio
-    if (ratio > 1.0) {
-      const moveSpeed = MaulSystem.CRAWL_SPEED * ratio * (delta / 1000);
-      this.state.x += moveSpeed * this.state.direction;
+      this.state.x += speed * (delta / 1000) * this.state.direction;
 
       // Move all maul participants
       for (const p of [...this.state.attackers, ...this.state.defenders]) {
-        p.sprite.x = this.state.x + (Math.random() - 0.5) * 20;
+        p.sprite.x = this.state.x + RNG.signed() * 10;
       }
 
       // Move ball with maul
       ball.sprite.setPosition(this.state.x, this.state.y);
+
+      if (this.distanceToLine() <= 0) {
+        this.drivenOver();
+        return;
+      }
     }
 
-    // Stall check — if barely moved
-    if (Math.abs(this.state.x - this.lastX) < 0.1) {
+    // Stall check — held or stopped, it has STALL_TIMEOUT to get going again
+    if (Math.abs(this.state.x - this.lastX) >= 0.1) {
+      this.lastX = this.state.x;
+      this.stallTimer = 0;
+    } else {
       this.stallTimer += delta;
-      if (this.stallTimer > MaulSystem.STALL_TIMEOUT) {
+      if (this.stallTimer > MAUL.STALL_TIMEOUT) {
         this.collapse();
         return;
       }
-    } else {
-      this.lastX = this.state.x;
+    }
+  }
+
+  /** Players who've reached the maul bind on, while there's room for them */
+  private bindArrivals(): void {
+    const arrived = this.joining.filter(j => j.at <= this.state.elapsed);
+    this.joining = this.joining.filter(j => j.at > this.state.elapsed);
+    for (const { player, isAttacker } of arrived) {
+      const side = isAttacker ? this.state.attackers : this.state.defenders;
+      if (player.isGrounded || player.isInRuck || side.length >= MAUL.MAX_PER_SIDE) continue;
+      player.sprite.setPosition(this.state.x, this.state.y + RNG.signed() * 20);
+      player.setVelocity(0, 0);
+      this.commitPlayer(player, isAttacker);
     }
   }
 
@@ -154,6 +248,30 @@ export class MaulSystem {
     EventBus.emit('ruckTimeout', { x: this.state.x, y: this.state.y });
   }
 
+  /** Carried over the line — the carrier grounds it at the bottom of the maul */
+  private drivenOver(): void {
+    const { x, y, carrier } = this.state;
+    if (!carrier) return;
+    this.endMaul();
+    EventBus.emit('maulTry', { team: carrier.teamSide, x, y, playerId: carrier.id, penaltyTry: false });
+  }
+
+  /**
+   * A defender brings the maul down illegally — a penalty, or a penalty try
+   * if it was close enough to the line that it would have scored.
+   */
+  private pulledDown(offender: Player): void {
+    const { x, y } = this.state;
+    const team = this.state.carrier?.teamSide ?? (offender.teamSide === 'home' ? 'away' : 'home');
+    const wouldHaveScored = this.distanceToLine() <= MAUL.PENALTY_TRY_RANGE;
+    this.endMaul();
+    if (wouldHaveScored) {
+      EventBus.emit('maulTry', { team, x, y, playerId: offender.id, penaltyTry: true });
+    } else {
+      EventBus.emit('penaltyAwarded', { x, y, reason: 'collapsing_maul', team, playerId: offender.id });
+    }
+  }
+
   /** End the maul and release all players */
   endMaul(): void {
     for (const p of [...this.state.attackers, ...this.state.defenders]) {
@@ -163,9 +281,10 @@ export class MaulSystem {
     this.state.attackers = [];
     this.state.defenders = [];
     this.state.carrier = null;
+    this.joining = [];
   }
 
-  /** Ball emerges from back of maul — attacking team retains */
+  /** Scrum-half uses it — ball emerges from back of maul, attacking team retains */
   releaseBall(): void {
     // Read state BEFORE endMaul() clears it
     const x = this.state.x;
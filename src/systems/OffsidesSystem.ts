@@ -1,14 +1,35 @@
-import Phaser from 'phaser';
-import { PITCH } from '../utils/Constants';
+import type Phaser from 'phaser';
+import { PITCH, OFFSIDE, Position } from '../utils/Constants';
 import type { Player } from '../entities/Player';
 
+/**
+ * Offside lines for every phase:
+ *   ruck    — the ruck's hindmost foot
+ *   maul    — each side's hindmost foot in the maul
+ *   scrum   — hindmost foot plus 5 m (forwards and scrum-halves excepted)
+ *   lineout — 10 m back from the line of touch (forwards and scrum-halves excepted)
+ *   kick    — the 10-metre law: the kicking side in front of the kicker has to
+ *             be 10 m back from where the ball comes down, until it is played
+ * Breakdown and set-piece lines replace each other; the kick line applies in
+ * open play once they are lifted. Scrum and lineout lines hold through the
+ * first phase after the set piece, until the ball is out — passed, kicked or
+ * lost by whoever came away with it, or carried past an offside line.
+ */
+export type OffsidePhase = 'ruck' | 'maul' | 'scrum' | 'lineout';
+
+type Side = 'home' | 'away';
+
 export class OffsidesSystem {
   private homeOffsideLineX = 0;
   private awayOffsideLineX: number = PITCH.WIDTH_PX;
   private debugMode = false;
 
-  // Track if we are in a ruck state to enforce strict lines
-  private isRuckActive = false;
+  /** Breakdown or set piece whose lines are being enforced */
+  private phase: OffsidePhase | null = null;
+  /** Kicking side, where the kick was taken and who was in front of it, while the 10-metre law applies */
+  private kick: { side: Side; kickX: number; lineX: number; inFront: Set<string> } | null = null;
+  /** Whoever came away with the ball at the set piece, while it is still in it */
+  private setPieceCarrier: Player | null = null;
 
   /**
    * Set offside lines based on ruck position.
@@ -16,64 +37,133 @@ export class OffsidesSystem {
    * @param isActive Whether ruck is active
    */
   setRuckOffsideLine(ruckX: number, isActive: boolean): void {
-    this.isRuckActive = isActive;
-    if (isActive) {
-      const RUCK_RADIUS = 60;
-      this.homeOffsideLineX = ruckX - RUCK_RADIUS;
-      this.awayOffsideLineX = ruckX + RUCK_RADIUS;
+    if (!isActive) {
+      this.clearRuckOffside();
+      return;
     }
+    this.setPhaseLines('ruck', ruckX - OFFSIDE.RUCK_DEPTH, ruckX + OFFSIDE.RUCK_DEPTH);
   }
 
   clearRuckOffside(): void {
-    this.isRuckActive = false;
+    if (this.phase === 'ruck') this.phase = null;
+  }
+
+  /**
+   * Set maul offside lines at each side's hindmost foot.
+   */
+  setMaulOffsideLine(homeBackFootX: number, awayBackFootX: number): void {
+    this.setPhaseLines('maul', homeBackFootX, awayBackFootX);
+  }
+
+  /**
+   * Set scrum offside lines — backs 5 m behind the hindmost foot.
+   * @param scrumX X position of the mark
+   */
+  setScrumOffsideLine(scrumX: number): void {
+    const depth = OFFSIDE.SCRUM_DEPTH + OFFSIDE.SCRUM_BACKS;
+    this.setPhaseLines('scrum', scrumX - depth, scrumX + depth);
+  }
+
+  /**
+   * Set lineout offside lines — 10 m back from the line of touch.
+   * @param touchX X position of the line of touch
+   */
+  setLineoutOffsideLine(touchX: number): void {
+    this.setPhaseLines('lineout', touchX - OFFSIDE.LINEOUT_BACKS, touchX + OFFSIDE.LINEOUT_BACKS);
+  }
+
+  /**
+   * The set piece is over and play resumes with the ball in someone's hands —
+   * its lines stay in force until the ball is out.
+   * @param carrier Whoever came away with the ball (scrum-half, peeler, catcher)
+   */
+  holdSetPieceLine(carrier: Player): void {
+    if (this.phase === 'scrum' || this.phase === 'lineout') this.setPieceCarrier = carrier;
+  }
+
+  /**
+   * A kick in open play — the kicking side's players in front of the
+   * kicker come under the 10-metre law until the ball is played.
+   * @param side Kicking side
+   * @param kickX Where the kick was taken
+   * @param landingX Where the ball will come down
+   * @param players The kicking side's players, to find who was in front
+   */
+  setKickOffsideLine(side: Side, kickX: number, landingX: number, players: readonly Player[]): void {
+    const inFront = players.filter(p => (side === 'home' ? p.sprite.x > kickX : p.sprite.x < kickX));
+    this.kick = { side, kickX, lineX: kickX, inFront: new Set(inFront.map(p => p.id)) };
+    this.setGeneralOffsideLine(landingX);
+  }
+
+  clearKickOffside(): void {
+    this.kick = null;
+  }
+
+  /** Side currently under the 10-metre law (null when none) */
+  getKickingSide(): Side | null {
+    return this.kick?.side ?? null;
   }
 
   /**
-   * Set general play offside line (e.g. based on ball).
-   * In general play (no ruck), offside is not enforced —
-   * only ruck situations have meaningful offside lines.
+   * Back to open play: breakdown and set-piece lines are lifted — set-piece
+   * ones once the ball is out. Under the 10-metre law the kicking side's line
+   * follows the ball — 10 m short of where it comes down (or lies), never in
+   * front of the kicker.
+   * @param ballX Where the ball is coming down, or lies once landed
+   * @param carrier Who has the ball, if anyone
    */
-  setGeneralOffsideLine(_ballX: number): void {
-    // No-op: offside only enforced during ruck
+  setGeneralOffsideLine(ballX: number, carrier: Player | null = null): void {
+    if (this.ballInSetPiece(carrier)) return;
+    this.setPieceCarrier = null;
+    this.phase = null;
+    if (!this.kick) return;
+    const { side, kickX } = this.kick;
+    this.kick.lineX = side === 'home'
+      ? Math.max(kickX, ballX - OFFSIDE.KICK_TEN_METRES)
+      : Math.min(kickX, ballX + OFFSIDE.KICK_TEN_METRES);
   }
 
   /**
    * Check if specific player is offside and return penalty details.
-   * Only returns offside during active ruck.
    */
   getOffsidePenalty(player: Player, _opponentAttacksRight: boolean): { isOffside: boolean; penaltyPos?: {x: number, y: number} } {
-    // Only enforce during ruck
-    if (!this.isRuckActive) return { isOffside: false };
-
-    if (player.teamSide === 'home') {
-      if (player.sprite.x > this.homeOffsideLineX) {
-        return { isOffside: true, penaltyPos: { x: this.homeOffsideLineX, y: player.sprite.y } };
-      }
-    } else {
-      if (player.sprite.x < this.awayOffsideLineX) {
-        return { isOffside: true, penaltyPos: { x: this.awayOffsideLineX, y: player.sprite.y } };
-      }
-    }
-    return { isOffside: false };
+    const line = this.getActiveLine(player.teamSide);
+    if (line === null || this.isExempt(player)) return { isOffside: false };
+    // Under the 10-metre law only those in front of the kicker are offside
+    if (!this.phase && !this.kick?.inFront.has(player.id)) return { isOffside: false };
+
+    const offside = player.teamSide === 'home' ? player.sprite.x > line : player.sprite.x < line;
+    if (!offside) return { isOffside: false };
+    return { isOffside: true, penaltyPos: { x: line, y: player.sprite.y } };
   }
 
   /**
    * Check if a player is offside (simple boolean).
-   * Only returns true during active ruck.
    */
   isOffside(player: Player): boolean {
-    if (!this.isRuckActive) return false;
     const result = this.getOffsidePenalty(player, player.teamSide !== 'home');
     return result.isOffside;
   }
 
   getOffsideLine(side: 'home' | 'away'): number {
+    if (!this.phase && this.kick?.side === side) return this.kick.lineX;
     return side === 'home' ? this.homeOffsideLineX : this.awayOffsideLineX;
   }
-  
-  /** Returns true only when ruck offside is active */
+
+  /** Line being enforced on a side right now, or null if there is none */
+  getActiveLine(side: 'home' | 'away'): number | null {
+    if (this.phase || this.kick?.side === side) return this.getOffsideLine(side);
+    return null;
+  }
+
+  /** Breakdown or set piece being enforced (null in open play) */
+  getPhase(): OffsidePhase | null {
+    return this.phase;
+  }
+
+  /** Returns true while any offside line is enforced */
   isActive(): boolean {
-    return this.isRuckActive;
+    return this.phase !== null || this.kick !== null;
   }
 
   toggleDebug(): void {
@@ -86,33 +176,55 @@ export class OffsidesSystem {
 
   /**
    * Render offside debug lines on the pitch (M5.4).
-   * Draws dotted red line for home offside, blue for away.
+   * Draws dotted red line for home offside, blue for away —
+   * whichever lines are being enforced.
    */
   renderDebugLine(graphics: Phaser.GameObjects.Graphics): void {
-    if (!this.debugMode || !this.isRuckActive) return;
+    if (!this.debugMode) return;
+
+    const homeLine = this.getActiveLine('home');
+    const awayLine = this.getActiveLine('away');
+
+    // Home offside line (red)
+    if (homeLine !== null) this.drawDashedLine(graphics, homeLine, 0xff0000);
+    // Away offside line (blue)
+    if (awayLine !== null) this.drawDashedLine(graphics, awayLine, 0x0000ff);
+  }
 
+  // ─────────────────────────────────────────────────────────
+  // INTERNALS
+  // ─────────────────────────────────────────────────────────
+
+  private setPhaseLines(phase: OffsidePhase, homeLineX: number, awayLineX: number): void {
+    this.phase = phase;
+    this.setPieceCarrier = null;
+    this.homeOffsideLineX = homeLineX;
+    this.awayOffsideLineX = awayLineX;
+    // Play has stopped or gone to ground — the kick has been played
+    this.kick = null;
+  }
+
+  /** Still with whoever came away with it, between the two offside lines */
+  private ballInSetPiece(carrier: Player | null): boolean {
+    if (!this.setPieceCarrier || carrier !== this.setPieceCarrier) return false;
+    return carrier.sprite.x > this.homeOffsideLineX && carrier.sprite.x < this.awayOffsideLineX;
+  }
+
+  /** Players the set-piece lines do not apply to — those in it and the halves feeding it */
+  private isExempt(player: Player): boolean {
+    if (this.phase !== 'scrum' && this.phase !== 'lineout') return false;
+    return player.position <= Position.SCRUM_HALF;
+  }
+
+  private drawDashedLine(graphics: Phaser.GameObjects.Graphics, x: number, color: number): void {
     const pitchTop = 0;
     const pitchBottom = PITCH.HEIGHT_PX;
     const dashLength = 10;
     const gapLength = 8;
 
-    // Home offside line (red)
-    graphics.lineStyle(2, 0xff0000, 0.7);
-    for (let y = pitchTop; y < pitchBottom; y += dashLength + gapLength) {
-      graphics.lineBetween(
-        this.homeOffsideLineX, y,
-        this.homeOffsideLineX, Math.min(y + dashLength, pitchBottom)
-      );
-    }
-
-    // Away offside line (blue)
-    graphics.lineStyle(2, 0x0000ff, 0.7);
+    graphics.lineStyle(2, color, 0.7);
     for (let y = pitchTop; y < pitchBottom; y += dashLength + gapLength) {
-      graphics.lineBetween(
-        this.awayOffsideLineX, y,
-        this.awayOffsideLineX, Math.min(y + dashLength, pitchBottom)
-      );
+      graphics.lineBetween(x, y, x, Math.min(y + dashLength, pitchBottom));
     }
   }
 }
-
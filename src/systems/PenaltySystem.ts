@@ -2,10 +2,20 @@
  * PenaltySystem — detects infringements and manages advantage.
  *
  * Infringement types: offside, hands_in_ruck, not_releasing,
- * high_tackle, obstruction, collapsing_scrum.
+ * high_tackle, obstruction, collapsing_scrum, plus the breakdown offences
+ * RuckSystem detects (offside_at_ruck, side_entry, off_feet, not_rolling_away).
+ *
+ * Advantage is played until the non-offending side has gained something:
+ *   territorial — the ball is TERRITORY_GAIN past the mark
+ *   tactical    — the window (time or breakdowns, whichever first) runs out
+ *                 with the non-offending side still in possession
+ * It is called back to the mark if they lose the ball, knock on, or play
+ * stops before either. Further infringements by the offending side are
+ * added as extra marks, and the best one is taken when called back.
  */
 
 import { EventBus } from '../utils/EventBus';
+import { ADVANTAGE } from '../utils/Constants';
 
 export type InfringementType =
   | 'offside'
@@ -16,12 +26,36 @@ export type InfringementType =
   | 'collapsing_scrum'
   | 'collapsing_scrum'
   | 'offside_at_ruck'
+  | 'side_entry'
+  | 'off_feet'
+  | 'not_rolling_away'
+  | 'forward_pass'
   | 'early_engagement';
 
 export type PenaltySeverity = 'penalty' | 'free_kick';
 
 export type PenaltyOption = 'kick_at_goal' | 'kick_to_touch' | 'scrum' | 'tap_and_go';
 
+export type AdvantageOutcome = 'territorial' | 'tactical' | 'called_back';
+
+/** An infringement and where it happened */
+export interface PenaltyMark {
+  x: number;
+  y: number;
+  infringement: InfringementType;
+  severity: PenaltySeverity;
+  playerId?: string;
+}
+
+export interface AdvantageConfig {
+  /** Ground past the mark that counts as territorial advantage (px) */
+  territoryGain: number;
+  /** Play allowed before tactical advantage is over (ms) — Infinity to disable */
+  windowMs: number;
+  /** Breakdowns allowed before tactical advantage is over — Infinity to disable */
+  windowPhases: number;
+}
+
 export interface PenaltyState {
   active: boolean;
   x: number;
@@ -31,9 +65,16 @@ export interface PenaltyState {
   advantagePlaying: boolean;
   advantageStartX: number;
   severity: PenaltySeverity;
+  /** Every infringement while advantage was played, first one first */
+  marks: PenaltyMark[];
+  /** Time advantage has been played (ms) */
+  advantageElapsed: number;
+  /** Breakdowns since advantage began */
+  advantagePhases: number;
 }
 
 export class PenaltySystem {
+  private config: AdvantageConfig;
   private state: PenaltyState = {
     active: false, x: 0, y: 0,
     infringement: 'offside',
@@ -41,22 +82,54 @@ export class PenaltySystem {
     advantagePlaying: false,
     advantageStartX: 0,
     severity: 'penalty',
+    marks: [],
+    advantageElapsed: 0,
+    advantagePhases: 0,
   };
 
+  constructor(config: Partial<AdvantageConfig> = {}) {
+    this.config = {
+      territoryGain: ADVANTAGE.TERRITORY_GAIN,
+      windowMs: ADVANTAGE.WINDOW_MS,
+      windowPhases: ADVANTAGE.WINDOW_PHASES,
+      ...config,
+    };
+  }
+
   /**
    * Signal an infringement.
    * If advantage is applicable, play continues until gain or no gain.
+   * During advantage, another offence by the same side adds a mark; one by
+   * the non-offending side brings play back to the original mark.
    */
   signalInfringement(
     type: InfringementType,
     x: number, y: number,
     againstTeam: 'home' | 'away',
     playAdvantage: boolean = true,
+    playerId?: string,
   ): void {
-    if (this.state.active) return; // Don't stack penalties
-
     const severity: PenaltySeverity = (type === 'early_engagement') ? 'free_kick' : 'penalty';
 
+    if (this.state.advantagePlaying) {
+      if (againstTeam !== this.state.againstTeam) {
+        this.advantageOver(0);
+        return;
+      }
+      // The same player still offending is not a fresh infringement
+      if (playerId && this.state.marks.some(m => m.playerId === playerId && m.infringement === type)) return;
+
+      this.state.marks.push({ x, y, infringement: type, severity, playerId });
+      if (!playAdvantage) {
+        this.advantageOver();
+        return;
+      }
+      this.emitAdvantage(x, y, type);
+      return;
+    }
+
+    if (this.state.active) return; // Penalty already awarded, awaiting the option
+
     this.state = {
       active: true, x, y,
       infringement: type,
@@ -64,18 +137,45 @@ export class PenaltySystem {
       advantagePlaying: playAdvantage,
       advantageStartX: x,
       severity,
+      marks: [{ x, y, infringement: type, severity, playerId }],
+      advantageElapsed: 0,
+      advantagePhases: 0,
     };
 
-    if (!playAdvantage) {
-      this.awardPenalty();
+    if (playAdvantage) {
+      this.emitAdvantage(x, y, type);
+      return;
     }
 
-    EventBus.emit('penaltyAwarded', { 
-       x, y, 
-       reason: type, 
-       againstAttack: againstTeam === 'home',
-       severity 
-    });
+    this.awardPenalty(this.state.marks[0]);
+  }
+
+  /**
+   * Advance advantage by one frame.
+   * @param delta Frame time (ms)
+   * @param currentBallX Current ball x position
+   * @param possession Side in possession (null = loose ball)
+   */
+  update(delta: number, currentBallX: number, possession: 'home' | 'away' | null): void {
+    if (!this.state.advantagePlaying) return;
+
+    if (possession === this.state.againstTeam) {
+      this.advantageOver();
+      return;
+    }
+    if (this.checkAdvantageGained(currentBallX, this.getBenefitTeam())) return;
+
+    this.state.advantageElapsed += delta;
+    const windowUp = this.state.advantageElapsed >= this.config.windowMs
+      || this.state.advantagePhases >= this.config.windowPhases;
+    if (windowUp && possession === this.getBenefitTeam()) {
+      this.endAdvantage('tactical');
+    }
+  }
+
+  /** A breakdown has formed while advantage is being played */
+  recordPhase(): void {
+    if (this.state.advantagePlaying) this.state.advantagePhases++;
   }
 
   /**
@@ -88,30 +188,31 @@ export class PenaltySystem {
     if (!this.state.advantagePlaying) return false;
 
     const gained = benefitTeam === 'home'
-      ? currentBallX - this.state.advantageStartX > 100  // 10m forward
-      : this.state.advantageStartX - currentBallX > 100;
+      ? currentBallX - this.state.advantageStartX > this.config.territoryGain
+      : this.state.advantageStartX - currentBallX > this.config.territoryGain;
 
     if (gained) {
-      this.state.active = false;
-      this.state.advantagePlaying = false;
+      this.endAdvantage('territorial');
       return true;
     }
     return false;
   }
 
   /**
-   * Advantage over, no gain → award penalty at original mark.
+   * Advantage over, no gain → award penalty back at the mark.
+   * @param markIndex Mark chosen by the non-offending side (default: the best)
    */
-  advantageOver(): void {
-    if (this.state.advantagePlaying) {
-      this.state.advantagePlaying = false;
-      this.awardPenalty();
-    }
-  }
+  advantageOver(markIndex?: number): void {
+    if (!this.state.advantagePlaying) return;
 
-  private awardPenalty(): void {
-    // Penalty is now stoppable — awaiting team choice
-    EventBus.emit('whistle', { type: 'short' });
+    const mark = (markIndex !== undefined && this.state.marks[markIndex]) || this.bestMark();
+    this.state.advantagePlaying = false;
+    this.state.x = mark.x;
+    this.state.y = mark.y;
+    this.state.infringement = mark.infringement;
+    this.state.severity = mark.severity;
+    EventBus.emit('advantageOver', { team: this.getBenefitTeam(), outcome: 'called_back' });
+    this.awardPenalty(mark);
   }
 
   /**
@@ -126,12 +227,67 @@ export class PenaltySystem {
     return this.state;
   }
 
+  getMarks(): readonly PenaltyMark[] {
+    return this.state.marks;
+  }
+
+  /** Side advantage is (or was last) being played for */
+  getBenefitTeam(): 'home' | 'away' {
+    return this.state.againstTeam === 'home' ? 'away' : 'home';
+  }
+
   isActive(): boolean {
     return this.state.active;
   }
 
+  isPlayingAdvantage(): boolean {
+    return this.state.advantagePlaying;
+  }
+
   reset(): void {
     this.state.active = false;
     this.state.advantagePlaying = false;
   }
+
+  // ─────────────────────────────────────────────────────────
+  // INTERNALS
+  // ─────────────────────────────────────────────────────────
+
+  /** Penalty over free kick, then the mark furthest up the pitch for the non-offending side */
+  private bestMark(): PenaltyMark {
+    const dir = this.getBenefitTeam() === 'home' ? 1 : -1;
+    return this.state.marks.reduce((best, m) => {
+      if (m.severity !== best.severity) return m.severity === 'penalty' ? m : best;
+      return m.x * dir > best.x * dir ? m : best;
+    });
+  }
+
+  /** Advantage gained — play on, the infringements are wiped */
+  private endAdvantage(outcome: AdvantageOutcome): void {
+    this.state.active = false;
+    this.state.advantagePlaying = false;
+    EventBus.emit('advantageOver', { team: this.getBenefitTeam(), outcome });
+  }
+
+  private emitAdvantage(x: number, y: number, type: InfringementType): void {
+    EventBus.emit('advantage', {
+      team: this.getBenefitTeam(),
+      x, y,
+      reason: type,
+      infringements: this.state.marks.length,
+    });
+  }
+
+  private awardPenalty(mark: PenaltyMark): void {
+    // Penalty is now stoppable — awaiting team choice
+    EventBus.emit('whistle', { type: 'short' });
+    EventBus.emit('penaltyAwarded', {
+      x: mark.x, y: mark.y,
+      reason: mark.infringement,
+      team: this.getBenefitTeam(),
+      againstAttack: this.state.againstTeam === 'home',
+      severity: mark.severity,
+      playerId: mark.playerId,
+    });
+  }
 }
@@ -3,6 +3,7 @@
  *
  * Tracks the current game phase and enforces valid transitions:
  *   KICK_OFF → OPEN_PLAY → TACKLE → RUCK → OPEN_PLAY (cycle)
+ * Drop-outs restart play like a kick-off: DROP_OUT_22 / GOAL_LINE_DROP_OUT → OPEN_PLAY.
  *
  * Emits events via EventBus on every transition.
  */
@@ -12,20 +13,24 @@ import { EventBus } from '../utils/EventBus';
 
 /** Valid transitions from each phase */
 const TRANSITIONS: Record<string, string[]> = {
-  KICK_OFF:    ['OPEN_PLAY'],
-  OPEN_PLAY:   ['TACKLE', 'KNOCK_ON', 'TOUCH', 'PENALTY', 'TRY_SCORED', 'DROP_GOAL', 'MAUL', 'HALF_TIME', 'FULL_TIME'],
+  KICK_OFF:    ['OPEN_PLAY', 'SCRUM'], // SCRUM when it doesn't go 10 m
+  DROP_OUT_22: ['OPEN_PLAY', 'SCRUM'],
+  GOAL_LINE_DROP_OUT: ['OPEN_PLAY', 'SCRUM'],
+  OPEN_PLAY:   ['TACKLE', 'KNOCK_ON', 'TOUCH', 'FORWARD_PASS', 'PENALTY', 'TRY_SCORED', 'TMO_REVIEW', 'DROP_GOAL', 'MAUL', 'DROP_OUT_22', 'GOAL_LINE_DROP_OUT', 'HALF_TIME', 'FULL_TIME'],
   TACKLE:      ['RUCK', 'MAUL', 'PENALTY', 'TRY_SCORED', 'KNOCK_ON'],
   RUCK:        ['OPEN_PLAY', 'PENALTY', 'SCRUM'],
   MAUL:        ['OPEN_PLAY', 'SCRUM', 'PENALTY', 'TRY_SCORED'], // SCRUM acts as turnover
-  SCRUM:       ['OPEN_PLAY', 'PENALTY', 'SCRUM'], // SCRUM->SCRUM for resets
-  LINEOUT:     ['OPEN_PLAY', 'MAUL', 'PENALTY'],
+  SCRUM:       ['OPEN_PLAY', 'PENALTY', 'SCRUM', 'TRY_SCORED'], // SCRUM->SCRUM for resets, TRY_SCORED for a pushover
+  LINEOUT:     ['OPEN_PLAY', 'MAUL', 'PENALTY', 'SCRUM'], // SCRUM for a throw not straight
   KNOCK_ON:    ['SCRUM'],
-  TOUCH:       ['LINEOUT'],
-  PENALTY:     ['OPEN_PLAY', 'SCRUM', 'LINEOUT', 'CONVERSION', 'TAP_AND_GO'],
+  FORWARD_PASS: ['SCRUM'],
+  TOUCH:       ['LINEOUT', 'OPEN_PLAY'], // OPEN_PLAY for a quick throw-in
+  PENALTY:     ['OPEN_PLAY', 'SCRUM', 'LINEOUT', 'CONVERSION', 'TAP_AND_GO', 'KICK_OFF', 'DROP_OUT_22'],
   TAP_AND_GO:  ['OPEN_PLAY'],
-  TRY_SCORED:  ['CONVERSION'],
+  TMO_REVIEW:  ['TRY_SCORED', 'SCRUM', 'LINEOUT', 'GOAL_LINE_DROP_OUT'],
+  TRY_SCORED:  ['CONVERSION', 'TMO_REVIEW'],
   CONVERSION:  ['KICK_OFF'],
-  DROP_GOAL:   ['KICK_OFF'],
+  DROP_GOAL:   ['KICK_OFF', 'DROP_OUT_22'],
   HALF_TIME:   ['KICK_OFF'],
   FULL_TIME:   [],
 };
@@ -106,7 +111,7 @@ export class PhaseManager {
     }
 
     // Reset phase count on set pieces and scoring
-    if (['KICK_OFF', 'SCRUM', 'LINEOUT'].includes(to)) {
+    if (['KICK_OFF', 'DROP_OUT_22', 'GOAL_LINE_DROP_OUT', 'SCRUM', 'LINEOUT'].includes(to)) {
       this.phaseCount = 0;
     }
 
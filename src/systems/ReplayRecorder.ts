@@ -0,0 +1,292 @@
+/**
+ * ReplayRecorder — captures a match for later playback.
+ *
+ * Records every EventBus event (except per-frame clock ticks) and samples
+ * player + ball positions at a fixed interval. Positions are rounded to
+ * whole pixels and delta-encoded against the previous frame when
+ * serialised, which keeps a full match well inside the localStorage quota.
+ *
+ * Format versions: bump REPLAY_VERSION whenever the serialised layout
+ * changes — older saves are then rejected by `deserialize`.
+ */
+
+import type { Team } from '../entities/Team';
+import type { Ball } from '../entities/Ball';
+import type { ClockSystem } from './ClockSystem';
+import type { ScoringSystem } from './ScoringSystem';
+import { EventBus } from '../utils/EventBus';
+import type { GameEvents } from '../utils/EventBus';
+
+export const REPLAY_VERSION = 1;
+
+/** Sample interval for position frames (ms) — 10 Hz */
+export const REPLAY_FRAME_INTERVAL = 100;
+
+const STORAGE_KEY = 'rugby_replay_last';
+
+/** Slot in the frame's player array */
+export interface ReplayPlayerInfo {
+  side: 'home' | 'away';
+  position: number;
+}
+
+/** One position sample */
+export interface ReplayFrame {
+  /** Recording time (ms) */
+  t: number;
+  /** Game clock (seconds since kick-off) */
+  clock: number;
+  score: [number, number];
+  ball: [number, number];
+  /** Flat x,y pairs in `players` slot order */
+  players: number[];
+}
+
+export interface ReplayEvent {
+  /** Recording time (ms) */
+  t: number;
+  event: keyof GameEvents;
+  data: unknown;
+}
+
+export interface ReplayTeamInfo {
+  name: string;
+  color: number;
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  recordedAt: string;
+  home: ReplayTeamInfo;
+  away: ReplayTeamInfo;
+  frameInterval: number;
+  /** Total recorded time (ms) */
+  duration: number;
+  players: ReplayPlayerInfo[];
+  frames: ReplayFrame[];
+  events: ReplayEvent[];
+}
+
+/** Stored layout: frames flattened to [t, clock, hs, as, bx, by, p0x, p0y, …] deltas */
+interface SerializedReplay extends Omit<Replay, 'frames'> {
+  frames: number[][];
+}
+
+/** Data sources sampled on each frame */
+export interface ReplaySources {
+  homeTeam: Team;
+  awayTeam: Team;
+  ball: Ball;
+  clock: ClockSystem;
+  scoring: ScoringSystem;
+}
+
+export class ReplayRecorder {
+  private sources: ReplaySources;
+  private replay: Replay;
+  private elapsed = 0;
+  private sampleTimer = 0;
+  private recording = false;
+
+  private onAnyEvent = <K extends keyof GameEvents>(event: K, data: GameEvents[K]) => {
+    if (event === 'clockTick') return; // The clock is already in every frame
+    this.replay.events.push({ t: this.elapsed, event, data });
+  };
+
+  constructor(sources: ReplaySources, meta: { seed: number; home: ReplayTeamInfo; away: ReplayTeamInfo }) {
+    this.sources = sources;
+    this.replay = {
+      version: REPLAY_VERSION,
+      seed: meta.seed,
+      recordedAt: new Date().toISOString(),
+      home: meta.home,
+      away: meta.away,
+      frameInterval: REPLAY_FRAME_INTERVAL,
+      duration: 0,
+      players: [...sources.homeTeam.getLineup(), ...sources.awayTeam.getLineup()]
+        .map(p => ({ side: p.teamSide, position: p.position })),
+      frames: [],
+      events: [],
+    };
+  }
+
+  /** Begin listening to the EventBus and take the first frame */
+  start(): void {
+    if (this.recording) return;
+    this.recording = true;
+    EventBus.onAny(this.onAnyEvent);
+    this.sample();
+  }
+
+  /**
+   * Advance the recording clock — call once per frame.
+   * @param delta Frame delta in ms
+   */
+  update(delta: number): void {
+    if (!this.recording) return;
+    this.elapsed += delta;
+    this.sampleTimer += delta;
+    if (this.sampleTimer >= REPLAY_FRAME_INTERVAL) {
+      this.sampleTimer -= REPLAY_FRAME_INTERVAL;
+      this.sample();
+    }
+  }
+
+  /** Stop recording and return the finished replay (safe to call twice) */
+  stop(): Replay {
+    if (this.recording) {
+      this.recording = false;
+      EventBus.offAny(this.onAnyEvent);
+      this.sample();
+      this.replay.duration = this.elapsed;
+    }
+    return this.replay;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * The most recent stretch of play as a standalone replay, rebased so
+   * it starts at t = 0. The full recording doubles as the rolling buffer,
+   * so this works at any point without a separate capture.
+   * @param durationMs How much play to keep, counting back from now
+   */
+  clip(durationMs: number): Replay {
+    const start = Math.max(0, this.elapsed - durationMs);
+    const frames = this.replay.frames
+      .filter(f => f.t >= start)
+      .map(f => ({ ...f, t: f.t - start }));
+    const events = this.replay.events
+      .filter(e => e.t >= start)
+      .map(e => ({ ...e, t: e.t - start }));
+    return {
+      ...this.replay,
+      duration: frames.length > 0 ? frames[frames.length - 1].t : 0,
+      frames,
+      events,
+    };
+  }
+
+  private sample(): void {
+    const { homeTeam, awayTeam, ball, clock, scoring } = this.sources;
+    const players: number[] = [];
+    // By lineup slot, so frames keep their shape while a player is in the sin bin
+    for (const p of [...homeTeam.getLineup(), ...awayTeam.getLineup()]) {
+      players.push(Math.round(p.sprite.x), Math.round(p.sprite.y));
+    }
+    const score = scoring.getScore();
+    this.replay.frames.push({
+      t: this.elapsed,
+      clock: clock.getMinutes() * 60 + clock.getSeconds(),
+      score: [score.home, score.away],
+      ball: [Math.round(ball.sprite.x), Math.round(ball.sprite.y)],
+      players,
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // SERIALISATION
+  // ─────────────────────────────────────────────────────────
+
+  /** Encode a replay as compact JSON */
+  static serialize(replay: Replay): string {
+    let prev: number[] = [];
+    const frames = replay.frames.map(f => {
+      const flat = [f.t, f.clock, ...f.score, ...f.ball, ...f.players];
+      const delta = flat.map((v, i) => v - (prev[i] ?? 0));
+      prev = flat;
+      return delta;
+    });
+    const stored: SerializedReplay = { ...replay, frames };
+    return JSON.stringify(stored);
+  }
+
+  /**
+   * Decode a replay produced by `serialize`.
+   * @returns The replay, or null if the data is malformed or from another format version
+   */
+  static deserialize(json: string): Replay | null {
+    let stored: SerializedReplay;
+    try {
+      stored = JSON.parse(json);
+    } catch {
+      return null;
+    }
+    if (!stored || stored.version !== REPLAY_VERSION || !Array.isArray(stored.frames)) return null;
+
+    let prev: number[] = [];
+    const frames = stored.frames.map(delta => {
+      const flat = delta.map((v, i) => v + (prev[i] ?? 0));
+      prev = flat;
+      return {
+        t: flat[0],
+        clock: flat[1],
+        score: [flat[2], flat[3]] as [number, number],
+        ball: [flat[4], flat[5]] as [number, number],
+        players: flat.slice(6),
+      };
+    });
+    return { ...stored, frames };
+  }
+
+  /**
+   * Save as the "last match" replay.
+   * @returns false if storage is unavailable or the quota is exceeded
+   */
+  static save(replay: Replay): boolean {
+    try {
+      localStorage.setItem(STORAGE_KEY, ReplayRecorder.serialize(replay));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Load the last saved replay, if any */
+  static load(): Replay | null {
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      return data ? ReplayRecorder.deserialize(data) : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Interpolated frame at an arbitrary recording time.
+ * Times outside the recording clamp to the first/last frame.
+ */
+export function sampleReplay(replay: Replay, t: number): ReplayFrame {
+  const frames = replay.frames;
+  if (frames.length === 0) {
+    return { t, clock: 0, score: [0, 0], ball: [0, 0], players: [] };
+  }
+  if (t <= frames[0].t) return frames[0];
+  if (t >= frames[frames.length - 1].t) return frames[frames.length - 1];
+
+  // Binary search for the last frame at or before t
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].t <= t) lo = mid;
+    else hi = mid;
+  }
+
+  const a = frames[lo];
+  const b = frames[hi];
+  const alpha = b.t > a.t ? (t - a.t) / (b.t - a.t) : 0;
+  const lerp = (x: number, y: number) => x + (y - x) * alpha;
+
+  return {
+    t,
+    clock: a.clock,
+    score: a.score,
+    ball: [lerp(a.ball[0], b.ball[0]), lerp(a.ball[1], b.ball[1])],
+    players: a.players.map((v, i) => lerp(v, b.players[i] ?? v)),
+  };
+}
@@ -4,15 +4,42 @@
  * When a tackle occurs and the ball is presented, a ruck zone forms.
  * Nearby players auto-commit, and a tug-of-war contest ticks every 300 ms
  * until one side wins or the ruck times out.
+ *
+ * Infringements come from what players actually do, each pinned on a player:
+ *   offside_at_ruck  — caught in front of the ball when the ruck formed and
+ *                      joined without retiring behind OffsidesSystem's line
+ *   side_entry       — joined from further across than back
+ *   off_feet         — driven off their feet, then profiting from it
+ *   not_rolling_away — the tackler still lying on the wrong side when the
+ *                      ball should come out
+ *   hands_in_ruck    — a jackal attempt after the ruck had formed
+ *   not_releasing    — the tackled player holding on under a legal jackal
  */
 
-import Phaser from 'phaser';
+import type Phaser from 'phaser';
 import type { Player } from '../entities/Player';
+import type { OffsidesSystem } from './OffsidesSystem';
+import type { InfringementType } from './PenaltySystem';
 import { RUCK } from '../utils/Constants';
 import type { DifficultyConfig } from '../utils/Constants';
 import { DIFFICULTY } from '../utils/Constants';
 import { EventBus } from '../utils/EventBus';
 
+/** Who was involved in the tackle that made the ruck */
+export interface RuckBreakdown {
+  tackler?: Player;
+  /** The tackled player, on the ground with the ball */
+  carrier?: Player;
+  /** Everyone on the pitch — used to catch players offside as the ruck forms */
+  players?: readonly Player[];
+}
+
+/** An offence waiting for the next contest tick */
+interface RuckInfringement {
+  type: InfringementType;
+  player: Player;
+}
+
 export interface RuckState {
   /** Is a ruck currently active? */
   active: boolean;
@@ -26,10 +53,19 @@ export interface RuckState {
   defenders: Player[];
   /** Running dominance score (positive = attack winning) */
   dominance: number;
-  /** Time of ruck formation */
-  startTime: number;
+  /** Time since ruck formation (ms) */
+  elapsed: number;
   /** Whether the ball is available for pickup */
   ballAvailable: boolean;
+  /** Tackler and tackled player, if known */
+  tackler: Player | null;
+  carrier: Player | null;
+  /** Defender who got over the ball before the ruck formed */
+  jackler: Player | null;
+  /** Committed players who have been driven off their feet */
+  offFeet: Player[];
+  /** Elapsed time the first attacker bound on (ms), null until then */
+  formedAt: number | null;
 }
 
 export class RuckSystem {
@@ -39,20 +75,27 @@ export class RuckSystem {
     attackingTeam: 'home',
     attackers: [], defenders: [],
     dominance: 0,
-    startTime: 0,
+    elapsed: 0,
     ballAvailable: false,
+    tackler: null, carrier: null, jackler: null,
+    offFeet: [],
+    formedAt: null,
   };
   private tickTimer: number = 0;
   private scene: Phaser.Scene;
   private ruckZone: Phaser.GameObjects.Arc | null = null;
   private difficulty: DifficultyConfig = DIFFICULTY.MEDIUM;
+  private offsides: OffsidesSystem | null = null;
+  /** Players caught in front of the ball who have not yet retired */
+  private caughtOffside = new Set<Player>();
+  private pending: RuckInfringement[] = [];
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
   }
 
   /** Form a ruck at the given position */
-  startRuck(x: number, y: number, attackingTeam: 'home' | 'away' = 'home'): void {
+  startRuck(x: number, y: number, attackingTeam: 'home' | 'away' = 'home', breakdown: RuckBreakdown = {}): void {
     this.state = {
       active: true,
       x, y,
@@ -60,10 +103,28 @@ export class RuckSystem {
       attackers: [],
       defenders: [],
       dominance: 0,
-      startTime: Date.now(),
+      elapsed: 0,
       ballAvailable: false,
+      tackler: breakdown.tackler ?? null,
+      carrier: breakdown.carrier ?? null,
+      jackler: null,
+      offFeet: [],
+      formedAt: null,
     };
     this.tickTimer = 0;
+    this.pending = [];
+
+    // Anyone in front of the ball and their line has to retire before joining
+    this.caughtOffside.clear();
+    if (this.offsides) {
+      this.offsides.setRuckOffsideLine(x, true);
+      for (const p of breakdown.players ?? []) {
+        if (p === breakdown.tackler || p === breakdown.carrier) continue;
+        if (this.offsides.isOffside(p) && this.depthBehindBall(p) < -RUCK.ENTRY_TOLERANCE) {
+          this.caughtOffside.add(p);
+        }
+      }
+    }
 
     // Draw ruck zone visually
     this.ruckZone = this.scene.add.circle(x, y, RUCK.ZONE_RADIUS, 0xffa500, 0.15);
@@ -85,6 +146,25 @@ export class RuckSystem {
     if (list.length >= 5) return;
 
     list.push(player);
+    EventBus.emit('ruckCommitted', { playerId: player.id, attacking: isAttacker });
+
+    const entry = this.checkEntry(player);
+    if (entry) this.pending.push({ type: entry, player });
+
+    if (isAttacker) {
+      this.state.formedAt ??= this.state.elapsed;
+      return;
+    }
+
+    // First defender in goes for the ball — legal only before the ruck has formed
+    if (this.state.defenders.length === 1 && !entry) {
+      const formed = this.state.formedAt !== null && this.state.elapsed - this.state.formedAt >= RUCK.JACKAL_WINDOW;
+      if (!formed) {
+        this.state.jackler = player;
+      } else if (player.stats.awareness < RUCK.JACKAL_AWARENESS) {
+        this.pending.push({ type: 'hands_in_ruck', player });
+      }
+    }
   }
 
   /**
@@ -95,6 +175,14 @@ export class RuckSystem {
     if (!this.state.active) return;
 
     this.tickTimer += delta;
+    this.state.elapsed += delta;
+
+    // Caught-offside players are onside again once back behind their line
+    if (this.offsides) {
+      for (const p of this.caughtOffside) {
+        if (!this.offsides.isOffside(p)) this.caughtOffside.delete(p);
+      }
+    }
 
     // Contest tick
     if (this.tickTimer >= RUCK.TICK_INTERVAL) {
@@ -103,29 +191,45 @@ export class RuckSystem {
     }
 
     // Timeout check
-    if (Date.now() - this.state.startTime > RUCK.TIMEOUT) {
+    if (this.state.elapsed > RUCK.TIMEOUT) {
       this.resolveTimeout();
     }
   }
 
   /** Calculate one contest tick */
   private contestTick(): void {
-    const atkPower = this.state.attackers.reduce(
-      (sum, p) => sum + (p.stats.strength * 1.5 + p.stats.workRate) / 250, 0
-    );
-    const defPower = this.state.defenders.reduce(
-      (sum, p) => sum + (p.stats.strength * 1.5 + p.stats.workRate) / 250, 0
-    ) * this.difficulty.ruckStrengthModifier;
+    // Offences are called before the contest can profit from them
+    if (this.checkInfringements()) return;
+
+    // A jackler over the ball with nobody to clear him wins the holding-on penalty
+    const { jackler, carrier } = this.state;
+    if (jackler && carrier && this.state.attackers.length === 0 && this.state.elapsed >= RUCK.HOLDING_ON_MS) {
+      this.penalise('not_releasing', carrier);
+      return;
+    }
+
+    const atkPower = this.sidePower(this.state.attackers);
+    const defPower = this.sidePower(this.state.defenders) * this.difficulty.ruckStrengthModifier;
 
     // Ensure at least some base power — minimum so dominance always climbs
     const atkTotal = Math.max(atkPower, 0.4);  // Guaranteed minimum even with 0 committed
     const defTotal = Math.max(defPower, 0.2);  // Increased baseline defense slightly
 
+    // The side being driven back loses its weaker players off their feet
+    if (atkTotal - defTotal > RUCK.OFF_FEET_MARGIN) this.driveOffFeet(this.state.defenders);
+    if (defTotal - atkTotal > RUCK.OFF_FEET_MARGIN) this.driveOffFeet(this.state.attackers);
+
     // Dominance shifts faster to reward having more players committed
     this.state.dominance += (atkTotal - defTotal) * 0.7;
 
     // Ball becomes available when attack dominance exceeds threshold
     if (this.state.dominance > RUCK.RELEASE_THRESHOLD && !this.state.ballAvailable) {
+      // ...unless the tackler is still lying on the wrong side of it
+      const tackler = this.state.tackler;
+      if (tackler && tackler.isGrounded && this.inZone(tackler) && this.depthBehindBall(tackler) < -RUCK.ENTRY_TOLERANCE) {
+        this.penalise('not_rolling_away', tackler);
+        return;
+      }
       this.state.ballAvailable = true;
       EventBus.emit('ruckBallAvailable', {
         x: this.state.x,
@@ -143,10 +247,13 @@ export class RuckSystem {
         attackingTeam: losingTeam,  // The new attacker is the former defender
       });
       this.endRuck();
+      return;
     }
 
-    // Infringement check (random, weighted by awareness)
-    this.checkInfringements();
+    // Off feet and on the winning side — killing or sealing off the ball
+    const winners = atkTotal > defTotal ? this.state.attackers : this.state.defenders;
+    const sealing = this.state.offFeet.find(p => winners.includes(p));
+    if (sealing) this.penalise('off_feet', sealing);
   }
 
   /** Set difficulty config for ruck strength scaling */
@@ -154,25 +261,74 @@ export class RuckSystem {
     this.difficulty = config;
   }
 
-  /** Random infringement check during ruck */
-  private checkInfringements(): void {
-    // Small chance of penalty each tick
-    const penaltyChance = 0.02; // 2% per tick
+  /** Offside lines to judge entry by — without them only the ball is used */
+  setOffsides(offsides: OffsidesSystem): void {
+    this.offsides = offsides;
+  }
 
-    if (Math.random() < penaltyChance) {
-      const types = ['hands_in_ruck', 'not_releasing', 'offside_at_ruck'];
-      const type = types[Math.floor(Math.random() * types.length)];
-      EventBus.emit('penaltyAwarded', {
-        x: this.state.x,
-        y: this.state.y,
-        reason: type,
-        // Alternate between teams — simplified
-        againstAttack: Math.random() < 0.4,
-      });
-      this.endRuck();
+  /** Award the first offence waiting since the last tick */
+  private checkInfringements(): boolean {
+    const offence = this.pending.find(o => this.state.attackers.includes(o.player) || this.state.defenders.includes(o.player));
+    if (!offence) return false;
+    this.penalise(offence.type, offence.player);
+    return true;
+  }
+
+  /** Blow up for an offence by a named player and clear the ruck */
+  private penalise(type: InfringementType, player: Player): void {
+    const againstAttack = player.teamSide === this.state.attackingTeam;
+    EventBus.emit('penaltyAwarded', {
+      x: this.state.x,
+      y: this.state.y,
+      reason: type,
+      team: player.teamSide === 'home' ? 'away' : 'home',
+      againstAttack,
+      playerId: player.id,
+    });
+    this.endRuck();
+  }
+
+  /** How a player joined the ruck — null if legally, through the gate */
+  private checkEntry(player: Player): InfringementType | null {
+    if (this.caughtOffside.has(player)) return 'offside_at_ruck';
+    const depth = this.depthBehindBall(player);
+    const across = Math.abs(player.sprite.y - this.state.y);
+    if (depth < -RUCK.ENTRY_TOLERANCE) return 'offside_at_ruck';
+    if (across > RUCK.GATE_HALF_WIDTH && across > depth) return 'side_entry';
+    return null;
+  }
+
+  /** Driving power of a side — players off their feet add nothing, a timely jackler more */
+  private sidePower(players: Player[]): number {
+    return players.reduce((sum, p) => {
+      if (this.state.offFeet.includes(p)) return sum;
+      const power = (p.stats.strength * 1.5 + p.stats.workRate) / 250;
+      return sum + (p === this.state.jackler ? power * RUCK.JACKAL_BONUS : power);
+    }, 0);
+  }
+
+  private driveOffFeet(players: Player[]): void {
+    for (const p of players) {
+      if (p.stats.strength < RUCK.KEEP_FEET_STRENGTH && !this.state.offFeet.includes(p)) {
+        this.state.offFeet.push(p);
+        if (p === this.state.jackler) this.state.jackler = null;
+      }
     }
   }
 
+  /**
+   * How far a player is on his own side of the ball (px) — negative when
+   * in front of it, on the opposition's side.
+   */
+  private depthBehindBall(player: Player): number {
+    const dx = player.sprite.x - this.state.x;
+    return player.teamSide === 'home' ? -dx : dx;
+  }
+
+  private inZone(player: Player): boolean {
+    return Math.hypot(player.sprite.x - this.state.x, player.sprite.y - this.state.y) <= RUCK.ZONE_RADIUS;
+  }
+
   /** Ruck timed out — award scrum */
   private resolveTimeout(): void {
     EventBus.emit('ruckTimeout', {
@@ -194,6 +350,10 @@ export class RuckSystem {
     this.state.defenders = [];
     this.state.dominance = 0;
     this.state.ballAvailable = false;
+    this.state.jackler = null;
+    this.state.offFeet = [];
+    this.caughtOffside.clear();
+    this.pending = [];
 
     if (this.ruckZone) {
       this.ruckZone.destroy();
@@ -7,6 +7,7 @@
 
 import { PITCH, SCORING } from '../utils/Constants';
 import { EventBus } from '../utils/EventBus';
+import { RNG } from '../utils/Random';
 import type { Ball } from '../entities/Ball';
 
 export interface ScoreState {
@@ -16,6 +17,8 @@ export interface ScoreState {
 
 export class ScoringSystem {
   private score: ScoreState = { home: 0, away: 0 };
+  /** Tries scored by each team (for try bonus points) */
+  private tries: ScoreState = { home: 0, away: 0 };
   private conversionPending = false;
   private conversionTeam: 'home' | 'away' = 'home';
   // @ts-ignore — stores try position for conversion mini-game placement
@@ -25,39 +28,84 @@ export class ScoringSystem {
     return this.score;
   }
 
+  getTries(): Readonly<ScoreState> {
+    return this.tries;
+  }
+
   /**
    * Check if a try has been scored.
    * Ball carrier must be in the opponent's in-goal area.
    */
   checkTry(ball: Ball): { scored: boolean; team: 'home' | 'away' } | null {
+    const attempt = this.detectTry(ball);
+    if (!attempt) return null;
+    this.awardTry(attempt.team, attempt.y);
+    return { scored: true, team: attempt.team };
+  }
+
+  /**
+   * The ball carried into the opponent's in-goal, without awarding anything —
+   * MatchScene gets the TMO to look at close calls first.
+   */
+  detectTry(ball: Ball): { team: 'home' | 'away'; x: number; y: number } | null {
     if (!ball.carrier) return null;
 
-    const x = ball.sprite.x;
+    const { x, y } = ball.sprite;
     const carrierTeam = ball.carrier.teamSide;
 
     // Home team attacks right → scores in right in-goal
-    if (carrierTeam === 'home' && x >= PITCH.TRY_LINE_RIGHT) {
-      this.awardTry('home', ball.sprite.y);
-      return { scored: true, team: 'home' };
-    }
+    if (carrierTeam === 'home' && x >= PITCH.TRY_LINE_RIGHT) return { team: 'home', x, y };
 
     // Away team attacks left → scores in left in-goal
-    if (carrierTeam === 'away' && x <= PITCH.TRY_LINE_LEFT) {
-      this.awardTry('away', ball.sprite.y);
-      return { scored: true, team: 'away' };
-    }
+    if (carrierTeam === 'away' && x <= PITCH.TRY_LINE_LEFT) return { team: 'away', x, y };
+
+    return null;
+  }
+
+  /**
+   * A defender touching down in their own in-goal, from a kick the attack
+   * put in there, on the full or rolling in — restarted with a goal-line drop-out.
+   * @param kickedBy Side that kicked the ball last (null = no kick this phase,
+   *                 or it has been played in the field since)
+   * @returns The defending side and where it was grounded, or null
+   */
+  detectGrounding(ball: Ball, kickedBy: 'home' | 'away' | null): { team: 'home' | 'away'; x: number; y: number } | null {
+    if (!ball.carrier || !kickedBy || ball.carrier.teamSide === kickedBy) return null;
+
+    const { x, y } = ball.sprite;
+
+    // Home defends the left in-goal, away the right
+    if (kickedBy === 'away' && x <= PITCH.TRY_LINE_LEFT) return { team: 'home', x, y };
+    if (kickedBy === 'home' && x >= PITCH.TRY_LINE_RIGHT) return { team: 'away', x, y };
 
     return null;
   }
 
-  private awardTry(team: 'home' | 'away', yPos: number): void {
+  awardTry(team: 'home' | 'away', yPos: number): void {
     this.score[team] += SCORING.TRY;
+    this.tries[team]++;
     this.conversionPending = true;
     this.conversionTeam = team;
     this._conversionX = yPos; // Conversion taken in line with where try scored
     EventBus.emit('score', { team, type: 'try', points: SCORING.TRY });
   }
 
+  /** A penalty try — the whole seven points, with no conversion to take */
+  awardPenaltyTry(team: 'home' | 'away'): void {
+    this.score[team] += SCORING.PENALTY_TRY;
+    this.tries[team]++;
+    this.conversionPending = false;
+    EventBus.emit('score', { team, type: 'try', points: SCORING.PENALTY_TRY, penaltyTry: true });
+  }
+
+  /** Take back a try the TMO has overturned on a captain's challenge */
+  disallowTry(team: 'home' | 'away'): void {
+    this.score[team] -= SCORING.TRY;
+    this.tries[team]--;
+    this.conversionPending = false;
+    EventBus.emit('tryDisallowed', { team });
+  }
+
   /**
    * Attempt a conversion after a try.
    * @param accuracy 0–1 how accurate the kick was
@@ -70,7 +118,7 @@ export class ScoringSystem {
     this.conversionPending = false;
 
     const successChance = (kickerStat / 100) * accuracy * (power > 0.4 && power < 0.9 ? 1.0 : 0.6);
-    const success = Math.random() < successChance;
+    const success = RNG.chance(successChance);
 
     if (success) {
       this.score[this.conversionTeam] += SCORING.CONVERSION;
@@ -85,7 +133,7 @@ export class ScoringSystem {
   attemptPenaltyGoal(team: 'home' | 'away', accuracy: number, power: number, kickerStat: number, distancePx: number): boolean {
     const distFactor = Math.max(0.3, 1 - distancePx / 600);
     const successChance = (kickerStat / 100) * accuracy * distFactor * (power > 0.4 && power < 0.85 ? 1.0 : 0.5);
-    const success = Math.random() < successChance;
+    const success = RNG.chance(successChance);
 
     if (success) {
       this.score[team] += SCORING.PENALTY_GOAL;
@@ -100,7 +148,7 @@ export class ScoringSystem {
   attemptDropGoal(team: 'home' | 'away', kickerStat: number, distancePx: number): boolean {
     const distFactor = Math.max(0.2, 1 - distancePx / 500);
     const successChance = (kickerStat / 100) * 0.5 * distFactor;
-    const success = Math.random() < successChance;
+    const success = RNG.chance(successChance);
 
     if (success) {
       this.score[team] += SCORING.DROP_GOAL;
@@ -119,6 +167,7 @@ export class ScoringSystem {
 
   reset(): void {
     this.score = { home: 0, away: 0 };
+    this.tries = { home: 0, away: 0 };
     this.conversionPending = false;
   }
 }
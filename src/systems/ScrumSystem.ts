@@ -0,0 +1,137 @@
+/**
+ * ScrumSystem — the two packs, who is on top and what the scrum does.
+ *
+ * Each pack is the forwards the side has on the pitch (Team.players):
+ * props and hooker, locks, back row. Its weight is their strength — the
+ * front row counting most, the back row least — with each forward pushing
+ * less as their stamina runs down. A pack short of forwards (cards,
+ * injuries) is weaker for it. A wet pitch takes some of the edge off the
+ * stronger pack as feet slip, and brings more resets.
+ *
+ * The side putting in either hooks quickly for clean ball or drives. The
+ * scrum can be:
+ *   reset            — went down or popped up with nobody at fault; same put-in
+ *   collapsed        — the pack going backwards took it down; penalty against them
+ *   wheel            — a drive turned it through 90°; put-in to the other side
+ *   pushover         — a drive near the line went over for a try
+ *   won              — the feeding side kept its ball
+ *   against_the_head — the other side took it
+ *
+ * Usage:
+ *   const scrum = new ScrumSystem(feedingTeam, defendingTeam, weather.getWetness());
+ *   const option = feedingAI.chooseScrumOption(scrum, x);
+ *   const result = scrum.resolve(option, x);            // outcome + winner
+ */
+
+import type { Team } from '../entities/Team';
+import type { Player } from '../entities/Player';
+import { RNG } from '../utils/Random';
+import { PITCH, SCRUM, Position } from '../utils/Constants';
+
+type Side = 'home' | 'away';
+
+/** What the side putting in goes for */
+export type ScrumOption = 'hook' | 'drive';
+
+export type ScrumOutcome = 'won' | 'against_the_head' | 'reset' | 'wheel' | 'collapsed' | 'pushover';
+
+export interface ScrumResult {
+  outcome: ScrumOutcome;
+  /** Side with the ball — or for a reset or wheel, the side putting in the next one */
+  winner: Side;
+  /** Pack penalised for a collapse */
+  offender?: Side;
+}
+
+const FRONT_ROW: Position[] = [Position.LOOSEHEAD_PROP, Position.HOOKER, Position.TIGHTHEAD_PROP];
+const LOCKS: Position[] = [Position.LOCK_4, Position.LOCK_5];
+
+/** Weight of a full pack — a side down to seven loses that man's share */
+const FULL_PACK = FRONT_ROW.length * SCRUM.FRONT_ROW_WEIGHT + LOCKS.length * SCRUM.LOCK_WEIGHT + 3 * SCRUM.BACK_ROW_WEIGHT;
+
+const other = (side: Side): Side => (side === 'home' ? 'away' : 'home');
+
+export class ScrumSystem {
+  private teams: Record<Side, Team>;
+  private feedingSide: Side;
+  private wetness: number;
+
+  /** @param wetness Pitch wetness, 0 (dry) – 1 (waterlogged) */
+  constructor(feedingTeam: Team, defendingTeam: Team, wetness = 0) {
+    this.feedingSide = feedingTeam.side;
+    this.teams = { [feedingTeam.side]: feedingTeam, [defendingTeam.side]: defendingTeam } as Record<Side, Team>;
+    this.wetness = wetness;
+  }
+
+  /** Side putting the ball in */
+  getFeedingSide(): Side {
+    return this.feedingSide;
+  }
+
+  /** The side's forwards on the pitch */
+  getPack(side: Side): Player[] {
+    return this.teams[side].players.filter(p => p.position <= Position.NUMBER_8);
+  }
+
+  /**
+   * Weight of the side's shove, on the players' 0–100 scale: the pack's
+   * strength weighted by row, each forward scaled by the stamina they have left.
+   */
+  getStrength(side: Side): number {
+    const shove = this.getPack(side).reduce((sum, p) => {
+      const weight = FRONT_ROW.includes(p.position) ? SCRUM.FRONT_ROW_WEIGHT
+        : LOCKS.includes(p.position) ? SCRUM.LOCK_WEIGHT
+          : SCRUM.BACK_ROW_WEIGHT;
+      const fresh = Math.min(1, p.stamina / Math.max(1, p.stats.stamina));
+      return sum + weight * p.stats.strength * (SCRUM.FATIGUE_FLOOR + (1 - SCRUM.FATIGUE_FLOOR) * fresh);
+    }, 0);
+    return shove / FULL_PACK;
+  }
+
+  /** The hooker's strike (handling stands in for hooking skill) */
+  getHooking(side: Side): number {
+    return this.teams[side].getHookingSkill();
+  }
+
+  /** How far the side putting in is from the try line it attacks (px) */
+  distanceToLine(x: number): number {
+    return this.feedingSide === 'home' ? PITCH.TRY_LINE_RIGHT - x : x - PITCH.TRY_LINE_LEFT;
+  }
+
+  /**
+   * Put the ball in and settle the scrum.
+   * @param x Where the scrum is, for a pushover
+   * @param effort The human pack's shove from the mini-game (1 = as strong as they are)
+   * @param effortSide Side the effort applies to (omitted = the feeding side)
+   */
+  resolve(option: ScrumOption, x: number, effort = 1, effortSide: Side = this.feedingSide): ScrumResult {
+    const feeding = this.feedingSide;
+    const defending = other(feeding);
+    const shove = (side: Side) => this.getStrength(side) * (side === effortSide ? effort : 1);
+    const edge = (shove(feeding) - shove(defending)) * (1 - SCRUM.WET_GRIP_LOSS * this.wetness);
+
+    if (RNG.chance(SCRUM.RESET_CHANCE + SCRUM.WET_RESET_CHANCE * this.wetness)) {
+      return { outcome: 'reset', winner: feeding };
+    }
+
+    // The pack going backwards is the one that takes it down
+    const weaker = edge < 0 ? feeding : defending;
+    if (RNG.chance(SCRUM.COLLAPSE_CHANCE * Math.abs(edge))) {
+      return { outcome: 'collapsed', winner: other(weaker), offender: weaker };
+    }
+
+    if (option === 'drive') {
+      if (RNG.chance(SCRUM.WHEEL_CHANCE)) return { outcome: 'wheel', winner: defending };
+      if (edge > 0 && this.distanceToLine(x) <= SCRUM.PUSHOVER_RANGE && RNG.chance(SCRUM.PUSHOVER_CHANCE * edge)) {
+        return { outcome: 'pushover', winner: feeding };
+      }
+    }
+
+    const retention = option === 'hook'
+      ? SCRUM.HOOK_RETENTION + SCRUM.HOOKER_RETENTION * (this.getHooking(feeding) - this.getHooking(defending))
+      : SCRUM.DRIVE_RETENTION;
+    return RNG.chance(retention + SCRUM.EDGE_RETENTION * edge)
+      ? { outcome: 'won', winner: feeding }
+      : { outcome: 'against_the_head', winner: defending };
+  }
+}
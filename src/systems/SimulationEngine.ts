@@ -0,0 +1,801 @@
+/**
+ * SimulationEngine — headless, AI-vs-AI match simulation.
+ *
+ * Runs the same entities and systems as MatchScene (Team/Player/Ball,
+ * TeamAI, PhaseManager, ClockSystem, RuckSystem, MaulSystem,
+ * ScoringSystem, PenaltySystem, OffsidesSystem, KickoffSystem) on a
+ * HeadlessScene with a fixed time step, so a full 80 minutes completes
+ * in seconds without a canvas. Set pieces that MatchScene hands to
+ * SetPieceScene are resolved instantly by ScrumSystem and LineoutSystem,
+ * with each side's coach making the calls.
+ *
+ * Every EventBus event is recorded with its game-clock timestamp.
+ * With the same seed, options and code, two runs produce the same log.
+ *
+ * Usage:
+ *   const result = new SimulationEngine({ seed: 42 }).run();
+ *   console.log(result.score, result.events.length);
+ */
+
+import type Phaser from 'phaser';
+import { Team } from '../entities/Team';
+import type { TeamStats } from '../entities/Team';
+import { Ball } from '../entities/Ball';
+import type { Player } from '../entities/Player';
+import { TeamAI } from '../ai/TeamAI';
+import { PlayerAI } from '../ai/PlayerAI';
+import { PhaseManager } from './PhaseManager';
+import { ClockSystem } from './ClockSystem';
+import { RuckSystem } from './RuckSystem';
+import { MaulSystem } from './MaulSystem';
+import { ScoringSystem } from './ScoringSystem';
+import type { ScoreState } from './ScoringSystem';
+import { PenaltySystem } from './PenaltySystem';
+import { OffsidesSystem } from './OffsidesSystem';
+import { KickoffSystem, isRestartPhase, deadBallRestart } from './KickoffSystem';
+import { LineoutSystem, createTouchIncident, canQuickThrow, findQuickThrow, countQuickThrowCover, inFromTouch } from './LineoutSystem';
+import type { RestartType } from './KickoffSystem';
+import { ScrumSystem } from './ScrumSystem';
+import type { ScrumResult } from './ScrumSystem';
+import { HeadlessScene } from '../utils/HeadlessScene';
+import { EventBus } from '../utils/EventBus';
+import type { GameEvents } from '../utils/EventBus';
+import { RNG, SeededRandom } from '../utils/Random';
+import { distance } from '../utils/MathHelpers';
+import { isForwardPass } from '../components/Passing';
+import { PITCH, Position, TEAM_COLORS, DIFFICULTY, OFFSIDE, FORWARD_PASS, LINEOUT, SCRUM } from '../utils/Constants';
+import type { GamePhase } from '../utils/Constants';
+
+type Side = 'home' | 'away';
+
+export interface SimulationOptions {
+  /** RNG seed — omitted means a fresh random seed */
+  seed?: number;
+  difficulty?: 'EASY' | 'MEDIUM' | 'HARD';
+  homeStats?: TeamStats;
+  awayStats?: TeamStats;
+  /** Fixed step length in ms of real match time (default 50) */
+  stepMs?: number;
+}
+
+/** One EventBus event captured during the simulation */
+export interface SimulationLogEntry {
+  /** Game clock in seconds since kick-off */
+  time: number;
+  half: 1 | 2;
+  event: keyof GameEvents;
+  data: unknown;
+}
+
+export interface SimulationResult {
+  seed: number;
+  score: ScoreState;
+  /** Tries scored by each side */
+  tries: ScoreState;
+  winner: Side | 'draw';
+  events: SimulationLogEntry[];
+  /** Number of fixed steps taken */
+  steps: number;
+}
+
+/** Same default squads MatchScene fields */
+const DEFAULT_HOME_STATS: TeamStats = {
+  rating: 75, strength: 70, speed: 72, kicking: 68, handling: 70,
+  color: TEAM_COLORS.HOME,
+};
+const DEFAULT_AWAY_STATS: TeamStats = {
+  rating: 73, strength: 68, speed: 74, kicking: 70, handling: 72,
+  color: TEAM_COLORS.AWAY,
+};
+
+/** Delay between a completed tackle and the ruck forming (ms) */
+const RUCK_FORM_DELAY = 400;
+/** Loose ball that hasn't moved for this long is scrummed (ms) */
+const STUCK_BALL_TIMEOUT = 5000;
+/** Kick-offs that never land are abandoned after this long (ms) */
+const KICKOFF_TIMEOUT = 15000;
+/** Penalties closer than this to the posts are kicked at goal (px) */
+const PENALTY_KICK_RANGE = 400;
+/** Hard cap so a wedged simulation can never loop forever (~2 h of match time) */
+const MAX_STEPS = 200000;
+
+export class SimulationEngine {
+  readonly seed: number;
+
+  private scene: HeadlessScene;
+  private stepMs: number;
+
+  private homeTeam: Team;
+  private awayTeam: Team;
+  private homeAI: TeamAI;
+  private awayAI: TeamAI;
+  private playerAIs = new Map<string, PlayerAI>();
+  private ball: Ball;
+
+  private phaseManager: PhaseManager;
+  private clock: ClockSystem;
+  private ruck: RuckSystem;
+  private maul: MaulSystem;
+  private scoring: ScoringSystem;
+  private penalty: PenaltySystem;
+  private offsides: OffsidesSystem;
+  private kickoff: KickoffSystem;
+
+  private log: SimulationLogEntry[] = [];
+  private steps = 0;
+  private finished = false;
+
+  /** Last team seen carrying the ball */
+  private lastPossession: Side = 'home';
+  /** Team penalised by the engine's own offside check (awaiting penaltyAwarded) */
+  private penaltyAgainst: Side | null = null;
+  private stuckBallTimer = 0;
+  private lastBallPos = { x: 0, y: 0 };
+  private kickoffTimer = 0;
+  /** Side that kicked last — a defender grounding it in-goal restarts with a goal-line drop-out */
+  private lastKickSide: Side | null = null;
+
+  // ─── Listeners (kept for removal in destroy) ──────────────
+  private onAnyEvent = <K extends keyof GameEvents>(event: K, data: GameEvents[K]) => {
+    this.log.push({
+      time: this.clock.getMinutes() * 60 + this.clock.getSeconds(),
+      half: this.clock.getHalf(),
+      event,
+      data,
+    });
+  };
+  private onTackle = (data: GameEvents['tackle']) => this.handleTackle(data);
+  private onRuckBallAvailable = (data: GameEvents['ruckBallAvailable']) => this.restartFromBreakdown(data.attackingTeam);
+  private onRuckTurnover = (data: GameEvents['ruckTurnover']) => this.restartFromBreakdown(data.attackingTeam);
+  private onRuckTimeout = () => this.handleBreakdownTimeout();
+  private onMaulTry = (data: GameEvents['maulTry']) => {
+    if (data.penaltyTry) this.scoring.awardPenaltyTry(data.team);
+    else this.scoring.awardTry(data.team, data.y);
+    this.handleTryScored(data.team);
+  };
+  private onPenaltyAwarded = (data: GameEvents['penaltyAwarded']) => this.handlePenalty(data);
+  private onPassCompleted = (data: GameEvents['passCompleted']) => {
+    const passer = this.getPlayerById(data.passerId);
+    if (!passer || this.phaseManager.getPhase() !== 'OPEN_PLAY') return;
+    if (!isForwardPass(passer.teamSide, data, FORWARD_PASS.REFEREE_TOLERANCE)) return;
+    EventBus.emit('forwardPass', { playerId: passer.id, receiverId: data.receiverId, x: data.catchX, y: data.catchY, team: passer.teamSide });
+    this.resolveScrum(passer.teamSide === 'home' ? 'away' : 'home', data.catchX, data.catchY);
+  };
+  private onBallKicked = (data: GameEvents['ballKicked']) => {
+    // 10-metre law for kicks in open play
+    const kicker = this.getPlayerById(data.kickerId);
+    if (kicker) this.lastKickSide = kicker.teamSide;
+    if (!kicker || this.phaseManager.getPhase() !== 'OPEN_PLAY') return;
+    const { start, landing } = this.ball.getKickFlight();
+    this.offsides.setKickOffsideLine(kicker.teamSide, start.x, landing.x, this.getTeam(kicker.teamSide).players);
+  };
+  private onPhaseChange = (data: GameEvents['phaseChange']) => {
+    // KickoffSystem announces the ball landing directly — follow it
+    if (data.to === 'OPEN_PLAY' && data.from === this.phaseManager.getPhase() && isRestartPhase(data.from)) {
+      this.phaseManager.transition('OPEN_PLAY');
+    }
+  };
+  private onRestartShort = (data: GameEvents['restartShort']) => {
+    const receiving: Side = data.team === 'home' ? 'away' : 'home';
+    const ai = receiving === 'home' ? this.homeAI : this.awayAI;
+    if (ai.chooseShortRestartOption() === 'rekick') {
+      this.performRestart(data.type, data.team);
+    } else {
+      const mark = this.kickoff.getScrumMark();
+      this.resolveScrum(receiving, mark.x, mark.y);
+    }
+  };
+  private onRuckFormed = () => {
+    this.lastKickSide = null;
+  };
+  private onHalfTime = () => {
+    this.enterPhase('HALF_TIME');
+    this.clock.startSecondHalf();
+    this.performKickoff('away');
+  };
+  private onFullTime = () => {
+    this.enterPhase('FULL_TIME');
+    this.finished = true;
+  };
+
+  constructor(options: SimulationOptions = {}) {
+    this.seed = options.seed ?? SeededRandom.generateSeed();
+    this.stepMs = options.stepMs ?? 50;
+    RNG.setSeed(this.seed);
+
+    const difficulty = DIFFICULTY[options.difficulty ?? 'MEDIUM'];
+
+    this.scene = new HeadlessScene();
+    const scene: Phaser.Scene = this.scene.asPhaserScene();
+
+    this.homeTeam = new Team(scene, 'home', options.homeStats ?? DEFAULT_HOME_STATS);
+    this.awayTeam = new Team(scene, 'away', options.awayStats ?? DEFAULT_AWAY_STATS);
+    this.homeTeam.setDifficulty(difficulty);
+    this.awayTeam.setDifficulty(difficulty);
+
+    this.homeAI = new TeamAI(this.homeTeam, 'home');
+    this.awayAI = new TeamAI(this.awayTeam, 'away');
+    this.homeAI.setDifficulty(difficulty);
+    this.awayAI.setDifficulty(difficulty);
+
+    this.ball = new Ball(scene, PITCH.HALFWAY, PITCH.HEIGHT_PX / 2);
+
+    // PlayerAIs carry out TeamAI kick/pass orders and walk offside players back — movement stays with Team
+    for (const p of [...this.homeTeam.players, ...this.awayTeam.players]) {
+      this.playerAIs.set(p.id, new PlayerAI(p, this.ball));
+    }
+
+    this.phaseManager = new PhaseManager('KICK_OFF');
+    this.clock = new ClockSystem();
+    this.ruck = new RuckSystem(scene);
+    this.maul = new MaulSystem(scene);
+    this.scoring = new ScoringSystem();
+    this.penalty = new PenaltySystem();
+    this.offsides = new OffsidesSystem();
+    this.kickoff = new KickoffSystem(this.ball);
+    this.ruck.setDifficulty(difficulty);
+    this.ruck.setOffsides(this.offsides);
+
+    EventBus.onAny(this.onAnyEvent);
+    EventBus.on('tackle', this.onTackle);
+    EventBus.on('ruckBallAvailable', this.onRuckBallAvailable);
+    EventBus.on('ruckTurnover', this.onRuckTurnover);
+    EventBus.on('ruckTimeout', this.onRuckTimeout);
+    EventBus.on('maulTry', this.onMaulTry);
+    EventBus.on('penaltyAwarded', this.onPenaltyAwarded);
+    EventBus.on('ballKicked', this.onBallKicked);
+    EventBus.on('passCompleted', this.onPassCompleted);
+    EventBus.on('phaseChange', this.onPhaseChange);
+    EventBus.on('restartShort', this.onRestartShort);
+    EventBus.on('ruckFormed', this.onRuckFormed);
+    EventBus.on('halfTime', this.onHalfTime);
+    EventBus.on('fullTime', this.onFullTime);
+
+    this.performKickoff('home');
+  }
+
+  /**
+   * Run the match to full time and tear down.
+   * @returns Final score and the full event log
+   */
+  run(): SimulationResult {
+    while (!this.finished && this.steps < MAX_STEPS) {
+      this.step();
+    }
+    const result = this.getResult();
+    this.destroy();
+    return result;
+  }
+
+  /** Advance the match by one fixed step */
+  step(): void {
+    if (this.finished) return;
+    const delta = this.stepMs;
+    this.steps++;
+
+    this.scene.step(delta);
+    this.clock.update(delta);
+    if (this.finished) return;
+
+    this.ball.update(delta);
+    if (this.ball.carrier) this.lastPossession = this.ball.carrier.teamSide;
+
+    const phase = this.phaseManager.getPhase();
+    if (phase === 'OPEN_PLAY') {
+      this.checkStuckBall(delta);
+      this.checkOutOfBounds();
+    }
+
+    // ── Breakdown ───────────────────────────────────────
+    this.ruck.update(delta);
+    if (this.ruck.isActive()) this.autoCommitToRuck();
+
+    if (this.maul.isActive()) {
+      this.maul.update(delta, this.ball);
+      this.autoCommitToMaul();
+    }
+
+    // ── Offside lines + interference ────────────────────
+    if (this.ruck.isActive()) {
+      this.offsides.setRuckOffsideLine(this.ruck.getState().x, true);
+      this.checkOffsideInterference();
+    } else if (this.maul.isActive()) {
+      const feet = this.maul.getHindmostFeet();
+      this.offsides.setMaulOffsideLine(feet.home, feet.away);
+      this.checkOffsideInterference();
+    } else {
+      const ballX = this.ball.state === 'kicked' ? this.ball.getKickFlight().landing.x : this.ball.sprite.x;
+      this.offsides.setGeneralOffsideLine(ballX);
+      this.checkKickOffside();
+    }
+
+    // ── Kick-off / drop-out ─────────────────────────────
+    if (isRestartPhase(this.phaseManager.getPhase())) {
+      this.kickoff.update(delta);
+      this.kickoffTimer += delta;
+      if (this.kickoffTimer > KICKOFF_TIMEOUT) {
+        this.phaseManager.transition('OPEN_PLAY');
+      }
+    }
+
+    // ── Try check ───────────────────────────────────────
+    if (this.phaseManager.getPhase() === 'OPEN_PLAY') {
+      // Fielded short of the line, the kick has been played
+      if (this.ball.carrier && this.ball.sprite.x > PITCH.TRY_LINE_LEFT && this.ball.sprite.x < PITCH.TRY_LINE_RIGHT) this.lastKickSide = null;
+      const tryResult = this.scoring.checkTry(this.ball);
+      const grounding = this.scoring.detectGrounding(this.ball, this.lastKickSide);
+      if (tryResult && tryResult.scored) {
+        this.handleTryScored(tryResult.team);
+      } else if (grounding) {
+        EventBus.emit('ballGrounded', grounding);
+        this.performRestart('GOAL_LINE_DROP_OUT', grounding.team);
+      }
+    }
+
+    // ── AI ──────────────────────────────────────────────
+    const active = this.phaseManager.getPhase();
+    const isPlayPhase = active === 'OPEN_PLAY' || (isRestartPhase(active) && this.ball.state === 'kicked');
+    if (isPlayPhase) {
+      const score = this.scoring.getScore();
+      const minutes = this.clock.getMinutes();
+      this.homeAI.updateContext(score.home, score.away, minutes);
+      this.awayAI.updateContext(score.away, score.home, minutes);
+
+      const phaseCount = this.phaseManager.getPhaseCount();
+      this.homeAI.update(delta, this.ball, phaseCount);
+      this.awayAI.update(delta, this.ball, phaseCount);
+      this.homeTeam.update(delta, this.ball, null);
+      this.awayTeam.update(delta, this.ball, null);
+      this.steerOffsidePlayers(delta);
+    }
+
+    this.phaseManager.update();
+  }
+
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  getResult(): SimulationResult {
+    const score = { ...this.scoring.getScore() };
+    const winner = score.home > score.away ? 'home' : score.away > score.home ? 'away' : 'draw';
+    const tries = { ...this.scoring.getTries() };
+    return { seed: this.seed, score, tries, winner, events: this.log, steps: this.steps };
+  }
+
+  /** Unsubscribe from the EventBus and drop the headless world */
+  destroy(): void {
+    EventBus.offAny(this.onAnyEvent);
+    EventBus.off('tackle', this.onTackle);
+    EventBus.off('ruckBallAvailable', this.onRuckBallAvailable);
+    EventBus.off('ruckTurnover', this.onRuckTurnover);
+    EventBus.off('ruckTimeout', this.onRuckTimeout);
+    EventBus.off('maulTry', this.onMaulTry);
+    EventBus.off('penaltyAwarded', this.onPenaltyAwarded);
+    EventBus.off('ballKicked', this.onBallKicked);
+    EventBus.off('passCompleted', this.onPassCompleted);
+    EventBus.off('phaseChange', this.onPhaseChange);
+    EventBus.off('restartShort', this.onRestartShort);
+    EventBus.off('ruckFormed', this.onRuckFormed);
+    EventBus.off('halfTime', this.onHalfTime);
+    EventBus.off('fullTime', this.onFullTime);
+    for (const ai of this.playerAIs.values()) ai.destroy();
+    this.playerAIs.clear();
+    this.scene.destroy();
+    this.finished = true;
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // PHASE HELPERS
+  // ─────────────────────────────────────────────────────────
+
+  /** Transition if the FSM allows it, otherwise force the phase */
+  private enterPhase(phase: GamePhase): void {
+    if (this.phaseManager.getPhase() === phase) return;
+    if (this.phaseManager.canTransition(phase)) {
+      this.phaseManager.transition(phase);
+    } else {
+      this.phaseManager.forcePhase(phase);
+    }
+  }
+
+  private getTeam(side: Side): Team {
+    return side === 'home' ? this.homeTeam : this.awayTeam;
+  }
+
+  private getPlayerById(id: string): Player | undefined {
+    return this.homeTeam.players.find(p => p.id === id) ||
+           this.awayTeam.players.find(p => p.id === id);
+  }
+
+  /** Hand the ball to a team's scrum-half at a spot and resume open play */
+  private giveBallTo(side: Side, x: number, y: number): void {
+    this.givePlayerBall(this.getTeam(side).getPlayerByPosition(Position.SCRUM_HALF), x, y);
+  }
+
+  /** Hand the ball to a player at a spot and resume open play */
+  private givePlayerBall(player: Player, x: number, y: number): void {
+    player.isGrounded = false;
+    player.isInRuck = false;
+    player.sprite.setPosition(x, y);
+    this.ball.attachToPlayer(player);
+    this.lastPossession = player.teamSide;
+    this.enterPhase('OPEN_PLAY');
+  }
+
+  private performKickoff(side: Side): void {
+    this.performRestart('KICK_OFF', side);
+  }
+
+  /** Kick-off or drop-out, taken by KickoffSystem */
+  private performRestart(type: RestartType, side: Side): void {
+    const kickingTeam = this.getTeam(side);
+    const receivingTeam = this.getTeam(side === 'home' ? 'away' : 'home');
+
+    for (const p of [...this.homeTeam.players, ...this.awayTeam.players]) {
+      p.isGrounded = false;
+      p.isInRuck = false;
+      p.hasBall = false;
+      p.setVelocity(0, 0);
+    }
+    this.ruck.endRuck();
+    this.maul.endMaul();
+    this.penalty.reset();
+    this.ball.carrier = null;
+    this.kickoffTimer = 0;
+    this.lastKickSide = null;
+
+    this.enterPhase(type);
+    this.kickoff.startKickoff(kickingTeam, receivingTeam, type);
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // OPEN PLAY CHECKS
+  // ─────────────────────────────────────────────────────────
+
+  private checkStuckBall(delta: number): void {
+    if (this.ball.state !== 'loose') {
+      this.stuckBallTimer = 0;
+      return;
+    }
+
+    const { x, y } = this.ball.sprite;
+    if (distance({ x, y }, this.lastBallPos) < 5) {
+      this.stuckBallTimer += delta;
+      if (this.stuckBallTimer > STUCK_BALL_TIMEOUT) {
+        this.stuckBallTimer = 0;
+        this.resolveScrum(this.lastPossession, x, y);
+      }
+    } else {
+      this.stuckBallTimer = 0;
+    }
+
+    this.lastBallPos = { x, y };
+  }
+
+  private checkOutOfBounds(): void {
+    const { x, y } = this.ball.sprite;
+
+    // Touch — lineout to the side that didn't put it out,
+    // except a kick out on the full, which is a scrum back
+    if (y <= 0 || y >= PITCH.HEIGHT_PX) {
+      const offending = this.lastPossession;
+      const other: Side = offending === 'home' ? 'away' : 'home';
+      if (this.ball.state === 'kicked') {
+        this.resolveScrum(other, x, y);
+      } else {
+        EventBus.emit('touch', { x, y, team: other });
+        if (!this.takeQuickThrow(other, x, y)) this.resolveLineout(other, x, y);
+      }
+      return;
+    }
+
+    // Dead-ball lines — the team defending that end drops out
+    if ((x <= PITCH.DEAD_BALL_LEFT || x >= PITCH.DEAD_BALL_RIGHT) && (this.ball.state === 'kicked' || this.ball.state === 'loose')) {
+      const deadSide: Side = x <= PITCH.DEAD_BALL_LEFT ? 'home' : 'away';
+      this.performRestart(deadBallRestart(deadSide, this.lastPossession), deadSide);
+    }
+  }
+
+  /** 10-metre law: offside within 10 m of the opposition catcher, otherwise the kick has been played */
+  private checkKickOffside(): void {
+    const kickingSide = this.offsides.getKickingSide();
+    const carrier = this.ball.carrier;
+    if (!kickingSide || !carrier) return;
+
+    this.offsides.clearKickOffside();
+    if (carrier.teamSide === kickingSide) return;
+    const offender = this.getTeam(kickingSide).players.find(p => this.offsides.isOffside(p)
+      && distance({ x: p.sprite.x, y: p.sprite.y }, { x: carrier.sprite.x, y: carrier.sprite.y }) < OFFSIDE.KICK_TEN_METRES);
+    if (offender) {
+      this.penaltyAgainst = kickingSide;
+      this.penalty.signalInfringement('offside', offender.sprite.x, offender.sprite.y, kickingSide, false, offender.id);
+    }
+  }
+
+  /** Offside players retire through their PlayerAI's RETURN_ONSIDE state */
+  private steerOffsidePlayers(delta: number): void {
+    for (const p of [...this.homeTeam.players, ...this.awayTeam.players]) {
+      if (p.isGrounded || p.isInRuck) continue;
+      const ai = this.playerAIs.get(p.id);
+      const offside = this.offsides.isOffside(p);
+      if (!ai || (!offside && ai.getState() !== 'RETURN_ONSIDE')) continue;
+      const line = offside ? this.offsides.getOffsideLine(p.teamSide) : undefined;
+      ai.update(delta, this.ball, p.formationX, p.formationY, false, line);
+    }
+  }
+
+  private checkOffsideInterference(): void {
+    const carrier = this.ball.carrier;
+    if (!carrier) return;
+
+    const opponents = carrier.teamSide === 'home' ? this.awayTeam : this.homeTeam;
+    for (const p of opponents.players) {
+      if (p.isInRuck || p.isGrounded) continue;
+      if (!this.offsides.isOffside(p)) continue;
+      if (distance({ x: p.sprite.x, y: p.sprite.y }, { x: carrier.sprite.x, y: carrier.sprite.y }) < 80) {
+        this.penaltyAgainst = p.teamSide;
+        this.penalty.signalInfringement('offside', p.sprite.x, p.sprite.y, p.teamSide, false);
+        return;
+      }
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // BREAKDOWN
+  // ─────────────────────────────────────────────────────────
+
+  private handleTackle(data: GameEvents['tackle']): void {
+    if (this.phaseManager.getPhase() !== 'OPEN_PLAY') return;
+    const carrier = this.getPlayerById(data.carrierId);
+    const tackler = this.getPlayerById(data.tacklerId);
+    if (!carrier || !tackler) return;
+
+    if (data.outcome === 'normal' || data.outcome === 'dominant') {
+      const { x, y } = carrier.sprite;
+      const side = carrier.teamSide;
+      this.enterPhase('TACKLE');
+
+      // Team drops the ball loose after emitting — settle it into a ruck shortly after
+      this.scene.time.delayedCall(RUCK_FORM_DELAY, () => {
+        if (this.phaseManager.getPhase() !== 'TACKLE') return;
+        this.phaseManager.transition('RUCK');
+        this.ruck.startRuck(x, y, side, {
+          tackler, carrier, players: [...this.homeTeam.players, ...this.awayTeam.players],
+        });
+        this.ball.carrier?.releaseBall();
+        this.ball.carrier = null;
+        this.ball.setPosition(x, y);
+        this.ball.setVelocity(0, 0);
+        this.ball.state = 'ruck';
+      });
+    } else if (data.outcome === 'heldUp') {
+      const support = this.getTeam(carrier.teamSide).players
+        .filter(p => p !== carrier && !p.isGrounded && !p.isInRuck)
+        .find(p => distance({ x: p.sprite.x, y: p.sprite.y }, { x: carrier.sprite.x, y: carrier.sprite.y }) < 100);
+      if (!support || !this.phaseManager.canTransition('MAUL')) return;
+
+      this.phaseManager.transition('MAUL');
+      this.maul.startMaul(carrier, tackler, support, carrier.teamSide === 'home');
+      for (const p of [carrier, tackler, support]) p.setVelocity(0, 0);
+    }
+  }
+
+  /** Ruck/maul produced the ball for `side` — scrum-half picks up */
+  private restartFromBreakdown(side: Side): void {
+    const state = this.ruck.isActive() ? this.ruck.getState() : this.maul.getState();
+    const { x, y } = state.active ? state : this.ball.sprite;
+    this.ruck.endRuck();
+    this.maul.endMaul();
+    this.giveBallTo(side, x, y);
+  }
+
+  /** Ruck or maul stalled — scrum to the side in possession */
+  private handleBreakdownTimeout(): void {
+    const side = this.ruck.isActive() ? this.ruck.getAttackingTeam() : this.lastPossession;
+    const { x, y } = this.ball.sprite;
+    this.ruck.endRuck();
+    this.maul.endMaul();
+    this.resolveScrum(side, x, y);
+  }
+
+  private autoCommitToRuck(): void {
+    const state = this.ruck.getState();
+    const ruckPos = { x: state.x, y: state.y };
+
+    for (const p of [...this.homeTeam.players, ...this.awayTeam.players]) {
+      if (p.isGrounded || p.isInRuck) continue;
+      const isAttacker = p.teamSide === state.attackingTeam;
+      const committed = isAttacker ? state.attackers : state.defenders;
+      if (committed.length >= 3) continue;
+      if (distance({ x: p.sprite.x, y: p.sprite.y }, ruckPos) < 80) {
+        // Bind on at the ruck rather than drifting through it
+        p.isInRuck = true;
+        p.setVelocity(0, 0);
+        this.ruck.commitPlayer(p, isAttacker);
+      }
+    }
+  }
+
+  private autoCommitToMaul(): void {
+    const state = this.maul.getState();
+    const attackingSide = state.carrier?.teamSide ?? this.lastPossession;
+
+    // Forwards make their way in and bind on as they arrive
+    for (const p of [...this.homeTeam.players, ...this.awayTeam.players]) {
+      if (p.isGrounded || p.isInRuck || p.position > 8) continue;
+      this.maul.queueJoiner(p, p.teamSide === attackingSide);
+    }
+
+    // The scrum-half uses it when the coach says so
+    if ((attackingSide === 'home' ? this.homeAI : this.awayAI).chooseMaulUseIt(this.maul)) {
+      this.maul.releaseBall();
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // SET PIECES (resolved instantly)
+  // ─────────────────────────────────────────────────────────
+
+  /**
+   * Set the scrum, the feeding side's coach calling hook or drive, and
+   * play out resets and wheels until it's settled (or the referee has
+   * seen enough and gives it to the side putting in).
+   */
+  private resolveScrum(feed: Side, x: number, y: number): void {
+    this.enterPhase('SCRUM');
+
+    // Scrum mark is at least 5m in from touch and the try lines
+    const sx = Math.max(PITCH.TRY_LINE_LEFT + 50, Math.min(PITCH.TRY_LINE_RIGHT - 50, x));
+    const sy = Math.max(50, Math.min(PITCH.HEIGHT_PX - 50, y));
+    this.ball.setVelocity(0, 0);
+    this.ball.setPosition(sx, sy);
+
+    let result: ScrumResult;
+    for (let resets = 1; ; resets++) {
+      const scrum = new ScrumSystem(this.getTeam(feed), this.getTeam(feed === 'home' ? 'away' : 'home'));
+      const option = (feed === 'home' ? this.homeAI : this.awayAI).chooseScrumOption(scrum, sx);
+      result = scrum.resolve(option, sx);
+      EventBus.emit('scrumResult', { feeding: feed, winner: result.winner, outcome: result.outcome, option });
+      if ((result.outcome !== 'reset' && result.outcome !== 'wheel') || resets >= SCRUM.MAX_RESETS) break;
+      feed = result.winner;
+    }
+
+    if (result.outcome === 'collapsed') {
+      EventBus.emit('penaltyAwarded', { x: sx, y: sy, reason: 'collapsing_scrum', team: result.winner });
+    } else if (result.outcome === 'pushover') {
+      this.scoring.awardTry(result.winner, sy);
+      this.handleTryScored(result.winner);
+    } else {
+      this.giveBallTo(result.winner, sx, sy);
+    }
+  }
+
+  /**
+   * The side throwing in takes it quickly if its coach wants to and it's
+   * allowed — nobody off the pitch has handled the ball and someone is
+   * there to take it.
+   * @returns false if it goes to a lineout instead
+   */
+  private takeQuickThrow(team: Side, x: number, y: number): boolean {
+    const tx = Math.max(PITCH.TRY_LINE_LEFT + 50, Math.min(PITCH.TRY_LINE_RIGHT - 50, x));
+    const touch = createTouchIncident(team, tx, y <= 0 ? PITCH.TOUCHLINE_TOP : PITCH.TOUCHLINE_BOTTOM, 0);
+    const takers = canQuickThrow(touch, touch.at) ? findQuickThrow(this.getTeam(team), touch) : null;
+    if (!takers) return false;
+    const cover = countQuickThrowCover(this.getTeam(team === 'home' ? 'away' : 'home'), touch);
+    if (!(team === 'home' ? this.homeAI : this.awayAI).chooseQuickThrow(tx, cover)) return false;
+
+    this.enterPhase('TOUCH');
+    EventBus.emit('quickThrow', {
+      team, throwerId: takers.thrower.id, receiverId: takers.receiver.id, x: touch.x, y: touch.y,
+    });
+    const { receiver } = takers;
+    this.givePlayerBall(receiver, receiver.sprite.x, receiver.sprite.y);
+    return true;
+  }
+
+  private resolveLineout(throwing: Side, x: number, y: number): void {
+    if (this.phaseManager.canTransition('TOUCH')) this.phaseManager.transition('TOUCH');
+    this.enterPhase('LINEOUT');
+
+    const other: Side = throwing === 'home' ? 'away' : 'home';
+    const throwingAI = throwing === 'home' ? this.homeAI : this.awayAI;
+    const defendingAI = throwing === 'home' ? this.awayAI : this.homeAI;
+    const lineout = new LineoutSystem(this.getTeam(throwing), this.getTeam(other));
+    lineout.setNumbers(throwingAI.chooseLineoutNumbers(x));
+    const result = lineout.resolve(throwingAI.chooseLineoutTarget(lineout, x), defendingAI.chooseLineoutCompete(lineout));
+    EventBus.emit('lineoutResult', {
+      throwing, winner: result.winner, outcome: result.outcome, numbers: lineout.getNumbers(), catcherId: result.catcher?.id,
+    });
+
+    // Ball emerges 15m in from touch
+    const lx = Math.max(PITCH.TRY_LINE_LEFT + 50, Math.min(PITCH.TRY_LINE_RIGHT - 50, x));
+    const ly = y <= PITCH.HEIGHT_PX / 2 ? 150 : PITCH.HEIGHT_PX - 150;
+    if (result.outcome === 'not_straight') {
+      this.resolveScrum(other, lx, ly);
+      return;
+    }
+    if (result.outcome === 'overthrown') {
+      // Comes down loose beyond the tail
+      this.ball.dropLoose(lx, inFromTouch(y, LINEOUT.OVERTHROW_DEPTH));
+      this.enterPhase('OPEN_PLAY');
+      return;
+    }
+
+    // The winner's coach calls it — a peel goes around the end of the line
+    const winnerAI = result.winner === 'home' ? this.homeAI : this.awayAI;
+    const caughtAt = lineout.getFormation(result.winner).spots.find(s => s.player === result.catcher)?.index ?? result.target;
+    const play = winnerAI.chooseLineoutPlay(lineout, caughtAt, lx);
+    this.ball.setVelocity(0, 0);
+    this.ball.setPosition(lx, ly);
+    if (play === 'peel_front' || play === 'peel_back') {
+      const peeler = lineout.getPeeler(result.winner, play === 'peel_front' ? 'front' : 'back', result.catcher);
+      this.givePlayerBall(peeler, lx, inFromTouch(y, play === 'peel_front' ? LINEOUT.LINE_FRONT : LINEOUT.LINE_TAIL));
+      return;
+    }
+    if (play === 'maul' && result.catcher) {
+      // The catcher's pod binds on and drives; the rest of the pack joins as it arrives
+      const my = inFromTouch(y, (LINEOUT.LINE_FRONT + LINEOUT.LINE_TAIL) / 2);
+      const pod = lineout.getPod(result.winner, result.catcher);
+      this.phaseManager.transition('MAUL');
+      this.maul.startLineoutMaul(pod, lx, my, result.winner === 'home');
+      this.ball.attachToPlayer(result.catcher);
+      this.lastPossession = result.winner;
+      for (const p of pod) p.setVelocity(0, 0);
+      return;
+    }
+    this.giveBallTo(result.winner, lx, ly);
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // PENALTIES & SCORING
+  // ─────────────────────────────────────────────────────────
+
+  private handlePenalty(data: GameEvents['penaltyAwarded']): void {
+    if (this.finished || !this.phaseManager.canTransition('PENALTY')) return;
+
+    // Work out who benefits: explicit team, our own offside call, or the ruck context
+    let awarded: Side;
+    if (data.team) {
+      awarded = data.team;
+    } else if (this.penaltyAgainst) {
+      awarded = this.penaltyAgainst === 'home' ? 'away' : 'home';
+    } else {
+      const attacking = this.ruck.getAttackingTeam();
+      awarded = data.againstAttack ? (attacking === 'home' ? 'away' : 'home') : attacking;
+    }
+    this.penaltyAgainst = null;
+
+    this.phaseManager.transition('PENALTY');
+    this.ruck.endRuck();
+    this.maul.endMaul();
+    this.penalty.reset();
+
+    const postsX = awarded === 'home' ? PITCH.TRY_LINE_RIGHT : PITCH.TRY_LINE_LEFT;
+    const distToPosts = distance({ x: data.x, y: data.y }, { x: postsX, y: PITCH.HEIGHT_PX / 2 });
+
+    if (data.severity !== 'free_kick' && distToPosts < PENALTY_KICK_RANGE) {
+      const kicker = this.getTeam(awarded).getPlayerByPosition(Position.FLY_HALF);
+      const success = this.scoring.attemptPenaltyGoal(
+        awarded, RNG.range(0.6, 0.95), RNG.range(0.5, 0.8), kicker.stats.kicking, distToPosts,
+      );
+      // Conceding side kicks off; a miss is a 22m drop-out
+      this.performRestart(success ? 'KICK_OFF' : 'DROP_OUT_22', awarded === 'home' ? 'away' : 'home');
+      return;
+    }
+
+    // Tap and go
+    this.phaseManager.transition('TAP_AND_GO');
+    this.giveBallTo(awarded, data.x, data.y);
+  }
+
+  private handleTryScored(team: Side): void {
+    this.enterPhase('TRY_SCORED');
+    this.phaseManager.transition('CONVERSION');
+
+    const kicker = this.getTeam(team).getPlayerByPosition(Position.FLY_HALF);
+    this.scoring.attemptConversion(RNG.range(0.5, 0.9), RNG.range(0.5, 0.8), kicker.stats.kicking);
+
+    this.performKickoff(team === 'home' ? 'away' : 'home');
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * TMOSystem — the Television Match Official.
+ *
+ * The referee refers a try upstairs on a close call:
+ *   touch        — carried in near a touchline
+ *   dead ball    — grounded near the dead-ball line
+ *   held up      — defenders in there as the carrier goes over
+ *   forward pass — a pass in the build-up that went forward
+ * The TMO rules from the recorded positions (a ReplayRecorder clip of the
+ * run-in) and the passes it logged since the attack began — without the
+ * benefit of the doubt the referee gives in real time — giving try or
+ * no try with a reason. Whether the carrier was held up or lost it in the
+ * act of scoring is settled when the ball goes over (`assessAttempt`); the
+ * review is what finds out.
+ *
+ * Each side also has one captain's challenge per half to send an awarded
+ * try to the TMO.
+ *
+ * Usage:
+ *   const tmo = new TMOSystem(homeTeam, awayTeam);
+ *   tmo.start();                                    // subscribe
+ *   const attempt = tmo.assessAttempt(team, carrier, x, y);
+ *   tmo.getReviewReasons(attempt);                  // [] = clear-cut, award it
+ *   tmo.review(attempt, replayRecorder.clip(TMO.REVIEW_MS));
+ *   tmo.useChallenge(side);                         // false if already spent this half
+ *   tmo.destroy();                                  // unsubscribe
+ */
+
+import type { Team } from '../entities/Team';
+import type { Player } from '../entities/Player';
+import type { Replay } from './ReplayRecorder';
+import { EventBus } from '../utils/EventBus';
+import type { GameEvents } from '../utils/EventBus';
+import { RNG } from '../utils/Random';
+import { distance } from '../utils/MathHelpers';
+import { forwardPassDistance } from '../components/Passing';
+import { PITCH, TMO, FORWARD_PASS } from '../utils/Constants';
+
+type Side = 'home' | 'away';
+
+/** Why a try goes to the TMO */
+export type TMOCheck = 'touch' | 'dead_ball' | 'held_up' | 'forward_pass';
+
+/** Why the TMO rules no try */
+export type NoTryReason = 'forward_pass' | 'in_touch' | 'knock_on' | 'held_up' | 'dead_ball';
+
+/** The ball carried over the line, as the referee saw it */
+export interface TryAttempt {
+  team: Side;
+  carrierId: string;
+  x: number;
+  y: number;
+  /** Defenders close enough to the carrier to get under the ball */
+  defenders: number;
+  /** Held off the ground — only a review finds out */
+  heldUp: boolean;
+  /** Lost forward in the act of scoring — only a review finds out */
+  knockOn: boolean;
+}
+
+export interface TMODecision {
+  awarded: boolean;
+  /** Why it was not a try (undefined when awarded) */
+  infringement?: NoTryReason;
+  /** Announcement, e.g. "NO TRY — foot in touch" */
+  reason: string;
+  /** Where the infringement happened, for the restart */
+  x: number;
+  y: number;
+}
+
+/** A pass logged during the current attack */
+interface PassRecord {
+  side: Side;
+  /** Forward out of the hands, allowing for momentum (px) */
+  forward: number;
+  x: number;
+  y: number;
+}
+
+const REASONS: Record<NoTryReason, string> = {
+  forward_pass: 'forward pass in the build-up',
+  in_touch: 'foot in touch',
+  knock_on: 'knocked on over the line',
+  held_up: 'held up',
+  dead_ball: 'grounded on the dead-ball line',
+};
+
+const other = (side: Side): Side => (side === 'home' ? 'away' : 'home');
+
+export class TMOSystem {
+  private teams: Record<Side, Team>;
+  private passes: PassRecord[] = [];
+  private challenges: Record<Side, boolean> = { home: true, away: true };
+
+  private onPassCompleted = (data: GameEvents['passCompleted']) => {
+    const passer = this.findPlayer(data.passerId);
+    if (!passer) return;
+    const side = passer.teamSide;
+    this.passes.push({ side, forward: forwardPassDistance(side, data), x: data.releaseX, y: data.releaseY });
+  };
+  /** The TMO can only go back to the start of the phase */
+  private onNewPhase = () => {
+    this.passes = [];
+  };
+  private onSecondHalf = () => {
+    this.challenges = { home: true, away: true };
+  };
+
+  constructor(homeTeam: Team, awayTeam: Team) {
+    this.teams = { home: homeTeam, away: awayTeam };
+  }
+
+  /** Subscribe to match events */
+  start(): void {
+    EventBus.on('passCompleted', this.onPassCompleted);
+    EventBus.on('possessionChange', this.onNewPhase);
+    EventBus.on('ruckFormed', this.onNewPhase);
+    EventBus.on('secondHalfStart', this.onSecondHalf);
+  }
+
+  /** Unsubscribe from the EventBus */
+  destroy(): void {
+    EventBus.off('passCompleted', this.onPassCompleted);
+    EventBus.off('possessionChange', this.onNewPhase);
+    EventBus.off('ruckFormed', this.onNewPhase);
+    EventBus.off('secondHalfStart', this.onSecondHalf);
+  }
+
+  /**
+   * The carrier has taken the ball over the line — settle whether it was
+   * held up or lost, from the defenders in there and the carrier's stats.
+   */
+  assessAttempt(team: Side, carrier: Player, x: number, y: number): TryAttempt {
+    const defenders = this.teams[other(team)].players.filter(p =>
+      !p.isGrounded && distance({ x: p.sprite.x, y: p.sprite.y }, { x, y }) <= TMO.HELD_UP_RADIUS);
+
+    const heldUp = defenders.some(d => RNG.chance(TMO.HELD_UP_CHANCE * d.stats.strength / carrier.stats.strength));
+    const knockOn = defenders.length > 0 && RNG.chance(TMO.KNOCK_ON_CHANCE * (1 - carrier.stats.handling / 100));
+    return { team, carrierId: carrier.id, x, y, defenders: defenders.length, heldUp, knockOn };
+  }
+
+  /** Close calls the referee wants checked — empty when the try is clear-cut */
+  getReviewReasons(attempt: TryAttempt): TMOCheck[] {
+    const reasons: TMOCheck[] = [];
+    if (Math.min(attempt.y - PITCH.TOUCHLINE_TOP, PITCH.TOUCHLINE_BOTTOM - attempt.y) <= TMO.NEAR_TOUCH) reasons.push('touch');
+    if (this.distanceFromDeadBall(attempt.team, attempt.x) <= TMO.NEAR_DEAD_BALL) reasons.push('dead_ball');
+    if (attempt.defenders > 0) reasons.push('held_up');
+    if (this.passes.some(p => p.side === attempt.team && p.forward > 0)) reasons.push('forward_pass');
+    return reasons;
+  }
+
+  /**
+   * Rule on the attempt, going back through the build-up in order:
+   * forward pass, foot in touch on the run-in, then the grounding itself.
+   * @param clip The last few seconds of recording, ending with the ball over the line
+   */
+  review(attempt: TryAttempt, clip: Replay): TMODecision {
+    const noTry = (infringement: NoTryReason, x: number, y: number): TMODecision =>
+      ({ awarded: false, infringement, reason: `NO TRY — ${REASONS[infringement]}`, x, y });
+
+    const forward = this.passes.find(p => p.side === attempt.team && p.forward > FORWARD_PASS.TOLERANCE);
+    if (forward) return noTry('forward_pass', forward.x, forward.y);
+
+    const touch = this.findFootInTouch(attempt.team, clip);
+    if (touch) return noTry('in_touch', touch.x, touch.y);
+
+    if (attempt.knockOn) return noTry('knock_on', attempt.x, attempt.y);
+    if (attempt.heldUp) return noTry('held_up', attempt.x, attempt.y);
+    if (this.distanceFromDeadBall(attempt.team, attempt.x) <= 0) return noTry('dead_ball', attempt.x, attempt.y);
+
+    return { awarded: true, reason: 'TRY — grounding good', x: attempt.x, y: attempt.y };
+  }
+
+  /** Whether the side still has its captain's challenge this half */
+  hasChallenge(side: Side): boolean {
+    return this.challenges[side];
+  }
+
+  /**
+   * Spend the side's captain's challenge.
+   * @returns false if it has already been used this half
+   */
+  useChallenge(side: Side): boolean {
+    if (!this.challenges[side]) return false;
+    this.challenges[side] = false;
+    return true;
+  }
+
+  // ─────────────────────────────────────────────────────────
+  // INTERNALS
+  // ─────────────────────────────────────────────────────────
+
+  /**
+   * The ball's path on the carrier's run-in — recorded frames since the
+   * last pass, kick or turnover — that took the carrier onto the touchline.
+   */
+  private findFootInTouch(team: Side, clip: Replay): { x: number; y: number } | null {
+    let runStart = 0;
+    for (const e of clip.events) {
+      if (e.event === 'ballPassed' || e.event === 'ballKicked' || e.event === 'possessionChange') runStart = e.t;
+    }
+
+    for (const frame of clip.frames) {
+      if (frame.t < runStart) continue;
+      const [x, y] = frame.ball;
+      const inAttackingHalf = team === 'home' ? x >= PITCH.HALFWAY : x <= PITCH.HALFWAY;
+      const onTouchline = y - PITCH.TOUCHLINE_TOP <= TMO.FOOT_IN_TOUCH || PITCH.TOUCHLINE_BOTTOM - y <= TMO.FOOT_IN_TOUCH;
+      if (inAttackingHalf && onTouchline) return { x, y };
+    }
+    return null;
+  }
+
+  /** How far short of the dead-ball line the side attacks x is (px) */
+  private distanceFromDeadBall(side: Side, x: number): number {
+    return side === 'home' ? PITCH.DEAD_BALL_RIGHT - x : x - PITCH.DEAD_BALL_LEFT;
+  }
+
+  private findPlayer(id: string): Player | undefined {
+    return [...this.teams.home.getLineup(), ...this.teams.away.getLineup()].find(p => p.id === id);
+  }
+}
@@ -3,8 +3,15 @@
  *
  * Allows creating custom teams with names, colors, and player stats.
  * Saves/loads via localStorage.
+ *
+ * Stats are kept within STAT_MIN–STAT_MAX, and the sum of every stat
+ * across the 15 players may not exceed TEAM_STAT_BUDGET — making one
+ * player better means making someone else worse.
  */
 
+import { POSITION_NAMES } from '../utils/Constants';
+import type { TeamStats } from '../entities/Team';
+
 export interface CustomPlayer {
   name: string;
   position: number; // 1–15
@@ -20,6 +27,8 @@ export interface CustomPlayer {
   };
 }
 
+export type CustomStatKey = keyof CustomPlayer['stats'];
+
 export interface CustomTeam {
   id: string;
   name: string;
@@ -27,8 +36,22 @@ export interface CustomTeam {
   players: CustomPlayer[];
 }
 
+/** Lowest / highest value for a single stat */
+export const STAT_MIN = 20;
+export const STAT_MAX = 99;
+
+/** Sum of all stats across the 15 players (defaults use 8325) */
+export const TEAM_STAT_BUDGET = 8700;
+
+/** Longest team / player name the editor accepts */
+export const MAX_NAME_LENGTH = 16;
+
 const STORAGE_KEY = 'rugby_custom_teams';
 
+const DEFAULT_STATS: CustomPlayer['stats'] = {
+  speed: 70, strength: 70, handling: 70, kicking: 60, stamina: 75, tackling: 70, awareness: 70, workRate: 70,
+};
+
 export class TeamEditor {
   private teams: CustomTeam[] = [];
 
@@ -38,21 +61,14 @@ export class TeamEditor {
 
   /** Create a new custom team with default players */
   createTeam(name: string, color: number): CustomTeam {
-    const positionNames = [
-      'Loosehead Prop', 'Hooker', 'Tighthead Prop',
-      'Lock 4', 'Lock 5', 'Blindside Flanker', 'Openside Flanker', 'Number 8',
-      'Scrum Half', 'Fly Half', 'Left Wing', 'Inside Centre', 'Outside Centre',
-      'Right Wing', 'Fullback',
-    ];
-
     const team: CustomTeam = {
-      id: `custom_${Date.now()}`,
-      name,
+      id: this.nextId(),
+      name: name.slice(0, MAX_NAME_LENGTH),
       color,
-      players: positionNames.map((pName, i) => ({
+      players: Object.values(POSITION_NAMES).map((pName, i) => ({
         name: pName,
         position: i + 1,
-        stats: { speed: 70, strength: 70, handling: 70, kicking: 60, stamina: 75, tackling: 70, awareness: 70, workRate: 70 },
+        stats: { ...DEFAULT_STATS },
       })),
     };
 
@@ -61,14 +77,27 @@ export class TeamEditor {
     return team;
   }
 
-  /** Update a player's stats */
-  updatePlayerStats(teamId: string, position: number, stats: Partial<CustomPlayer['stats']>): void {
+  /**
+   * Update a player's stats. Each value is clamped to STAT_MIN–STAT_MAX and
+   * increases are trimmed so the team stays within TEAM_STAT_BUDGET.
+   * @returns false if the team or player doesn't exist
+   */
+  updatePlayerStats(teamId: string, position: number, stats: Partial<CustomPlayer['stats']>): boolean {
     const team = this.teams.find(t => t.id === teamId);
-    if (!team) return;
+    if (!team) return false;
     const player = team.players.find(p => p.position === position);
-    if (!player) return;
-    Object.assign(player.stats, stats);
+    if (!player) return false;
+
+    for (const key of Object.keys(stats) as CustomStatKey[]) {
+      const requested = stats[key];
+      if (requested === undefined) continue;
+      const current = player.stats[key];
+      let value = Math.round(Math.min(STAT_MAX, Math.max(STAT_MIN, requested)));
+      if (value > current) value = Math.min(value, current + this.getBudgetRemaining(teamId));
+      player.stats[key] = value;
+    }
     this.save();
+    return true;
   }
 
   /** Update a player's name */
@@ -77,7 +106,7 @@ export class TeamEditor {
     if (!team) return;
     const player = team.players.find(p => p.position === position);
     if (player) {
-      player.name = name;
+      player.name = name.slice(0, MAX_NAME_LENGTH);
       this.save();
     }
   }
@@ -86,7 +115,7 @@ export class TeamEditor {
   updateTeam(teamId: string, name?: string, color?: number): void {
     const team = this.teams.find(t => t.id === teamId);
     if (!team) return;
-    if (name !== undefined) team.name = name;
+    if (name !== undefined) team.name = name.slice(0, MAX_NAME_LENGTH);
     if (color !== undefined) team.color = color;
     this.save();
   }
@@ -107,14 +136,67 @@ export class TeamEditor {
     return this.teams.find(t => t.id === teamId);
   }
 
+  /** Sum of every stat across the squad */
+  getStatTotal(teamId: string): number {
+    const team = this.getTeam(teamId);
+    if (!team) return 0;
+    let total = 0;
+    for (const p of team.players) {
+      for (const value of Object.values(p.stats)) total += value;
+    }
+    return total;
+  }
+
+  /** Stat points still available to spend */
+  getBudgetRemaining(teamId: string): number {
+    return Math.max(0, TEAM_STAT_BUDGET - this.getStatTotal(teamId));
+  }
+
+  /**
+   * Build the TeamStats a Team is constructed from — squad averages for the
+   * summary fields, plus every player's name and stats.
+   */
+  static toTeamStats(team: CustomTeam): TeamStats {
+    const avg = (key: CustomStatKey) =>
+      Math.round(team.players.reduce((sum, p) => sum + p.stats[key], 0) / Math.max(1, team.players.length));
+    const speed = avg('speed');
+    const strength = avg('strength');
+    const kicking = avg('kicking');
+    const handling = avg('handling');
+    return {
+      rating: Math.round((speed + strength + kicking + handling + avg('tackling')) / 5),
+      strength,
+      speed,
+      kicking,
+      handling,
+      color: team.color,
+      squad: team.players.map(p => ({ position: p.position, name: p.name, stats: { ...p.stats } })),
+    };
+  }
+
+  private nextId(): string {
+    let id = `custom_${Date.now()}`;
+    for (let n = 2; this.teams.some(t => t.id === id); n++) id = `custom_${Date.now()}_${n}`;
+    return id;
+  }
+
   private save(): void {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.teams));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.teams));
+    } catch {
+      // Storage unavailable or full — edits stay in memory for this session
+    }
   }
 
   private load(): void {
-    const data = localStorage.getItem(STORAGE_KEY);
-    if (data) {
-      this.teams = JSON.parse(data);
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      if (data) {
+        const parsed = JSON.parse(data);
+        if (Array.isArray(parsed)) this.teams = parsed;
+      }
+    } catch {
+      this.teams = [];
     }
   }
 }
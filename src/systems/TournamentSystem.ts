@@ -3,6 +3,12 @@
  *
  * Manages bracket progression, win/loss tracking, and league points.
  * Uses localStorage for save/load.
+ *
+ * League points: 4 for a win, 2 for a draw, plus bonus points —
+ *   try bonus:    4+ tries ('four_tries'), or 3+ tries more than the
+ *                 opponent ('three_more')
+ *   losing bonus: losing by losingBonusMargin points or fewer
+ * Ties are broken by wins, points difference, tries scored, then head-to-head.
  */
 
 export interface TournamentTeam {
@@ -13,6 +19,7 @@ export interface TournamentTeam {
   draws: number;
   pointsFor: number;
   pointsAgainst: number;
+  triesFor: number;
   bonusPoints: number;
 }
 
@@ -21,15 +28,38 @@ export interface TournamentMatch {
   away: string;
   homeScore: number;
   awayScore: number;
+  homeTries: number;
+  awayTries: number;
   played: boolean;
   round: number;
 }
 
+export type TournamentFormat = 'knockout' | 'league';
+
+export type TryBonusRule = 'four_tries' | 'three_more';
+
+export interface BonusPointRules {
+  tryBonus: TryBonusRule;
+  /** Losing by this many points or fewer earns a bonus point */
+  losingBonusMargin: number;
+}
+
+export const DEFAULT_BONUS_RULES: BonusPointRules = { tryBonus: 'four_tries', losingBonusMargin: 7 };
+
+const STORAGE_KEY = 'rugby_tournament';
+
 export class TournamentSystem {
   private teams: TournamentTeam[] = [];
   private matches: TournamentMatch[] = [];
   private currentRound = 0;
-  private format: 'knockout' | 'league' = 'knockout';
+  private format: TournamentFormat = 'knockout';
+  /** Team the player controls — every other fixture is simulated */
+  private userTeam: string | null = null;
+  private rules: BonusPointRules;
+
+  constructor(rules: Partial<BonusPointRules> = {}) {
+    this.rules = { ...DEFAULT_BONUS_RULES, ...rules };
+  }
 
   /**
    * Initialize a knockout tournament.
@@ -38,7 +68,7 @@ export class TournamentSystem {
     this.format = 'knockout';
     this.teams = teamNames.map(t => ({
       ...t, wins: 0, losses: 0, draws: 0,
-      pointsFor: 0, pointsAgainst: 0, bonusPoints: 0,
+      pointsFor: 0, pointsAgainst: 0, triesFor: 0, bonusPoints: 0,
     }));
     this.matches = [];
     this.currentRound = 1;
@@ -49,7 +79,7 @@ export class TournamentSystem {
         this.matches.push({
           home: this.teams[i].name,
           away: this.teams[i + 1].name,
-          homeScore: 0, awayScore: 0,
+          homeScore: 0, awayScore: 0, homeTries: 0, awayTries: 0,
           played: false, round: 1,
         });
       }
@@ -63,7 +93,7 @@ export class TournamentSystem {
     this.format = 'league';
     this.teams = teamNames.map(t => ({
       ...t, wins: 0, losses: 0, draws: 0,
-      pointsFor: 0, pointsAgainst: 0, bonusPoints: 0,
+      pointsFor: 0, pointsAgainst: 0, triesFor: 0, bonusPoints: 0,
     }));
     this.matches = [];
     this.currentRound = 1;
@@ -75,7 +105,7 @@ export class TournamentSystem {
         this.matches.push({
           home: this.teams[i].name,
           away: this.teams[j].name,
-          homeScore: 0, awayScore: 0,
+          homeScore: 0, awayScore: 0, homeTries: 0, awayTries: 0,
           played: false, round: round++,
         });
       }
@@ -83,16 +113,26 @@ export class TournamentSystem {
   }
 
   /**
-   * Record a match result.
+   * Record a match result. The teams may be given either way round
+   * (the user always plays as home in MatchScene).
    */
-  recordResult(homeTeam: string, awayTeam: string, homeScore: number, awayScore: number): void {
+  recordResult(
+    homeTeam: string, awayTeam: string, homeScore: number, awayScore: number,
+    homeTries = 0, awayTries = 0,
+  ): void {
     const match = this.matches.find(
       m => m.home === homeTeam && m.away === awayTeam && !m.played
     );
-    if (!match) return;
+    if (!match) {
+      const reversed = this.matches.find(m => m.home === awayTeam && m.away === homeTeam && !m.played);
+      if (reversed) this.recordResult(awayTeam, homeTeam, awayScore, homeScore, awayTries, homeTries);
+      return;
+    }
 
     match.homeScore = homeScore;
     match.awayScore = awayScore;
+    match.homeTries = homeTries;
+    match.awayTries = awayTries;
     match.played = true;
 
     const home = this.teams.find(t => t.name === homeTeam);
@@ -101,21 +141,23 @@ export class TournamentSystem {
 
     home.pointsFor += homeScore;
     home.pointsAgainst += awayScore;
+    home.triesFor += homeTries;
     away.pointsFor += awayScore;
     away.pointsAgainst += homeScore;
+    away.triesFor += awayTries;
+
+    if (this.earnsTryBonus(homeTries, awayTries)) home.bonusPoints++;
+    if (this.earnsTryBonus(awayTries, homeTries)) away.bonusPoints++;
 
+    const margin = this.rules.losingBonusMargin;
     if (homeScore > awayScore) {
       home.wins++;
       away.losses++;
-      // 4-try bonus point (simplified: if scored 4+ tries ≈ 20+ points)
-      if (homeScore >= 20) home.bonusPoints++;
-      // Losing bonus (within 7 points)
-      if (awayScore >= homeScore - 7) away.bonusPoints++;
+      if (homeScore - awayScore <= margin) away.bonusPoints++;
     } else if (awayScore > homeScore) {
       away.wins++;
       home.losses++;
-      if (awayScore >= 20) away.bonusPoints++;
-      if (homeScore >= awayScore - 7) home.bonusPoints++;
+      if (awayScore - homeScore <= margin) home.bonusPoints++;
     } else {
       home.draws++;
       away.draws++;
@@ -127,6 +169,10 @@ export class TournamentSystem {
     }
   }
 
+  private earnsTryBonus(tries: number, opponentTries: number): boolean {
+    return this.rules.tryBonus === 'four_tries' ? tries >= 4 : tries - opponentTries >= 3;
+  }
+
   private checkKnockoutAdvance(): void {
     const currentMatches = this.matches.filter(m => m.round === this.currentRound);
     if (currentMatches.every(m => m.played)) {
@@ -142,7 +188,7 @@ export class TournamentSystem {
         if (i + 1 < winners.length) {
           this.matches.push({
             home: winners[i], away: winners[i + 1],
-            homeScore: 0, awayScore: 0,
+            homeScore: 0, awayScore: 0, homeTries: 0, awayTries: 0,
             played: false, round: this.currentRound,
           });
         }
@@ -150,14 +196,40 @@ export class TournamentSystem {
     }
   }
 
-  /** Get league table sorted by points */
+  /** League points: 4 for a win, 2 for a draw, plus bonus points */
+  getLeaguePoints(team: TournamentTeam): number {
+    return team.wins * 4 + team.draws * 2 + team.bonusPoints;
+  }
+
+  /**
+   * Get league table sorted by points, then wins, points difference,
+   * tries scored and head-to-head.
+   */
   getLeagueTable(): TournamentTeam[] {
-    return [...this.teams].sort((a, b) => {
-      const aPoints = a.wins * 4 + a.draws * 2 + a.bonusPoints;
-      const bPoints = b.wins * 4 + b.draws * 2 + b.bonusPoints;
-      if (bPoints !== aPoints) return bPoints - aPoints;
-      return (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst);
-    });
+    return [...this.teams].sort((a, b) =>
+      (this.getLeaguePoints(b) - this.getLeaguePoints(a))
+      || (b.wins - a.wins)
+      || ((b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst))
+      || (b.triesFor - a.triesFor)
+      || this.headToHead(b.name, a.name)
+    );
+  }
+
+  /** Wins minus losses for `team` in played fixtures against `opponent` */
+  private headToHead(team: string, opponent: string): number {
+    let balance = 0;
+    for (const m of this.matches) {
+      if (!m.played || m.homeScore === m.awayScore) continue;
+      const winner = m.homeScore > m.awayScore ? m.home : m.away;
+      const loser = winner === m.home ? m.away : m.home;
+      if (winner === team && loser === opponent) balance++;
+      else if (winner === opponent && loser === team) balance--;
+    }
+    return balance;
+  }
+
+  getBonusRules(): Readonly<BonusPointRules> {
+    return this.rules;
   }
 
   /** Get next unplayed match */
@@ -178,27 +250,76 @@ export class TournamentSystem {
     return this.matches.every(m => m.played);
   }
 
+  getFormat(): TournamentFormat {
+    return this.format;
+  }
+
+  getCurrentRound(): number {
+    return this.currentRound;
+  }
+
+  getTeams(): ReadonlyArray<TournamentTeam> {
+    return this.teams;
+  }
+
+  /** Every fixture so far, in the order they are played */
+  getMatches(): ReadonlyArray<TournamentMatch> {
+    return this.matches;
+  }
+
+  setUserTeam(name: string | null): void {
+    this.userTeam = name;
+  }
+
+  getUserTeam(): string | null {
+    return this.userTeam;
+  }
+
+  /** Whether the player takes part in this fixture (otherwise it is simulated) */
+  isUserMatch(match: TournamentMatch): boolean {
+    return this.userTeam !== null && (match.home === this.userTeam || match.away === this.userTeam);
+  }
+
   /** Save to localStorage */
   save(): void {
-    localStorage.setItem('rugby_tournament', JSON.stringify({
-      teams: this.teams, matches: this.matches,
-      currentRound: this.currentRound, format: this.format,
-    }));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        teams: this.teams, matches: this.matches,
+        currentRound: this.currentRound, format: this.format,
+        userTeam: this.userTeam, rules: this.rules,
+      }));
+    } catch {
+      // Storage unavailable or full — the tournament lasts for this session only
+    }
   }
 
   /** Load from localStorage */
   load(): boolean {
-    const data = localStorage.getItem('rugby_tournament');
-    if (!data) return false;
-    const parsed = JSON.parse(data);
-    this.teams = parsed.teams;
-    this.matches = parsed.matches;
-    this.currentRound = parsed.currentRound;
-    this.format = parsed.format;
-    return true;
+    try {
+      const data = localStorage.getItem(STORAGE_KEY);
+      if (!data) return false;
+      const parsed = JSON.parse(data);
+      if (!Array.isArray(parsed.teams) || !Array.isArray(parsed.matches)) return false;
+      // Saves from before try counting have no tries — treat them as zero
+      this.teams = parsed.teams.map((t: TournamentTeam) => ({ ...t, triesFor: t.triesFor ?? 0 }));
+      this.matches = parsed.matches.map((m: TournamentMatch) => ({
+        ...m, homeTries: m.homeTries ?? 0, awayTries: m.awayTries ?? 0,
+      }));
+      this.currentRound = parsed.currentRound;
+      this.format = parsed.format;
+      this.userTeam = parsed.userTeam ?? null;
+      this.rules = { ...DEFAULT_BONUS_RULES, ...parsed.rules };
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   clear(): void {
-    localStorage.removeItem('rugby_tournament');
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Nothing saved to remove
+    }
   }
 }
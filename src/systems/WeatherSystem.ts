@@ -3,12 +3,26 @@
  *
  * Rain: increased knock-on probability, reduced ball friction
  * Wind: lateral force on kicked balls
+ * Wet pitch: the longer it rains, the heavier the ground — the ball holds
+ *            up more and knock-ons climb further; it dries slowly after
+ *
+ * Conditions can change mid-match: a forecast schedules changes by half and
+ * minute, applied as clockTick reaches them. Each change (and the pitch
+ * turning heavy) is announced with a `weatherChange` event.
  */
 
-import Phaser from 'phaser';
+import type Phaser from 'phaser';
+import { RNG } from '../utils/Random';
+import type { SeededRandom } from '../utils/Random';
+import { EventBus } from '../utils/EventBus';
 
 export type WeatherType = 'clear' | 'rain' | 'wind' | 'rain_and_wind';
 
+/** Pre-match weather options — 'random' is rolled from the match seed */
+export type WeatherChoice = WeatherType | 'random';
+
+export const WEATHER_TYPES: readonly WeatherType[] = ['clear', 'rain', 'wind', 'rain_and_wind'];
+
 export interface WeatherConfig {
   knockOnModifier: number;   // Multiplier on knock-on chance (1.0 = normal)
   frictionModifier: number;  // Ball friction modifier (lower = less friction)
@@ -24,9 +38,69 @@ const WEATHER_PRESETS: Record<WeatherType, WeatherConfig> = {
   rain_and_wind: { knockOnModifier: 1.8, frictionModifier: 0.75, windForceX: 1.0, windForceY: 0.4, rainIntensity: 0.9 },
 };
 
+const WEATHER_NAMES: Record<WeatherType, string> = {
+  clear: 'Clear',
+  rain: 'Rain',
+  wind: 'Wind',
+  rain_and_wind: 'Rain and wind',
+};
+
+// ─── Wet pitch ──────────────────────────────────────────────
+/** Wetness gained per game minute at full rain intensity */
+const SOAK_RATE = 0.04;
+/** Wetness lost per game minute without rain */
+const DRY_RATE = 0.01;
+/** Extra knock-on multiplier at full wetness */
+const WET_KNOCK_ON_GAIN = 0.5;
+/** Extra ball friction multiplier at full wetness */
+const WET_FRICTION_GAIN = 0.6;
+/** Wetness at which the pitch is announced as heavy */
+const HEAVY_PITCH = 0.6;
+
+/** One scheduled change of conditions */
+export interface WeatherChange {
+  half: 1 | 2;
+  /** Match minute on the clock when it lands */
+  minute: number;
+  type: WeatherType;
+  /** 1 = wind blowing towards +X (behind home), −1 = towards −X */
+  windDirection: 1 | -1;
+  /** HUD badge / forecast text */
+  description: string;
+}
+
+/** Conditions at kick-off plus the changes expected during the match */
+export interface WeatherForecast {
+  start: WeatherType;
+  windDirection: 1 | -1;
+  /** In match order */
+  changes: WeatherChange[];
+}
+
+const hasRain = (type: WeatherType) => type === 'rain' || type === 'rain_and_wind';
+const hasWind = (type: WeatherType) => type === 'wind' || type === 'rain_and_wind';
+const withRain = (type: WeatherType, rain: boolean): WeatherType =>
+  hasWind(type) ? (rain ? 'rain_and_wind' : 'wind') : (rain ? 'rain' : 'clear');
+
+/** Wind relative to a kicker aiming at the opposition posts */
+export interface GoalKickWind {
+  /** Positive pushes the ball to the kicker's right */
+  crosswind: number;
+  /** Positive is behind the kicker (helps), negative is into their face */
+  tailwind: number;
+}
+
 export class WeatherSystem {
   private weather: WeatherType = 'clear';
+  private windDirection: 1 | -1 = 1;
+  /** 0 = dry, 1 = waterlogged */
+  private wetness = 0;
   private config: WeatherConfig;
+  private pending: WeatherChange[] = [];
+  private lastHalf: 1 | 2 = 1;
+  private lastMinute = 0;
+
+  private scene: Phaser.Scene | null = null;
   private particles: Phaser.GameObjects.Particles.ParticleEmitter | null = null;
   private windIndicator: Phaser.GameObjects.Text | null = null;
 
@@ -34,34 +108,165 @@ export class WeatherSystem {
     this.config = { ...WEATHER_PRESETS.clear };
   }
 
+  /**
+   * Turn a pre-match choice into an actual weather type.
+   * Only 'random' draws from the RNG, so a fixed choice leaves the match sequence alone.
+   */
+  static resolve(choice: WeatherChoice, rng: SeededRandom = RNG): WeatherType {
+    return choice === 'random' ? rng.pick(WEATHER_TYPES) : choice;
+  }
+
+  /**
+   * Roll the conditions for a match: starting weather, wind direction and
+   * up to three changes (wind getting up, wind swinging round at the break,
+   * rain arriving or clearing in the second half).
+   * @param rng Pass a dedicated generator to preview a forecast without using the match RNG
+   */
+  static generateForecast(choice: WeatherChoice, rng: SeededRandom = RNG): WeatherForecast {
+    const start = WeatherSystem.resolve(choice, rng);
+    const forecast: WeatherForecast = { start, windDirection: rng.chance(0.5) ? 1 : -1, changes: [] };
+    let type = start;
+    let windDirection = forecast.windDirection;
+
+    if (!hasWind(type) && rng.chance(0.2)) {
+      type = hasRain(type) ? 'rain_and_wind' : 'wind';
+      forecast.changes.push({ half: 1, minute: rng.int(15, 35), type, windDirection, description: 'Wind picking up' });
+    }
+
+    if (hasWind(type) && rng.chance(0.5)) {
+      windDirection = windDirection === 1 ? -1 : 1;
+      forecast.changes.push({ half: 2, minute: 40, type, windDirection, description: 'Wind swung round at the break' });
+    }
+
+    if (!hasRain(type) && rng.chance(0.3)) {
+      type = withRain(type, true);
+      forecast.changes.push({ half: 2, minute: rng.int(45, 70), type, windDirection, description: 'Rain setting in' });
+    } else if (hasRain(type) && rng.chance(0.25)) {
+      type = withRain(type, false);
+      forecast.changes.push({ half: 2, minute: rng.int(50, 75), type, windDirection, description: 'Rain easing off' });
+    }
+
+    return forecast;
+  }
+
+  /** Short human-readable lines for a pre-match forecast */
+  static describeForecast(forecast: WeatherForecast): string[] {
+    const lines = [`Kick-off: ${WEATHER_NAMES[forecast.start]}`];
+    for (const change of forecast.changes) {
+      const when = change.half === 2 && change.minute === 40 ? 'Half time' : `Around ${change.minute}'`;
+      lines.push(`${when}: ${change.description.toLowerCase()}`);
+    }
+    return lines;
+  }
+
   /**
    * Set the weather for the match.
    */
   setWeather(type: WeatherType, scene?: Phaser.Scene): void {
     this.weather = type;
-    this.config = { ...WEATHER_PRESETS[type] };
+    if (scene) this.scene = scene;
+    this.recalculate();
+    this.refreshEffects();
+  }
+
+  /**
+   * Start the match from a forecast — its changes are applied by `update`.
+   */
+  setForecast(forecast: WeatherForecast, scene?: Phaser.Scene): void {
+    this.windDirection = forecast.windDirection;
+    this.pending = [...forecast.changes];
+    this.lastHalf = 1;
+    this.lastMinute = 0;
+    this.wetness = 0;
+    this.setWeather(forecast.start, scene);
+  }
+
+  /**
+   * Advance to the current match time — call on every clockTick.
+   * Applies any changes that are due and soaks / dries the pitch once per game minute.
+   */
+  update(half: 1 | 2, minute: number): void {
+    if (half === this.lastHalf && minute <= this.lastMinute) return;
+    const elapsed = half === this.lastHalf ? minute - this.lastMinute : 1;
+    this.lastHalf = half;
+    this.lastMinute = minute;
+
+    while (this.pending.length > 0) {
+      const next = this.pending[0];
+      if (next.half > half || (next.half === half && next.minute > minute)) break;
+      this.pending.shift();
+      this.windDirection = next.windDirection;
+      this.setWeather(next.type);
+      this.announce(next.description);
+    }
+
+    const wasHeavy = this.wetness >= HEAVY_PITCH;
+    const rain = WEATHER_PRESETS[this.weather].rainIntensity;
+    this.wetness = rain > 0
+      ? Math.min(1, this.wetness + rain * SOAK_RATE * elapsed)
+      : Math.max(0, this.wetness - DRY_RATE * elapsed);
+    this.recalculate();
+
+    if (!wasHeavy && this.wetness >= HEAVY_PITCH) this.announce('Pitch getting heavy');
+  }
+
+  /** Current pitch wetness, 0 (dry) – 1 (waterlogged) */
+  getWetness(): number {
+    return this.wetness;
+  }
+
+  /** Changes still to come */
+  getPendingChanges(): readonly WeatherChange[] {
+    return this.pending;
+  }
+
+  /** Rebuild the gameplay config from the preset, wind direction and wetness */
+  private recalculate(): void {
+    const preset = WEATHER_PRESETS[this.weather];
+    this.config = {
+      knockOnModifier: preset.knockOnModifier * (1 + this.wetness * WET_KNOCK_ON_GAIN),
+      frictionModifier: preset.frictionModifier * (1 + this.wetness * WET_FRICTION_GAIN),
+      windForceX: preset.windForceX * this.windDirection,
+      windForceY: preset.windForceY * this.windDirection,
+      rainIntensity: preset.rainIntensity,
+    };
+  }
+
+  private announce(description: string): void {
+    EventBus.emit('weatherChange', { type: this.weather, description, wetness: this.wetness });
+  }
+
+  /** Swap rain / wind visuals to match the current weather */
+  private refreshEffects(): void {
+    this.particles?.destroy();
+    this.windIndicator?.destroy();
+    this.particles = null;
+    this.windIndicator = null;
+    if (!this.scene) return;
 
     // Visual effects
-    if (scene && (type === 'rain' || type === 'rain_and_wind')) {
-      this.createRainEffect(scene);
+    if (hasRain(this.weather)) {
+      this.createRainEffect(this.scene);
     }
 
-    if (scene && (type === 'wind' || type === 'rain_and_wind')) {
-      this.createWindIndicator(scene);
+    if (hasWind(this.weather)) {
+      this.createWindIndicator(this.scene);
     }
   }
 
   private createRainEffect(scene: Phaser.Scene): void {
     // Create rain particle effect using Phaser particles
     // Simple diagonal lines falling
-    const gfx = scene.add.graphics();
-    gfx.lineStyle(1, 0x6699cc, 0.4);
-    gfx.beginPath();
-    gfx.moveTo(0, 0);
-    gfx.lineTo(2, 8);
-    gfx.strokePath();
-    gfx.generateTexture('rain_drop', 3, 9);
-    gfx.destroy();
+    if (!scene.textures.exists('rain_drop')) {
+      const gfx = scene.add.graphics();
+      gfx.lineStyle(1, 0x6699cc, 0.4);
+      gfx.beginPath();
+      gfx.moveTo(0, 0);
+      gfx.lineTo(2, 8);
+      gfx.strokePath();
+      gfx.generateTexture('rain_drop', 3, 9);
+      gfx.destroy();
+    }
 
     this.particles = scene.add.particles(0, 0, 'rain_drop', {
       x: { min: 0, max: scene.cameras.main.width },
@@ -94,6 +299,35 @@ export class WeatherSystem {
     return this.weather;
   }
 
+  /**
+   * Per-frame velocity damping for a loose ball.
+   * A slick surface (frictionModifier < 1) lets the ball skid further.
+   * @param base Dry-pitch damping factor (e.g. BALL.FRICTION)
+   */
+  ballFriction(base: number): number {
+    return 1 - (1 - base) * this.config.frictionModifier;
+  }
+
+  /**
+   * Break the wind down for a kick at goal.
+   * @param side Kicking team — home kicks towards +X, away towards −X
+   */
+  goalKickWind(side: 'home' | 'away'): GoalKickWind {
+    const dir = side === 'home' ? 1 : -1;
+    return {
+      crosswind: this.config.windForceY * dir,
+      tailwind: this.config.windForceX * dir,
+    };
+  }
+
+  /** Rain / wind display objects, e.g. for cameras that should skip them */
+  getDisplayObjects(): Phaser.GameObjects.GameObject[] {
+    const objects: Phaser.GameObjects.GameObject[] = [];
+    if (this.particles) objects.push(this.particles);
+    if (this.windIndicator) objects.push(this.windIndicator);
+    return objects;
+  }
+
   /**
    * Apply wind force to a kicked ball's end position.
    * @param endX Original end X
@@ -111,5 +345,8 @@ export class WeatherSystem {
   destroy(): void {
     this.particles?.destroy();
     this.windIndicator?.destroy();
+    this.particles = null;
+    this.windIndicator = null;
+    this.scene = null;
   }
 }
@@ -0,0 +1,137 @@
+/**
+ * PitchRenderer — draws the static pitch (grass, markings, posts).
+ *
+ * Shared by MatchScene and the replay scenes so every view of the
+ * match uses the same markings.
+ */
+
+import Phaser from 'phaser';
+import { PITCH } from '../utils/Constants';
+
+/**
+ * Draw the full pitch into a new graphics object at depth -1.
+ * @returns The graphics object holding the pitch
+ */
+export function drawPitch(scene: Phaser.Scene): Phaser.GameObjects.Graphics {
+  const gfx = scene.add.graphics();
+
+  // Grass background with stripe effect
+  for (let x = 0; x < PITCH.WIDTH_PX; x += 100) {
+    const shade = (x / 100) % 2 === 0 ? 0x2d7d2d : 0x339933;
+    gfx.fillStyle(shade, 1);
+    gfx.fillRect(x, 0, 100, PITCH.HEIGHT_PX);
+  }
+
+  // In-goal areas (lighter tint)
+  gfx.fillStyle(0x3d8d3d, 1);
+  gfx.fillRect(0, 0, PITCH.TRY_LINE_LEFT, PITCH.HEIGHT_PX);
+  gfx.fillRect(PITCH.TRY_LINE_RIGHT, 0, PITCH.WIDTH_PX - PITCH.TRY_LINE_RIGHT, PITCH.HEIGHT_PX);
+
+  // Field lines
+  gfx.lineStyle(2, 0xffffff, 0.8);
+
+  // Touchlines
+  gfx.strokeRect(PITCH.TRY_LINE_LEFT, 0, PITCH.TRY_LINE_RIGHT - PITCH.TRY_LINE_LEFT, PITCH.HEIGHT_PX);
+
+  // Halfway
+  gfx.beginPath();
+  gfx.moveTo(PITCH.HALFWAY, 0);
+  gfx.lineTo(PITCH.HALFWAY, PITCH.HEIGHT_PX);
+  gfx.strokePath();
+
+  // 22m lines
+  drawDashedLine(gfx, PITCH.LINE_22_LEFT, 0, PITCH.LINE_22_LEFT, PITCH.HEIGHT_PX);
+  drawDashedLine(gfx, PITCH.LINE_22_RIGHT, 0, PITCH.LINE_22_RIGHT, PITCH.HEIGHT_PX);
+
+  // 10m lines
+  drawDashedLine(gfx, PITCH.LINE_10_LEFT, 0, PITCH.LINE_10_LEFT, PITCH.HEIGHT_PX);
+  drawDashedLine(gfx, PITCH.LINE_10_RIGHT, 0, PITCH.LINE_10_RIGHT, PITCH.HEIGHT_PX);
+
+  // Try lines (solid, thicker)
+  gfx.lineStyle(3, 0xffffff, 1);
+  gfx.beginPath();
+  gfx.moveTo(PITCH.TRY_LINE_LEFT, 0);
+  gfx.lineTo(PITCH.TRY_LINE_LEFT, PITCH.HEIGHT_PX);
+  gfx.strokePath();
+  gfx.beginPath();
+  gfx.moveTo(PITCH.TRY_LINE_RIGHT, 0);
+  gfx.lineTo(PITCH.TRY_LINE_RIGHT, PITCH.HEIGHT_PX);
+  gfx.strokePath();
+
+  // Dead-ball lines
+  gfx.lineStyle(2, 0xffffff, 0.5);
+  gfx.beginPath();
+  gfx.moveTo(50, 0);
+  gfx.lineTo(50, PITCH.HEIGHT_PX);
+  gfx.strokePath();
+  gfx.beginPath();
+  gfx.moveTo(PITCH.WIDTH_PX - 50, 0);
+  gfx.lineTo(PITCH.WIDTH_PX - 50, PITCH.HEIGHT_PX);
+  gfx.strokePath();
+
+  // Halfway circle
+  gfx.lineStyle(2, 0xffffff, 0.6);
+  gfx.strokeCircle(PITCH.HALFWAY, PITCH.HEIGHT_PX / 2, 50);
+
+  // Goal posts
+  drawGoalPosts(gfx, PITCH.POST_LEFT_X, PITCH.POST_Y);
+  drawGoalPosts(gfx, PITCH.POST_RIGHT_X, PITCH.POST_Y);
+
+  // 5m dashes along touchlines
+  gfx.lineStyle(1, 0xffffff, 0.4);
+  for (let x = PITCH.TRY_LINE_LEFT; x <= PITCH.TRY_LINE_RIGHT; x += 50) {
+    gfx.beginPath();
+    gfx.moveTo(x, 0);
+    gfx.lineTo(x, 10);
+    gfx.strokePath();
+    gfx.beginPath();
+    gfx.moveTo(x, PITCH.HEIGHT_PX - 10);
+    gfx.lineTo(x, PITCH.HEIGHT_PX);
+    gfx.strokePath();
+  }
+
+  gfx.setDepth(-1);
+  return gfx;
+}
+
+function drawDashedLine(gfx: Phaser.GameObjects.Graphics, x1: number, y1: number, x2: number, y2: number): void {
+  const dashLength = 10;
+  const gapLength = 6;
+  const totalLength = Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
+  const dx = (x2 - x1) / totalLength;
+  const dy = (y2 - y1) / totalLength;
+  let drawn = 0;
+  let drawing = true;
+
+  gfx.lineStyle(1, 0xffffff, 0.5);
+  while (drawn < totalLength) {
+    const segLen = drawing ? dashLength : gapLength;
+    const endDraw = Math.min(drawn + segLen, totalLength);
+    if (drawing) {
+      gfx.beginPath();
+      gfx.moveTo(x1 + dx * drawn, y1 + dy * drawn);
+      gfx.lineTo(x1 + dx * endDraw, y1 + dy * endDraw);
+      gfx.strokePath();
+    }
+    drawn = endDraw;
+    drawing = !drawing;
+  }
+}
+
+function drawGoalPosts(gfx: Phaser.GameObjects.Graphics, x: number, y: number): void {
+  const postWidth = PITCH.POST_WIDTH;
+  const halfPost = postWidth / 2;
+  gfx.lineStyle(3, 0xf0e68c, 1);
+  gfx.beginPath();
+  gfx.moveTo(x, y - halfPost);
+  gfx.lineTo(x, y + halfPost);
+  gfx.strokePath();
+  gfx.lineStyle(3, 0xf0e68c, 1);
+  gfx.beginPath();
+  gfx.moveTo(x - 5, y - halfPost);
+  gfx.lineTo(x - 5, y + halfPost);
+  gfx.strokePath();
+  gfx.fillStyle(0xffd700, 1);
+  gfx.fillCircle(x - 5, y - halfPost, 3);
+  gfx.fillCircle(x - 5, y + halfPost, 3);
+}
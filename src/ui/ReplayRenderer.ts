@@ -0,0 +1,49 @@
+/**
+ * ReplayRenderer — draws recorded replay frames.
+ *
+ * Creates one tinted sprite (plus shirt number) per recorded player slot
+ * and a ball sprite, then moves them to match whichever frame is shown.
+ */
+
+import Phaser from 'phaser';
+import type { Replay, ReplayFrame } from '../systems/ReplayRecorder';
+
+export class ReplayRenderer {
+  private players: Phaser.GameObjects.Image[] = [];
+  private labels: Phaser.GameObjects.Text[] = [];
+  private ball: Phaser.GameObjects.Image;
+
+  constructor(scene: Phaser.Scene, replay: Replay) {
+    for (const slot of replay.players) {
+      const color = slot.side === 'home' ? replay.home.color : replay.away.color;
+      this.players.push(scene.add.image(0, 0, 'player').setTint(color).setDepth(1));
+      this.labels.push(scene.add.text(0, 0, String(slot.position), {
+        fontSize: '7px', fontFamily: 'monospace', color: '#ffffff',
+      }).setOrigin(0.5).setDepth(2));
+    }
+    this.ball = scene.add.image(0, 0, 'ball').setDepth(3);
+  }
+
+  /** Position every sprite from a (possibly interpolated) frame */
+  render(frame: ReplayFrame): void {
+    for (let i = 0; i < this.players.length; i++) {
+      const x = frame.players[i * 2];
+      const y = frame.players[i * 2 + 1];
+      if (x === undefined || y === undefined) continue;
+      this.players[i].setPosition(x, y);
+      this.labels[i].setPosition(x, y + 12);
+    }
+    this.ball.setPosition(frame.ball[0], frame.ball[1]);
+  }
+
+  /** The ball sprite — handy as a camera follow target */
+  getBall(): Phaser.GameObjects.Image {
+    return this.ball;
+  }
+
+  destroy(): void {
+    for (const obj of [...this.players, ...this.labels, this.ball]) obj.destroy();
+    this.players = [];
+    this.labels = [];
+  }
+}
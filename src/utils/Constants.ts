@@ -23,6 +23,9 @@ export const PITCH = {
   /** 10m lines from halfway */
   LINE_10_LEFT: 600,
   LINE_10_RIGHT: 800,
+  /** Dead-ball lines, 5 m beyond each in-goal */
+  DEAD_BALL_LEFT: 50,
+  DEAD_BALL_RIGHT: 1350,
   /** Touchlines (top and bottom) */
   TOUCHLINE_TOP: 0,
   TOUCHLINE_BOTTOM: 700,
@@ -86,6 +89,36 @@ export const RUCK = {
   RELEASE_THRESHOLD: 1.3,
   /** Timeout before awarding scrum (ms) — ball released within 10s */
   TIMEOUT: 10000,
+  /** How far past level with the ball a player can be and still be on his own side (px) */
+  ENTRY_TOLERANCE: 15,
+  /** Sideways distance beyond which a player arriving level with the ball came in from the side (px) */
+  GATE_HALF_WIDTH: 30,
+  /** Time an attacker can be bound before the ruck is formed and hands are off the ball (ms) */
+  JACKAL_WINDOW: 300,
+  /** Late arrivers below this awareness go for the ball anyway */
+  JACKAL_AWARENESS: 60,
+  /** Power multiplier for a jackler who got there in time */
+  JACKAL_BONUS: 1.5,
+  /** Jackler over the ball this long with no attacker bound — tackled player penalised (ms) */
+  HOLDING_ON_MS: 900,
+  /** Contest tick lost by this much power drives the weaker players off their feet */
+  OFF_FEET_MARGIN: 0.5,
+  /** Players at or above this strength keep their feet when driven back */
+  KEEP_FEET_STRENGTH: 70,
+} as const;
+
+// ─── Offside Lines ───────────────────────────────────────────
+export const OFFSIDE = {
+  /** Ruck offside line behind the ball — its hindmost foot (px) */
+  RUCK_DEPTH: 60,
+  /** Scrum hindmost foot (number 8) behind the mark (px) */
+  SCRUM_DEPTH: 30,
+  /** Backs stand this far behind the scrum's hindmost foot (5 m) */
+  SCRUM_BACKS: 50,
+  /** Players not in the lineout stand this far back from the line of touch (10 m) */
+  LINEOUT_BACKS: 100,
+  /** 10-metre law — players in front of a kicker retire this far from where the ball comes down */
+  KICK_TEN_METRES: 100,
 } as const;
 
 // ─── Match Timing ────────────────────────────────────────────
@@ -106,6 +139,157 @@ export const SCORING = {
   CONVERSION: 2,
   PENALTY_GOAL: 3,
   DROP_GOAL: 3,
+  /** Awarded whole — no conversion */
+  PENALTY_TRY: 7,
+} as const;
+
+// ─── Scrum ───────────────────────────────────────────────────
+export const SCRUM = {
+  /** Weight of each front-row forward's strength in the shove */
+  FRONT_ROW_WEIGHT: 1.2,
+  /** …each lock's */
+  LOCK_WEIGHT: 1.0,
+  /** …each back-row forward's */
+  BACK_ROW_WEIGHT: 0.7,
+  /** A forward with no stamina left pushes with this share of their strength */
+  FATIGUE_FLOOR: 0.7,
+  /** Share of the stronger pack's edge lost on a waterlogged pitch — feet slip */
+  WET_GRIP_LOSS: 0.4,
+  /** Chance a scrum goes down or pops up with nobody at fault, on a dry pitch */
+  RESET_CHANCE: 0.1,
+  /** Added to that on a waterlogged pitch */
+  WET_RESET_CHANCE: 0.15,
+  /** Chance the pack going backwards takes it down, per point of edge against them */
+  COLLAPSE_CHANCE: 0.006,
+  /** Chance a drive wheels the scrum through 90° (a quick strike never does) */
+  WHEEL_CHANCE: 0.12,
+  /** Chance the feeding side keeps its ball from a quick strike, packs level */
+  HOOK_RETENTION: 0.9,
+  /** …from a drive */
+  DRIVE_RETENTION: 0.8,
+  /** Retention gained per point of edge */
+  EDGE_RETENTION: 0.01,
+  /** Quick strike retention gained per point of hooking over the other hooker */
+  HOOKER_RETENTION: 0.004,
+  /** A drive this close to the opposition try line can go over (px) */
+  PUSHOVER_RANGE: 80,
+  /** Chance a drive in range goes over, per point of edge */
+  PUSHOVER_CHANCE: 0.03,
+  /** Edge an AI pack wants before driving away from the line */
+  DRIVE_EDGE: 5,
+  /** Resets before the referee gives the ball to the side putting in */
+  MAX_RESETS: 3,
+} as const;
+
+// ─── Lineout ─────────────────────────────────────────────────
+export const LINEOUT = {
+  /** Shortest lineout the throwing side can call */
+  MIN_NUMBERS: 2,
+  /** A full lineout — the pack bar the hooker */
+  FULL_NUMBERS: 7,
+  /** Chance a throw to the front isn't straight, for a hooker with no accuracy at all */
+  NOT_STRAIGHT_CHANCE: 0.1,
+  /** Added to that for each place further back the throw goes */
+  DEPTH_PENALTY: 0.03,
+  /** Share of a jumper's rating down to the lifters either side */
+  LIFTER_SHARE: 0.3,
+  /** A defending jumper this many places from the target can get a hand to it */
+  CONTEST_REACH: 1,
+  /** Rating the throwing side gains in a contest for knowing the call */
+  THROWER_EDGE: 15,
+  /** Chance an uncontested catch is fumbled, scaled by the jumper's handling */
+  FUMBLE_CHANCE: 0.1,
+  /** Numbers an AI side calls elsewhere, if it likes risk — a short lineout for quick ball */
+  SHORT_NUMBERS: 4,
+  /** The line stands between 5 m… (px in from touch) */
+  LINE_FRONT: 50,
+  /** …and 15 m in from touch (px) */
+  LINE_TAIL: 150,
+  /** Chance a throw to the tail sails over everyone, for a hooker with no accuracy at all */
+  OVERTHROW_CHANCE: 0.2,
+  /** An overthrow comes down this far in from touch (px) */
+  OVERTHROW_DEPTH: 220,
+  /** Chance someone off the pitch handles the ball before it's fetched — no quick throw then */
+  SPECTATOR_TOUCH_CHANCE: 0.15,
+  /** Time before the lineout forms, while a quick throw-in can be taken (ms) */
+  QUICK_THROW_WINDOW: 3000,
+  /** A player this close to the mark can fetch the ball for a quick throw (px) */
+  QUICK_THROW_REACH: 150,
+  /** A quick throw must reach a player at least 5 m in from touch (px) */
+  QUICK_THROW_MIN_DISTANCE: 50,
+  /** Defenders this close to the mark are covering a quick throw (px) */
+  QUICK_THROW_COVER: 200,
+  /** AI side takes a quick throw with no more defenders covering than this */
+  QUICK_THROW_MAX_COVER: 2,
+  /** AI thrower's pause before taking a quick throw (ms) */
+  QUICK_THROW_AI_DELAY: 1000,
+} as const;
+
+// ─── Maul ────────────────────────────────────────────────────
+export const MAUL = {
+  /** Forwards this close to the maul come to join it (px) */
+  JOIN_RANGE: 300,
+  /** Pace a forward arrives at, for one with full work rate (px/s) */
+  JOIN_SPEED: 60,
+  /** Most players either side can have bound on */
+  MAX_PER_SIDE: 6,
+  /** Share of a player's strength they push with at no work rate at all */
+  WORK_RATE_FLOOR: 0.5,
+  /** Pace for each unit the attack's push is above the defence's (px/s) */
+  DRIVE_SPEED: 20,
+  /** Fastest a maul goes forward (px/s) */
+  MAX_SPEED: 25,
+  /** Stopped or held this long and the referee gives the scrum (ms) */
+  STALL_TIMEOUT: 3000,
+  /** Goes on this long and the referee gives the scrum (ms) */
+  MAX_DURATION: 8000,
+  /** Chance per second a defender pulls down a maul going forward at full pace */
+  COLLAPSE_RATE: 0.15,
+  /** Pulled down this close to the line, it would have been a try — penalty try (px) */
+  PENALTY_TRY_RANGE: 100,
+  /** AI scrum-half gives the maul this long to get going (ms) */
+  SETTLE_TIME: 1500,
+  /** …and uses it after this long, unless it's still going forward near the line (ms) */
+  USE_IT_TIME: 4000,
+} as const;
+
+// ─── Restarts ────────────────────────────────────────────────
+export const RESTART = {
+  /** A goal-line drop-out must clear the line 5 m out (px) */
+  GOAL_LINE_CLEARANCE: 50,
+  /** Drop-outs are aimed this far downfield (px) — kick-offs go between the 22 and the try line */
+  DROP_OUT_MIN_LENGTH: 150,
+  DROP_OUT_MAX_LENGTH: 400,
+  /** How long the receiving side's call on a short restart stays up (ms) */
+  SHORT_CALL_DELAY: 1500,
+} as const;
+
+// ─── Advantage ───────────────────────────────────────────────
+export const ADVANTAGE = {
+  /** Ground past the mark that counts as territorial advantage (px) — 10 m */
+  TERRITORY_GAIN: 100,
+  /** Play allowed before tactical advantage is over (ms) */
+  WINDOW_MS: 6000,
+  /** Breakdowns allowed before tactical advantage is over */
+  WINDOW_PHASES: 2,
+} as const;
+
+// ─── Discipline ──────────────────────────────────────────────
+export const DISCIPLINE = {
+  /** Team penalties before the referee issues a team warning */
+  TEAM_WARNING_PENALTIES: 5,
+  /** Penalties by one player before a yellow for repeat offending */
+  PLAYER_REPEAT_PENALTIES: 3,
+  /** Cynical breakdown offences near their own line before a yellow */
+  CYNICAL_REPEATS: 2,
+  /** Distance from a side's own try line counted as near the line (px) — their 22 */
+  CYNICAL_ZONE: 220,
+  /** Sin-bin length in game minutes */
+  SIN_BIN_MINUTES: 10,
+  /** Chance a completed tackle goes high, scaled up for poor tacklers */
+  HIGH_TACKLE_CHANCE: 0.015,
+  /** Share of high tackles that are dangerous (red card) rather than careless */
+  DANGEROUS_SHARE: 0.25,
 } as const;
 
 // ─── AI Timing ───────────────────────────────────────────────
@@ -114,6 +298,14 @@ export const AI = {
   TEAM_THINK_INTERVAL: 500,
   /** Phase count before considering a kick */
   KICK_PHASE_THRESHOLD: 8,
+  /** Estimated goal-kick success needed to take the three points at a penalty */
+  PENALTY_GOAL_CONFIDENCE: 0.4,
+  /** Within this distance of the try line (px) a penalty is tapped or scrummed */
+  PENALTY_ATTACK_ZONE: 50,
+  /** Minutes left when the score margin decides the penalty call */
+  PENALTY_ENDGAME_MINUTES: 5,
+  /** Average pack strength below which a short restart is kicked again rather than scrummed */
+  SHORT_RESTART_SCRUM_STRENGTH: 60,
 } as const;
 
 // ─── Camera ──────────────────────────────────────────────────
@@ -128,6 +320,48 @@ export const CAMERA = {
   ZOOM_DURATION: 400,
 } as const;
 
+// ─── Forward Pass ────────────────────────────────────────────
+export const FORWARD_PASS = {
+  /** Share of the passer's forward run during the ball's flight that is put down to momentum */
+  MOMENTUM_ALLOWANCE: 1.0,
+  /** Forward out of the hands by more than this is a forward pass, on review (px) */
+  TOLERANCE: 10,
+  /** The referee in real time gives the benefit of the doubt up to this (px) */
+  REFEREE_TOLERANCE: 20,
+  /** Furthest in front of the carrier a teammate can be picked as the receiver (px) */
+  RECEIVER_AHEAD: 60,
+} as const;
+
+// ─── Television Match Official ───────────────────────────────
+export const TMO = {
+  /** Carried in this close to a touchline — check for a foot in touch (px) */
+  NEAR_TOUCH: 40,
+  /** Ball this close to the touchline on the run-in means the carrier's foot was in touch (px) */
+  FOOT_IN_TOUCH: 8,
+  /** Grounded this close to the dead-ball line — check it was short (px) */
+  NEAR_DEAD_BALL: 40,
+  /** Defenders this close to the carrier going over can get under the ball (px) */
+  HELD_UP_RADIUS: 30,
+  /** Chance each of them holds it up, scaled by their strength against the carrier's */
+  HELD_UP_CHANCE: 0.25,
+  /** Chance of losing it in the act of scoring under pressure, scaled by the carrier's handling */
+  KNOCK_ON_CHANCE: 0.3,
+  /** Play the TMO looks back through (ms of recording) */
+  REVIEW_MS: 5000,
+  /** How long the captain's challenge is offered after a try (ms) */
+  CHALLENGE_WINDOW_MS: 3000,
+} as const;
+
+// ─── Instant Replay ──────────────────────────────────────────
+export const INSTANT_REPLAY = {
+  /** Play kept for an instant replay (ms of recording) */
+  BUFFER_MS: 8000,
+  /** Slow-motion playback speed */
+  SPEED: 0.5,
+  /** How long the "replay that hit" prompt stays up (ms) */
+  PROMPT_MS: 3000,
+} as const;
+
 // ─── Directions (8-way) ─────────────────────────────────────
 export const Direction = {
   N: 'N',
@@ -144,6 +378,8 @@ export type Direction = (typeof Direction)[keyof typeof Direction];
 // ─── Game Phases ─────────────────────────────────────────────
 export const GamePhase = {
   KICK_OFF: 'KICK_OFF',
+  DROP_OUT_22: 'DROP_OUT_22',
+  GOAL_LINE_DROP_OUT: 'GOAL_LINE_DROP_OUT',
   OPEN_PLAY: 'OPEN_PLAY',
   TACKLE: 'TACKLE',
   RUCK: 'RUCK',
@@ -152,10 +388,12 @@ export const GamePhase = {
   LINEOUT: 'LINEOUT',
   PENALTY: 'PENALTY',
   TAP_AND_GO: 'TAP_AND_GO',
+  TMO_REVIEW: 'TMO_REVIEW',
   TRY_SCORED: 'TRY_SCORED',
   CONVERSION: 'CONVERSION',
   DROP_GOAL: 'DROP_GOAL',
   KNOCK_ON: 'KNOCK_ON',
+  FORWARD_PASS: 'FORWARD_PASS',
   TOUCH: 'TOUCH',
   HALF_TIME: 'HALF_TIME',
   FULL_TIME: 'FULL_TIME',
@@ -182,12 +420,76 @@ export const Position = {
 } as const;
 export type Position = (typeof Position)[keyof typeof Position];
 
+/** Display names by shirt number */
+export const POSITION_NAMES: Record<Position, string> = {
+  [Position.LOOSEHEAD_PROP]: 'Loosehead Prop',
+  [Position.HOOKER]: 'Hooker',
+  [Position.TIGHTHEAD_PROP]: 'Tighthead Prop',
+  [Position.LOCK_4]: 'Lock 4',
+  [Position.LOCK_5]: 'Lock 5',
+  [Position.BLINDSIDE_FLANKER]: 'Blindside Flanker',
+  [Position.OPENSIDE_FLANKER]: 'Openside Flanker',
+  [Position.NUMBER_8]: 'Number 8',
+  [Position.SCRUM_HALF]: 'Scrum Half',
+  [Position.FLY_HALF]: 'Fly Half',
+  [Position.LEFT_WING]: 'Left Wing',
+  [Position.INSIDE_CENTRE]: 'Inside Centre',
+  [Position.OUTSIDE_CENTRE]: 'Outside Centre',
+  [Position.RIGHT_WING]: 'Right Wing',
+  [Position.FULLBACK]: 'Fullback',
+};
+
+/**
+ * Who covers a position when its player is off the field, in order of
+ * preference — forwards cover forwards and backs cover backs.
+ */
+export const POSITION_COVER: Record<Position, readonly Position[]> = {
+  [Position.LOOSEHEAD_PROP]: [Position.TIGHTHEAD_PROP, Position.BLINDSIDE_FLANKER, Position.NUMBER_8],
+  [Position.HOOKER]: [Position.LOOSEHEAD_PROP, Position.BLINDSIDE_FLANKER, Position.OPENSIDE_FLANKER],
+  [Position.TIGHTHEAD_PROP]: [Position.LOOSEHEAD_PROP, Position.OPENSIDE_FLANKER, Position.NUMBER_8],
+  [Position.LOCK_4]: [Position.LOCK_5, Position.BLINDSIDE_FLANKER, Position.NUMBER_8],
+  [Position.LOCK_5]: [Position.LOCK_4, Position.OPENSIDE_FLANKER, Position.NUMBER_8],
+  [Position.BLINDSIDE_FLANKER]: [Position.NUMBER_8, Position.OPENSIDE_FLANKER, Position.LOCK_4],
+  [Position.OPENSIDE_FLANKER]: [Position.NUMBER_8, Position.BLINDSIDE_FLANKER, Position.LOCK_5],
+  [Position.NUMBER_8]: [Position.BLINDSIDE_FLANKER, Position.OPENSIDE_FLANKER, Position.LOCK_4],
+  [Position.SCRUM_HALF]: [Position.FLY_HALF, Position.INSIDE_CENTRE, Position.RIGHT_WING],
+  [Position.FLY_HALF]: [Position.INSIDE_CENTRE, Position.FULLBACK, Position.SCRUM_HALF],
+  [Position.LEFT_WING]: [Position.FULLBACK, Position.OUTSIDE_CENTRE, Position.RIGHT_WING],
+  [Position.INSIDE_CENTRE]: [Position.OUTSIDE_CENTRE, Position.FLY_HALF, Position.FULLBACK],
+  [Position.OUTSIDE_CENTRE]: [Position.INSIDE_CENTRE, Position.LEFT_WING, Position.RIGHT_WING],
+  [Position.RIGHT_WING]: [Position.FULLBACK, Position.OUTSIDE_CENTRE, Position.LEFT_WING],
+  [Position.FULLBACK]: [Position.RIGHT_WING, Position.LEFT_WING, Position.FLY_HALF],
+};
+
 // ─── Team Colors ─────────────────────────────────────────────
 export const TEAM_COLORS = {
   HOME: 0x2563eb,   // Blue
   AWAY: 0xdc2626,   // Red
 } as const;
 
+// ─── Nations ─────────────────────────────────────────────────
+/** Squad profile for a built-in nation (ratings 0–100, 75 = average side) */
+export interface NationProfile {
+  name: string;
+  color: number;
+  rating: number;   // Fitness + game sense
+  strength: number; // Pack power: scrum, ruck, tackle
+  speed: number;
+  kicking: number;
+  handling: number;
+}
+
+export const NATIONS: readonly NationProfile[] = [
+  { name: 'All Blacks', color: 0x1a1a2e, rating: 90, strength: 80, speed: 86, kicking: 82, handling: 90 },
+  { name: 'Springboks', color: 0x2d6a2d, rating: 88, strength: 92, speed: 76, kicking: 84, handling: 74 },
+  { name: 'Wallabies', color: 0xd4a017, rating: 76, strength: 68, speed: 82, kicking: 74, handling: 80 },
+  { name: 'England', color: 0xffffff, rating: 80, strength: 84, speed: 72, kicking: 86, handling: 72 },
+  { name: 'France', color: 0x2563eb, rating: 84, strength: 82, speed: 82, kicking: 80, handling: 86 },
+  { name: 'Ireland', color: 0x22c55e, rating: 86, strength: 80, speed: 76, kicking: 82, handling: 84 },
+  { name: 'Wales', color: 0xdc2626, rating: 76, strength: 74, speed: 76, kicking: 78, handling: 76 },
+  { name: 'Scotland', color: 0x1e3a5f, rating: 74, strength: 70, speed: 80, kicking: 76, handling: 80 },
+];
+
 // ─── Difficulty Presets ──────────────────────────────────────
 export interface DifficultyConfig {
   aiReactionDelay: number;
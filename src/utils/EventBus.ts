@@ -7,37 +7,81 @@
  */
 
 import type { GamePhase } from './Constants';
+import type { WeatherType } from '../systems/WeatherSystem';
 
 // ─── Event Definitions ──────────────────────────────────────
 export interface GameEvents {
   /** Fired when the game phase transitions */
   phaseChange: { from: GamePhase; to: GamePhase };
-  /** Fired when a score occurs */
-  score: { team: 'home' | 'away'; type: 'try' | 'conversion' | 'penalty' | 'dropGoal'; points: number };
+  /** Fired when a score occurs — a penalty try has no scorer */
+  score: { team: 'home' | 'away'; type: 'try' | 'conversion' | 'penalty' | 'dropGoal'; points: number; penaltyTry?: boolean };
   /** Ball possession changed */
   possessionChange: { team: 'home' | 'away' };
   /** Tackle occurred */
-  tackle: { tacklerId: string; carrierId: string; outcome?: string; dominant?: boolean };
+  tackle: { tacklerId: string; carrierId: string; outcome?: string; dominant?: boolean; high?: 'careless' | 'dangerous' };
   /** Ruck formed */
   ruckFormed: { x: number; y: number; attackingTeam: 'home' | 'away' };
+  /** Player bound onto a ruck */
+  ruckCommitted: { playerId: string; attacking: boolean };
   /** Ruck resolved — ball recycled */
-  ruckResolved: { team: 'home' | 'away'; action?: 'pass' | 'maul' | 'scrum_win' | 'blindside' | 'openside' };
+  ruckResolved: {
+    team: 'home' | 'away';
+    action?: 'pass' | 'maul' | 'scrum_win' | 'blindside' | 'openside' | 'not_straight' | 'overthrow' | 'peel_front' | 'peel_back' | 'quick_throw' | 'scrum_reset' | 'pushover';
+    /** Who takes the ball on — the jumper, the peeling forward or the quick throw's receiver */
+    playerId?: string;
+  };
+  /** Lineout won — `catcherId` is the jumper who came down with it (none for a throw not straight or over the top) */
+  lineoutResult: { throwing: 'home' | 'away'; winner: 'home' | 'away'; outcome: 'clean' | 'contested' | 'stolen' | 'fumbled' | 'not_straight' | 'overthrown'; numbers: number; catcherId?: string };
+  /** Scrum settled — for a reset or wheel, `winner` puts in the next one */
+  scrumResult: { feeding: 'home' | 'away'; winner: 'home' | 'away'; outcome: 'won' | 'against_the_head' | 'reset' | 'wheel' | 'collapsed' | 'pushover'; option: 'hook' | 'drive' };
+  /** A quick throw-in taken before the lineout formed */
+  quickThrow: { team: 'home' | 'away'; throwerId: string; receiverId: string; x: number; y: number };
   /** Ruck ball available for pickup */
   ruckBallAvailable: { x: number; y: number; attackingTeam: 'home' | 'away' };
   /** Ruck turnover occurred */
   ruckTurnover: { x: number; y: number; attackingTeam: 'home' | 'away' };
   /** Ruck timed out */
   ruckTimeout: { x: number; y: number };
+  /** Maul driven over the line (`playerId` grounds it), or a penalty try for pulling it down (`playerId` the offender) */
+  maulTry: { team: 'home' | 'away'; x: number; y: number; playerId: string; penaltyTry: boolean };
   /** Ball kicked */
   ballKicked: { kickerId: string; type: string; power: number };
   /** Ball passed */
   ballPassed: { passerId: string; receiverId: string; type?: string };
+  /** Pass arrived — where it left the hands and was caught, and how fast the passer was running forward (px/s) */
+  passCompleted: {
+    passerId: string; receiverId: string;
+    releaseX: number; releaseY: number; catchX: number; catchY: number;
+    passerVx: number; flightMs: number;
+  };
+  /** Referee calls a forward pass — scrum to the other side */
+  forwardPass: { playerId: string; receiverId: string; x: number; y: number; team: 'home' | 'away' };
   /** Knock-on occurred */
   knockOn: { playerId: string; x?: number; y?: number };
   /** Ball went into touch */
   touch: { x: number; y: number; team: 'home' | 'away' };
   /** Penalty awarded */
-  penaltyAwarded: { x: number; y: number; reason: string; team?: 'home' | 'away'; againstAttack?: boolean; severity?: 'penalty' | 'free_kick' };
+  penaltyAwarded: { x: number; y: number; reason: string; team?: 'home' | 'away'; againstAttack?: boolean; severity?: 'penalty' | 'free_kick'; playerId?: string };
+  /** Referee playing advantage to the non-offending side */
+  advantage: { team: 'home' | 'away'; x: number; y: number; reason: string; infringements: number };
+  /** Advantage finished — gained (play on) or called back to the mark */
+  advantageOver: { team: 'home' | 'away'; outcome: 'territorial' | 'tactical' | 'called_back' };
+  /** Referee warns a side about its penalty count */
+  teamWarning: { team: 'home' | 'away'; penalties: number };
+  /** Player shown a card — removed from play (sin bin or sent off) */
+  card: { team: 'home' | 'away'; playerId: string; card: 'yellow' | 'red'; reason: string };
+  /** Sin-binned player back on the field */
+  sinBinReturn: { team: 'home' | 'away'; playerId: string };
+  /** TMO ruling on a try — referred by the referee, or a captain's challenge by `challengedBy` */
+  tmoDecision: { team: 'home' | 'away'; awarded: boolean; reason: string; challengedBy?: 'home' | 'away' };
+  /** A try already on the board taken back after a successful captain's challenge */
+  tryDisallowed: { team: 'home' | 'away' };
+  /** A kick-off or drop-out by `team` didn't go the distance — the receivers choose a scrum or a re-kick */
+  restartShort: { team: 'home' | 'away'; type: 'KICK_OFF' | 'DROP_OUT_22' | 'GOAL_LINE_DROP_OUT'; x: number; y: number };
+  /** Ball touched down by the defending `team` in its own in-goal */
+  ballGrounded: { team: 'home' | 'away'; x: number; y: number };
+  /** Kick at goal taken in SetPieceScene */
+  goalKickResult: { team: 'home' | 'away'; type: 'conversion' | 'penalty'; success: boolean };
   /** Whistle blown */
   whistle: { type: 'short' | 'long' };
   /** Player switched */
@@ -54,14 +98,20 @@ export interface GameEvents {
   teamOrder: { playerId: string; order: 'KICK' | 'PASS' };
   /** Player substitution */
   substitution: { teamSide: 'home' | 'away'; outPlayer: string; inPlayer: string; subsRemaining: number };
+  /** Conditions changed mid-match (forecast change or the pitch turning heavy) */
+  weatherChange: { type: WeatherType; description: string; wetness: number };
+  /** InstantReplayScene finished or was skipped */
+  instantReplayEnd: Record<string, never>;
   /** Play selected from PlaySelector UI */
   playSelected: { play: string };
 }
 
 type EventCallback<T> = (data: T) => void;
+type AnyEventCallback = <K extends keyof GameEvents>(event: K, data: GameEvents[K]) => void;
 
 class EventBusClass {
   private listeners: Map<string, Set<EventCallback<unknown>>> = new Map();
+  private anyListeners: Set<AnyEventCallback> = new Set();
 
   /**
    * Subscribe to an event.
@@ -91,6 +141,27 @@ class EventBusClass {
         console.error(`[EventBus] Error in handler for "${event}":`, err);
       }
     });
+    this.anyListeners.forEach((cb) => {
+      try {
+        cb(event, data);
+      } catch (err) {
+        console.error(`[EventBus] Error in wildcard handler for "${event}":`, err);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to every event (event logs, replay recording).
+   */
+  onAny(callback: AnyEventCallback): void {
+    this.anyListeners.add(callback);
+  }
+
+  /**
+   * Unsubscribe a wildcard listener.
+   */
+  offAny(callback: AnyEventCallback): void {
+    this.anyListeners.delete(callback);
   }
 
   /**
@@ -109,6 +180,7 @@ class EventBusClass {
    */
   clear(): void {
     this.listeners.clear();
+    this.anyListeners.clear();
   }
 }
 
@@ -0,0 +1,241 @@
+/**
+ * HeadlessScene — a canvas-free stand-in for Phaser.Scene.
+ *
+ * Implements only the slice of the scene API that entities and systems
+ * touch (arcade images, display objects, delayed calls, the 'update'
+ * event) on top of a fixed-step velocity integrator, so a full match can
+ * run under Node or Vitest without a renderer. Display objects are inert.
+ *
+ * Usage:
+ *   const scene = new HeadlessScene();
+ *   const ball = new Ball(scene.asPhaserScene(), 700, 350);
+ *   scene.step(50);
+ */
+import type Phaser from 'phaser';
+import { PITCH } from './Constants';
+
+// ─── Arcade image ───────────────────────────────────────────
+
+/** Minimal arcade physics image — position, velocity and world-bounds clamping */
+export class HeadlessImage {
+  x: number;
+  y: number;
+  angle = 0;
+  rotation = 0;
+  active = true;
+  visible = true;
+  readonly body = { velocity: { x: 0, y: 0 }, speed: 0, enable: true };
+
+  private data = new Map<string, unknown>();
+  private collideWorldBounds = false;
+  private bounce = 0;
+
+  constructor(x: number, y: number) {
+    this.x = x;
+    this.y = y;
+  }
+
+  setPosition(x: number, y: number = x): this {
+    this.x = x;
+    this.y = y;
+    return this;
+  }
+
+  setVelocity(x: number, y: number = x): this {
+    this.body.velocity.x = x;
+    this.body.velocity.y = y;
+    this.body.speed = Math.hypot(x, y);
+    return this;
+  }
+
+  setCollideWorldBounds(value: boolean = true): this {
+    this.collideWorldBounds = value;
+    return this;
+  }
+
+  setBounce(value: number): this {
+    this.bounce = value;
+    return this;
+  }
+
+  setRotation(radians: number = 0): this {
+    this.rotation = radians;
+    this.angle = radians * (180 / Math.PI);
+    return this;
+  }
+
+  setData(key: string, value: unknown): this {
+    this.data.set(key, value);
+    return this;
+  }
+
+  getData(key: string): unknown {
+    return this.data.get(key);
+  }
+
+  setVisible(value: boolean): this {
+    this.visible = value;
+    return this;
+  }
+
+  setActive(value: boolean): this {
+    this.active = value;
+    return this;
+  }
+
+  // Cosmetic setters — accepted and ignored
+  setCircle(): this { return this; }
+  setTint(): this { return this; }
+  setTintFill(): this { return this; }
+  clearTint(): this { return this; }
+  setDepth(): this { return this; }
+  setScale(): this { return this; }
+  setAlpha(): this { return this; }
+  destroy(): void { this.active = false; }
+
+  /** Integrate velocity over dt seconds and clamp to the pitch */
+  integrate(dt: number): void {
+    if (!this.active || !this.body.enable) return;
+
+    this.x += this.body.velocity.x * dt;
+    this.y += this.body.velocity.y * dt;
+
+    if (!this.collideWorldBounds) return;
+
+    if (this.x < 0 || this.x > PITCH.WIDTH_PX) {
+      this.x = Math.max(0, Math.min(PITCH.WIDTH_PX, this.x));
+      this.setVelocity(-this.body.velocity.x * this.bounce, this.body.velocity.y);
+    }
+    if (this.y < 0 || this.y > PITCH.HEIGHT_PX) {
+      this.y = Math.max(0, Math.min(PITCH.HEIGHT_PX, this.y));
+      this.setVelocity(this.body.velocity.x, -this.body.velocity.y * this.bounce);
+    }
+  }
+}
+
+// ─── Inert display objects ──────────────────────────────────
+
+/**
+ * Build a display object that swallows every call.
+ * Any method returns the object itself so chained setters keep working.
+ */
+function createInertObject(): unknown {
+  const props: Record<PropertyKey, unknown> = {};
+  const proxy: unknown = new Proxy(props, {
+    get: (target, prop) => {
+      if (prop in target) return target[prop];
+      if (typeof prop === 'symbol' || prop === 'then') return undefined;
+      return () => proxy;
+    },
+    set: (target, prop, value) => {
+      target[prop] = value;
+      return true;
+    },
+  });
+  return proxy;
+}
+
+/** Factory whose every member (add.text, add.circle, …) returns an inert object */
+function createInertFactory(): unknown {
+  return new Proxy({}, { get: () => () => createInertObject() });
+}
+
+// ─── Scene ──────────────────────────────────────────────────
+
+interface HeadlessTimer {
+  at: number;
+  callback: () => void;
+  removed: boolean;
+}
+
+export class HeadlessScene {
+  private bodies: HeadlessImage[] = [];
+  private timers: HeadlessTimer[] = [];
+  private listeners = new Map<string, Array<(...args: unknown[]) => void>>();
+
+  /** Simulated time since creation (ms) */
+  private now = 0;
+
+  readonly physics = {
+    add: {
+      image: (x: number, y: number): HeadlessImage => {
+        const image = new HeadlessImage(x, y);
+        this.bodies.push(image);
+        return image;
+      },
+      collider: () => createInertObject(),
+    },
+    world: { setBounds: () => undefined },
+  };
+
+  readonly add = createInertFactory();
+  readonly make = createInertFactory();
+  readonly tweens = { add: () => createInertObject(), killTweensOf: () => undefined };
+  readonly cameras = { main: createInertObject() };
+
+  readonly time = {
+    delayedCall: (delay: number, callback: () => void): { remove: () => void } => {
+      const timer: HeadlessTimer = { at: this.now + delay, callback, removed: false };
+      this.timers.push(timer);
+      return { remove: () => { timer.removed = true; } };
+    },
+  };
+
+  readonly events = {
+    on: (event: string, fn: (...args: unknown[]) => void): void => {
+      if (!this.listeners.has(event)) this.listeners.set(event, []);
+      this.listeners.get(event)!.push(fn);
+    },
+    off: (event: string, fn: (...args: unknown[]) => void): void => {
+      const list = this.listeners.get(event);
+      if (list) this.listeners.set(event, list.filter(l => l !== fn));
+    },
+    emit: (event: string, ...args: unknown[]): void => {
+      for (const fn of this.listeners.get(event) ?? []) fn(...args);
+    },
+  };
+
+  /** Expose this stub through the Phaser.Scene type entities expect */
+  asPhaserScene(): Phaser.Scene {
+    return this as unknown as Phaser.Scene;
+  }
+
+  /** Simulated time since creation (ms) */
+  getTime(): number {
+    return this.now;
+  }
+
+  /**
+   * Advance the world by one fixed step: integrate bodies,
+   * fire due timers, then emit 'update' like Phaser's game loop.
+   * @param deltaMs Step length in milliseconds
+   */
+  step(deltaMs: number): void {
+    this.now += deltaMs;
+
+    const dt = deltaMs / 1000;
+    for (const body of this.bodies) {
+      body.integrate(dt);
+    }
+
+    // Timers may schedule more timers — keep firing until none are due
+    let due = this.timers.filter(t => !t.removed && t.at <= this.now);
+    while (due.length > 0) {
+      this.timers = this.timers.filter(t => !t.removed && !due.includes(t));
+      due.sort((a, b) => a.at - b.at);
+      for (const timer of due) {
+        if (!timer.removed) timer.callback();
+      }
+      due = this.timers.filter(t => !t.removed && t.at <= this.now);
+    }
+
+    this.events.emit('update', this.now, deltaMs);
+  }
+
+  /** Drop all bodies, timers and listeners */
+  destroy(): void {
+    this.bodies = [];
+    this.timers = [];
+    this.listeners.clear();
+  }
+}
@@ -2,6 +2,8 @@
  * Vector math and angle utilities used throughout the game.
  */
 
+import { RNG } from './Random';
+
 export interface Vec2 {
   x: number;
   y: number;
@@ -88,12 +90,12 @@ export function clamp(value: number, min: number, max: number): number {
 
 /** Random float between min (inclusive) and max (exclusive) */
 export function randomRange(min: number, max: number): number {
-  return min + Math.random() * (max - min);
+  return RNG.range(min, max);
 }
 
 /** Random int between min and max (inclusive) */
 export function randomInt(min: number, max: number): number {
-  return Math.floor(randomRange(min, max + 1));
+  return RNG.int(min, max);
 }
 
 /**
@@ -0,0 +1,74 @@
+/**
+ * Seedable, deterministic random number source shared by every gameplay system.
+ *
+ * Usage:
+ *   RNG.setSeed(1234);
+ *   if (RNG.chance(0.3)) { ... }
+ *   const x = RNG.range(100, 200);
+ *
+ * Replaying a match with the same seed reproduces every tackle roll,
+ * kick deviation, ruck contest and AI play pick.
+ */
+
+// ─── Seeded Random ──────────────────────────────────────────
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** A fresh seed for matches that weren't given one */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  /** Restart the sequence from the given seed */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /** Float in [0, 1) — mulberry32 */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Float between min (inclusive) and max (exclusive) */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Int between min and max (inclusive) */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /** True with the given probability (0–1) */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /** Uniform float in [-1, 1) */
+  signed(): number {
+    return this.next() * 2 - 1;
+  }
+
+  /** Random element of a non-empty array */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+// Singleton
+export const RNG = new SeededRandom();
@@ -0,0 +1,57 @@
+/**
+ * Shared setup for unit tests that play with real Teams: a clean EventBus,
+ * a HeadlessScene and an average side at each end, with any spies put back
+ * after each test.
+ *
+ * Usage (inside a describe block):
+ *   const match = useMatchFixture({ away: { strength: 50 } });
+ *   it('...', () => { match.home.getPlayerByPosition(Position.HOOKER); });
+ */
+
+import { beforeEach, afterEach, vi } from 'vitest';
+import type Phaser from 'phaser';
+import { HeadlessScene } from '../src/utils/HeadlessScene';
+import { Team } from '../src/entities/Team';
+import type { TeamStats } from '../src/entities/Team';
+import { TEAM_COLORS } from '../src/utils/Constants';
+import { EventBus } from '../src/utils/EventBus';
+
+type Side = 'home' | 'away';
+
+/** A side rated 75 across the board */
+export const AVERAGE: TeamStats = { rating: 75, strength: 75, speed: 75, kicking: 75, handling: 75, color: TEAM_COLORS.HOME };
+
+/** An average side in its own colours, with any ratings overridden */
+export function makeTeam(scene: Phaser.Scene, side: Side, ratings: Partial<TeamStats> = {}): Team {
+  return new Team(scene, side, { ...AVERAGE, color: side === 'home' ? TEAM_COLORS.HOME : TEAM_COLORS.AWAY, ...ratings });
+}
+
+export interface MatchFixture {
+  /** The scene itself — step() runs its clock */
+  headless: HeadlessScene;
+  scene: Phaser.Scene;
+  home: Team;
+  away: Team;
+}
+
+/**
+ * Register the hooks in the calling describe block. The fixture it returns
+ * is filled in afresh before each test.
+ */
+export function useMatchFixture(ratings: Partial<Record<Side, Partial<TeamStats>>> = {}): MatchFixture {
+  const fixture = {} as MatchFixture;
+
+  beforeEach(() => {
+    EventBus.clear();
+    fixture.headless = new HeadlessScene();
+    fixture.scene = fixture.headless.asPhaserScene();
+    fixture.home = makeTeam(fixture.scene, 'home', ratings.home);
+    fixture.away = makeTeam(fixture.scene, 'away', ratings.away);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  return fixture;
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ClockSystem } from '../../src/systems/ClockSystem';
 import { MATCH } from '../../src/utils/Constants';
 import { EventBus } from '../../src/utils/EventBus';
+import { RNG } from '../../src/utils/Random';
 
 describe('ClockSystem', () => {
   let clockSystem: ClockSystem;
@@ -9,7 +10,7 @@ describe('ClockSystem', () => {
   beforeEach(() => {
     clockSystem = new ClockSystem();
     vi.spyOn(EventBus, 'emit').mockImplementation(() => {});
-    vi.spyOn(Math, 'random').mockReturnValue(0.5); // Predictable injury time
+    vi.spyOn(RNG, 'next').mockReturnValue(0.5); // Predictable injury time
   });
 
   afterEach(() => {
@@ -52,7 +53,7 @@ describe('ClockSystem', () => {
     
     expect(clockSystem.isInInjuryTime()).toBe(true);
     // Note: Half time may not trigger immediately if injury time > 0
-    // With Math.random() = 0.5, injury time is exactly halfway between MIN and MAX.
+    // With RNG.next() = 0.5, injury time is exactly halfway between MIN and MAX.
     const expectedInjuryTimeSeconds = (MATCH.INJURY_TIME_MIN + 0.5 * (MATCH.INJURY_TIME_MAX - MATCH.INJURY_TIME_MIN)) * 60;
     
     // Fast forward through injury time
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ClockSystem } from '../../src/systems/ClockSystem';
+import { DisciplineSystem } from '../../src/systems/DisciplineSystem';
+import { PenaltySystem } from '../../src/systems/PenaltySystem';
+import { FormationManager } from '../../src/ai/FormationManager';
+import { Position, PITCH, MATCH, DISCIPLINE } from '../../src/utils/Constants';
+import { EventBus } from '../../src/utils/EventBus';
+import { useMatchFixture } from '../fixtures';
+
+describe('DisciplineSystem', () => {
+  const match = useMatchFixture();
+  let clock: ClockSystem;
+  let discipline: DisciplineSystem;
+
+  beforeEach(() => {
+    clock = new ClockSystem();
+    discipline = new DisciplineSystem(match.home, match.away, clock);
+    discipline.start();
+  });
+
+  afterEach(() => {
+    discipline.destroy();
+  });
+
+  /** Run the clock on by some game minutes */
+  const playMinutes = (minutes: number) => clock.update((minutes * 60 / MATCH.TIME_SCALE) * 1000);
+
+  it('should send off a player for a dangerous high tackle', () => {
+    const flanker = match.away.getPlayerByPosition(Position.OPENSIDE_FLANKER);
+    EventBus.emit('tackle', { tacklerId: flanker.id, carrierId: 'x', outcome: 'normal', high: 'dangerous' });
+    EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'high_tackle', team: 'home', playerId: flanker.id });
+
+    expect(discipline.getSummary().redCards).toEqual({ home: 0, away: 1 });
+    expect(match.away.players).toHaveLength(14);
+    expect(match.away.players).not.toContain(flanker);
+    expect(match.away.getMissingPositions()).toEqual([Position.OPENSIDE_FLANKER]);
+  });
+
+  it('should only penalise a careless high tackle', () => {
+    const centre = match.away.getPlayerByPosition(Position.INSIDE_CENTRE);
+    EventBus.emit('tackle', { tacklerId: centre.id, carrierId: 'x', outcome: 'normal', high: 'careless' });
+    EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'high_tackle', team: 'home', playerId: centre.id });
+
+    expect(discipline.getCards()).toHaveLength(0);
+    expect(match.away.players).toContain(centre);
+  });
+
+  it('should let a high tackle lapse once the advantage it was played under is over', () => {
+    const penalties = new PenaltySystem();
+    const lock = match.away.getPlayerByPosition(Position.LOCK_4);
+    const flanker = match.away.getPlayerByPosition(Position.OPENSIDE_FLANKER);
+    const shouldBeSafe = () => {
+      EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'high_tackle', team: 'home', playerId: flanker.id });
+      expect(discipline.getSummary().redCards.away).toBe(0);
+    };
+
+    // Called back to the first mark, which was not the high tackle
+    penalties.signalInfringement('hands_in_ruck', 700, 350, 'away', true, lock.id);
+    EventBus.emit('tackle', { tacklerId: flanker.id, carrierId: 'x', outcome: 'normal', high: 'dangerous' });
+    penalties.signalInfringement('high_tackle', 760, 350, 'away', true, flanker.id);
+    penalties.advantageOver(0);
+    shouldBeSafe();
+
+    // Advantage gained
+    penalties.reset();
+    penalties.signalInfringement('high_tackle', 700, 350, 'away', true, flanker.id);
+    EventBus.emit('tackle', { tacklerId: flanker.id, carrierId: 'x', outcome: 'normal', high: 'dangerous' });
+    penalties.checkAdvantageGained(1000, 'home');
+    shouldBeSafe();
+  });
+
+  it('should sin-bin repeated cynical play near the line for ten minutes', () => {
+    const lock = match.home.getPlayerByPosition(Position.LOCK_4);
+    const prop = match.home.getPlayerByPosition(Position.TIGHTHEAD_PROP);
+    const nearLine = PITCH.TRY_LINE_LEFT + 100;
+    EventBus.emit('penaltyAwarded', { x: nearLine, y: 300, reason: 'hands_in_ruck', team: 'away', playerId: lock.id });
+    expect(discipline.getCards()).toHaveLength(0);
+
+    EventBus.emit('penaltyAwarded', { x: nearLine, y: 320, reason: 'not_releasing', team: 'away', playerId: prop.id });
+    expect(discipline.getCards()[0]).toMatchObject({ playerId: prop.id, card: 'yellow' });
+    expect(match.home.players).not.toContain(prop);
+
+    playMinutes(DISCIPLINE.SIN_BIN_MINUTES - 1);
+    discipline.update();
+    expect(match.home.players).not.toContain(prop);
+
+    playMinutes(1);
+    discipline.update();
+    expect(match.home.players).toContain(prop);
+    expect(match.home.players).toHaveLength(15);
+    expect(discipline.getSinBin()).toHaveLength(0);
+  });
+
+  it('should warn a side, card the next offender and make a second yellow red', () => {
+    const flanker = match.away.getPlayerByPosition(Position.BLINDSIDE_FLANKER);
+    const offenders = [Position.LOCK_4, Position.LOCK_5, Position.NUMBER_8, Position.HOOKER, Position.FLY_HALF]
+      .map(pos => match.away.getPlayerByPosition(pos));
+    for (const p of offenders) {
+      EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'offside', team: 'home', playerId: p.id });
+    }
+    expect(discipline.isWarned('away')).toBe(true);
+    expect(discipline.getCards()).toHaveLength(0);
+
+    EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'offside', team: 'home', playerId: flanker.id });
+    expect(discipline.getCards()[0]).toMatchObject({ playerId: flanker.id, card: 'yellow', reason: 'Team warning ignored' });
+
+    playMinutes(DISCIPLINE.SIN_BIN_MINUTES);
+    discipline.update();
+    for (let i = 0; i < DISCIPLINE.PLAYER_REPEAT_PENALTIES; i++) {
+      EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'offside', team: 'home', playerId: flanker.id });
+    }
+    expect(discipline.getCards()[1]).toMatchObject({ playerId: flanker.id, card: 'red', reason: 'Second yellow card' });
+    expect(match.away.players).not.toContain(flanker);
+  });
+
+  it('should sin-bin a player who concedes a penalty try, but not the scorer of a maul try', () => {
+    const lock = match.away.getPlayerByPosition(Position.LOCK_4);
+    EventBus.emit('maulTry', { team: 'home', x: PITCH.TRY_LINE_RIGHT, y: 100, playerId: match.home.getPlayerByPosition(Position.LOCK_5).id, penaltyTry: false });
+    expect(discipline.getCards()).toHaveLength(0);
+
+    EventBus.emit('maulTry', { team: 'home', x: PITCH.TRY_LINE_RIGHT - 50, y: 100, playerId: lock.id, penaltyTry: true });
+    expect(discipline.getCards()[0]).toMatchObject({ playerId: lock.id, card: 'yellow', reason: 'Penalty try' });
+    expect(match.away.players).not.toContain(lock);
+  });
+
+  it('should cover a carded player\'s position and close the gap in the formation', () => {
+    const scrumHalf = match.home.getPlayerByPosition(Position.SCRUM_HALF);
+    const flyHalf = match.home.getPlayerByPosition(Position.FLY_HALF);
+    match.home.removeFromPlay(scrumHalf);
+
+    expect(match.home.getPlayerByPosition(Position.SCRUM_HALF)).toBe(flyHalf);
+    expect(match.home.getLineup()).toHaveLength(15);
+    expect(match.home.getLineup()[8]).toBe(scrumHalf);
+
+    const formation = new FormationManager();
+    const full = formation.getAllPositions('home');
+    const short = formation.getAllPositions('home', match.home.getMissingPositions());
+    expect(short.get(Position.FLY_HALF)!.y).toBeCloseTo((full.get(Position.FLY_HALF)!.y + full.get(Position.SCRUM_HALF)!.y) / 2);
+    expect(short.get(Position.FULLBACK)).toEqual(full.get(Position.FULLBACK));
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { Ball } from '../../src/entities/Ball';
+import { findPassReceiver, forwardPassDistance, isForwardPass } from '../../src/components/Passing';
+import { FORWARD_PASS, Position } from '../../src/utils/Constants';
+import { EventBus } from '../../src/utils/EventBus';
+import type { GameEvents } from '../../src/utils/EventBus';
+import { useMatchFixture } from '../fixtures';
+
+/** A pass thrown from (700, 300) and caught at (catchX, 360) */
+const pass = (catchX: number, passerVx = 0, flightMs = 400): GameEvents['passCompleted'] => ({
+  passerId: 'a', receiverId: 'b', releaseX: 700, releaseY: 300, catchX, catchY: 360, passerVx, flightMs,
+});
+
+describe('Forward pass', () => {
+  const match = useMatchFixture();
+
+  it('should judge the pass towards each side\'s attacking try line', () => {
+    expect(forwardPassDistance('home', pass(730))).toBe(30);
+    expect(forwardPassDistance('away', pass(730))).toBe(-30);
+    expect(isForwardPass('home', pass(730))).toBe(true);
+    expect(isForwardPass('home', pass(705))).toBe(false);
+    // The referee gives the benefit of the doubt the TMO does not
+    expect(isForwardPass('home', pass(715), FORWARD_PASS.REFEREE_TOLERANCE)).toBe(false);
+  });
+
+  it('should allow for the ball carried forward by the passer\'s run', () => {
+    // 30 px forward over the ground, but the passer ran 100 px/s for 0.4 s
+    expect(forwardPassDistance('home', pass(730, 100))).toBeCloseTo(-10);
+    expect(isForwardPass('home', pass(730, 100))).toBe(false);
+    // Running backwards earns no allowance
+    expect(forwardPassDistance('home', pass(730, -100))).toBe(30);
+  });
+
+  it('should report release, catch and momentum when a pass arrives', () => {
+    const ball = new Ball(match.scene, 700, 300);
+    const flyHalf = match.home.getPlayerByPosition(Position.FLY_HALF);
+    const centre = match.home.getPlayerByPosition(Position.INSIDE_CENTRE);
+    flyHalf.sprite.setPosition(700, 300);
+    centre.sprite.setPosition(740, 380);
+    ball.attachToPlayer(flyHalf);
+    flyHalf.setVelocity(120, 0);
+
+    const completed: GameEvents['passCompleted'][] = [];
+    EventBus.on('passCompleted', data => completed.push(data));
+    ball.passTo(flyHalf, centre);
+    for (let i = 0; i < 20 && ball.state === 'passing'; i++) ball.update(50);
+
+    expect(ball.carrier).toBe(centre);
+    expect(completed).toEqual([expect.objectContaining({
+      passerId: flyHalf.id, receiverId: centre.id,
+      releaseX: 700, releaseY: 300, catchX: 740, catchY: 380, passerVx: 120,
+    })]);
+    expect(completed[0].flightMs).toBeGreaterThan(0);
+  });
+
+  it('should let the carrier pick a receiver in front, and have the referee call it', () => {
+    for (const p of match.home.players) p.sprite.setPosition(200, 100);
+    const flyHalf = match.home.getPlayerByPosition(Position.FLY_HALF);
+    const centre = match.home.getPlayerByPosition(Position.INSIDE_CENTRE);
+    const wing = match.home.getPlayerByPosition(Position.RIGHT_WING);
+    flyHalf.sprite.setPosition(700, 300);
+    centre.sprite.setPosition(740, 340);
+    wing.sprite.setPosition(700 + FORWARD_PASS.RECEIVER_AHEAD + 10, 330);
+
+    // The centre is close enough in front to be picked, the wing is not
+    expect(findPassReceiver(flyHalf, match.home.players, 'right')?.receiver).toBe(centre);
+    expect(findPassReceiver(flyHalf, [flyHalf, wing], 'right')).toBeNull();
+
+    const ball = new Ball(match.scene, 700, 300);
+    ball.attachToPlayer(flyHalf);
+    const completed: GameEvents['passCompleted'][] = [];
+    EventBus.on('passCompleted', data => completed.push(data));
+    ball.passTo(flyHalf, centre);
+    for (let i = 0; i < 20 && ball.state === 'passing'; i++) ball.update(50);
+
+    expect(isForwardPass('home', completed[0], FORWARD_PASS.REFEREE_TOLERANCE)).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { touchFinderAngle, touchlineCrossing, TOUCH_FINDER_MARGIN } from '../../src/components/Kicking';
+import { PITCH } from '../../src/utils/Constants';
+
+describe('Touch finder', () => {
+  it('should aim downfield and out over the nearest touchline', () => {
+    const dist = 300;
+    const home = touchFinderAngle(200, 1, dist);
+    const away = touchFinderAngle(500, -1, dist);
+
+    // Home kicks towards +X and the top touchline
+    expect(Math.cos(home)).toBeGreaterThan(0);
+    expect(200 + Math.sin(home) * dist).toBeCloseTo(-TOUCH_FINDER_MARGIN);
+    // Away kicks towards −X and the bottom touchline
+    expect(Math.cos(away)).toBeLessThan(0);
+    expect(500 + Math.sin(away) * dist).toBeCloseTo(PITCH.HEIGHT_PX + TOUCH_FINDER_MARGIN);
+  });
+
+  it('should kick square when touch is barely in range', () => {
+    expect(touchFinderAngle(300, 1, 100)).toBeCloseTo(-Math.PI / 2);
+  });
+
+  it('should find where the flight crosses the touchline', () => {
+    const crossing = touchlineCrossing({ x: 600, y: 200 }, { x: 900, y: -100 });
+    expect(crossing).toEqual({ x: 800, y: 0 });
+
+    const bottom = touchlineCrossing({ x: 800, y: 600 }, { x: 600, y: 800 });
+    expect(bottom).toEqual({ x: 700, y: PITCH.HEIGHT_PX });
+  });
+
+  it('should leave a kick that lands in the field of play live', () => {
+    expect(touchlineCrossing({ x: 600, y: 200 }, { x: 900, y: 20 })).toBeNull();
+  });
+});
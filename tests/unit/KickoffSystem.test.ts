@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Team } from '../../src/entities/Team';
+import { Ball } from '../../src/entities/Ball';
+import { TeamAI } from '../../src/ai/TeamAI';
+import { KickoffSystem, deadBallRestart } from '../../src/systems/KickoffSystem';
+import type { RestartType } from '../../src/systems/KickoffSystem';
+import { ScoringSystem } from '../../src/systems/ScoringSystem';
+import { PITCH, Position, RESTART } from '../../src/utils/Constants';
+import { EventBus } from '../../src/utils/EventBus';
+import type { GameEvents } from '../../src/utils/EventBus';
+import { RNG } from '../../src/utils/Random';
+import { makeTeam, useMatchFixture } from '../fixtures';
+
+describe('KickoffSystem', () => {
+  const match = useMatchFixture();
+  let ball: Ball;
+  let kickoff: KickoffSystem;
+
+  /** Run the restart until KickoffSystem reports where it ended up */
+  const takeRestart = (type: RestartType, kicking: Team, receiving: Team) => {
+    const outcome: { short?: GameEvents['restartShort']; complete?: GameEvents['phaseChange'] } = {};
+    EventBus.on('restartShort', data => { outcome.short = data; });
+    EventBus.on('phaseChange', data => { outcome.complete = data; });
+
+    kickoff.startKickoff(kicking, receiving, type);
+    for (let i = 0; i < 400 && !outcome.short && !outcome.complete; i++) {
+      kickoff.update(50);
+      match.headless.step(50);
+      ball.update(50);
+    }
+    return outcome;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    ball = new Ball(match.scene, PITCH.HALFWAY, PITCH.HEIGHT_PX / 2);
+    kickoff = new KickoffSystem(ball);
+  });
+
+  it('should take each restart from its own line', () => {
+    kickoff.startKickoff(match.home, match.away, 'KICK_OFF');
+    expect(kickoff.getKickOrigin().x).toBe(PITCH.HALFWAY);
+    expect(kickoff.getRequiredLineX()).toBe(PITCH.LINE_10_RIGHT);
+
+    kickoff.startKickoff(match.away, match.home, 'DROP_OUT_22');
+    expect(kickoff.getKickOrigin().x).toBe(PITCH.LINE_22_RIGHT);
+    expect(kickoff.getRequiredLineX()).toBe(PITCH.LINE_22_RIGHT);
+    expect(ball.sprite.x).toBe(PITCH.LINE_22_RIGHT);
+
+    kickoff.startKickoff(match.home, match.away, 'GOAL_LINE_DROP_OUT');
+    expect(kickoff.getKickOrigin().x).toBe(PITCH.TRY_LINE_LEFT);
+    expect(kickoff.getRequiredLineX()).toBe(PITCH.TRY_LINE_LEFT + RESTART.GOAL_LINE_CLEARANCE);
+    expect(kickoff.getScrumMark().x).toBe(PITCH.TRY_LINE_LEFT + RESTART.GOAL_LINE_CLEARANCE);
+  });
+
+  it('should hand over to open play once a drop-out has gone the distance', () => {
+    const { short, complete } = takeRestart('DROP_OUT_22', match.home, match.away);
+    expect(short).toBeUndefined();
+    expect(complete).toEqual({ from: 'DROP_OUT_22', to: 'OPEN_PLAY' });
+    expect(ball.sprite.x).toBeGreaterThan(PITCH.LINE_22_LEFT);
+  });
+
+  it('should give the receivers the call when the restart falls short', () => {
+    // Scuffed: the drop-out barely leaves the goal line
+    vi.spyOn(RNG, 'int').mockReturnValue(10);
+    vi.spyOn(RNG, 'range').mockReturnValue(0);
+    const { short, complete } = takeRestart('GOAL_LINE_DROP_OUT', match.away, match.home);
+    expect(complete).toBeUndefined();
+    expect(short).toMatchObject({ type: 'GOAL_LINE_DROP_OUT', team: 'away' });
+  });
+
+  it('should take the scrum with a strong pack and the kick again with a weak one', () => {
+    expect(new TeamAI(match.home, 'home').chooseShortRestartOption()).toBe('scrum');
+
+    const lightweights = makeTeam(match.scene, 'away', { strength: 40 });
+    expect(new TeamAI(lightweights, 'away').chooseShortRestartOption()).toBe('rekick');
+  });
+
+  it('should drop out from the 22 when the attack put it dead, and the goal line when the defence did', () => {
+    expect(deadBallRestart('home', 'away')).toBe('DROP_OUT_22');
+    expect(deadBallRestart('home', 'home')).toBe('GOAL_LINE_DROP_OUT');
+    expect(deadBallRestart('away', 'away')).toBe('GOAL_LINE_DROP_OUT');
+  });
+
+  it('should give a goal-line drop-out for a kick rolling into the in-goal and touched down', () => {
+    const kicker = match.away.getPlayerByPosition(Position.FLY_HALF);
+    const fullback = match.home.getPlayerByPosition(Position.FULLBACK);
+    kicker.sprite.setPosition(PITCH.LINE_22_LEFT + 100, PITCH.POST_Y);
+    ball.attachToPlayer(kicker);
+
+    // A grubber that comes down short of the line and runs on
+    ball.kickWithType(kicker, 1, 300, PITCH.TRY_LINE_LEFT + 10, PITCH.POST_Y, 0.05, 1, true, 0);
+    for (let i = 0; i < 100 && ball.sprite.x > PITCH.TRY_LINE_LEFT - 20; i++) {
+      ball.update(50);
+      match.headless.step(50);
+    }
+    expect(ball.getKickFlight().landing.x).toBeGreaterThan(PITCH.TRY_LINE_LEFT);
+
+    fullback.sprite.setPosition(ball.sprite.x, ball.sprite.y);
+    ball.attachToPlayer(fullback);
+    expect(new ScoringSystem().detectGrounding(ball, 'away')).toMatchObject({ team: 'home' });
+  });
+});
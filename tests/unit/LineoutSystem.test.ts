@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TeamAI } from '../../src/ai/TeamAI';
+import { LineoutSystem, canQuickThrow, findQuickThrow } from '../../src/systems/LineoutSystem';
+import type { TouchIncident } from '../../src/systems/LineoutSystem';
+import { LINEOUT, PITCH, Position } from '../../src/utils/Constants';
+import { RNG } from '../../src/utils/Random';
+import { makeTeam, useMatchFixture } from '../fixtures';
+
+describe('LineoutSystem', () => {
+  const match = useMatchFixture();
+  let lineout: LineoutSystem;
+
+  beforeEach(() => {
+    lineout = new LineoutSystem(match.home, match.away);
+  });
+
+  it('should line up the pack with the hooker throwing', () => {
+    const full = lineout.getFormation('home');
+    expect(full.spots).toHaveLength(LINEOUT.FULL_NUMBERS);
+    expect(full.thrower.position).toBe(Position.HOOKER);
+    expect(lineout.getJumpers('home').map(j => j.player.position)).toEqual([Position.LOCK_4, Position.LOCK_5, Position.NUMBER_8]);
+    // Every jumper has someone to lift them
+    for (const j of lineout.getJumpers('home')) {
+      expect(full.spots[j.index - 1].role).toBe('lifter');
+    }
+  });
+
+  it('should match the throwing side\'s numbers and cap them by the forwards on the pitch', () => {
+    lineout.setNumbers(2);
+    expect(lineout.getFormation('away').spots.map(s => s.role)).toEqual(['lifter', 'jumper']);
+
+    match.away.removeFromPlay(match.away.getPlayerByPosition(Position.BLINDSIDE_FLANKER));
+    lineout.setNumbers(7);
+    expect(lineout.getNumbers()).toBe(6);
+    expect(lineout.getFormation('home').spots).toHaveLength(6);
+  });
+
+  it('should take the covering thrower out of the line when the hooker is off', () => {
+    match.home.removeFromPlay(match.home.getPlayerByPosition(Position.HOOKER));
+    lineout.setNumbers(7);
+    const { thrower, spots } = lineout.getFormation('home');
+
+    expect(thrower.position).not.toBe(Position.HOOKER);
+    expect(spots.map(s => s.player)).not.toContain(thrower);
+    expect(lineout.getNumbers()).toBe(6);
+  });
+
+  it('should make throws to the back and by poor throwers less likely to be straight', () => {
+    const back = lineout.getJumpers('home').at(-1)!.index;
+    expect(lineout.notStraightChance(back)).toBeGreaterThan(lineout.notStraightChance(1));
+
+    const wayward = makeTeam(match.scene, 'home', { handling: 30 });
+    expect(new LineoutSystem(wayward, match.away).notStraightChance(1)).toBeGreaterThan(lineout.notStraightChance(1));
+  });
+
+  it('should give an unmarked jumper the ball and contest a marked one', () => {
+    const chance = vi.spyOn(RNG, 'chance');
+    const target = lineout.getJumpers('home')[1].index;
+
+    // Straight, and no fumble
+    chance.mockReturnValue(false);
+    expect(lineout.resolve(target, lineout.getJumpers('away')[0].index, 1)).toMatchObject({ winner: 'home', outcome: 'clean' });
+
+    // Straight, not over the top, then lost in the air to the jumper opposite
+    chance.mockReset();
+    chance.mockReturnValueOnce(false).mockReturnValueOnce(false).mockReturnValueOnce(false);
+    const stolen = lineout.resolve(target, target);
+    expect(stolen).toMatchObject({ winner: 'away', outcome: 'stolen' });
+    expect(stolen.catcher!.teamSide).toBe('away');
+  });
+
+  it('should send a throw aimed at a lifter to the nearest jumper', () => {
+    vi.spyOn(RNG, 'chance').mockReturnValue(false);
+    const [front, middle] = lineout.getJumpers('home');
+    const { spots } = lineout.getFormation('home');
+    expect(spots[0].role).toBe('lifter');
+
+    const atFront = lineout.resolve(0, null);
+    expect(atFront.target).toBe(front.index);
+    expect(atFront.catcher).toBe(front.player);
+    expect(lineout.resolve(middle.index + 1, null).target).toBe(middle.index);
+  });
+
+  it('should give the defence the put-in after a throw that isn\'t straight', () => {
+    vi.spyOn(RNG, 'chance').mockReturnValue(true);
+    expect(lineout.resolve(1, null)).toMatchObject({ winner: 'away', outcome: 'not_straight', catcher: null });
+  });
+
+  it('should let throws to the tail sail over the top, and peel off either end', () => {
+    const back = lineout.getJumpers('home').at(-1)!.index;
+    expect(lineout.overthrowChance(back)).toBeGreaterThan(lineout.overthrowChance(1));
+
+    // Straight, but over everyone
+    vi.spyOn(RNG, 'chance').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    expect(lineout.resolve(back, null)).toMatchObject({ winner: 'home', outcome: 'overthrown', catcher: null });
+
+    const spots = lineout.getFormation('home').spots;
+    expect(lineout.getPeeler('home', 'front')).toBe(spots[0].player);
+    // Caught at the tail — the next man in comes around
+    expect(lineout.getPeeler('home', 'back', spots.at(-1)!.player)).toBe(spots.at(-2)!.player);
+  });
+
+  it('should only allow a quick throw-in before the lineout forms and with the ball untouched', () => {
+    const touch: TouchIncident = { team: 'home', x: PITCH.HALFWAY, y: PITCH.TOUCHLINE_TOP, spectatorTouched: false, at: 1000 };
+    expect(canQuickThrow(touch, 2000)).toBe(true);
+    expect(canQuickThrow(touch, 1000 + LINEOUT.QUICK_THROW_WINDOW)).toBe(false);
+    expect(canQuickThrow({ ...touch, spectatorTouched: true }, 2000)).toBe(false);
+
+    // Nobody near enough to fetch it
+    for (const p of match.home.players) p.sprite.setPosition(PITCH.HALFWAY - 300, PITCH.POST_Y);
+    expect(findQuickThrow(match.home, touch)).toBeNull();
+
+    const wing = match.home.getPlayerByPosition(Position.LEFT_WING);
+    const fullback = match.home.getPlayerByPosition(Position.FULLBACK);
+    const centre = match.home.getPlayerByPosition(Position.INSIDE_CENTRE);
+    wing.sprite.setPosition(PITCH.HALFWAY + 20, 10);
+    // Closer, but in front of the mark — can't be thrown to
+    centre.sprite.setPosition(PITCH.HALFWAY + 40, 80);
+    fullback.sprite.setPosition(PITCH.HALFWAY - 60, 100);
+    expect(findQuickThrow(match.home, touch)).toEqual({ thrower: wing, receiver: fullback });
+  });
+
+  it('should let the AI call its own numbers and target', () => {
+    const ai = new TeamAI(match.home, 'home');
+    // Inside their 22: the full pack, middle jumper for the maul
+    expect(ai.chooseLineoutNumbers(PITCH.LINE_22_RIGHT + 50)).toBe(LINEOUT.FULL_NUMBERS);
+    expect(ai.chooseLineoutTarget(lineout, PITCH.LINE_22_RIGHT + 50)).toBe(lineout.getJumpers('home')[1].index);
+    // Inside our own: the safe throw to the front
+    expect(ai.chooseLineoutTarget(lineout, PITCH.LINE_22_LEFT - 50)).toBe(lineout.getJumpers('home')[0].index);
+
+    const compete = new TeamAI(match.away, 'away').chooseLineoutCompete(lineout);
+    expect(lineout.getJumpers('away').map(j => j.index)).toContain(compete);
+
+    // Maul it in their 22; a quick throw only when their defence isn't there and not in our own 22
+    expect(ai.chooseLineoutPlay(lineout, 1, PITCH.LINE_22_RIGHT + 50)).toBe('maul');
+    expect(ai.chooseQuickThrow(PITCH.HALFWAY, 0)).toBe(true);
+    expect(ai.chooseQuickThrow(PITCH.HALFWAY, LINEOUT.QUICK_THROW_MAX_COVER + 1)).toBe(false);
+    expect(ai.chooseQuickThrow(PITCH.LINE_22_LEFT - 50, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Ball } from '../../src/entities/Ball';
+import { MatchStats, sortReportCard } from '../../src/systems/MatchStats';
+import { RuckSystem } from '../../src/systems/RuckSystem';
+import { Position, PITCH } from '../../src/utils/Constants';
+import { EventBus } from '../../src/utils/EventBus';
+import { useMatchFixture } from '../fixtures';
+
+describe('MatchStats', () => {
+  const match = useMatchFixture();
+  let ball: Ball;
+  let stats: MatchStats;
+
+  beforeEach(() => {
+    ball = new Ball(match.scene, 700, 350);
+    stats = new MatchStats(match.home, match.away, ball);
+    stats.start();
+  });
+
+  afterEach(() => {
+    stats.destroy();
+  });
+
+  it('should count carries and forward metres for the carrier', () => {
+    const wing = match.home.getPlayerByPosition(Position.LEFT_WING);
+    wing.sprite.setPosition(700, 200);
+    ball.attachToPlayer(wing);
+    stats.update(16);
+
+    wing.sprite.setPosition(700 + 15 * PITCH.M_TO_PX, 200);
+    stats.update(16);
+    wing.sprite.setPosition(700 + 10 * PITCH.M_TO_PX, 200); // Driven back — no metres lost
+    stats.update(16);
+
+    const summary = stats.getSummary();
+    expect(summary.carries.home).toBe(1);
+    expect(summary.metres.home).toBe(15);
+    expect(summary.possession).toBe(100);
+  });
+
+  it('should count a turnover only when possession changes in open play', () => {
+    const flyHalf = match.home.getPlayerByPosition(Position.FLY_HALF);
+    const fullback = match.away.getPlayerByPosition(Position.FULLBACK);
+    const flanker = match.home.getPlayerByPosition(Position.OPENSIDE_FLANKER);
+
+    ball.attachToPlayer(flyHalf);
+    EventBus.emit('ballKicked', { kickerId: flyHalf.id, type: 'punt', power: 0.8 });
+    ball.attachToPlayer(fullback); // Fielded kick — not a turnover
+    ball.attachToPlayer(flanker);  // Jackal steal
+
+    expect(stats.getSummary().turnovers).toEqual({ home: 1, away: 0 });
+    expect(stats.getPlayerStats().find(p => p.id === flanker.id)!.turnoversWon).toBe(1);
+  });
+
+  it('should split tackles made and missed into a success rate', () => {
+    const carrier = match.home.getPlayerByPosition(Position.NUMBER_8);
+    const tackler = match.away.getPlayerByPosition(Position.OPENSIDE_FLANKER);
+    for (const outcome of ['dominant', 'normal', 'missed', 'fendOff']) {
+      EventBus.emit('tackle', { tacklerId: tackler.id, carrierId: carrier.id, outcome });
+    }
+    expect(stats.getSummary().tackles.away).toBe(2);
+    expect(stats.getSummary().tackleSuccess).toEqual({ home: 100, away: 50 });
+  });
+
+  it('should charge penalties to the side that infringed', () => {
+    ball.attachToPlayer(match.home.getPlayerByPosition(Position.SCRUM_HALF));
+    EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'Offside' });
+    EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'Holding on', againstAttack: true });
+    EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'Hands in ruck' });
+    expect(stats.getSummary().penalties).toEqual({ home: 1, away: 2 });
+  });
+
+  it('should make a try scorer man of the match over a handling error', () => {
+    const centre = match.away.getPlayerByPosition(Position.OUTSIDE_CENTRE);
+    const scrumHalf = match.home.getPlayerByPosition(Position.SCRUM_HALF);
+    const lock = match.home.getPlayerByPosition(Position.LOCK_4);
+
+    ball.attachToPlayer(scrumHalf);
+    EventBus.emit('ballPassed', { passerId: scrumHalf.id, receiverId: lock.id });
+    EventBus.emit('knockOn', { playerId: lock.id });
+    ball.attachToPlayer(centre);
+    EventBus.emit('score', { team: 'away', type: 'try', points: 5 });
+
+    const scrumHalfStats = stats.getPlayerStats().find(p => p.id === scrumHalf.id)!;
+    expect(scrumHalfStats.passesCompleted).toBe(0);
+    expect(stats.getTeamStats('away').turnoversWon).toBe(0);
+    expect(stats.getManOfMatch()?.id).toBe(centre.id);
+  });
+
+  it('should take an overturned try back off the team and the scorer', () => {
+    const wing = match.home.getPlayerByPosition(Position.RIGHT_WING);
+    ball.attachToPlayer(wing);
+    EventBus.emit('score', { team: 'home', type: 'try', points: 5 });
+    EventBus.emit('tryDisallowed', { team: 'home' });
+
+    expect(stats.getTeamStats('home').tries).toBe(0);
+    expect(stats.getPlayerStats().find(p => p.id === wing.id)!.tries).toBe(0);
+    expect(stats.getManOfMatch()?.id).not.toBe(wing.id);
+  });
+
+  it('should count a penalty try to the team but not to the carrier', () => {
+    const hooker = match.home.getPlayerByPosition(Position.HOOKER);
+    ball.attachToPlayer(hooker);
+    EventBus.emit('score', { team: 'home', type: 'try', points: 7, penaltyTry: true });
+
+    expect(stats.getTeamStats('home').tries).toBe(1);
+    expect(stats.getPlayerStats().find(p => p.id === hooker.id)!.tries).toBe(0);
+  });
+
+  it('should count a forward pass against the passer and not as a turnover', () => {
+    const flyHalf = match.home.getPlayerByPosition(Position.FLY_HALF);
+    const centre = match.home.getPlayerByPosition(Position.INSIDE_CENTRE);
+    const flanker = match.away.getPlayerByPosition(Position.OPENSIDE_FLANKER);
+
+    ball.attachToPlayer(flyHalf);
+    EventBus.emit('ballPassed', { passerId: flyHalf.id, receiverId: centre.id });
+    EventBus.emit('forwardPass', { playerId: flyHalf.id, receiverId: centre.id, x: 800, y: 350, team: 'home' });
+    ball.attachToPlayer(flanker);
+
+    const flyHalfStats = stats.getPlayerStats().find(p => p.id === flyHalf.id)!;
+    expect(flyHalfStats.forwardPasses).toBe(1);
+    expect(flyHalfStats.passesCompleted).toBe(0);
+    expect(stats.getTeamStats('home').forwardPasses).toBe(1);
+    expect(stats.getTeamStats('away').turnoversWon).toBe(0);
+  });
+
+  it('should list both full squads with bench shirts 16 up', () => {
+    const card = stats.getReportCard('home');
+    expect(card).toHaveLength(23);
+    expect(card.map(e => e.shirt)).toEqual(Array.from({ length: 23 }, (_, i) => i + 1));
+    expect(card.filter(e => e.rating === null)).toHaveLength(8); // Unused replacements
+  });
+
+  it('should rate ruck work up and penalties conceded down', () => {
+    const ruck = new RuckSystem(match.scene);
+    const lock = match.home.getPlayerByPosition(Position.LOCK_5);
+    const prop = match.away.getPlayerByPosition(Position.TIGHTHEAD_PROP);
+    ruck.startRuck(700, 350, 'home');
+    ruck.commitPlayer(lock, true);
+    ruck.commitPlayer(prop, false);
+    EventBus.emit('penaltyAwarded', { x: 700, y: 350, reason: 'hands_in_ruck', playerId: prop.id });
+
+    const card = [...stats.getReportCard('home'), ...stats.getReportCard('away')];
+    const lockEntry = card.find(e => e.id === lock.id)!;
+    const propEntry = card.find(e => e.id === prop.id)!;
+    expect(lockEntry.rucks).toBe(1);
+    expect(propEntry.penaltiesConceded).toBe(1);
+    expect(lockEntry.rating!).toBeGreaterThan(propEntry.rating!);
+    expect(stats.getSummary().penalties).toEqual({ home: 0, away: 1 });
+  });
+
+  it('should credit rucks won to whoever comes away with the ball', () => {
+    const ruck = new RuckSystem(match.scene);
+    const contest = (attackingTeam: 'home' | 'away', committed: ['home' | 'away', Position][]) => {
+      ruck.startRuck(700, 350, attackingTeam);
+      for (const [side, pos] of committed) {
+        const p = match[side].getPlayerByPosition(pos);
+        p.sprite.setPosition(side === 'home' ? 680 : 720, 350);
+        ruck.commitPlayer(p, side === attackingTeam);
+      }
+      for (let t = 0; t < 3000 && ruck.isActive() && !ruck.isBallAvailable(); t += 100) ruck.update(100);
+      ruck.endRuck();
+    };
+
+    // Recycled by the attack
+    contest('home', [['home', Position.LOCK_4], ['home', Position.LOCK_5]]);
+    // Turned over by the defence
+    contest('home', [['home', Position.HOOKER], ['away', Position.LOCK_4], ['away', Position.LOCK_5], ['away', Position.NUMBER_8]]);
+    // Set-piece results are not rucks
+    EventBus.emit('ruckResolved', { team: 'home', action: 'pushover' });
+
+    expect(stats.getTeamStats('home').rucksWon).toBe(1);
+    expect(stats.getTeamStats('away').rucksWon).toBe(1);
+  });
+
+  it('should sort the report card by a column with unused replacements last', () => {
+    const wing = match.home.getPlayerByPosition(Position.RIGHT_WING);
+    ball.attachToPlayer(wing);
+    EventBus.emit('score', { team: 'home', type: 'try', points: 5 });
+    const sub = match.home.getReserves()[0];
+    EventBus.emit('substitution', { teamSide: 'home', outPlayer: wing.id, inPlayer: sub.id, subsRemaining: 7 });
+
+    const sorted = sortReportCard(stats.getReportCard('home'), 'rating');
+    expect(sorted[0].id).toBe(wing.id);
+    expect(sorted.slice(-7).every(e => e.rating === null)).toBe(true);
+    expect(sorted.find(e => e.id === sub.id)!.rating).not.toBeNull();
+  });
+
+  it('should stop counting after destroy', () => {
+    stats.destroy();
+    const tackler = match.away.getPlayerByPosition(Position.OPENSIDE_FLANKER);
+    EventBus.emit('tackle', { tacklerId: tackler.id, carrierId: 'x', outcome: 'normal' });
+    expect(stats.getSummary().tackles.away).toBe(0);
+  });
+});
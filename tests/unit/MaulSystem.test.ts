@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Ball } from '../../src/entities/Ball';
+import { TeamAI } from '../../src/ai/TeamAI';
+import { LineoutSystem } from '../../src/systems/LineoutSystem';
+import { MaulSystem } from '../../src/systems/MaulSystem';
+import { MAUL, PITCH, Position } from '../../src/utils/Constants';
+import { EventBus } from '../../src/utils/EventBus';
+import type { GameEvents } from '../../src/utils/EventBus';
+import { RNG } from '../../src/utils/Random';
+import { useMatchFixture } from '../fixtures';
+
+/** Lineout 15 m out from the away try line, home throwing in */
+const MARK = { x: PITCH.TRY_LINE_RIGHT - 150, y: 100 };
+
+describe('MaulSystem', () => {
+  const match = useMatchFixture();
+  let ball: Ball;
+  let maul: MaulSystem;
+
+  /** Start a maul from home's middle jumper and their lifters */
+  const lineoutMaul = (x = MARK.x) => {
+    const lineout = new LineoutSystem(match.home, match.away);
+    const catcher = match.home.getPlayerByPosition(Position.LOCK_5);
+    maul.startLineoutMaul(lineout.getPod('home', catcher), x, MARK.y, true);
+  };
+
+  /** Run the maul on in 100 ms steps */
+  const run = (ms: number) => {
+    for (let t = 0; t < ms && maul.isActive(); t += 100) maul.update(100, ball);
+  };
+
+  beforeEach(() => {
+    ball = new Ball(match.scene, MARK.x, MARK.y);
+    maul = new MaulSystem(match.scene);
+  });
+
+  it('should form around the catcher and their lifters, and drive on nobody defending it', () => {
+    lineoutMaul();
+    const state = maul.getState();
+    expect(state.carrier?.position).toBe(Position.LOCK_5);
+    expect(state.attackers.map(p => p.position)).toEqual([
+      Position.LOCK_5, Position.TIGHTHEAD_PROP, Position.BLINDSIDE_FLANKER,
+    ]);
+    expect(state.attackers.every(p => p.isInRuck)).toBe(true);
+    expect(state.defenders).toHaveLength(0);
+
+    run(1000);
+    expect(maul.getState().x).toBeCloseTo(MARK.x + MAUL.DRIVE_SPEED, 0);
+  });
+
+  it('should bind joiners on as they arrive, the harder workers first', () => {
+    lineoutMaul();
+    vi.spyOn(RNG, 'chance').mockReturnValue(false);
+    const grafter = match.away.getPlayerByPosition(Position.OPENSIDE_FLANKER);
+    const idler = match.away.getPlayerByPosition(Position.BLINDSIDE_FLANKER);
+    grafter.stats.workRate = 100;
+    idler.stats.workRate = 0;
+    for (const p of [grafter, idler]) {
+      p.sprite.setPosition(MARK.x + 120, MARK.y);
+      maul.queueJoiner(p, false);
+    }
+    const far = match.away.getPlayerByPosition(Position.NUMBER_8);
+    far.sprite.setPosition(MARK.x + MAUL.JOIN_RANGE + 100, MARK.y);
+    maul.queueJoiner(far, false);
+
+    const bound = () => maul.getState().defenders.map(p => p.position);
+    run(100);
+    expect(bound()).toEqual([]);
+    run(2000);
+    expect(bound()).toEqual([Position.OPENSIDE_FLANKER]);
+    run(2500);
+    expect(bound()).toEqual([Position.OPENSIDE_FLANKER, Position.BLINDSIDE_FLANKER]);
+  });
+
+  it('should go forward on strength and work rate, and stop against a bigger push', () => {
+    lineoutMaul();
+    vi.spyOn(RNG, 'chance').mockReturnValue(false);
+    const [lock, flanker] = [match.away.getPlayerByPosition(Position.LOCK_4), match.away.getPlayerByPosition(Position.OPENSIDE_FLANKER)];
+    maul.commitPlayer(lock, false);
+    maul.commitPlayer(flanker, false);
+    const twoOnThree = maul.getDriveSpeed();
+    expect(twoOnThree).toBeGreaterThan(0);
+
+    // Same two defenders, putting their backs into it
+    lock.stats.workRate = flanker.stats.workRate = 100;
+    expect(maul.getDriveSpeed()).toBeLessThan(twoOnThree);
+
+    maul.commitPlayer(match.away.getPlayerByPosition(Position.LOCK_5), false);
+    maul.commitPlayer(match.away.getPlayerByPosition(Position.NUMBER_8), false);
+    expect(maul.getDriveSpeed()).toBe(0);
+    const x = maul.getState().x;
+    run(500);
+    expect(maul.getState().x).toBe(x);
+  });
+
+  it.each([
+    ['held', 0.9],
+    ['stopped', 0.6],
+  ])('should give the scrum once it has been %s for the stall time', (_, ratio) => {
+    const timeouts: GameEvents['ruckTimeout'][] = [];
+    EventBus.on('ruckTimeout', d => timeouts.push(d));
+    lineoutMaul();
+    const defenders = [Position.LOCK_4, Position.LOCK_5, Position.NUMBER_8].map(pos => match.away.getPlayerByPosition(pos));
+    for (const p of defenders) maul.commitPlayer(p, false);
+    for (const p of [...maul.getState().attackers, ...defenders]) {
+      p.stats.strength = p.teamSide === 'home' ? 60 * ratio : 60;
+      p.stats.workRate = 100;
+    }
+    expect(maul.getPushRatio()).toBeCloseTo(ratio, 2);
+    expect(maul.getDriveSpeed()).toBe(0);
+
+    run(MAUL.STALL_TIMEOUT);
+    expect(maul.isActive()).toBe(true);
+    run(100);
+    expect(maul.isActive()).toBe(false);
+    expect(timeouts).toEqual([{ x: MARK.x, y: MARK.y }]);
+  });
+
+  it('should penalise pulling it down, and give a penalty try if it would have scored', () => {
+    const penalties: GameEvents['penaltyAwarded'][] = [];
+    const tries: GameEvents['maulTry'][] = [];
+    EventBus.on('penaltyAwarded', d => penalties.push(d));
+    EventBus.on('maulTry', d => tries.push(d));
+    vi.spyOn(RNG, 'chance').mockReturnValue(true);
+    const prop = match.away.getPlayerByPosition(Position.TIGHTHEAD_PROP);
+
+    lineoutMaul(PITCH.HALFWAY);
+    maul.commitPlayer(prop, false);
+    run(100);
+    expect(maul.isActive()).toBe(false);
+    expect(penalties).toEqual([{ x: PITCH.HALFWAY, y: MARK.y, reason: 'collapsing_maul', team: 'home', playerId: prop.id }]);
+
+    lineoutMaul(PITCH.TRY_LINE_RIGHT - MAUL.PENALTY_TRY_RANGE / 2);
+    maul.commitPlayer(prop, false);
+    run(100);
+    expect(tries).toEqual([expect.objectContaining({ team: 'home', playerId: prop.id, penaltyTry: true })]);
+  });
+
+  it('should score driven over the line', () => {
+    const tries: GameEvents['maulTry'][] = [];
+    EventBus.on('maulTry', d => tries.push(d));
+    lineoutMaul(PITCH.TRY_LINE_RIGHT - 10);
+    run(1000);
+    expect(tries).toEqual([expect.objectContaining({
+      team: 'home', playerId: match.home.getPlayerByPosition(Position.LOCK_5).id, penaltyTry: false,
+    })]);
+  });
+
+  it('should have the AI use it once it stops, but keep driving near the line', () => {
+    const ai = new TeamAI(match.home, 'home');
+    vi.spyOn(RNG, 'chance').mockReturnValue(false);
+    lineoutMaul(PITCH.TRY_LINE_RIGHT - MAUL.PENALTY_TRY_RANGE - 20);
+    expect(ai.chooseMaulUseIt(maul)).toBe(false);
+
+    run(MAUL.USE_IT_TIME);
+    expect(maul.distanceToLine()).toBeLessThan(MAUL.PENALTY_TRY_RANGE);
+    expect(ai.chooseMaulUseIt(maul)).toBe(false);
+
+    for (const pos of [Position.LOCK_4, Position.LOCK_5, Position.NUMBER_8, Position.LOOSEHEAD_PROP]) {
+      maul.commitPlayer(match.away.getPlayerByPosition(pos), false);
+    }
+    expect(ai.chooseMaulUseIt(maul)).toBe(true);
+  });
+});
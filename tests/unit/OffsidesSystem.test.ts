@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { vi } from 'vitest';
+import type Phaser from 'phaser';
 vi.mock('phaser', () => ({
   default: {
     GameObjects: { Graphics: class {}, Text: class {}, Sprite: class {} },
@@ -9,6 +10,7 @@ vi.mock('phaser', () => ({
 }));
 import { OffsidesSystem } from '../../src/systems/OffsidesSystem';
 import { Player } from '../../src/entities/Player';
+import { Position } from '../../src/utils/Constants';
 
 describe('OffsidesSystem', () => {
   let offsidesSystem: OffsidesSystem;
@@ -66,4 +68,100 @@ describe('OffsidesSystem', () => {
     offsidesSystem.toggleDebug();
     expect(offsidesSystem.isDebugActive()).toBe(false);
   });
+
+  it('should hold each side behind its own hindmost foot at a maul', () => {
+    offsidesSystem.setMaulOffsideLine(480, 530);
+
+    expect(offsidesSystem.getPhase()).toBe('maul');
+    expect(offsidesSystem.isOffside({ teamSide: 'home', sprite: { x: 490, y: 100 } } as Player)).toBe(true);
+    expect(offsidesSystem.isOffside({ teamSide: 'away', sprite: { x: 540, y: 100 } } as Player)).toBe(false);
+  });
+
+  it('should exempt forwards and scrum-halves from scrum and lineout lines', () => {
+    offsidesSystem.setScrumOffsideLine(500);
+    expect(offsidesSystem.getOffsideLine('home')).toBe(420);
+    expect(offsidesSystem.getOffsideLine('away')).toBe(580);
+
+    const scrumHalf = { teamSide: 'home', position: Position.SCRUM_HALF, sprite: { x: 510, y: 100 } } as Player;
+    const flyHalf = { teamSide: 'home', position: Position.FLY_HALF, sprite: { x: 450, y: 100 } } as Player;
+    expect(offsidesSystem.isOffside(scrumHalf)).toBe(false);
+    expect(offsidesSystem.isOffside(flyHalf)).toBe(true);
+
+    offsidesSystem.setLineoutOffsideLine(500);
+    expect(offsidesSystem.getOffsideLine('away')).toBe(600);
+    expect(offsidesSystem.isOffside({ teamSide: 'away', position: Position.OUTSIDE_CENTRE, sprite: { x: 560, y: 100 } } as Player)).toBe(true);
+  });
+
+  it('should keep set-piece lines through the first phase until the ball is out', () => {
+    const scrumHalf = { teamSide: 'home', position: Position.SCRUM_HALF, sprite: { x: 480, y: 100 } } as Player;
+    const centre = { teamSide: 'away', position: Position.INSIDE_CENTRE, sprite: { x: 560, y: 100 } } as Player;
+
+    // Play resumes off the scrum with the ball at the base
+    offsidesSystem.setScrumOffsideLine(500);
+    offsidesSystem.holdSetPieceLine(scrumHalf);
+    offsidesSystem.setGeneralOffsideLine(480, scrumHalf);
+    expect(offsidesSystem.getPhase()).toBe('scrum');
+    expect(offsidesSystem.isOffside(centre)).toBe(true);
+
+    // Passed away — the scrum is over
+    offsidesSystem.setGeneralOffsideLine(450, null);
+    expect(offsidesSystem.getPhase()).toBeNull();
+    expect(offsidesSystem.isOffside(centre)).toBe(false);
+
+    // Off the lineout, carried past the line
+    offsidesSystem.setLineoutOffsideLine(500);
+    offsidesSystem.holdSetPieceLine(scrumHalf);
+    scrumHalf.sprite.x = 590;
+    offsidesSystem.setGeneralOffsideLine(590, scrumHalf);
+    expect(offsidesSystem.getPhase()).toBe('lineout');
+    scrumHalf.sprite.x = 610;
+    offsidesSystem.setGeneralOffsideLine(610, scrumHalf);
+    expect(offsidesSystem.getPhase()).toBeNull();
+  });
+
+  it('should apply the 10-metre law only to players in front of the kicker', () => {
+    const chaser = { id: 'chaser', teamSide: 'home', sprite: { x: 600, y: 100 } } as Player;
+    const behind = { id: 'behind', teamSide: 'home', sprite: { x: 400, y: 100 } } as Player;
+    offsidesSystem.setKickOffsideLine('home', 500, 900, [chaser, behind]);
+
+    expect(offsidesSystem.getKickingSide()).toBe('home');
+    expect(offsidesSystem.getActiveLine('home')).toBe(800);
+    expect(offsidesSystem.getActiveLine('away')).toBeNull();
+
+    // Both run through the line — only the one in front of the kick is offside
+    chaser.sprite.x = 850;
+    behind.sprite.x = 850;
+    expect(offsidesSystem.isOffside(chaser)).toBe(true);
+    expect(offsidesSystem.isOffside(behind)).toBe(false);
+
+    // The line follows the ball, but never in front of the kicker
+    offsidesSystem.setGeneralOffsideLine(550);
+    expect(offsidesSystem.getOffsideLine('home')).toBe(500);
+
+    offsidesSystem.clearKickOffside();
+    expect(offsidesSystem.isActive()).toBe(false);
+    expect(offsidesSystem.isOffside(chaser)).toBe(false);
+  });
+
+  it('should lift the kick line when a breakdown forms', () => {
+    const chaser = { id: 'chaser', teamSide: 'away', sprite: { x: 300, y: 100 } } as Player;
+    offsidesSystem.setKickOffsideLine('away', 500, 200, [chaser]);
+    offsidesSystem.setRuckOffsideLine(250, true);
+
+    expect(offsidesSystem.getKickingSide()).toBeNull();
+    expect(offsidesSystem.getOffsideLine('away')).toBe(310);
+  });
+
+  it('should draw every enforced line in debug mode', () => {
+    const graphics = { lineStyle: vi.fn(), lineBetween: vi.fn() };
+    offsidesSystem.setRuckOffsideLine(500, true);
+
+    offsidesSystem.renderDebugLine(graphics as unknown as Phaser.GameObjects.Graphics);
+    expect(graphics.lineStyle).not.toHaveBeenCalled();
+
+    offsidesSystem.toggleDebug();
+    offsidesSystem.renderDebugLine(graphics as unknown as Phaser.GameObjects.Graphics);
+    expect(graphics.lineStyle).toHaveBeenCalledWith(2, 0xff0000, 0.7);
+    expect(graphics.lineStyle).toHaveBeenCalledWith(2, 0x0000ff, 0.7);
+  });
 });
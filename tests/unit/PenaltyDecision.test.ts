@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TeamAI } from '../../src/ai/TeamAI';
+import { PITCH } from '../../src/utils/Constants';
+import { makeTeam, useMatchFixture } from '../fixtures';
+
+const m = (metres: number) => metres * PITCH.M_TO_PX;
+
+describe('TeamAI penalty decisions', () => {
+  const match = useMatchFixture();
+  let ai: TeamAI;
+
+  const awayAI = (kicking: number) =>
+    new TeamAI(makeTeam(match.scene, 'away', { kicking }), 'away');
+
+  beforeEach(() => {
+    ai = awayAI(75);
+    ai.updateContext(0, 0, 20);
+  });
+
+  it('should kick at goal from close in front of the posts', () => {
+    expect(ai.choosePenaltyOption({ x: PITCH.TRY_LINE_LEFT + m(20), y: PITCH.POST_Y })).toBe('kick_at_goal');
+  });
+
+  it('should find touch from its own half and never kick a free kick at goal', () => {
+    expect(ai.choosePenaltyOption({ x: PITCH.HALFWAY + m(15), y: PITCH.POST_Y })).toBe('kick_to_touch');
+    expect(ai.choosePenaltyOption({ x: PITCH.TRY_LINE_LEFT + m(20), y: PITCH.POST_Y, freeKick: true })).toBe('tap_and_go');
+  });
+
+  it('should leave a wide angle to a weak kicker and take it with a strong one', () => {
+    const wide = { x: PITCH.TRY_LINE_LEFT + m(12), y: m(17) };
+    const weak = awayAI(50);
+    weak.updateContext(0, 0, 20);
+    const strong = awayAI(99);
+    strong.updateContext(0, 0, 20);
+
+    expect(weak.choosePenaltyOption(wide)).toBe('kick_to_touch');
+    expect(strong.choosePenaltyOption(wide)).toBe('kick_at_goal');
+  });
+
+  it('should chase the try when trailing by more than a score late on', () => {
+    ai.updateContext(10, 20, 77);
+    expect(ai.choosePenaltyOption({ x: PITCH.TRY_LINE_LEFT + m(20), y: PITCH.POST_Y })).toBe('kick_to_touch');
+    expect(ai.choosePenaltyOption({ x: PITCH.TRY_LINE_LEFT + m(4), y: PITCH.POST_Y })).toBe('tap_and_go');
+
+    ai.updateContext(18, 20, 77);
+    expect(ai.choosePenaltyOption({ x: PITCH.TRY_LINE_LEFT + m(30), y: PITCH.POST_Y })).toBe('kick_at_goal');
+  });
+
+  it('should scrum on the line when playing conservatively', () => {
+    ai.updateContext(20, 0, 30); // Well ahead — risk appetite drops
+    expect(ai.choosePenaltyOption({ x: PITCH.TRY_LINE_LEFT + m(3), y: m(5) })).toBe('scrum');
+  });
+});
@@ -25,10 +25,11 @@ describe('PenaltySystem', () => {
     expect(state.advantageStartX).toBe(300);
     expect(state.severity).toBe('penalty');
     
-    // Should emit event
-    expect(EventBus.emit).toHaveBeenCalledWith('penaltyAwarded', {
-      x: 300, y: 400, reason: 'offside', againstAttack: false, severity: 'penalty'
+    // Play goes on — the penalty only comes if advantage is called back
+    expect(EventBus.emit).toHaveBeenCalledWith('advantage', {
+      team: 'home', x: 300, y: 400, reason: 'offside', infringements: 1,
     });
+    expect(EventBus.emit).not.toHaveBeenCalledWith('penaltyAwarded', expect.anything());
   });
 
   it('should signal an infringement and award penalty immediately if advantage = false', () => {
@@ -87,6 +88,69 @@ describe('PenaltySystem', () => {
     expect(penaltySystem.getState().advantagePlaying).toBe(false);
     expect(penaltySystem.getState().active).toBe(true);
     expect(EventBus.emit).toHaveBeenCalledWith('whistle', { type: 'short' });
+    expect(EventBus.emit).toHaveBeenCalledWith('penaltyAwarded', {
+      x: 500, y: 500, reason: 'hands_in_ruck', team: 'home', againstAttack: false, severity: 'penalty',
+    });
+  });
+
+  it('should give tactical advantage once the window runs out in possession', () => {
+    penaltySystem = new PenaltySystem({ windowMs: 5000 });
+    penaltySystem.signalInfringement('offside', 600, 300, 'away', true);
+
+    penaltySystem.update(3000, 620, 'home');
+    expect(penaltySystem.isPlayingAdvantage()).toBe(true);
+    penaltySystem.update(3000, 630, 'home');
+
+    expect(penaltySystem.isPlayingAdvantage()).toBe(false);
+    expect(penaltySystem.isActive()).toBe(false);
+    expect(EventBus.emit).toHaveBeenCalledWith('advantageOver', { team: 'home', outcome: 'tactical' });
+  });
+
+  it('should end tactical advantage after the phase window', () => {
+    penaltySystem = new PenaltySystem({ windowMs: Infinity, windowPhases: 2 });
+    penaltySystem.signalInfringement('offside', 600, 300, 'home', true);
+
+    penaltySystem.recordPhase();
+    penaltySystem.update(16, 590, 'away');
+    expect(penaltySystem.isPlayingAdvantage()).toBe(true);
+
+    penaltySystem.recordPhase();
+    penaltySystem.update(16, 590, 'away');
+    expect(EventBus.emit).toHaveBeenCalledWith('advantageOver', { team: 'away', outcome: 'tactical' });
+  });
+
+  it('should come back to the mark when the ball is lost', () => {
+    penaltySystem.signalInfringement('offside', 600, 300, 'away', true);
+    penaltySystem.update(16, 640, 'away');
+
+    expect(penaltySystem.isActive()).toBe(true);
+    expect(EventBus.emit).toHaveBeenCalledWith('advantageOver', { team: 'home', outcome: 'called_back' });
+    expect(EventBus.emit).toHaveBeenCalledWith('penaltyAwarded', expect.objectContaining({ x: 600, y: 300, team: 'home' }));
+  });
+
+  it('should take the better of two infringements when called back', () => {
+    penaltySystem.signalInfringement('early_engagement', 500, 300, 'away', true);
+    penaltySystem.signalInfringement('offside', 450, 200, 'away', true, 'away-7');
+    penaltySystem.signalInfringement('offside', 560, 250, 'away', true, 'away-6');
+    penaltySystem.signalInfringement('offside', 560, 250, 'away', true, 'away-6'); // Same offence, still offside
+
+    expect(penaltySystem.getMarks()).toHaveLength(3);
+    penaltySystem.advantageOver();
+
+    // Penalty beats free kick, then further upfield for home
+    expect(EventBus.emit).toHaveBeenCalledWith('penaltyAwarded', expect.objectContaining({
+      x: 560, y: 250, severity: 'penalty', playerId: 'away-6',
+    }));
+  });
+
+  it('should return to the first mark if the non-offending side infringes', () => {
+    penaltySystem.signalInfringement('high_tackle', 800, 300, 'home', true);
+    penaltySystem.signalInfringement('offside', 700, 300, 'away', true);
+
+    expect(penaltySystem.getState().againstTeam).toBe('home');
+    expect(EventBus.emit).toHaveBeenCalledWith('penaltyAwarded', expect.objectContaining({
+      x: 800, reason: 'high_tackle', team: 'away',
+    }));
   });
 
   it('should handle select penalty option', () => {
@@ -78,8 +78,26 @@ describe('PhaseManager', () => {
         expect(phaseManager.transition('KNOCK_ON')).toBe(true);
     });
 
+    it('should allow TOUCH -> OPEN_PLAY (quick throw-in)', () => {
+        phaseManager.forcePhase('TOUCH');
+        expect(phaseManager.transition('OPEN_PLAY')).toBe(true);
+    });
+
     it('should allow MAUL -> SCRUM (turnover)', () => {
         phaseManager.forcePhase('MAUL');
         expect(phaseManager.transition('SCRUM')).toBe(true);
     });
+
+    it('should restart from drop-outs and reset the phase count', () => {
+        phaseManager.forcePhase('RUCK');
+        phaseManager.transition('OPEN_PLAY');
+        expect(phaseManager.transition('DROP_OUT_22')).toBe(true);
+        expect(phaseManager.getPhaseCount()).toBe(0);
+        expect(phaseManager.transition('OPEN_PLAY')).toBe(true);
+
+        phaseManager.forcePhase('TMO_REVIEW');
+        expect(phaseManager.transition('GOAL_LINE_DROP_OUT')).toBe(true);
+        // Short — the receivers take the scrum
+        expect(phaseManager.transition('SCRUM')).toBe(true);
+    });
 });
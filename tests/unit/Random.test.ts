@@ -0,0 +1,73 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { SeededRandom, RNG } from '../../src/utils/Random';
+import { statCheck, rollTackleOutcome } from '../../src/components/Stats';
+import { calculateKickDeviation, KickType } from '../../src/components/Kicking';
+import type { PlayerStats } from '../../src/components/Stats';
+
+const STATS: PlayerStats = {
+  speed: 70, strength: 70, handling: 70, kicking: 70,
+  stamina: 70, tackling: 70, awareness: 70, workRate: 70,
+};
+
+describe('SeededRandom', () => {
+  afterEach(() => {
+    RNG.setSeed(SeededRandom.generateSeed());
+  });
+
+  it('should produce the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+    const seqA = Array.from({ length: 10 }, () => a.next());
+    const seqB = Array.from({ length: 10 }, () => b.next());
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  it('should restart the sequence when reseeded', () => {
+    const rng = new SeededRandom(7);
+    const first = [rng.next(), rng.next(), rng.next()];
+    rng.setSeed(7);
+    expect([rng.next(), rng.next(), rng.next()]).toEqual(first);
+    expect(rng.getSeed()).toBe(7);
+  });
+
+  it('should keep values inside the requested ranges', () => {
+    const rng = new SeededRandom(99);
+    for (let i = 0; i < 500; i++) {
+      const f = rng.next();
+      expect(f).toBeGreaterThanOrEqual(0);
+      expect(f).toBeLessThan(1);
+
+      const r = rng.range(-5, 5);
+      expect(r).toBeGreaterThanOrEqual(-5);
+      expect(r).toBeLessThan(5);
+
+      const n = rng.int(1, 6);
+      expect(Number.isInteger(n)).toBe(true);
+      expect(n).toBeGreaterThanOrEqual(1);
+      expect(n).toBeLessThanOrEqual(6);
+    }
+  });
+
+  it('should make gameplay rolls reproducible through the shared RNG', () => {
+    const roll = () => [
+      statCheck(60),
+      rollTackleOutcome(STATS, STATS),
+      calculateKickDeviation(KickType.PUNT, 70, 0.9),
+    ];
+
+    RNG.setSeed(2026);
+    const first = Array.from({ length: 20 }, roll);
+    RNG.setSeed(2026);
+    const second = Array.from({ length: 20 }, roll);
+
+    expect(second).toEqual(first);
+  });
+});
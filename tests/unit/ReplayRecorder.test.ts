@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReplayRecorder, sampleReplay, REPLAY_VERSION, REPLAY_FRAME_INTERVAL } from '../../src/systems/ReplayRecorder';
+import type { Replay } from '../../src/systems/ReplayRecorder';
+import { HeadlessScene } from '../../src/utils/HeadlessScene';
+import { Team } from '../../src/entities/Team';
+import { Ball } from '../../src/entities/Ball';
+import { ClockSystem } from '../../src/systems/ClockSystem';
+import { ScoringSystem } from '../../src/systems/ScoringSystem';
+import { EventBus } from '../../src/utils/EventBus';
+
+const STATS = { rating: 70, strength: 70, speed: 70, kicking: 70, handling: 70, color: 0xffffff };
+
+function createRecorder() {
+  const scene = new HeadlessScene().asPhaserScene();
+  const homeTeam = new Team(scene, 'home', { ...STATS, color: 0x0000ff });
+  const awayTeam = new Team(scene, 'away', { ...STATS, color: 0xff0000 });
+  const ball = new Ball(scene, 700, 350);
+  const recorder = new ReplayRecorder(
+    { homeTeam, awayTeam, ball, clock: new ClockSystem(), scoring: new ScoringSystem() },
+    { seed: 7, home: { name: 'Blues', color: 0x0000ff }, away: { name: 'Reds', color: 0xff0000 } },
+  );
+  return { recorder, homeTeam, ball };
+}
+
+describe('ReplayRecorder', () => {
+  beforeEach(() => {
+    EventBus.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should sample positions at the frame interval', () => {
+    const { recorder, ball } = createRecorder();
+    recorder.start();
+
+    ball.setPosition(800, 300);
+    for (let i = 0; i < 10; i++) recorder.update(REPLAY_FRAME_INTERVAL / 2);
+    const replay = recorder.stop();
+
+    // Start frame + 5 sampled + stop frame
+    expect(replay.frames).toHaveLength(7);
+    expect(replay.frames[1].ball).toEqual([800, 300]);
+    expect(replay.frames[1].players).toHaveLength(60);
+    expect(replay.duration).toBe(REPLAY_FRAME_INTERVAL * 5);
+    expect(replay.version).toBe(REPLAY_VERSION);
+  });
+
+  it('should record EventBus events but not clock ticks', () => {
+    const { recorder } = createRecorder();
+    recorder.start();
+    recorder.update(250);
+    EventBus.emit('clockTick', { gameMinutes: 1, gameSeconds: 0, half: 1 });
+    EventBus.emit('score', { team: 'home', type: 'try', points: 5 });
+    const replay = recorder.stop();
+
+    expect(replay.events).toEqual([
+      { t: 250, event: 'score', data: { team: 'home', type: 'try', points: 5 } },
+    ]);
+  });
+
+  it('should stop listening once stopped', () => {
+    const { recorder } = createRecorder();
+    recorder.start();
+    const replay = recorder.stop();
+    EventBus.emit('whistle', { type: 'short' });
+    expect(replay.events).toHaveLength(0);
+    expect(recorder.isRecording()).toBe(false);
+  });
+
+  it('should round-trip through the compact serialised format', () => {
+    const { recorder, homeTeam } = createRecorder();
+    recorder.start();
+    for (let i = 0; i < 20; i++) {
+      homeTeam.players[0].sprite.setPosition(200 + i * 7, 300 - i * 3);
+      recorder.update(REPLAY_FRAME_INTERVAL);
+    }
+    const replay = recorder.stop();
+
+    const decoded = ReplayRecorder.deserialize(ReplayRecorder.serialize(replay));
+    expect(decoded).toEqual(replay);
+  });
+
+  it('should reject replays from another format version', () => {
+    const { recorder } = createRecorder();
+    recorder.start();
+    const json = ReplayRecorder.serialize(recorder.stop());
+    const stale = JSON.stringify({ ...JSON.parse(json), version: REPLAY_VERSION + 1 });
+
+    expect(ReplayRecorder.deserialize(stale)).toBeNull();
+    expect(ReplayRecorder.deserialize('not json')).toBeNull();
+  });
+
+  it('should save and load the last replay via localStorage', () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => { store.set(k, v); },
+      removeItem: (k: string) => { store.delete(k); },
+    });
+    const { recorder } = createRecorder();
+    recorder.start();
+    recorder.update(REPLAY_FRAME_INTERVAL);
+    const replay = recorder.stop();
+
+    expect(ReplayRecorder.save(replay)).toBe(true);
+    expect(ReplayRecorder.load()).toEqual(replay);
+  });
+
+  it('should clip the most recent play rebased to zero', () => {
+    const { recorder, ball } = createRecorder();
+    recorder.start();
+    for (let i = 0; i < 30; i++) {
+      ball.setPosition(200 + i * 10, 350);
+      recorder.update(REPLAY_FRAME_INTERVAL);
+      if (i === 25) EventBus.emit('whistle', { type: 'short' });
+    }
+
+    const clip = recorder.clip(1000);
+    expect(clip.frames[0].t).toBe(0);
+    expect(clip.frames).toHaveLength(11);
+    expect(clip.frames[clip.frames.length - 1].ball).toEqual([490, 350]);
+    expect(clip.duration).toBe(1000);
+    expect(clip.events).toEqual([{ t: 600, event: 'whistle', data: { type: 'short' } }]);
+
+    // Clipping leaves the full recording untouched
+    expect(recorder.isRecording()).toBe(true);
+    expect(recorder.stop().frames[0].t).toBe(0);
+    expect(recorder.clip(60_000).frames).toHaveLength(32);
+  });
+
+  it('should interpolate between frames when sampling', () => {
+    const replay = {
+      frames: [
+        { t: 0, clock: 0, score: [0, 0], ball: [0, 0], players: [10, 10] },
+        { t: 100, clock: 1, score: [0, 0], ball: [100, 50], players: [20, 30] },
+      ],
+    } as unknown as Replay;
+
+    const mid = sampleReplay(replay, 50);
+    expect(mid.ball).toEqual([50, 25]);
+    expect(mid.players).toEqual([15, 20]);
+    expect(sampleReplay(replay, 500).ball).toEqual([100, 50]);
+    expect(sampleReplay(replay, -10).ball).toEqual([0, 0]);
+  });
+});
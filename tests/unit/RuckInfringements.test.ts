@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type Phaser from 'phaser';
+import { HeadlessScene } from '../../src/utils/HeadlessScene';
+import { Player } from '../../src/entities/Player';
+import type { PlayerStats } from '../../src/entities/Player';
+import { RuckSystem } from '../../src/systems/RuckSystem';
+import { OffsidesSystem } from '../../src/systems/OffsidesSystem';
+import { Position, RUCK } from '../../src/utils/Constants';
+import { EventBus } from '../../src/utils/EventBus';
+import type { GameEvents } from '../../src/utils/EventBus';
+
+// Ruck at the centre spot — home attacks +X, so home's own side is x < 700
+const RUCK_X = 700;
+const RUCK_Y = 350;
+
+describe('RuckSystem infringements', () => {
+  let scene: Phaser.Scene;
+  let ruck: RuckSystem;
+  let penalties: GameEvents['penaltyAwarded'][];
+
+  const player = (side: 'home' | 'away', x: number, y: number, position = Position.LOCK_4, stats: Partial<PlayerStats> = {}) =>
+    new Player(scene, x, y, position, side, 0xffffff, { stats });
+
+  /** Run contest ticks */
+  const ticks = (n: number) => {
+    for (let i = 0; i < n; i++) ruck.update(RUCK.TICK_INTERVAL);
+  };
+
+  beforeEach(() => {
+    EventBus.clear();
+    scene = new HeadlessScene().asPhaserScene();
+    ruck = new RuckSystem(scene);
+    ruck.setOffsides(new OffsidesSystem());
+    penalties = [];
+    EventBus.on('penaltyAwarded', data => penalties.push(data));
+  });
+
+  it('should penalise a defender coming in from the side', () => {
+    ruck.startRuck(RUCK_X, RUCK_Y, 'home');
+    ruck.commitPlayer(player('home', 650, RUCK_Y), true);
+    const flanker = player('away', 710, RUCK_Y + 60, Position.OPENSIDE_FLANKER);
+    ruck.commitPlayer(flanker, false);
+    ticks(1);
+
+    expect(penalties).toEqual([expect.objectContaining({
+      reason: 'side_entry', playerId: flanker.id, team: 'home', againstAttack: false,
+    })]);
+    expect(ruck.isActive()).toBe(false);
+  });
+
+  it('should let players join through the gate without penalty', () => {
+    ruck.startRuck(RUCK_X, RUCK_Y, 'home');
+    ruck.commitPlayer(player('home', 650, RUCK_Y), true);
+    ruck.commitPlayer(player('home', 660, RUCK_Y + 20), true);
+    ruck.commitPlayer(player('away', 760, RUCK_Y - 10), false);
+    ticks(3);
+
+    expect(penalties).toHaveLength(0);
+  });
+
+  it('should penalise a player caught offside who joins without retiring', () => {
+    const caught = player('away', 660, RUCK_Y);
+    const retires = player('away', 650, RUCK_Y - 20);
+    ruck.startRuck(RUCK_X, RUCK_Y, 'home', { players: [caught, retires] });
+    ruck.commitPlayer(player('home', 650, RUCK_Y), true);
+
+    // Gets back behind away's line (ball + zone radius) before coming in
+    retires.sprite.setPosition(RUCK_X + RUCK.ZONE_RADIUS + 10, RUCK_Y);
+    ticks(1);
+    ruck.commitPlayer(retires, false);
+    ticks(1);
+    expect(penalties).toHaveLength(0);
+
+    caught.sprite.setPosition(RUCK_X + 20, RUCK_Y);
+    ruck.commitPlayer(caught, false);
+    ticks(1);
+    expect(penalties[0]).toMatchObject({ reason: 'offside_at_ruck', playerId: caught.id });
+  });
+
+  it('should judge the jackler by his timing', () => {
+    // In before any attacker binds — the tackled player has to let go
+    const carrier = player('home', RUCK_X, RUCK_Y, Position.INSIDE_CENTRE);
+    ruck.startRuck(RUCK_X, RUCK_Y, 'home', { carrier });
+    ruck.commitPlayer(player('away', 720, RUCK_Y, Position.OPENSIDE_FLANKER), false);
+    ticks(Math.ceil(RUCK.HOLDING_ON_MS / RUCK.TICK_INTERVAL));
+    expect(penalties[0]).toMatchObject({ reason: 'not_releasing', playerId: carrier.id, team: 'away' });
+
+    // After the ruck has formed — hands in the ruck
+    penalties = [];
+    ruck.startRuck(RUCK_X, RUCK_Y, 'home');
+    ruck.commitPlayer(player('home', 650, RUCK_Y), true);
+    ruck.update(RUCK.JACKAL_WINDOW);
+    const late = player('away', 720, RUCK_Y, Position.OPENSIDE_FLANKER, { awareness: 40 });
+    ruck.commitPlayer(late, false);
+    ticks(1);
+    expect(penalties[0]).toMatchObject({ reason: 'hands_in_ruck', playerId: late.id });
+  });
+
+  it('should penalise a tackler lying on the wrong side when the ball should come out', () => {
+    const tackler = player('away', 670, RUCK_Y, Position.OPENSIDE_FLANKER);
+    tackler.isGrounded = true;
+    ruck.startRuck(RUCK_X, RUCK_Y, 'home', { tackler });
+    for (const y of [RUCK_Y - 10, RUCK_Y, RUCK_Y + 10]) ruck.commitPlayer(player('home', 650, y), true);
+    ticks(3);
+
+    expect(penalties[0]).toMatchObject({ reason: 'not_rolling_away', playerId: tackler.id });
+    expect(ruck.isBallAvailable()).toBe(false);
+  });
+
+  it('should drive weak players off their feet and penalise them for profiting', () => {
+    ruck.startRuck(RUCK_X, RUCK_Y, 'home');
+    for (const y of [RUCK_Y - 10, RUCK_Y, RUCK_Y + 10]) ruck.commitPlayer(player('home', 650, y), true);
+    const wing = player('away', 740, RUCK_Y, Position.RIGHT_WING);
+    ruck.commitPlayer(wing, false);
+    ticks(1);
+    expect(ruck.getState().offFeet).toContain(wing);
+    expect(penalties).toHaveLength(0);
+
+    // The cavalry arrives and the defence starts winning with the wing still down
+    for (const y of [RUCK_Y - 10, RUCK_Y, RUCK_Y + 10, RUCK_Y + 5]) {
+      ruck.commitPlayer(player('away', 740, y, Position.NUMBER_8), false);
+    }
+    ticks(1);
+    expect(penalties[0]).toMatchObject({ reason: 'off_feet', playerId: wing.id, againstAttack: false });
+  });
+});
@@ -11,6 +11,7 @@ import { Ball } from '../../src/entities/Ball';
 import { Player } from '../../src/entities/Player';
 import { PITCH, SCORING } from '../../src/utils/Constants';
 import { EventBus } from '../../src/utils/EventBus';
+import { RNG } from '../../src/utils/Random';
 
 describe('ScoringSystem', () => {
   let scoringSystem: ScoringSystem;
@@ -61,6 +62,49 @@ describe('ScoringSystem', () => {
     expect(scoringSystem.getConversionTeam()).toBe('away');
   });
 
+  it('should count tries separately from points', () => {
+    scoringSystem['awardTry']('home', 300);
+    scoringSystem.attemptPenaltyGoal('home', 1, 0.6, 100, 0);
+    scoringSystem['awardTry']('away', 300);
+
+    expect(scoringSystem.getTries()).toEqual({ home: 1, away: 1 });
+    scoringSystem.reset();
+    expect(scoringSystem.getTries()).toEqual({ home: 0, away: 0 });
+  });
+
+  it('should detect a try without awarding it, and take back a disallowed one', () => {
+    mockCarrier.teamSide = 'home';
+    mockBall.sprite!.x = PITCH.TRY_LINE_RIGHT + 10;
+
+    expect(scoringSystem.detectTry(mockBall as Ball)).toEqual({ team: 'home', x: PITCH.TRY_LINE_RIGHT + 10, y: PITCH.HEIGHT_PX / 2 });
+    expect(scoringSystem.getScore().home).toBe(0);
+
+    scoringSystem.awardTry('home', PITCH.HEIGHT_PX / 2);
+    scoringSystem.disallowTry('home');
+    expect(scoringSystem.getScore().home).toBe(0);
+    expect(scoringSystem.getTries().home).toBe(0);
+    expect(scoringSystem.isConversionPending()).toBe(false);
+    expect(EventBus.emit).toHaveBeenCalledWith('tryDisallowed', { team: 'home' });
+  });
+
+  it('should award a penalty try whole, with nothing to convert', () => {
+    scoringSystem.awardPenaltyTry('away');
+    expect(scoringSystem.getScore().away).toBe(SCORING.PENALTY_TRY);
+    expect(scoringSystem.getTries().away).toBe(1);
+    expect(scoringSystem.isConversionPending()).toBe(false);
+    expect(EventBus.emit).toHaveBeenCalledWith('score', { team: 'away', type: 'try', points: SCORING.PENALTY_TRY, penaltyTry: true });
+  });
+
+  it('should detect a defender touching down a kick into their own in-goal', () => {
+    mockCarrier.teamSide = 'home';
+    mockBall.sprite!.x = PITCH.TRY_LINE_LEFT - 20;
+
+    expect(scoringSystem.detectGrounding(mockBall as Ball, 'away')).toEqual({ team: 'home', x: PITCH.TRY_LINE_LEFT - 20, y: PITCH.HEIGHT_PX / 2 });
+    // Their own kick, or no kick to ground, is not a grounding
+    expect(scoringSystem.detectGrounding(mockBall as Ball, 'home')).toBeNull();
+    expect(scoringSystem.detectGrounding(mockBall as Ball, null)).toBeNull();
+  });
+
   it('should not detect a try if ball is not in in-goal area', () => {
     mockCarrier.teamSide = 'home';
     mockBall.sprite!.x = PITCH.HALFWAY;
@@ -77,8 +121,8 @@ describe('ScoringSystem', () => {
     expect(scoringSystem.isConversionPending()).toBe(true);
 
     // High accuracy, good power, high stat -> almost certain success
-    // Stub Math.random to guarantee success
-    vi.spyOn(Math, 'random').mockReturnValue(0.1); 
+    // Stub RNG.next to guarantee success
+    vi.spyOn(RNG, 'next').mockReturnValue(0.1); 
     
     const success = scoringSystem.attemptConversion(1.0, 0.75, 90);
     
@@ -93,8 +137,8 @@ describe('ScoringSystem', () => {
   it('should handle missed conversion', () => {
     scoringSystem['awardTry']('away', 500);
     
-    // Stub Math.random to guarantee failure
-    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    // Stub RNG.next to guarantee failure
+    vi.spyOn(RNG, 'next').mockReturnValue(0.99);
     
     const success = scoringSystem.attemptConversion(0.5, 0.2, 50);
     
@@ -106,7 +150,7 @@ describe('ScoringSystem', () => {
   });
 
   it('should handle penalty goal success', () => {
-    vi.spyOn(Math, 'random').mockReturnValue(0.1);
+    vi.spyOn(RNG, 'next').mockReturnValue(0.1);
     
     const success = scoringSystem.attemptPenaltyGoal('home', 1.0, 0.75, 90, 200);
     
@@ -118,7 +162,7 @@ describe('ScoringSystem', () => {
   });
 
   it('should handle drop goal success', () => {
-    vi.spyOn(Math, 'random').mockReturnValue(0.1);
+    vi.spyOn(RNG, 'next').mockReturnValue(0.1);
     
     const success = scoringSystem.attemptDropGoal('away', 90, 200);
     
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TeamAI } from '../../src/ai/TeamAI';
+import { ScrumSystem } from '../../src/systems/ScrumSystem';
+import { PITCH, Position } from '../../src/utils/Constants';
+import { RNG } from '../../src/utils/Random';
+import { makeTeam, useMatchFixture } from '../fixtures';
+
+/** Five metres out from the away try line, home putting in */
+const ON_THE_LINE = PITCH.TRY_LINE_RIGHT - 50;
+
+describe('ScrumSystem', () => {
+  const match = useMatchFixture({ away: { strength: 50 } });
+
+  it('should weigh the pack on the pitch, tiring as stamina runs down', () => {
+    const scrum = new ScrumSystem(match.home, match.away);
+    const fresh = scrum.getStrength('home');
+    expect(fresh).toBeGreaterThan(scrum.getStrength('away'));
+
+    for (const p of scrum.getPack('home')) p.stamina = 0;
+    expect(scrum.getStrength('home')).toBeLessThan(fresh);
+
+    // A prop in the bin costs more than a flanker
+    const level = new ScrumSystem(match.away, match.home).getStrength('away');
+    match.away.removeFromPlay(match.away.getPlayerByPosition(Position.BLINDSIDE_FLANKER));
+    const noFlanker = new ScrumSystem(match.away, match.home).getStrength('away');
+    match.away.removeFromPlay(match.away.getPlayerByPosition(Position.TIGHTHEAD_PROP));
+    const noProp = new ScrumSystem(match.away, match.home).getStrength('away');
+    expect(level - noFlanker).toBeLessThan(noFlanker - noProp);
+  });
+
+  it('should reset, and penalise the pack going backwards for a collapse', () => {
+    const scrum = new ScrumSystem(match.away, match.home);
+    const chance = vi.spyOn(RNG, 'chance');
+
+    chance.mockReturnValueOnce(true);
+    expect(scrum.resolve('hook', PITCH.HALFWAY)).toEqual({ outcome: 'reset', winner: 'away' });
+
+    chance.mockReturnValueOnce(false).mockReturnValueOnce(true);
+    expect(scrum.resolve('hook', PITCH.HALFWAY)).toEqual({ outcome: 'collapsed', winner: 'home', offender: 'away' });
+  });
+
+  it('should make resets likelier and the stronger pack less dominant on a wet pitch', () => {
+    const rolls = (wetness: number) => {
+      const chance = vi.spyOn(RNG, 'chance').mockReturnValue(false);
+      new ScrumSystem(match.home, match.away, wetness).resolve('hook', PITCH.HALFWAY);
+      const [reset, collapse] = chance.mock.calls.map(c => c[0]);
+      chance.mockRestore();
+      return { reset, collapse };
+    };
+    const dry = rolls(0);
+    const wet = rolls(1);
+    expect(wet.reset).toBeGreaterThan(dry.reset);
+    expect(wet.collapse).toBeLessThan(dry.collapse);
+  });
+
+  it('should wheel drives and push over near the line', () => {
+    const scrum = new ScrumSystem(match.home, match.away);
+    const chance = vi.spyOn(RNG, 'chance');
+
+    // Straight, not collapsed, wheeled — put-in to the other side
+    chance.mockReturnValueOnce(false).mockReturnValueOnce(false).mockReturnValueOnce(true);
+    expect(scrum.resolve('drive', ON_THE_LINE)).toEqual({ outcome: 'wheel', winner: 'away' });
+
+    chance.mockReturnValueOnce(false).mockReturnValueOnce(false).mockReturnValueOnce(false).mockReturnValueOnce(true);
+    expect(scrum.resolve('drive', ON_THE_LINE)).toEqual({ outcome: 'pushover', winner: 'home' });
+
+    // A quick strike never wheels or goes over
+    chance.mockReturnValueOnce(false).mockReturnValueOnce(false).mockReturnValueOnce(true);
+    expect(scrum.resolve('hook', ON_THE_LINE)).toEqual({ outcome: 'won', winner: 'home' });
+  });
+
+  it('should let the AI drive with the stronger pack and hook otherwise', () => {
+    expect(new TeamAI(match.home, 'home').chooseScrumOption(new ScrumSystem(match.home, match.away), ON_THE_LINE)).toBe('drive');
+    expect(new TeamAI(match.away, 'away').chooseScrumOption(new ScrumSystem(match.away, match.home), PITCH.HALFWAY)).toBe('hook');
+
+    const even = makeTeam(match.scene, 'away');
+    expect(new TeamAI(match.home, 'home').chooseScrumOption(new ScrumSystem(match.home, even), PITCH.HALFWAY)).toBe('hook');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SimulationEngine } from '../../src/systems/SimulationEngine';
+import { EventBus } from '../../src/utils/EventBus';
+
+describe('SimulationEngine', () => {
+  beforeEach(() => {
+    EventBus.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should play a full match to full time without a renderer', () => {
+    const result = new SimulationEngine({ seed: 1234 }).run();
+    const events = result.events.map(e => e.event);
+
+    expect(events).toContain('halfTime');
+    expect(events).toContain('fullTime');
+    expect(events).toContain('tackle');
+    expect(result.score.home).toBeGreaterThanOrEqual(0);
+    expect(result.score.away).toBeGreaterThanOrEqual(0);
+    expect(result.seed).toBe(1234);
+  });
+
+  it('should log events with game-clock timestamps in order within each half', () => {
+    const { events } = new SimulationEngine({ seed: 99 }).run();
+    const fullTime = events.find(e => e.event === 'fullTime')!;
+
+    expect(fullTime.half).toBe(2);
+    expect(fullTime.time).toBeGreaterThanOrEqual(80 * 60);
+    for (let i = 1; i < events.length; i++) {
+      if (events[i].half !== events[i - 1].half) {
+        expect(events[i].half).toBe(2);
+        continue;
+      }
+      expect(events[i].time).toBeGreaterThanOrEqual(events[i - 1].time);
+    }
+  });
+
+  it('should reproduce the same match from the same seed', () => {
+    const a = new SimulationEngine({ seed: 2026 }).run();
+    const b = new SimulationEngine({ seed: 2026 }).run();
+
+    expect(b.score).toEqual(a.score);
+    expect(b.steps).toBe(a.steps);
+    expect(b.events.map(e => e.event)).toEqual(a.events.map(e => e.event));
+  });
+
+  it('should remove its listeners once the run completes', () => {
+    const engine = new SimulationEngine({ seed: 5 });
+    engine.run();
+    const emitted = vi.fn();
+    EventBus.onAny(emitted);
+
+    EventBus.emit('fullTime', {} as Record<string, never>);
+
+    expect(emitted).toHaveBeenCalledTimes(1);
+    expect(engine.isFinished()).toBe(true);
+  });
+});
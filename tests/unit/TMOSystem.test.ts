@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TMOSystem } from '../../src/systems/TMOSystem';
+import type { Replay, ReplayFrame } from '../../src/systems/ReplayRecorder';
+import { Position, PITCH } from '../../src/utils/Constants';
+import { EventBus } from '../../src/utils/EventBus';
+import { RNG } from '../../src/utils/Random';
+import { useMatchFixture } from '../fixtures';
+
+/** A home try in the right-hand in-goal */
+const TRY_X = PITCH.TRY_LINE_RIGHT + 10;
+
+describe('TMOSystem', () => {
+  const match = useMatchFixture();
+  let tmo: TMOSystem;
+
+  /** Recorded run-in: the ball at each point, 100 ms apart */
+  const clip = (ball: [number, number][], events: Replay['events'] = []): Replay => ({
+    version: 1, seed: 1, recordedAt: '', duration: ball.length * 100, frameInterval: 100,
+    home: { name: 'HOME', color: 0 }, away: { name: 'AWAY', color: 0 }, players: [],
+    frames: ball.map((b, i): ReplayFrame => ({ t: i * 100, clock: 0, score: [0, 0], ball: b, players: [] })),
+    events,
+  });
+
+  const attempt = (y = PITCH.POST_Y) => {
+    const carrier = match.home.getPlayerByPosition(Position.RIGHT_WING);
+    carrier.sprite.setPosition(TRY_X, y);
+    return tmo.assessAttempt('home', carrier, TRY_X, y);
+  };
+
+  beforeEach(() => {
+    // Defence nowhere near the line
+    for (const p of match.away.players) p.sprite.setPosition(PITCH.HALFWAY, PITCH.POST_Y);
+    tmo = new TMOSystem(match.home, match.away);
+    tmo.start();
+  });
+
+  afterEach(() => {
+    tmo.destroy();
+  });
+
+  it('should let a clear-cut try stand without a referral', () => {
+    const clean = attempt();
+    expect(tmo.getReviewReasons(clean)).toEqual([]);
+    expect(tmo.review(clean, clip([[1200, 350], [TRY_X, 350]])).awarded).toBe(true);
+  });
+
+  it('should refer a try in the corner and find a foot in touch on the run-in', () => {
+    const corner = attempt(20);
+    expect(tmo.getReviewReasons(corner)).toEqual(['touch']);
+
+    const decision = tmo.review(corner, clip([[1100, 30], [1180, 4], [TRY_X, 20]]));
+    expect(decision).toMatchObject({ awarded: false, infringement: 'in_touch', x: 1180, y: 4 });
+
+    // Stayed in — a try
+    expect(tmo.review(corner, clip([[1100, 30], [1180, 15], [TRY_X, 20]])).awarded).toBe(true);
+  });
+
+  it('should only look at the carrier\'s run since the last pass', () => {
+    const corner = attempt(20);
+    // On the touchline before the pass — not the scorer's run
+    const run = clip([[1000, 3], [1100, 40], [TRY_X, 20]], [{ t: 100, event: 'ballPassed', data: {} }]);
+    expect(tmo.review(corner, run).awarded).toBe(true);
+  });
+
+  it('should rule out a try after a forward pass in the build-up', () => {
+    const centre = match.home.getPlayerByPosition(Position.OUTSIDE_CENTRE);
+    const wing = match.home.getPlayerByPosition(Position.RIGHT_WING);
+    // Flat enough for the referee in real time, not for the TMO
+    EventBus.emit('passCompleted', {
+      passerId: centre.id, receiverId: wing.id,
+      releaseX: 1100, releaseY: 300, catchX: 1115, catchY: 340, passerVx: 0, flightMs: 300,
+    });
+
+    const score = attempt();
+    expect(tmo.getReviewReasons(score)).toEqual(['forward_pass']);
+    expect(tmo.review(score, clip([[TRY_X, 350]]))).toMatchObject({ awarded: false, infringement: 'forward_pass', x: 1100 });
+
+    // A new phase wipes the slate
+    EventBus.emit('ruckFormed', { x: 1200, y: 350, attackingTeam: 'home' });
+    expect(tmo.getReviewReasons(attempt())).toEqual([]);
+  });
+
+  it('should find the ball held up when defenders get under it', () => {
+    const lock = match.away.getPlayerByPosition(Position.LOCK_4);
+    lock.sprite.setPosition(TRY_X + 5, PITCH.POST_Y);
+    // The held-up roll comes off, the (much smaller) knock-on roll does not
+    vi.spyOn(RNG, 'chance').mockImplementation(p => p >= 0.2);
+
+    const goalLine = attempt();
+    expect(goalLine).toMatchObject({ defenders: 1, heldUp: true, knockOn: false });
+    expect(tmo.getReviewReasons(goalLine)).toEqual(['held_up']);
+    expect(tmo.review(goalLine, clip([[TRY_X, 350]]))).toMatchObject({ awarded: false, infringement: 'held_up' });
+  });
+
+  it('should allow one captain\'s challenge per side per half', () => {
+    expect(tmo.useChallenge('away')).toBe(true);
+    expect(tmo.useChallenge('away')).toBe(false);
+    expect(tmo.hasChallenge('home')).toBe(true);
+
+    EventBus.emit('secondHalfStart', {});
+    expect(tmo.hasChallenge('away')).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TeamEditor, STAT_MIN, STAT_MAX, TEAM_STAT_BUDGET } from '../../src/systems/TeamEditor';
+import { HeadlessScene } from '../../src/utils/HeadlessScene';
+import { Team } from '../../src/entities/Team';
+import { Position } from '../../src/utils/Constants';
+import { EventBus } from '../../src/utils/EventBus';
+
+describe('TeamEditor', () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => { store.set(k, v); },
+      removeItem: (k: string) => { store.delete(k); },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should create a 15-man squad and persist it', () => {
+    const editor = new TeamEditor();
+    const team = editor.createTeam('Harlequins', 0xec4899);
+
+    expect(team.players).toHaveLength(15);
+    expect(team.players[9]).toMatchObject({ name: 'Fly Half', position: 10 });
+    expect(new TeamEditor().getTeam(team.id)?.name).toBe('Harlequins');
+  });
+
+  it('should give each new team a unique id', () => {
+    const editor = new TeamEditor();
+    const a = editor.createTeam('A', 0);
+    const b = editor.createTeam('B', 0);
+    expect(a.id).not.toBe(b.id);
+  });
+
+  it('should clamp stats to the allowed range', () => {
+    const editor = new TeamEditor();
+    const team = editor.createTeam('Clamp', 0);
+    editor.updatePlayerStats(team.id, 1, { speed: 5, kicking: 40.4 });
+
+    const stats = editor.getTeam(team.id)!.players[0].stats;
+    expect(stats.speed).toBe(STAT_MIN);
+    expect(stats.kicking).toBe(40);
+  });
+
+  it('should trim increases to the team stat budget', () => {
+    const editor = new TeamEditor();
+    const team = editor.createTeam('Budget', 0);
+
+    // Spend everything, then try to spend more
+    for (let pos = 1; pos <= 15 && editor.getBudgetRemaining(team.id) > 0; pos++) {
+      editor.updatePlayerStats(team.id, pos, { speed: STAT_MAX, strength: STAT_MAX });
+    }
+    expect(editor.getStatTotal(team.id)).toBe(TEAM_STAT_BUDGET);
+
+    const before = editor.getTeam(team.id)!.players[14].stats.handling;
+    editor.updatePlayerStats(team.id, 15, { handling: before + 10 });
+    expect(editor.getTeam(team.id)!.players[14].stats.handling).toBe(before);
+
+    // Lowering a stat frees points
+    editor.updatePlayerStats(team.id, 15, { kicking: 50 });
+    expect(editor.getBudgetRemaining(team.id)).toBe(10);
+  });
+
+  it('should ignore unreadable saved data', () => {
+    store.set('rugby_custom_teams', '{not json');
+    expect(new TeamEditor().getTeams()).toEqual([]);
+  });
+
+  it('should feed custom player stats and names into Team players', () => {
+    EventBus.clear();
+    const editor = new TeamEditor();
+    const team = editor.createTeam('Custom', 0x22c55e);
+    editor.updatePlayerName(team.id, 10, 'Carter');
+    editor.updatePlayerStats(team.id, 10, { kicking: 99, speed: 40 });
+
+    const stats = TeamEditor.toTeamStats(editor.getTeam(team.id)!);
+    const built = new Team(new HeadlessScene().asPhaserScene(), 'home', stats);
+    const flyHalf = built.getPlayerByPosition(Position.FLY_HALF);
+
+    expect(flyHalf.name).toBe('Carter');
+    expect(flyHalf.stats.kicking).toBe(99);
+    expect(flyHalf.stats.speed).toBe(40);
+    expect(built.getPlayerByPosition(Position.HOOKER).name).toBe('Hooker');
+    expect(stats.color).toBe(0x22c55e);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Team } from '../../src/entities/Team';
+import type { TeamStats } from '../../src/entities/Team';
+import { RuckSystem } from '../../src/systems/RuckSystem';
+import { ScrumSystem } from '../../src/systems/ScrumSystem';
+import { NATIONS, Position } from '../../src/utils/Constants';
+import { AVERAGE, useMatchFixture } from '../fixtures';
+
+const nation = (name: string): TeamStats => NATIONS.find(n => n.name === name)!;
+
+describe('Team squad profiles', () => {
+  const match = useMatchFixture();
+
+  it('should keep positional defaults for an average side', () => {
+    const team = new Team(match.scene, 'home', AVERAGE);
+    const prop = team.getPlayerByPosition(Position.LOOSEHEAD_PROP);
+    const flyHalf = team.getPlayerByPosition(Position.FLY_HALF);
+
+    expect(prop.stats.strength).toBe(85);
+    expect(flyHalf.stats.kicking).toBe(90);
+  });
+
+  it('should scale each player stat by the matching team rating', () => {
+    const boks = new Team(match.scene, 'home', nation('Springboks'));
+    const wallabies = new Team(match.scene, 'away', nation('Wallabies'));
+    const boksLock = boks.getPlayerByPosition(Position.LOCK_4);
+    const wallabiesLock = wallabies.getPlayerByPosition(Position.LOCK_4);
+
+    expect(boksLock.stats.strength).toBeGreaterThan(wallabiesLock.stats.strength);
+    expect(boksLock.stats.workRate).toBeGreaterThan(wallabiesLock.stats.workRate);
+    expect(boksLock.stats.speed).toBeLessThan(wallabiesLock.stats.speed);
+    const scrum = new ScrumSystem(boks, wallabies);
+    expect(scrum.getStrength('home')).toBeGreaterThan(scrum.getStrength('away'));
+    for (const p of boks.players) {
+      expect(Math.max(...Object.values(p.stats))).toBeLessThanOrEqual(99);
+    }
+  });
+
+  it('should let custom squad stats override the profile', () => {
+    const team = new Team(match.scene, 'home', {
+      ...nation('Springboks'),
+      squad: [{ position: Position.HOOKER, stats: { handling: 40 } }],
+    });
+    expect(team.getHookingSkill()).toBe(40);
+    expect(team.getPlayerByPosition(Position.HOOKER).stats.strength).toBeGreaterThan(85);
+  });
+
+  it('should win the ruck contest with the stronger pack', () => {
+    const boks = new Team(match.scene, 'home', nation('Springboks'));
+    const wallabies = new Team(match.scene, 'away', nation('Wallabies'));
+
+    const contest = (attack: Team, defence: Team) => {
+      const ruck = new RuckSystem(match.scene);
+      ruck.startRuck(700, 350, attack.side);
+      // Everyone binds on from straight behind the ball on their own side
+      const bind = (team: Team, pos: Position, isAttacker: boolean) => {
+        const player = team.getPlayerByPosition(pos);
+        player.sprite.setPosition(team.side === 'home' ? 660 : 740, 350);
+        ruck.commitPlayer(player, isAttacker);
+      };
+      for (const pos of [Position.LOCK_4, Position.LOCK_5, Position.NUMBER_8]) {
+        bind(attack, pos, true);
+        bind(defence, pos, false);
+      }
+      ruck.update(300);
+      return ruck.getState().dominance;
+    };
+
+    expect(contest(boks, wallabies)).toBeGreaterThan(0);
+    expect(contest(wallabies, boks)).toBeLessThan(0);
+  });
+});
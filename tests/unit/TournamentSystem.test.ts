@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TournamentSystem } from '../../src/systems/TournamentSystem';
+
+const TEAMS = ['All Blacks', 'Springboks', 'Wallabies', 'England'].map((name, i) => ({ name, color: i }));
+
+describe('TournamentSystem', () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => { store.set(k, v); },
+      removeItem: (k: string) => { store.delete(k); },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should schedule every pairing once in a league', () => {
+    const t = new TournamentSystem();
+    t.initLeague(TEAMS);
+    expect(t.getMatches()).toHaveLength(6);
+    expect(t.getFormat()).toBe('league');
+  });
+
+  it('should record a result given the teams either way round', () => {
+    const t = new TournamentSystem();
+    t.initLeague(TEAMS);
+    const first = t.getNextMatch()!;
+
+    // User played as home in MatchScene, but was the away side in the fixture
+    t.recordResult(first.away, first.home, 24, 10);
+
+    expect(first.played).toBe(true);
+    expect(first.homeScore).toBe(10);
+    expect(first.awayScore).toBe(24);
+    expect(t.getLeagueTable()[0].name).toBe(first.away);
+  });
+
+  it('should give no try bonus for a win built on penalty goals', () => {
+    const t = new TournamentSystem();
+    t.initLeague(TEAMS);
+    t.recordResult('All Blacks', 'Springboks', 21, 0, 0, 0);
+    t.recordResult('Wallabies', 'England', 20, 14, 4, 2);
+
+    const table = t.getLeagueTable();
+    expect(table[0].name).toBe('Wallabies');
+    expect(table[0].bonusPoints).toBe(1);
+    expect(table.find(x => x.name === 'All Blacks')!.bonusPoints).toBe(0);
+    expect(table.find(x => x.name === 'England')!.bonusPoints).toBe(1); // Lost by 6
+  });
+
+  it('should award the four-try bonus to a losing side too', () => {
+    const t = new TournamentSystem();
+    t.initLeague(TEAMS);
+    t.recordResult('All Blacks', 'Springboks', 40, 24, 6, 4);
+
+    const team = (name: string) => t.getTeams().find(x => x.name === name)!;
+    expect(team('All Blacks').bonusPoints).toBe(1);
+    expect(team('Springboks').bonusPoints).toBe(1);
+    expect(team('Springboks').triesFor).toBe(4);
+  });
+
+  it('should support the three-tries-more bonus rule', () => {
+    const t = new TournamentSystem({ tryBonus: 'three_more' });
+    t.initLeague(TEAMS);
+    t.recordResult('All Blacks', 'Springboks', 40, 24, 6, 4);
+    t.recordResult('Wallabies', 'England', 24, 0, 3, 0);
+
+    const team = (name: string) => t.getTeams().find(x => x.name === name)!;
+    expect(team('All Blacks').bonusPoints).toBe(0);
+    expect(team('Springboks').bonusPoints).toBe(0);
+    expect(team('Wallabies').bonusPoints).toBe(1);
+  });
+
+  it('should rank more wins above a better points difference', () => {
+    const t = new TournamentSystem({ losingBonusMargin: 0 });
+    t.initLeague(TEAMS);
+    // 4 points each: All Blacks from a win (PD -33), Springboks from two draws (PD 0)
+    t.recordResult('All Blacks', 'Wallabies', 10, 3);
+    t.recordResult('All Blacks', 'England', 0, 40);
+    t.recordResult('Springboks', 'Wallabies', 5, 5);
+    t.recordResult('Springboks', 'England', 5, 5);
+
+    const order = t.getLeagueTable().map(x => x.name);
+    expect(order.indexOf('All Blacks')).toBeLessThan(order.indexOf('Springboks'));
+  });
+
+  it('should fall back to head-to-head when everything else is level', () => {
+    const t = new TournamentSystem({ losingBonusMargin: 0 });
+    t.initLeague(TEAMS);
+    // One win each, same points difference and tries — Springboks won the meeting
+    t.recordResult('All Blacks', 'Springboks', 3, 10, 0, 1);
+    t.recordResult('All Blacks', 'Wallabies', 10, 3, 1, 0);
+    t.recordResult('Springboks', 'England', 3, 10, 0, 1);
+
+    const order = t.getLeagueTable().map(x => x.name);
+    expect(order.indexOf('Springboks')).toBeLessThan(order.indexOf('All Blacks'));
+  });
+
+  it('should know which fixtures the user plays', () => {
+    const t = new TournamentSystem();
+    t.initLeague(TEAMS);
+    t.setUserTeam('Wallabies');
+
+    const userMatches = t.getMatches().filter(m => t.isUserMatch(m));
+    expect(userMatches).toHaveLength(3);
+    expect(userMatches.every(m => m.home === 'Wallabies' || m.away === 'Wallabies')).toBe(true);
+  });
+
+  it('should advance a knockout to a final and crown the winner', () => {
+    const t = new TournamentSystem();
+    t.initKnockout(TEAMS);
+
+    for (let next = t.getNextMatch(); next; next = t.getNextMatch()) {
+      t.recordResult(next.home, next.away, 20, 13);
+    }
+
+    expect(t.getCurrentRound()).toBe(2);
+    expect(t.isTournamentComplete()).toBe(true);
+    expect(t.getWinner()).toBe('All Blacks');
+  });
+
+  it('should save and reload a tournament in progress', () => {
+    const t = new TournamentSystem();
+    t.initKnockout(TEAMS);
+    t.setUserTeam('England');
+    t.recordResult('All Blacks', 'Springboks', 7, 3);
+    t.save();
+
+    const loaded = new TournamentSystem();
+    expect(loaded.load()).toBe(true);
+    expect(loaded.getUserTeam()).toBe('England');
+    expect(loaded.getMatches().filter(m => m.played)).toHaveLength(1);
+  });
+
+  it('should ignore unreadable saved data', () => {
+    store.set('rugby_tournament', '{not json');
+    expect(new TournamentSystem().load()).toBe(false);
+  });
+});
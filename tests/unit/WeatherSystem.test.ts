@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WeatherSystem, WEATHER_TYPES } from '../../src/systems/WeatherSystem';
+import type { WeatherForecast } from '../../src/systems/WeatherSystem';
+import { catchProbability } from '../../src/components/Stats';
+import { HeadlessScene } from '../../src/utils/HeadlessScene';
+import { Team } from '../../src/entities/Team';
+import { Ball } from '../../src/entities/Ball';
+import { BALL, Position } from '../../src/utils/Constants';
+import { RNG, SeededRandom } from '../../src/utils/Random';
+import { EventBus } from '../../src/utils/EventBus';
+
+const STATS = { rating: 70, strength: 70, speed: 70, kicking: 70, handling: 70, color: 0xffffff };
+
+describe('WeatherSystem', () => {
+  let weather: WeatherSystem;
+
+  beforeEach(() => {
+    weather = new WeatherSystem();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should resolve a fixed choice without touching the RNG', () => {
+    const spy = vi.spyOn(RNG, 'next');
+    expect(WeatherSystem.resolve('rain')).toBe('rain');
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('should roll a random choice from the RNG', () => {
+    vi.spyOn(RNG, 'next').mockReturnValue(0.99);
+    expect(WeatherSystem.resolve('random')).toBe(WEATHER_TYPES[WEATHER_TYPES.length - 1]);
+  });
+
+  it('should let a loose ball skid further on a wet pitch', () => {
+    expect(weather.ballFriction(BALL.FRICTION)).toBeCloseTo(BALL.FRICTION);
+    weather.setWeather('rain');
+    expect(weather.ballFriction(BALL.FRICTION)).toBeGreaterThan(BALL.FRICTION);
+  });
+
+  it('should mirror the wind for each kicking direction', () => {
+    weather.setWeather('rain_and_wind');
+    const home = weather.goalKickWind('home');
+    const away = weather.goalKickWind('away');
+
+    expect(home.tailwind).toBeGreaterThan(0);
+    expect(away.tailwind).toBe(-home.tailwind);
+    expect(away.crosswind).toBe(-home.crosswind);
+  });
+
+  it('should raise the knock-on chance in the rain', () => {
+    weather.setWeather('rain');
+    const modifier = weather.getConfig().knockOnModifier;
+    const dry = catchProbability(70, 0.9);
+    const wet = catchProbability(70, 0.9, modifier);
+
+    expect(modifier).toBeGreaterThan(1);
+    expect(1 - wet).toBeCloseTo((1 - dry) * modifier);
+    expect(catchProbability(0, 0.1, 100)).toBe(0);
+  });
+
+  it('should drift kicks downwind when attached to the ball', () => {
+    EventBus.clear();
+    const scene = new HeadlessScene().asPhaserScene();
+    const team = new Team(scene, 'home', STATS);
+    const kicker = team.getPlayerByPosition(Position.FLY_HALF);
+    const ball = new Ball(scene, kicker.sprite.x, kicker.sprite.y);
+
+    const land = (b: Ball) => {
+      b.attachToPlayer(kicker);
+      b.kickWithType(kicker, 1, 300, 900, 350, 0.2, 2, false, 0);
+      for (let i = 0; i < 100; i++) b.update(50);
+      return { x: b.sprite.x, y: b.sprite.y };
+    };
+
+    const still = land(ball);
+    weather.setWeather('wind');
+    ball.setWeather(weather);
+    const windy = land(ball);
+
+    expect(windy.x).toBeGreaterThan(still.x);
+    expect(windy.y).toBeGreaterThan(still.y);
+  });
+
+  describe('forecast', () => {
+    const forecast: WeatherForecast = {
+      start: 'wind',
+      windDirection: 1,
+      changes: [
+        { half: 2, minute: 40, type: 'wind', windDirection: -1, description: 'Wind swung round at the break' },
+        { half: 2, minute: 55, type: 'rain_and_wind', windDirection: -1, description: 'Rain setting in' },
+      ],
+    };
+
+    beforeEach(() => {
+      EventBus.clear();
+    });
+
+    it('should roll the same forecast from the same seed', () => {
+      const a = WeatherSystem.generateForecast('random', new SeededRandom(42));
+      const b = WeatherSystem.generateForecast('random', new SeededRandom(42));
+      expect(a).toEqual(b);
+      expect(WeatherSystem.describeForecast(a)[0]).toMatch(/^Kick-off: /);
+    });
+
+    it('should apply scheduled changes when the clock reaches them', () => {
+      const announced: string[] = [];
+      EventBus.on('weatherChange', (d) => announced.push(d.description));
+      weather.setForecast(forecast);
+      const windX = weather.getConfig().windForceX;
+
+      // First-half injury time runs past minute 40 without triggering the half-time change
+      weather.update(1, 42);
+      expect(weather.getConfig().windForceX).toBe(windX);
+
+      weather.update(2, 40);
+      expect(weather.getConfig().windForceX).toBe(-windX);
+
+      weather.update(2, 55);
+      expect(weather.getWeatherType()).toBe('rain_and_wind');
+      expect(announced).toEqual(['Wind swung round at the break', 'Rain setting in']);
+      expect(weather.getPendingChanges()).toHaveLength(0);
+    });
+
+    it('should soak the pitch the longer it rains and dry it afterwards', () => {
+      const announced: string[] = [];
+      EventBus.on('weatherChange', (d) => announced.push(d.description));
+      weather.setForecast({ start: 'rain', windDirection: 1, changes: [] });
+      const fresh = weather.getConfig();
+
+      for (let minute = 1; minute <= 30; minute++) weather.update(1, minute);
+      const soaked = weather.getWetness();
+
+      expect(soaked).toBeGreaterThan(0.6);
+      expect(weather.getConfig().knockOnModifier).toBeGreaterThan(fresh.knockOnModifier);
+      expect(weather.getConfig().frictionModifier).toBeGreaterThan(fresh.frictionModifier);
+      expect(announced).toEqual(['Pitch getting heavy']);
+
+      weather.setWeather('clear');
+      weather.update(1, 40);
+      expect(weather.getWetness()).toBeLessThan(soaked);
+    });
+  });
+});